@@ -0,0 +1,20 @@
+/**
+ * Game actions API — POST /api/<route> for every registered game type
+ * (/api/trivia, /api/pir, /api/hol, /api/survey). Hands the request to the
+ * game type's handler in lib/game-actions; see the handler modules for the
+ * actions each accepts.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { findGameActions } from "@/lib/game-actions";
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ game: string }> }) {
+  const { game } = await params;
+  const actions = findGameActions(game);
+
+  if (!actions) {
+    return NextResponse.json({ error: "Unknown game type" }, { status: 404 });
+  }
+
+  const { default: handle } = await actions.handler();
+  return handle(req);
+}
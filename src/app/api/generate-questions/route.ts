@@ -1,5 +1,65 @@
 import { NextRequest, NextResponse } from "next/server";
 import type { GenerateQuestionsRequest, GenerateQuestionsResponse, GeneratedQuestion } from "@/lib/types";
+import {
+  clampChoiceCount,
+  DEFAULT_CHOICE_COUNT,
+  TRUE_FALSE_CHOICES,
+} from "@/lib/question-types";
+
+/** Spreads the true/false questions evenly through the set instead of bunching them */
+function isTrueFalseSlot(index: number, count: number, trueFalseCount: number): boolean {
+  return (
+    Math.floor(((index + 1) * trueFalseCount) / count) > Math.floor((index * trueFalseCount) / count)
+  );
+}
+
+/**
+ * Keeps the correct choice and enough wrong ones to make `choiceCount`.
+ * Returns null when there's no correct choice or too few wrong ones to fill the list.
+ */
+function fitChoices(
+  choices: GeneratedQuestion["choices"],
+  choiceCount: number
+): GeneratedQuestion["choices"] | null {
+  const correct = choices.find((c) => c.isCorrect);
+  const wrong = choices.filter((c) => !c.isCorrect && c.text?.trim());
+  if (!correct || wrong.length < choiceCount - 1) return null;
+  const kept = wrong.slice(0, choiceCount - 1);
+  // Put the correct answer back where it was, as far as the trimmed list allows
+  const at = Math.min(choices.indexOf(correct), kept.length);
+  return [...kept.slice(0, at), correct, ...kept.slice(at)];
+}
+
+/**
+ * Forces each question into the requested format — models don't always count.
+ * Returns null for a question that can't be played as asked, so it gets dropped.
+ */
+function normalizeQuestion(
+  q: GeneratedQuestion,
+  trueFalse: boolean,
+  choiceCount: number
+): GeneratedQuestion | null {
+  if (!q.prompt?.trim() || !Array.isArray(q.choices)) return null;
+  if (trueFalse) {
+    const correctText = q.choices.find((c) => c.isCorrect)?.text?.trim().toLowerCase();
+    if (correctText !== "true" && correctText !== "false") return null;
+    const isTrue = correctText === "true";
+    return {
+      ...q,
+      questionType: "true_false",
+      choices: TRUE_FALSE_CHOICES.map((text, i) => ({ text, isCorrect: (i === 0) === isTrue })),
+    };
+  }
+  const choices = fitChoices(q.choices, choiceCount);
+  return choices && { ...q, questionType: "multiple_choice", choices };
+}
+
+function readFormat(req: GenerateQuestionsRequest) {
+  return {
+    trueFalseCount: Math.min(req.count, Math.max(0, req.trueFalseCount || 0)),
+    choiceCount: clampChoiceCount(req.choiceCount || DEFAULT_CHOICE_COUNT),
+  };
+}
 
 // Mock generator returns deterministic sample questions when no API key is configured
 function generateMockQuestions(req: GenerateQuestionsRequest): GeneratedQuestion[] {
@@ -55,12 +115,23 @@ function generateMockQuestions(req: GenerateQuestionsRequest): GeneratedQuestion
 
   const base = templates.default;
   const questions: GeneratedQuestion[] = [];
+  const { trueFalseCount, choiceCount } = readFormat(req);
 
   for (let i = 0; i < req.count; i++) {
+    const trueFalse = isTrueFalseSlot(i, req.count, trueFalseCount);
     const template = base[i % base.length];
+    const question: GeneratedQuestion = trueFalse
+      ? {
+          prompt: `True or false: ${req.topic} is older than the internet.`,
+          choices: [
+            { text: "True", isCorrect: i % 2 === 0 },
+            { text: "False", isCorrect: i % 2 !== 0 },
+          ],
+        }
+      : { prompt: template.prompt, choices: withMockWrongAnswers(template.choices, choiceCount) };
+
     questions.push({
-      prompt: template.prompt,
-      choices: template.choices.map((c) => ({ ...c })),
+      ...normalizeQuestion(question, trueFalse, choiceCount)!,
       explanation: `This is a sample explanation for question ${i + 1} about ${req.topic}.`,
     });
   }
@@ -68,11 +139,23 @@ function generateMockQuestions(req: GenerateQuestionsRequest): GeneratedQuestion
   return questions;
 }
 
-function generateMockWrongAnswers(correctAnswer: string): string[] {
+function generateMockWrongAnswers(correctAnswer: string, count: number): string[] {
+  return Array.from(
+    { length: count },
+    (_, i) => `Not ${correctAnswer} (option ${String.fromCharCode(65 + i)})`
+  );
+}
+
+/** Tops a sample question up with mock wrong answers when more choices are asked for than it has */
+function withMockWrongAnswers(
+  choices: GeneratedQuestion["choices"],
+  choiceCount: number
+): GeneratedQuestion["choices"] {
+  const missing = Math.max(0, choiceCount - choices.length);
+  const correct = choices.find((c) => c.isCorrect)!.text;
   return [
-    `Not ${correctAnswer} (option A)`,
-    `Not ${correctAnswer} (option B)`,
-    `Not ${correctAnswer} (option C)`,
+    ...choices.map((c) => ({ ...c })),
+    ...generateMockWrongAnswers(correct, missing).map((text) => ({ text, isCorrect: false })),
   ];
 }
 
@@ -82,19 +165,29 @@ async function generateWithAI(req: GenerateQuestionsRequest): Promise<GeneratedQ
   const apiUrl = process.env.AI_API_URL || "https://api.openai.com/v1/chat/completions";
   const model = process.env.AI_MODEL || "gpt-4o-mini";
 
-  const systemPrompt = `You are a trivia question generator. Generate exactly ${req.count} multiple-choice trivia questions.
-Each question must have exactly 4 answer choices, with exactly 1 correct answer and 3 wrong answers.
+  const { trueFalseCount, choiceCount } = readFormat(req);
+  const multipleChoiceCount = req.count - trueFalseCount;
+
+  const formatRules = [
+    multipleChoiceCount > 0 &&
+      `${multipleChoiceCount} multiple-choice question(s) with "type": "multiple_choice" and exactly ${choiceCount} answer choices each, with exactly 1 correct answer and ${choiceCount - 1} wrong answers.`,
+    trueFalseCount > 0 &&
+      `${trueFalseCount} true/false statement(s) with "type": "true_false" and exactly 2 choices, "True" then "False", with exactly 1 marked correct.`,
+  ].filter(Boolean);
+
+  const systemPrompt = `You are a trivia question generator. Generate exactly ${req.count} trivia questions:
+${formatRules.map((r) => `- ${r}`).join("\n")}
+Mix the formats through the list rather than grouping them.
 Target audience: ${req.ageRange.replace("_", " ")}. Difficulty: ${req.difficulty}.
 Return ONLY valid JSON in this exact format:
 {
   "questions": [
     {
+      "type": "multiple_choice",
       "prompt": "The question text",
       "choices": [
         { "text": "Answer A", "isCorrect": false },
-        { "text": "Answer B", "isCorrect": true },
-        { "text": "Answer C", "isCorrect": false },
-        { "text": "Answer D", "isCorrect": false }
+        { "text": "Answer B", "isCorrect": true }
       ],
       "explanation": "Brief explanation of the correct answer"
     }
@@ -125,23 +218,27 @@ Return ONLY valid JSON in this exact format:
   const data = await res.json();
   const content = data.choices[0].message.content;
   const parsed = JSON.parse(content);
-  return parsed.questions;
+  // Malformed questions are dropped rather than patched with placeholder answers
+  return ((parsed.questions ?? []) as (GeneratedQuestion & { type?: string })[])
+    .map((q) => normalizeQuestion(q, q.type === "true_false", choiceCount))
+    .filter((q): q is GeneratedQuestion => q !== null);
 }
 
 async function generateWrongAnswersWithAI(
   questionPrompt: string,
   correctAnswer: string,
-  topic: string
+  topic: string,
+  count: number
 ): Promise<string[]> {
   const apiKey = process.env.AI_API_KEY!;
   const apiUrl = process.env.AI_API_URL || "https://api.openai.com/v1/chat/completions";
   const model = process.env.AI_MODEL || "gpt-4o-mini";
 
   const systemPrompt = `You generate plausible but incorrect answer choices for trivia questions.
-Given a question and its correct answer, generate exactly 3 wrong but believable answer choices.
+Given a question and its correct answer, generate exactly ${count} wrong but believable answer choices.
 Return ONLY valid JSON in this exact format:
 {
-  "wrongAnswers": ["Wrong A", "Wrong B", "Wrong C"]
+  "wrongAnswers": ["Wrong A", "Wrong B"]
 }`;
 
   const res = await fetch(apiUrl, {
@@ -156,7 +253,7 @@ Return ONLY valid JSON in this exact format:
         { role: "system", content: systemPrompt },
         {
           role: "user",
-          content: `Topic: ${topic}\nQuestion: ${questionPrompt}\nCorrect answer: ${correctAnswer}\n\nGenerate 3 plausible wrong answers.`,
+          content: `Topic: ${topic}\nQuestion: ${questionPrompt}\nCorrect answer: ${correctAnswer}\n\nGenerate ${count} plausible wrong answers.`,
         },
       ],
       temperature: 0.9,
@@ -181,6 +278,7 @@ export async function POST(request: NextRequest) {
 
     if (mode === "wrong_answers") {
       const { questionPrompt, correctAnswer, topic } = body;
+      const count = clampChoiceCount((body.count ?? DEFAULT_CHOICE_COUNT - 1) + 1) - 1;
       if (!questionPrompt || !correctAnswer) {
         return NextResponse.json(
           { error: "Provide questionPrompt and correctAnswer." },
@@ -193,10 +291,11 @@ export async function POST(request: NextRequest) {
         wrongAnswers = await generateWrongAnswersWithAI(
           questionPrompt,
           correctAnswer,
-          topic || ""
+          topic || "",
+          count
         );
       } else {
-        wrongAnswers = generateMockWrongAnswers(correctAnswer);
+        wrongAnswers = generateMockWrongAnswers(correctAnswer, count);
       }
 
       return NextResponse.json({ wrongAnswers });
@@ -220,6 +319,13 @@ export async function POST(request: NextRequest) {
       questions = generateMockQuestions(questionsReq);
     }
 
+    if (questions.length === 0) {
+      return NextResponse.json(
+        { error: "The generator didn't return any usable questions. Try again." },
+        { status: 502 }
+      );
+    }
+
     const response: GenerateQuestionsResponse = {
       topic: questionsReq.topic,
       ageRange: questionsReq.ageRange,
@@ -0,0 +1,250 @@
+/**
+ * Players API — joining a session and proving identity afterwards
+ * POST /api/players with { action, sessionId, ... }
+ *
+ * join     → creates the session_players row and returns a signed player token
+ * rejoin   → exchanges a stored token for the player (after a refresh)
+ * reissue  → host-only; invalidates a player's token and returns a new one so
+ *            they can continue on another phone
+ * choose_team → a player picks their team in the lobby (team_mode "choose")
+ * carry_over  → swaps a token from a playlist's previous game for the
+ *               player's carried-over row in the next one (see lib/playlists)
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceSupabase } from "@/lib/supabase/server";
+import { signPlayerToken, verifyPlayerToken } from "@/lib/player-token";
+import { authorizeHost } from "@/lib/session-auth";
+import { getSmallestTeam } from "@/lib/teams";
+import { getPlaylistPlayerKey } from "@/lib/playlists";
+
+export async function POST(req: NextRequest) {
+  const supabase = await createServiceSupabase();
+  const body = await req.json();
+  const { action, sessionId } = body;
+
+  if (!sessionId) {
+    return NextResponse.json({ error: "sessionId required" }, { status: 400 });
+  }
+
+  try {
+    switch (action) {
+      case "join": return await join(supabase, body);
+      case "rejoin": return await rejoin(supabase, body);
+      case "reissue": return await reissue(supabase, body);
+      case "choose_team": return await chooseTeam(supabase, body);
+      case "carry_over": return await carryOver(supabase, body);
+      default:
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+type SB = Awaited<ReturnType<typeof createServiceSupabase>>;
+
+async function join(
+  supabase: SB,
+  body: { sessionId: string; displayName: string; avatarColor: string }
+) {
+  const { sessionId, avatarColor } = body;
+  const displayName = (body.displayName || "").trim().slice(0, 20);
+
+  if (!displayName) {
+    return NextResponse.json({ error: "Enter a display name" }, { status: 400 });
+  }
+
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("status, team_mode")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+  if (session.status !== "lobby") {
+    return NextResponse.json({ error: "This game has already started" }, { status: 409 });
+  }
+
+  // De-duplicate names: "Sam", "Sam2", "Sam3"…
+  const { data: existing } = await supabase
+    .from("session_players")
+    .select("display_name, team_id")
+    .eq("session_id", sessionId)
+    .eq("is_removed", false);
+
+  let finalName = displayName;
+  const names = (existing || []).map((p) => p.display_name.toLowerCase());
+  if (names.includes(finalName.toLowerCase())) {
+    let counter = 2;
+    while (names.includes(`${finalName.toLowerCase()}${counter}`)) counter++;
+    finalName = `${finalName}${counter}`;
+  }
+
+  // Auto-balanced teams: newcomers go on the smallest team
+  let teamId: string | null = null;
+  if (session.team_mode === "auto") {
+    const { data: teams } = await supabase
+      .from("session_teams")
+      .select("*")
+      .eq("session_id", sessionId);
+    teamId = getSmallestTeam(teams || [], existing || [])?.id ?? null;
+  }
+
+  const { data: player, error: insertError } = await supabase
+    .from("session_players")
+    .insert({
+      session_id: sessionId,
+      display_name: finalName,
+      avatar_color: avatarColor,
+      team_id: teamId,
+    })
+    .select()
+    .single();
+
+  if (insertError) throw new Error(insertError.message);
+
+  const token = signPlayerToken({ sid: sessionId, pid: player.id, ver: player.token_version });
+  return NextResponse.json({ player, token });
+}
+
+async function rejoin(supabase: SB, body: { sessionId: string; token: string }) {
+  const claims = body.token ? verifyPlayerToken(body.token) : null;
+  if (!claims || claims.sid !== body.sessionId) {
+    return NextResponse.json({ error: "Player token is invalid" }, { status: 403 });
+  }
+
+  const { data: player } = await supabase
+    .from("session_players")
+    .select("*")
+    .eq("id", claims.pid)
+    .eq("session_id", body.sessionId)
+    .maybeSingle();
+
+  if (!player || player.token_version !== claims.ver) {
+    return NextResponse.json({ error: "You rejoined on another device" }, { status: 403 });
+  }
+
+  // Removed players still get their row back so the phone can say so
+  return NextResponse.json({ player });
+}
+
+async function reissue(supabase: SB, body: { sessionId: string; playerId: string }) {
+  const denied = await authorizeHost(supabase, body.sessionId);
+  if (denied) return denied;
+
+  const { data: player } = await supabase
+    .from("session_players")
+    .select("id, token_version")
+    .eq("id", body.playerId)
+    .eq("session_id", body.sessionId)
+    .maybeSingle();
+
+  if (!player) throw new Error("Player not found");
+
+  const version = player.token_version + 1;
+  await supabase
+    .from("session_players")
+    .update({ token_version: version })
+    .eq("id", player.id);
+
+  const token = signPlayerToken({ sid: body.sessionId, pid: player.id, ver: version });
+  return NextResponse.json({ token });
+}
+
+async function chooseTeam(
+  supabase: SB,
+  body: { sessionId: string; token: string; teamId: string }
+) {
+  const claims = body.token ? verifyPlayerToken(body.token) : null;
+  if (!claims || claims.sid !== body.sessionId) {
+    return NextResponse.json({ error: "Player token is invalid" }, { status: 403 });
+  }
+
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("status, team_mode")
+    .eq("id", body.sessionId)
+    .maybeSingle();
+
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+  if (session.team_mode !== "choose") {
+    return NextResponse.json({ error: "The host is picking teams" }, { status: 409 });
+  }
+  if (session.status !== "lobby") {
+    return NextResponse.json({ error: "Teams are locked once the game starts" }, { status: 409 });
+  }
+
+  const { data: team } = await supabase
+    .from("session_teams")
+    .select("id")
+    .eq("id", body.teamId)
+    .eq("session_id", body.sessionId)
+    .maybeSingle();
+
+  if (!team) {
+    return NextResponse.json({ error: "Team not found" }, { status: 404 });
+  }
+
+  const { data: player } = await supabase
+    .from("session_players")
+    .update({ team_id: team.id })
+    .eq("id", claims.pid)
+    .eq("session_id", body.sessionId)
+    .eq("token_version", claims.ver)
+    .eq("is_removed", false)
+    .select()
+    .maybeSingle();
+
+  if (!player) {
+    return NextResponse.json({ error: "You're no longer in this game" }, { status: 403 });
+  }
+
+  return NextResponse.json({ player });
+}
+
+async function carryOver(supabase: SB, body: { sessionId: string; token: string }) {
+  const claims = body.token ? verifyPlayerToken(body.token) : null;
+  if (!claims) {
+    return NextResponse.json({ error: "Player token is invalid" }, { status: 403 });
+  }
+
+  const { data: previous } = await supabase
+    .from("session_players")
+    .select("id, token_version, playlist_player_id")
+    .eq("id", claims.pid)
+    .eq("session_id", claims.sid)
+    .maybeSingle();
+
+  if (!previous || previous.token_version !== claims.ver) {
+    return NextResponse.json({ error: "Player token is invalid" }, { status: 403 });
+  }
+
+  const { data: sessions } = await supabase
+    .from("sessions")
+    .select("id, playlist_id")
+    .in("id", [claims.sid, body.sessionId]);
+
+  const playlistOf = (id: string) => sessions?.find((s) => s.id === id)?.playlist_id ?? null;
+  if (!playlistOf(body.sessionId) || playlistOf(claims.sid) !== playlistOf(body.sessionId)) {
+    return NextResponse.json({ error: "That game isn't on the same playlist" }, { status: 403 });
+  }
+
+  const { data: player } = await supabase
+    .from("session_players")
+    .select("*")
+    .eq("session_id", body.sessionId)
+    .eq("playlist_player_id", getPlaylistPlayerKey(previous))
+    .maybeSingle();
+
+  if (!player) {
+    return NextResponse.json({ error: "You weren't carried over to this game" }, { status: 404 });
+  }
+
+  const token = signPlayerToken({ sid: body.sessionId, pid: player.id, ver: player.token_version });
+  return NextResponse.json({ player, token });
+}
@@ -0,0 +1,374 @@
+/**
+ * Playlists API — game nights that run several games under one join code
+ * POST /api/playlists with { action, ... }
+ *
+ * create    → { gameIds, name?, displayMode? } starts a playlist and a lobby
+ *             for its first game; returns { playlistId, sessionId }
+ * next_game → { sessionId } once the current game has finished, opens the
+ *             next upcoming game's lobby under the same code with everyone
+ *             (and their teams) carried over; returns { sessionId }
+ * move_game → { sessionId, playlistGameId, direction: -1 | 1 } reorders an
+ *             upcoming game
+ * skip_game → { sessionId, playlistGameId } drops an upcoming game (and
+ *             brings a skipped one back with { restore: true })
+ * finish    → { sessionId } ends the game night once its current game is over
+ *
+ * All of them are host-only. sessionId is the playlist's current game.
+ * See lib/playlists.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabase, createServiceSupabase } from "@/lib/supabase/server";
+import { authorizeHost } from "@/lib/session-auth";
+import { generateGameCode } from "@/lib/game-code";
+import { newSessionRow } from "@/lib/game-session";
+import {
+  getNextPlaylistGame,
+  getPlaylistPlayerKey,
+  MAX_PLAYLIST_GAMES,
+  MAX_PLAYLIST_NAME_LENGTH,
+  MIN_PLAYLIST_GAMES,
+  moveUpcomingGame,
+  PLAYLIST_DISPLAY_MODES,
+} from "@/lib/playlists";
+import { getTeamScoringFor } from "@/lib/teams";
+import type { PlaylistGame, Session, SessionPlaylist } from "@/lib/types";
+
+export async function POST(req: NextRequest) {
+  const supabase = await createServiceSupabase();
+  const body = await req.json();
+  const { action } = body;
+
+  try {
+    if (action === "create") return await createPlaylist(supabase, body);
+
+    if (!body.sessionId) {
+      return NextResponse.json({ error: "sessionId required" }, { status: 400 });
+    }
+    const denied = await authorizeHost(supabase, body.sessionId);
+    if (denied) return denied;
+
+    const loaded = await loadPlaylist(supabase, body.sessionId);
+    if (loaded instanceof NextResponse) return loaded;
+
+    switch (action) {
+      case "next_game": return await nextGame(supabase, loaded);
+      case "move_game": return await moveGame(supabase, loaded, body);
+      case "skip_game": return await skipGame(supabase, loaded, body);
+      case "finish": return await finishPlaylist(supabase, loaded);
+      default:
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+type SB = Awaited<ReturnType<typeof createServiceSupabase>>;
+
+interface LoadedPlaylist {
+  playlist: SessionPlaylist;
+  games: PlaylistGame[];
+  /** The current game's session */
+  session: Pick<Session, "id" | "status" | "team_mode" | "team_scoring">;
+}
+
+async function loadPlaylist(supabase: SB, sessionId: string): Promise<LoadedPlaylist | NextResponse> {
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("id, status, playlist_id, team_mode, team_scoring")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (!session?.playlist_id) {
+    return NextResponse.json({ error: "This game isn't part of a playlist" }, { status: 404 });
+  }
+
+  const { data: playlist } = await supabase
+    .from("session_playlists")
+    .select("*")
+    .eq("id", session.playlist_id)
+    .single();
+
+  if (!playlist) throw new Error("Playlist not found");
+  if (playlist.current_session_id !== session.id) {
+    return NextResponse.json({ error: "The playlist has moved on to another game" }, { status: 409 });
+  }
+
+  const { data: games } = await supabase
+    .from("playlist_games")
+    .select("*")
+    .eq("playlist_id", playlist.id);
+
+  return { playlist, games: games || [], session };
+}
+
+/**
+ * A lobby for one of the playlist's games, set up from the game's own settings
+ * on the night's display. Team mode carries on from the game before, if given.
+ */
+async function openGameSession(
+  supabase: SB,
+  playlist: Pick<SessionPlaylist, "id" | "host_id" | "code" | "display_mode">,
+  gameId: string,
+  previous?: LoadedPlaylist["session"]
+) {
+  const { data: game } = await supabase
+    .from("games")
+    .select("*")
+    .eq("id", gameId)
+    .single();
+
+  if (!game) throw new Error("Game not found");
+
+  const { data: session, error } = await supabase
+    .from("sessions")
+    .insert({
+      ...newSessionRow(game, {
+        hostId: playlist.host_id,
+        code: playlist.code,
+        displayMode: playlist.display_mode,
+        playlistId: playlist.id,
+      }),
+      ...(previous && {
+        team_mode: previous.team_mode,
+        team_scoring: getTeamScoringFor(game.game_type, previous.team_scoring),
+      }),
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+  return session;
+}
+
+/** Copies a game's teams into the next one; returns each old team's id → its copy's */
+async function carryOverTeams(
+  supabase: SB,
+  from: LoadedPlaylist["session"],
+  toSessionId: string
+): Promise<Map<string, string>> {
+  const teamIds = new Map<string, string>();
+  if (from.team_mode === "off") return teamIds;
+
+  const { data: teams } = await supabase
+    .from("session_teams")
+    .select("id, name, color, team_order")
+    .eq("session_id", from.id);
+
+  for (const team of teams || []) {
+    const { data: copy, error } = await supabase
+      .from("session_teams")
+      .insert({ session_id: toSessionId, name: team.name, color: team.color, team_order: team.team_order })
+      .select("id")
+      .single();
+    if (error) throw new Error(error.message);
+    teamIds.set(team.id, copy.id);
+  }
+  return teamIds;
+}
+
+async function createPlaylist(
+  supabase: SB,
+  body: { gameIds?: unknown; name?: string; displayMode?: unknown }
+) {
+  const authClient = await createServerSupabase();
+  const {
+    data: { user },
+  } = await authClient.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const gameIds = Array.isArray(body.gameIds)
+    ? body.gameIds.filter((id): id is string => typeof id === "string")
+    : [];
+  if (gameIds.length < MIN_PLAYLIST_GAMES || gameIds.length > MAX_PLAYLIST_GAMES) {
+    return NextResponse.json(
+      { error: `Pick ${MIN_PLAYLIST_GAMES}–${MAX_PLAYLIST_GAMES} games` },
+      { status: 400 }
+    );
+  }
+
+  const displayMode = PLAYLIST_DISPLAY_MODES.find((m) => m.value === (body.displayMode ?? "tv"))?.value;
+  if (!displayMode) {
+    return NextResponse.json({ error: "displayMode must be tv or on_the_go" }, { status: 400 });
+  }
+
+  const { data: games } = await supabase
+    .from("games")
+    .select("id, title, game_type")
+    .in("id", gameIds)
+    .eq("host_id", user.id);
+
+  const byId = new Map((games || []).map((g) => [g.id, g]));
+  if (gameIds.some((id) => !byId.has(id))) {
+    return NextResponse.json({ error: "You can only play your own games" }, { status: 403 });
+  }
+
+  let code = generateGameCode();
+  for (let i = 0; i < 5; i++) {
+    const { data: existing } = await supabase
+      .from("sessions")
+      .select("id")
+      .eq("code", code)
+      .neq("status", "finished")
+      .maybeSingle();
+    if (!existing) break;
+    code = generateGameCode();
+  }
+
+  const name = (body.name || "").trim().slice(0, MAX_PLAYLIST_NAME_LENGTH) || "Game Night";
+  const { data: playlist, error: playlistError } = await supabase
+    .from("session_playlists")
+    .insert({ host_id: user.id, name, code, display_mode: displayMode })
+    .select()
+    .single();
+
+  if (playlistError) throw new Error(playlistError.message);
+
+  const { data: playlistGames, error: gamesError } = await supabase
+    .from("playlist_games")
+    .insert(
+      gameIds.map((id, i) => ({
+        playlist_id: playlist.id,
+        game_id: id,
+        title: byId.get(id)!.title,
+        game_type: byId.get(id)!.game_type,
+        position: i,
+      }))
+    )
+    .select();
+
+  if (gamesError) throw new Error(gamesError.message);
+
+  const first = getNextPlaylistGame(playlistGames || []);
+  if (!first) throw new Error("Playlist has no games");
+
+  const session = await openGameSession(supabase, playlist, first.game_id);
+  await supabase
+    .from("playlist_games")
+    .update({ status: "playing", session_id: session.id })
+    .eq("id", first.id);
+  await supabase
+    .from("session_playlists")
+    .update({ current_session_id: session.id })
+    .eq("id", playlist.id);
+
+  return NextResponse.json({ playlistId: playlist.id, sessionId: session.id });
+}
+
+async function nextGame(supabase: SB, { playlist, games, session }: LoadedPlaylist) {
+  if (playlist.status === "finished") {
+    return NextResponse.json({ error: "This game night is over" }, { status: 409 });
+  }
+  if (session.status !== "finished") {
+    return NextResponse.json({ error: "Finish the current game first" }, { status: 409 });
+  }
+
+  const next = getNextPlaylistGame(games);
+  if (!next) {
+    return NextResponse.json({ error: "No games left in the playlist" }, { status: 409 });
+  }
+
+  const nextSession = await openGameSession(supabase, playlist, next.game_id, session);
+  const teamIds = await carryOverTeams(supabase, session, nextSession.id);
+
+  // Everyone still in carries over, under the playlist identity of the first game they played
+  // and on the same team
+  const { data: players } = await supabase
+    .from("session_players")
+    .select("id, display_name, avatar_color, playlist_player_id, team_id")
+    .eq("session_id", session.id)
+    .eq("is_removed", false);
+
+  if (players?.length) {
+    const { error } = await supabase.from("session_players").insert(
+      players.map((p) => ({
+        session_id: nextSession.id,
+        display_name: p.display_name,
+        avatar_color: p.avatar_color,
+        playlist_player_id: getPlaylistPlayerKey(p),
+        team_id: (p.team_id && teamIds.get(p.team_id)) ?? null,
+      }))
+    );
+    if (error) throw new Error(error.message);
+  }
+
+  const current = games.find((g) => g.session_id === session.id);
+  if (current) {
+    await supabase.from("playlist_games").update({ status: "played" }).eq("id", current.id);
+  }
+  await supabase
+    .from("playlist_games")
+    .update({ status: "playing", session_id: nextSession.id })
+    .eq("id", next.id);
+  // Phones and screens follow this to the new game
+  await supabase
+    .from("session_playlists")
+    .update({ current_session_id: nextSession.id })
+    .eq("id", playlist.id);
+
+  return NextResponse.json({ sessionId: nextSession.id });
+}
+
+async function moveGame(
+  supabase: SB,
+  { games }: LoadedPlaylist,
+  body: { playlistGameId: string; direction: number }
+) {
+  if (body.direction !== -1 && body.direction !== 1) {
+    return NextResponse.json({ error: "direction must be -1 or 1" }, { status: 400 });
+  }
+
+  const moves = moveUpcomingGame(games, body.playlistGameId, body.direction);
+  if (!moves) {
+    return NextResponse.json({ error: "Only upcoming games can be reordered" }, { status: 409 });
+  }
+
+  for (const move of moves) {
+    await supabase.from("playlist_games").update({ position: move.position }).eq("id", move.id);
+  }
+  return NextResponse.json({ success: true });
+}
+
+async function skipGame(
+  supabase: SB,
+  { games }: LoadedPlaylist,
+  body: { playlistGameId: string; restore?: boolean }
+) {
+  const game = games.find((g) => g.id === body.playlistGameId);
+  if (!game) {
+    return NextResponse.json({ error: "Game not found in this playlist" }, { status: 404 });
+  }
+  if (game.status !== (body.restore ? "skipped" : "upcoming")) {
+    return NextResponse.json(
+      { error: body.restore ? "That game wasn't skipped" : "Only upcoming games can be skipped" },
+      { status: 409 }
+    );
+  }
+
+  await supabase
+    .from("playlist_games")
+    .update({ status: body.restore ? "upcoming" : "skipped" })
+    .eq("id", game.id);
+  return NextResponse.json({ success: true });
+}
+
+async function finishPlaylist(supabase: SB, { playlist, games, session }: LoadedPlaylist) {
+  if (session.status !== "finished") {
+    return NextResponse.json({ error: "Finish the current game first" }, { status: 409 });
+  }
+
+  const current = games.find((g) => g.session_id === session.id);
+  if (current) {
+    await supabase.from("playlist_games").update({ status: "played" }).eq("id", current.id);
+  }
+  await supabase
+    .from("session_playlists")
+    .update({ status: "finished", ended_at: new Date().toISOString() })
+    .eq("id", playlist.id);
+
+  return NextResponse.json({ success: true });
+}
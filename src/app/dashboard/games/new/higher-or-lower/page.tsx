@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ThemePicker } from "@/components/games/ThemePicker";
+import { HoLGameFields, useSourceGames, type HoLGameDraft } from "@/components/games/hol/GameFields";
+import { GAME_TYPES } from "@/lib/game-registry";
+import { HOL_DEFAULT_TIMER_SECONDS } from "@/lib/higher-lower";
+import type { GameTheme } from "@/lib/types";
+
+export default function NewHoLGamePage() {
+  const router = useRouter();
+  const sourceGames = useSourceGames();
+  const [draft, setDraft] = useState<HoLGameDraft>({
+    title: "",
+    sourceGameId: "",
+    wrongAnswer: "eliminate",
+    timerSeconds: HOL_DEFAULT_TIMER_SECONDS,
+  });
+  const [theme, setTheme] = useState<GameTheme>(GAME_TYPES.higher_or_lower.defaultTheme);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleCreate() {
+    if (!draft.title.trim()) {
+      setError("Please enter a game title");
+      return;
+    }
+
+    const source = sourceGames?.find((g) => g.id === draft.sourceGameId);
+    if (!source) {
+      setError("Pick the game whose products to play");
+      return;
+    }
+    if (source.itemCount < 2) {
+      setError("That game needs at least two products");
+      return;
+    }
+
+    setError("");
+    setCreating(true);
+
+    try {
+      const supabase = createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { data: game, error: gameError } = await supabase
+        .from("games")
+        .insert({
+          host_id: user.id,
+          title: draft.title.trim(),
+          topic: "Higher or Lower",
+          game_type: "higher_or_lower",
+          age_range: "mix",
+          difficulty: "medium",
+          timer_seconds: draft.timerSeconds,
+          speed_bonus: false,
+          source_game_id: source.id,
+          hol_wrong_answer: draft.wrongAnswer,
+          theme,
+        })
+        .select()
+        .single();
+
+      if (gameError) throw gameError;
+
+      router.push(`/dashboard/games/${game.id}`);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to create game");
+      setCreating(false);
+    }
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <h1 className="text-4xl font-bold text-ink mb-2">
+        New Higher <span className="italic">or</span> Lower Game
+      </h1>
+      <p className="text-smoke mb-8">
+        Players call whether each product costs more or less than the last.
+      </p>
+
+      <div className="space-y-6">
+        <HoLGameFields draft={draft} onChange={setDraft} sourceGames={sourceGames} />
+
+        {/* Theme */}
+        <div className="bg-paper rounded-2xl p-6">
+          <ThemePicker value={theme} onChange={setTheme} />
+        </div>
+
+        {error && (
+          <p className="text-coral text-sm">{error}</p>
+        )}
+
+        <div className="flex gap-3">
+          <Button
+            variant="cta-ghost"
+            onClick={() => router.push("/dashboard")}
+          >
+            Cancel
+          </Button>
+          <Button variant="cta"
+            onClick={handleCreate}
+            loading={creating}
+            className="flex-1"
+            size="lg"
+          >
+            Create Game
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
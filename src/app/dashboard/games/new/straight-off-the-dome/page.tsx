@@ -8,7 +8,8 @@ import { Input } from "@/components/ui/input";
 import { Select } from "@/components/ui/select";
 import { Card } from "@/components/ui/card";
 import { ThemePicker } from "@/components/games/ThemePicker";
-import { DEFAULT_THEME } from "@/lib/theme-presets";
+import { GAME_TYPES } from "@/lib/game-registry";
+import { CHOICE_COUNT_OPTIONS, DEFAULT_CHOICE_COUNT } from "@/lib/question-types";
 import type { AgeRange, Difficulty, GameTheme } from "@/lib/types";
 
 const AGE_OPTIONS = [
@@ -32,10 +33,12 @@ export default function NewGamePage() {
   const [ageRange, setAgeRange] = useState<AgeRange>("mix");
   const [difficulty, setDifficulty] = useState<Difficulty>("medium");
   const [questionCount, setQuestionCount] = useState(10);
+  const [trueFalseCount, setTrueFalseCount] = useState(0);
+  const [choiceCount, setChoiceCount] = useState(DEFAULT_CHOICE_COUNT);
   const [timerSeconds, setTimerSeconds] = useState(30);
   const [speedBonus, setSpeedBonus] = useState(true);
   const [isShared, setIsShared] = useState(false);
-  const [theme, setTheme] = useState<GameTheme>(DEFAULT_THEME.trivia);
+  const [theme, setTheme] = useState<GameTheme>(GAME_TYPES.trivia.defaultTheme);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState("");
 
@@ -83,6 +86,8 @@ export default function NewGamePage() {
           ageRange,
           difficulty,
           count: questionCount,
+          trueFalseCount: Math.min(trueFalseCount, questionCount),
+          choiceCount,
         }),
       });
 
@@ -98,6 +103,7 @@ export default function NewGamePage() {
           .insert({
             game_id: game.id,
             question_order: i,
+            question_type: q.questionType || "multiple_choice",
             prompt: q.prompt,
             explanation: q.explanation || null,
           })
@@ -190,6 +196,25 @@ export default function NewGamePage() {
               className="w-full range-rebrand"
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-ink mb-1">
+              True / false ({Math.min(trueFalseCount, questionCount)})
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={questionCount}
+              value={Math.min(trueFalseCount, questionCount)}
+              onChange={(e) => setTrueFalseCount(Number(e.target.value))}
+              className="w-full range-rebrand"
+            />
+          </div>
+          <Select variant="paper"
+            label="Other Questions"
+            value={String(choiceCount)}
+            onChange={(e) => setChoiceCount(Number(e.target.value))}
+            options={CHOICE_COUNT_OPTIONS}
+          />
           <div className="sm:col-span-2">
             <label className="flex items-center gap-2 text-sm text-ink cursor-pointer">
               <input
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ThemePicker } from "@/components/games/ThemePicker";
+import { SurveyGameFields, type SurveyGameDraft } from "@/components/games/survey/GameFields";
+import { GAME_TYPES } from "@/lib/game-registry";
+import { SURVEY_DEFAULT_TIMER_SECONDS } from "@/lib/survey-says";
+import type { GameTheme } from "@/lib/types";
+
+export default function NewSurveyGamePage() {
+  const router = useRouter();
+  const [draft, setDraft] = useState<SurveyGameDraft>({
+    title: "",
+    timerSeconds: SURVEY_DEFAULT_TIMER_SECONDS,
+  });
+  const [theme, setTheme] = useState<GameTheme>(GAME_TYPES.survey_says.defaultTheme);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleCreate() {
+    if (!draft.title.trim()) {
+      setError("Please enter a game title");
+      return;
+    }
+
+    setError("");
+    setCreating(true);
+
+    try {
+      const supabase = createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { data: game, error: gameError } = await supabase
+        .from("games")
+        .insert({
+          host_id: user.id,
+          title: draft.title.trim(),
+          topic: "Survey Says",
+          game_type: "survey_says",
+          age_range: "mix",
+          difficulty: "medium",
+          timer_seconds: draft.timerSeconds,
+          speed_bonus: false,
+          theme,
+        })
+        .select()
+        .single();
+
+      if (gameError) throw gameError;
+
+      // Survey questions are written in the editor
+      router.push(`/dashboard/games/${game.id}`);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to create game");
+      setCreating(false);
+    }
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <h1 className="text-4xl font-bold text-ink mb-2">New Survey Says Game</h1>
+      <p className="text-smoke mb-8">
+        Write survey questions with their most popular answers. Players race to find them on the board.
+      </p>
+
+      <div className="space-y-6">
+        <SurveyGameFields draft={draft} onChange={setDraft} />
+
+        {/* Theme */}
+        <div className="bg-paper rounded-2xl p-6">
+          <ThemePicker value={theme} onChange={setTheme} />
+        </div>
+
+        {error && (
+          <p className="text-coral text-sm">{error}</p>
+        )}
+
+        <div className="flex gap-3">
+          <Button
+            variant="cta-ghost"
+            onClick={() => router.push("/dashboard")}
+          >
+            Cancel
+          </Button>
+          <Button variant="cta"
+            onClick={handleCreate}
+            loading={creating}
+            className="flex-1"
+            size="lg"
+          >
+            Create Game
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
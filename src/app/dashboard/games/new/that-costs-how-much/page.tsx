@@ -6,7 +6,7 @@ import { createClient } from "@/lib/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ThemePicker } from "@/components/games/ThemePicker";
-import { DEFAULT_THEME } from "@/lib/theme-presets";
+import { GAME_TYPES } from "@/lib/game-registry";
 import type { GameTheme } from "@/lib/types";
 
 interface ItemDraft {
@@ -27,7 +27,7 @@ export default function NewPIRGamePage() {
   const [items, setItems] = useState<ItemDraft[]>([
     { name: "", price: "", description: "", image: "" },
   ]);
-  const [theme, setTheme] = useState<GameTheme>(DEFAULT_THEME.price_is_right);
+  const [theme, setTheme] = useState<GameTheme>(GAME_TYPES.price_is_right.defaultTheme);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState("");
 
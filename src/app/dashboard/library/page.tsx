@@ -2,25 +2,10 @@
 
 import { useRouter } from "next/navigation";
 import Image from "next/image";
-import { getGameTypeConfig } from "@/lib/game-registry";
+import { getAllGameTypes, getGameTypeConfig, type BrandAccent } from "@/lib/game-registry";
+import type { GameType } from "@/lib/types";
 
-type Accent = "coral" | "violet" | "teal" | "magenta" | "sunflower" | "lime";
-
-interface GameTemplate {
-  id: string;
-  title: React.ReactNode;
-  description: string;
-  playerRange: string;
-  thumb: string;
-  /** "bottom" — thumb art sits flush with bottom of its container; otherwise vertically centered. */
-  thumbAnchor?: "bottom" | "center";
-  /** Extra scale applied to the thumb image (1 = no change). */
-  thumbScale?: number;
-  gameType: "trivia" | "price_is_right";
-  accent: Accent;
-}
-
-const ACCENT_VAR: Record<Accent, string> = {
+const ACCENT_VAR: Record<BrandAccent, string> = {
   coral: "var(--coral)",
   violet: "var(--violet)",
   teal: "var(--teal)",
@@ -29,56 +14,20 @@ const ACCENT_VAR: Record<Accent, string> = {
   lime: "var(--lime)",
 };
 
-function brandGradient(accent: Accent): string {
+function brandGradient(accent: BrandAccent): string {
   const c = ACCENT_VAR[accent];
   return `linear-gradient(135deg, ${c} 0%, color-mix(in srgb, ${c} 70%, var(--ink)) 100%)`;
 }
 
-const GAME_TEMPLATES: GameTemplate[] = [
-  {
-    id: "pir-that-costs-how-much",
-    title: (
-      <>
-        That Costs <span className="italic">How</span> Much!?
-      </>
-    ),
-    description:
-      "Watch a product appear on screen. Use your phone to guess the price. The closer you get, the more points you earn — but guess too wildly and you'll pay for it.",
-    playerRange: "2–12 players",
-    thumb: "/that-costs-how-much-thumb.png",
-    thumbAnchor: "bottom",
-    gameType: "price_is_right",
-    accent: "lime",
-  },
-  {
-    id: "trivia-straight-off-the-dome",
-    title: "Straight Off The Dome",
-    description:
-      "Rapid-fire trivia. Pick the correct answer before time runs out. The faster you answer, the more points you earn.",
-    playerRange: "2–12 players",
-    thumb: "/straight-off-dome-thumb.png",
-    thumbScale: 0.85,
-    gameType: "trivia",
-    accent: "violet",
-  },
-  {
-    id: "pir-the-stalk-market",
-    title: "The Stalk Market",
-    description:
-      "A grocery-aisle spin on guess-the-price. Watch the item, punch in your guess, and earn points for how close you land.",
-    playerRange: "2–12 players",
-    thumb: "/stalk-market-thumb.png",
-    thumbAnchor: "bottom",
-    thumbScale: 1.2,
-    gameType: "price_is_right",
-    accent: "coral",
-  },
-];
+/** Every game type's library formats, each knowing which type it starts */
+const GAME_TEMPLATES = getAllGameTypes().flatMap((type) =>
+  type.library.map((template) => ({ ...template, gameType: type.key }))
+);
 
 export default function GameLibraryPage() {
   const router = useRouter();
 
-  function handleNewGame(gameType: "trivia" | "price_is_right") {
+  function handleNewGame(gameType: GameType) {
     const config = getGameTypeConfig(gameType);
     router.push(config.createRoute);
   }
@@ -156,24 +105,24 @@ export default function GameLibraryPage() {
               </div>
               <div
                 className={`shrink-0 w-[44%] flex justify-center overflow-hidden transition-transform duration-500 group-hover:scale-[1.04] ${
-                  game.thumbAnchor === "bottom"
+                  game.art.thumbAnchor === "bottom"
                     ? "items-end pt-3 pb-0 pl-2 pr-5"
                     : "items-center p-2"
                 }`}
                 style={{
-                  transformOrigin: game.thumbAnchor === "bottom" ? "bottom center" : "center",
+                  transformOrigin: game.art.thumbAnchor === "bottom" ? "bottom center" : "center",
                 }}
               >
                 <Image
-                  src={game.thumb}
+                  src={game.art.thumb}
                   alt=""
                   width={260}
                   height={200}
                   className="w-auto h-auto max-w-full max-h-full object-contain"
                   style={{
-                    transform: `scale(${game.thumbScale ?? 1})`,
+                    transform: `scale(${game.art.thumbScale ?? 1})`,
                     transformOrigin:
-                      game.thumbAnchor === "bottom" ? "bottom center" : "center",
+                      game.art.thumbAnchor === "bottom" ? "bottom center" : "center",
                   }}
                 />
               </div>
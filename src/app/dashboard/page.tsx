@@ -6,9 +6,16 @@ import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
 import { Spinner } from "@/components/ui/spinner";
-import { getGameTypeConfig } from "@/lib/game-registry";
+import { getAllGameTypes, getGameTypeConfig, type BrandAccent } from "@/lib/game-registry";
 import { generateGameCode } from "@/lib/game-code";
-import type { Game } from "@/lib/types";
+import { newSessionRow } from "@/lib/game-session";
+import {
+  MAX_PLAYLIST_GAMES,
+  MAX_PLAYLIST_NAME_LENGTH,
+  MIN_PLAYLIST_GAMES,
+  PLAYLIST_DISPLAY_MODES,
+} from "@/lib/playlists";
+import type { DisplayMode, Game, GameType } from "@/lib/types";
 
 /** Short relative-time helper: "just now", "5m ago", "3d ago", "2mo ago". */
 function relativeTime(iso: string): string {
@@ -25,20 +32,12 @@ function relativeTime(iso: string): string {
   return `${Math.floor(months / 12)}y ago`;
 }
 
-type FilterKey = "all" | "trivia" | "price_is_right";
+type FilterKey = "all" | GameType;
 type SortKey = "recent" | "title";
 
 const FILTERS: { key: FilterKey; label: React.ReactNode }[] = [
   { key: "all", label: "All" },
-  { key: "trivia", label: "Straight Off The Dome" },
-  {
-    key: "price_is_right",
-    label: (
-      <>
-        That Costs <span className="italic">How</span> Much!?
-      </>
-    ),
-  },
+  ...getAllGameTypes().map((t) => ({ key: t.key, label: t.title })),
 ];
 
 const SORTS: { key: SortKey; label: string }[] = [
@@ -46,26 +45,10 @@ const SORTS: { key: SortKey; label: string }[] = [
   { key: "title", label: "Title A–Z" },
 ];
 
-// Per game-type: accent (chip color) + thumbnail artwork that sits on a solid palette background
-const GAME_TYPE_ACCENT: Record<Game["game_type"], "violet" | "lime"> = {
-  trivia: "violet",
-  price_is_right: "lime",
-};
-const GAME_TYPE_CARD: Record<
-  Game["game_type"],
-  { bg: string; thumb: string; thumbAnchor?: "bottom" | "center"; thumbScale?: number }
-> = {
-  trivia: {
-    bg: "linear-gradient(135deg, var(--violet) 0%, color-mix(in srgb, var(--violet) 70%, var(--ink)) 100%)",
-    thumb: "/straight-off-dome-thumb.png",
-    thumbScale: 0.85,
-  },
-  price_is_right: {
-    bg: "linear-gradient(135deg, var(--lime) 0%, color-mix(in srgb, var(--lime) 70%, var(--ink)) 100%)",
-    thumb: "/that-costs-how-much-thumb.png",
-    thumbAnchor: "bottom",
-  },
-};
+/** Card background: the game type's accent, deepening toward ink */
+function cardGradient(accent: BrandAccent): string {
+  return `linear-gradient(135deg, var(--${accent}) 0%, color-mix(in srgb, var(--${accent}) 70%, var(--ink)) 100%)`;
+}
 
 export default function DashboardPage() {
   const [games, setGames] = useState<Game[]>([]);
@@ -74,6 +57,48 @@ export default function DashboardPage() {
   const [search, setSearch] = useState("");
   const [filter, setFilter] = useState<FilterKey>("all");
   const [sort, setSort] = useState<SortKey>("recent");
+  // Game night being planned: the picked games in play order, or null when not planning one
+  const [playlistPicks, setPlaylistPicks] = useState<string[] | null>(null);
+  const [playlistName, setPlaylistName] = useState("");
+  const [playlistDisplayMode, setPlaylistDisplayMode] = useState<DisplayMode>("tv");
+  const [startingPlaylist, setStartingPlaylist] = useState(false);
+  const [playlistError, setPlaylistError] = useState<string | null>(null);
+
+  function togglePick(gameId: string) {
+    setPlaylistPicks((prev) => {
+      if (!prev) return prev;
+      if (prev.includes(gameId)) return prev.filter((id) => id !== gameId);
+      return prev.length < MAX_PLAYLIST_GAMES ? [...prev, gameId] : prev;
+    });
+  }
+
+  async function handleStartPlaylist() {
+    if (!playlistPicks || playlistPicks.length < MIN_PLAYLIST_GAMES) return;
+    setStartingPlaylist(true);
+    setPlaylistError(null);
+    try {
+      const res = await fetch("/api/playlists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "create",
+          gameIds: playlistPicks,
+          name: playlistName,
+          displayMode: playlistDisplayMode,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+
+      window.open(`/host/${data.sessionId}`, "_blank", "noopener,noreferrer");
+      setPlaylistPicks(null);
+      setPlaylistName("");
+    } catch (err) {
+      setPlaylistError(err instanceof Error ? err.message : "Failed to start");
+    } finally {
+      setStartingPlaylist(false);
+    }
+  }
 
   useEffect(() => {
     async function loadGames() {
@@ -85,28 +110,16 @@ export default function DashboardPage() {
       const list: Game[] = gamesData || [];
       setGames(list);
 
-      // Batched counts: questions for trivia, items for price-is-right.
-      const triviaIds = list.filter((g) => g.game_type === "trivia").map((g) => g.id);
-      const pirIds = list.filter((g) => g.game_type === "price_is_right").map((g) => g.id);
-      const counts: Record<string, number> = {};
-      if (triviaIds.length > 0) {
-        const { data: qRows } = await supabase
-          .from("game_questions")
-          .select("game_id")
-          .in("game_id", triviaIds);
-        qRows?.forEach((r: { game_id: string }) => {
-          counts[r.game_id] = (counts[r.game_id] || 0) + 1;
-        });
-      }
-      if (pirIds.length > 0) {
-        const { data: iRows } = await supabase
-          .from("price_is_right_items")
-          .select("game_id")
-          .in("game_id", pirIds);
-        iRows?.forEach((r: { game_id: string }) => {
-          counts[r.game_id] = (counts[r.game_id] || 0) + 1;
-        });
-      }
+      // Batched counts, one query per game type for whatever its games are made of
+      const perType = await Promise.all(
+        getAllGameTypes().map((t) =>
+          t.items.count(
+            supabase,
+            list.filter((g) => g.game_type === t.key).map((g) => g.id)
+          )
+        )
+      );
+      const counts: Record<string, number> = Object.assign({}, ...perType);
       setItemCounts(counts);
       setLoading(false);
     }
@@ -203,7 +216,17 @@ export default function DashboardPage() {
             ))}
           </div>
 
-          <div className="ml-auto">
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setPlaylistPicks((prev) => (prev ? null : []));
+                setPlaylistError(null);
+              }}
+              className={`filter-pill ${playlistPicks ? "is-active" : ""}`}
+            >
+              Game Night
+            </button>
             <select
               value={sort}
               onChange={(e) => setSort(e.target.value as SortKey)}
@@ -224,6 +247,51 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* Game night planner — pick games in the order they'll be played */}
+        {playlistPicks && (
+          <div className="card-rebrand mb-6 p-4 flex flex-wrap items-center gap-3" style={{ background: "var(--paper)" }}>
+            <div className="flex-1 min-w-[220px]">
+              <p className="font-display font-semibold text-[16px] text-ink">
+                Game night · {playlistPicks.length} picked
+              </p>
+              <p className="text-[13px] text-smoke">
+                Pick {MIN_PLAYLIST_GAMES}–{MAX_PLAYLIST_GAMES} games in the order you&apos;ll play them.
+                Everyone stays on one code the whole night.
+              </p>
+            </div>
+            <input
+              type="text"
+              placeholder="Game Night"
+              value={playlistName}
+              maxLength={MAX_PLAYLIST_NAME_LENGTH}
+              onChange={(e) => setPlaylistName(e.target.value)}
+              className="input-rebrand input-rebrand-pill w-56 text-[14px]"
+            />
+            <div className="flex gap-2">
+              {PLAYLIST_DISPLAY_MODES.map((m) => (
+                <button
+                  key={m.value}
+                  type="button"
+                  onClick={() => setPlaylistDisplayMode(m.value)}
+                  aria-pressed={playlistDisplayMode === m.value}
+                  className={`filter-pill ${playlistDisplayMode === m.value ? "is-active" : ""}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={handleStartPlaylist}
+              disabled={playlistPicks.length < MIN_PLAYLIST_GAMES || startingPlaylist}
+              className="btn-cta shrink-0 px-6 py-3 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {startingPlaylist ? "Starting…" : "Start Game Night"}
+            </button>
+            {playlistError && <p className="w-full text-[12px] text-coral">{playlistError}</p>}
+          </div>
+        )}
+
         {/* Content */}
         {loading ? (
           <div className="flex justify-center py-24">
@@ -243,8 +311,9 @@ export default function DashboardPage() {
               <GameCard
                 key={game.id}
                 game={game}
-                accent={GAME_TYPE_ACCENT[game.game_type]}
                 count={itemCounts[game.id] ?? 0}
+                pickOrder={playlistPicks ? playlistPicks.indexOf(game.id) + 1 : undefined}
+                onTogglePick={() => togglePick(game.id)}
               />
             ))}
             <CreateCard />
@@ -258,18 +327,22 @@ export default function DashboardPage() {
 function GameCard({
   game,
   count,
+  pickOrder,
+  onTogglePick,
 }: {
   game: Game;
-  accent: "violet" | "lime";
   count: number;
+  /** While planning a game night: its place in the order (0 = not picked) */
+  pickOrder?: number;
+  onTogglePick?: () => void;
 }) {
   const cfg = getGameTypeConfig(game.game_type);
   const router = useRouter();
   const [starting, setStarting] = useState(false);
   const [startError, setStartError] = useState<string | null>(null);
 
-  const card = GAME_TYPE_CARD[game.game_type];
-  const unitLabel = game.game_type === "price_is_right" ? "product" : "question";
+  const art = cfg.card.art;
+  const unitLabel = cfg.items.label;
   const modifiedIso = (game as unknown as { updated_at?: string }).updated_at || game.created_at;
   const canStart = count > 0 && !starting;
 
@@ -300,16 +373,7 @@ function GameCard({
 
       const { data: session, error: sessionError } = await supabase
         .from("sessions")
-        .insert({
-          game_id: game.id,
-          host_id: user.id,
-          code,
-          status: "lobby",
-          current_question_index: -1,
-          timer_seconds: game.timer_seconds,
-          speed_bonus: game.speed_bonus,
-          display_mode: "tv",
-        })
+        .insert(newSessionRow(game, { hostId: user.id, code, displayMode: "tv" }))
         .select()
         .single();
       if (sessionError) throw sessionError;
@@ -325,11 +389,23 @@ function GameCard({
   }
 
   return (
-    <article className="card-rebrand h-full flex flex-col p-3 group">
+    <article className="card-rebrand relative h-full flex flex-col p-3 group">
+      {pickOrder !== undefined && (
+        <button
+          type="button"
+          onClick={onTogglePick}
+          disabled={count === 0}
+          className="absolute top-5 right-5 z-10 w-10 h-10 rounded-full border-2 border-ink font-display font-bold text-[16px] text-ink disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ background: pickOrder ? "var(--lime)" : "var(--paper)" }}
+          title={count === 0 ? `Add at least one ${unitLabel} first` : pickOrder ? "Remove from game night" : "Add to game night"}
+        >
+          {pickOrder || "+"}
+        </button>
+      )}
       <Link href={cfg.editRoute(game.id)} className="block">
         <div
           className="relative aspect-[16/10] overflow-hidden rounded-2xl flex items-stretch"
-          style={{ background: card.bg }}
+          style={{ background: cardGradient(cfg.card.accent) }}
         >
           {/* Left — game brand name */}
           <div className="flex-1 min-w-0 flex flex-col justify-center px-5 py-4">
@@ -342,37 +418,31 @@ function GameCard({
                 textShadow: "0 2px 8px rgba(26,20,18,0.25)",
               }}
             >
-              {game.game_type === "price_is_right" ? (
-                <>
-                  That Costs <span className="italic">How</span> Much!?
-                </>
-              ) : (
-                cfg.label
-              )}
+              {cfg.title}
             </h3>
           </div>
 
           {/* Right — thumbnail artwork */}
           <div
             className={`shrink-0 w-[44%] flex justify-center transition-transform duration-500 group-hover:scale-[1.06] ${
-              card.thumbAnchor === "bottom"
+              art.thumbAnchor === "bottom"
                 ? "items-end pt-3 pb-0 px-2"
                 : "items-center p-2"
             }`}
             style={{
-              transformOrigin: card.thumbAnchor === "bottom" ? "bottom center" : "center",
+              transformOrigin: art.thumbAnchor === "bottom" ? "bottom center" : "center",
             }}
           >
             <Image
-              src={card.thumb}
+              src={art.thumb}
               alt={game.title}
               width={320}
               height={240}
               className="w-auto h-auto max-w-full max-h-full object-contain"
               style={{
-                transform: `scale(${card.thumbScale ?? 1})`,
+                transform: `scale(${art.thumbScale ?? 1})`,
                 transformOrigin:
-                  card.thumbAnchor === "bottom" ? "bottom center" : "center",
+                  art.thumbAnchor === "bottom" ? "bottom center" : "center",
               }}
             />
           </div>
@@ -389,11 +459,7 @@ function GameCard({
       <div className="mt-3 px-1 flex flex-col gap-1.5 text-[14px] text-smoke">
         <span className="inline-flex items-center gap-2.5">
           <Image
-            src={
-              game.game_type === "price_is_right"
-                ? "/cart-link.svg"
-                : "/straight-off-dome-icon.svg"
-            }
+            src={cfg.items.icon}
             alt=""
             width={18}
             height={18}
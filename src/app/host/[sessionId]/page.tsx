@@ -4,6 +4,7 @@ import { use, useEffect, useState, Suspense, lazy } from "react";
 import { createClient } from "@/lib/supabase/client";
 import { Spinner } from "@/components/ui/spinner";
 import { getGameTypeConfig } from "@/lib/game-registry";
+import { PlaylistPanel } from "@/components/playlists/PlaylistPanel";
 import type { GameType } from "@/lib/types";
 import type { ComponentType } from "react";
 import type { HostRemoteProps } from "@/lib/game-registry";
@@ -15,7 +16,9 @@ export default function HostPage({
 }) {
   const { sessionId } = use(params);
   const [GameComponent, setGameComponent] = useState<ComponentType<HostRemoteProps> | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [playlistId, setPlaylistId] = useState<string | null>(null);
+  // The session the component was loaded for — a playlist sends the host on to the next one
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
 
   useEffect(() => {
     async function loadGameType() {
@@ -23,12 +26,12 @@ export default function HostPage({
 
       const { data: session } = await supabase
         .from("sessions")
-        .select("game_id")
+        .select("game_id, playlist_id")
         .eq("id", sessionId)
         .single();
 
       if (!session) {
-        setLoading(false);
+        setLoadedFor(sessionId);
         return;
       }
 
@@ -42,13 +45,14 @@ export default function HostPage({
       const config = getGameTypeConfig(gameType);
       const mod = await config.components.HostRemote();
       setGameComponent(() => mod.default);
-      setLoading(false);
+      setPlaylistId(session.playlist_id);
+      setLoadedFor(sessionId);
     }
 
     loadGameType();
   }, [sessionId]);
 
-  if (loading) {
+  if (loadedFor !== sessionId) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-zinc-50 dark:bg-background">
         <Spinner />
@@ -58,5 +62,13 @@ export default function HostPage({
 
   if (!GameComponent) return null;
 
-  return <GameComponent sessionId={sessionId} />;
+  if (!playlistId) return <GameComponent key={sessionId} sessionId={sessionId} />;
+
+  // Game nights: the playlist's controls sit above whichever game is on
+  return (
+    <>
+      <PlaylistPanel sessionId={sessionId} playlistId={playlistId} />
+      <GameComponent key={sessionId} sessionId={sessionId} />
+    </>
+  );
 }
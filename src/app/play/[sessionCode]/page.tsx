@@ -5,7 +5,8 @@ import { createClient } from "@/lib/supabase/client";
 import { Spinner } from "@/components/ui/spinner";
 import { getGameTypeConfig } from "@/lib/game-registry";
 import { ThemeProvider } from "@/lib/theme-context";
-import { DEFAULT_THEME } from "@/lib/theme-presets";
+import { carryOverPlayerToken } from "@/lib/player-session";
+import { usePlaylist } from "@/lib/use-playlist";
 import type { GameType, GameTheme } from "@/lib/types";
 import type { ComponentType } from "react";
 import type { PlayerPageProps } from "@/lib/game-registry";
@@ -19,13 +20,18 @@ export default function PlayerSessionPage({
   const [DynamicComponent, setDynamicComponent] = useState<ComponentType<PlayerPageProps> | null>(null);
   const [theme, setTheme] = useState<GameTheme | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [playlistId, setPlaylistId] = useState<string | null>(null);
+  const { playlist } = usePlaylist(playlistId);
+  // Game nights: when the host opens the next game, follow them into it
+  const currentSessionId = playlist?.current_session_id ?? null;
 
   useEffect(() => {
     async function loadGameType() {
       const supabase = createClient();
       const { data: session } = await supabase
         .from("sessions")
-        .select("game_id")
+        .select("id, game_id, playlist_id")
         .eq("code", sessionCode.toUpperCase())
         .neq("status", "finished")
         .maybeSingle();
@@ -33,6 +39,18 @@ export default function PlayerSessionPage({
       let gameType: GameType = "trivia";
 
       if (session) {
+        if (session.playlist_id) {
+          const { data: earlier } = await supabase
+            .from("sessions")
+            .select("id")
+            .eq("playlist_id", session.playlist_id)
+            .neq("id", session.id)
+            .order("created_at", { ascending: false });
+          await carryOverPlayerToken(session.id, (earlier || []).map((s) => s.id));
+        }
+        setSessionId(session.id);
+        setPlaylistId(session.playlist_id);
+
         const { data: game } = await supabase
           .from("games")
           .select("game_type, theme")
@@ -40,13 +58,13 @@ export default function PlayerSessionPage({
           .maybeSingle();
 
         gameType = (game?.game_type || "trivia") as GameType;
-        setTheme((game?.theme as GameTheme) || DEFAULT_THEME[gameType]);
+        setTheme((game?.theme as GameTheme) || getGameTypeConfig(gameType).defaultTheme);
 
         const config = getGameTypeConfig(gameType);
         const mod = await config.components.PlayerPage();
         setDynamicComponent(() => mod.default);
       } else {
-        setTheme(DEFAULT_THEME[gameType]);
+        setTheme(getGameTypeConfig(gameType).defaultTheme);
         const config = getGameTypeConfig(gameType);
         const mod = await config.components.PlayerPage();
         setDynamicComponent(() => mod.default);
@@ -56,7 +74,7 @@ export default function PlayerSessionPage({
     }
 
     loadGameType();
-  }, [sessionCode]);
+  }, [sessionCode, currentSessionId]);
 
   if (loading) {
     return (
@@ -70,7 +88,7 @@ export default function PlayerSessionPage({
 
   return (
     <ThemeProvider theme={theme}>
-      <DynamicComponent sessionCode={sessionCode} />
+      <DynamicComponent key={sessionId} sessionCode={sessionCode} />
     </ThemeProvider>
   );
 }
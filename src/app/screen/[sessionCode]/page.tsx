@@ -5,7 +5,8 @@ import { createClient } from "@/lib/supabase/client";
 import { Spinner } from "@/components/ui/spinner";
 import { getGameTypeConfig } from "@/lib/game-registry";
 import { ThemeProvider } from "@/lib/theme-context";
-import { DEFAULT_THEME } from "@/lib/theme-presets";
+import { usePlaylist } from "@/lib/use-playlist";
+import { PlaylistStandingsScreen } from "@/components/playlists/PlaylistStandingsScreen";
 import type { GameType, GameTheme } from "@/lib/types";
 import type { ComponentType } from "react";
 import type { ScreenPageProps } from "@/lib/game-registry";
@@ -19,13 +20,18 @@ export default function ScreenPage({
   const [GameComponent, setGameComponent] = useState<ComponentType<ScreenPageProps> | null>(null);
   const [theme, setTheme] = useState<GameTheme | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [playlistId, setPlaylistId] = useState<string | null>(null);
+  const { playlist, games, currentSession, standings } = usePlaylist(playlistId);
+  // Game nights: when the host opens the next game, load it in place of this one
+  const currentSessionId = playlist?.current_session_id ?? null;
 
   useEffect(() => {
     async function loadGameType() {
       const supabase = createClient();
       const { data: session } = await supabase
         .from("sessions")
-        .select("game_id")
+        .select("id, game_id, playlist_id")
         .eq("code", sessionCode.toUpperCase())
         .order("created_at", { ascending: false })
         .limit(1)
@@ -34,6 +40,8 @@ export default function ScreenPage({
       let gameType: GameType = "trivia";
 
       if (session) {
+        setSessionId(session.id);
+        setPlaylistId(session.playlist_id);
         const { data: game } = await supabase
           .from("games")
           .select("game_type, theme")
@@ -41,9 +49,9 @@ export default function ScreenPage({
           .maybeSingle();
 
         gameType = (game?.game_type || "trivia") as GameType;
-        setTheme((game?.theme as GameTheme) || DEFAULT_THEME[gameType]);
+        setTheme((game?.theme as GameTheme) || getGameTypeConfig(gameType).defaultTheme);
       } else {
-        setTheme(DEFAULT_THEME[gameType]);
+        setTheme(getGameTypeConfig(gameType).defaultTheme);
       }
 
       const config = getGameTypeConfig(gameType);
@@ -53,7 +61,7 @@ export default function ScreenPage({
     }
 
     loadGameType();
-  }, [sessionCode]);
+  }, [sessionCode, currentSessionId]);
 
   if (loading) {
     return (
@@ -65,10 +73,29 @@ export default function ScreenPage({
 
   if (!GameComponent || !theme) return null;
 
+  // Between a playlist's games (and after the last) the screen shows the night's totals
+  const betweenGames =
+    !!playlist &&
+    currentSession?.id === sessionId &&
+    currentSession.status === "lobby" &&
+    games.some((g) => g.status === "played");
+  const upNext = games.find((g) => g.session_id === sessionId)?.title;
+
   return (
     <ThemeProvider theme={theme}>
       <div className="h-screen overflow-hidden">
-        <GameComponent sessionCode={sessionCode} />
+        {playlist?.status === "finished" ? (
+          <PlaylistStandingsScreen playlistName={playlist.name} standings={standings} code={playlist.code} />
+        ) : betweenGames ? (
+          <PlaylistStandingsScreen
+            playlistName={playlist.name}
+            standings={standings}
+            code={playlist.code}
+            upNext={upNext}
+          />
+        ) : (
+          <GameComponent key={sessionId} sessionCode={sessionCode} />
+        )}
       </div>
     </ThemeProvider>
   );
@@ -0,0 +1,159 @@
+"use client";
+
+import HoLPlayerPage from "@/components/games/hol/PlayerPage";
+import HoLScreenPage from "@/components/games/hol/ScreenPage";
+import {
+  MOCK_PLAYER,
+  MOCK_PLAYERS,
+  MOCK_SESSION_FINISHED,
+  MOCK_SESSION_LOBBY,
+  MOCK_SESSION_PLAYING,
+} from "@/lib/dev-mocks";
+import type { DevPreviewControl, DevPreviewScreen } from "@/lib/game-registry";
+import type { HigherLowerVote, HoLRound, HoLWrongAnswer, PriceIsRightItem, Session } from "@/lib/types";
+
+// ============================================================
+// Mock Data
+// ============================================================
+
+const MOCK_HOL_ITEMS: PriceIsRightItem[] = [
+  { id: "item1", game_id: "g1", item_order: 0, name: "Nintendo Switch OLED", image: null, price: 34999, description: null, difficulty: "easy", timer_seconds: null, created_at: new Date().toISOString() },
+  { id: "item2", game_id: "g1", item_order: 1, name: "Stanley Quencher Tumbler", image: null, price: 4500, description: null, difficulty: "medium", timer_seconds: null, created_at: new Date().toISOString() },
+  { id: "item3", game_id: "g1", item_order: 2, name: "KitchenAid Stand Mixer", image: null, price: 44999, description: null, difficulty: "medium", timer_seconds: null, created_at: new Date().toISOString() },
+];
+
+/** The round as get_hol_round() returns it; outside a round (`round` -1) there are no products */
+function holRound(round: number, revealed = false, rule: HoLWrongAnswer = "eliminate"): HoLRound {
+  const shown = MOCK_HOL_ITEMS[round];
+  const next = MOCK_HOL_ITEMS[round + 1];
+  return {
+    round_count: MOCK_HOL_ITEMS.length - 1,
+    rule,
+    show_percent: false,
+    shown: shown ? { id: shown.id, name: shown.name, image: shown.image, price: shown.price } : null,
+    next: shown && next
+      ? { id: revealed ? next.id : null, name: next.name, image: next.image, price: revealed ? next.price : null }
+      : null,
+  };
+}
+
+// Round 2: the tumbler ($45.00) is on screen, the mixer ($449.99) is the call — "higher"
+const MOCK_HOL_SESSION_VOTING: Session = {
+  ...MOCK_SESSION_PLAYING,
+  current_question_index: 1,
+  timer_seconds: 15,
+  hol_phase: "voting",
+  hol_vote_ends_at: new Date(Date.now() + 12000).toISOString(),
+};
+
+const MOCK_HOL_SESSION_REVEAL: Session = {
+  ...MOCK_HOL_SESSION_VOTING, hol_phase: "reveal",
+};
+
+function vote(
+  playerId: string,
+  round: number,
+  call: HigherLowerVote["vote"],
+  scored: Pick<HigherLowerVote, "is_correct" | "streak" | "points_awarded"> | null
+): HigherLowerVote {
+  return {
+    id: `v-${playerId}-${round}`,
+    session_id: "s1",
+    player_id: playerId,
+    round,
+    vote: call,
+    is_correct: scored?.is_correct ?? null,
+    streak: scored?.streak ?? 0,
+    points_awarded: scored?.points_awarded ?? 0,
+    created_at: new Date().toISOString(),
+  };
+}
+
+// Round 1 ($349.99 → $45.00, "lower"): everyone but Diana got it
+const MOCK_HOL_ROUND_ONE: HigherLowerVote[] = MOCK_PLAYERS.map((p) =>
+  p.id === "p4"
+    ? vote(p.id, 0, "higher", { is_correct: false, streak: 0, points_awarded: 0 })
+    : vote(p.id, 0, "lower", { is_correct: true, streak: 1, points_awarded: 100 })
+);
+
+/** Round 2 votes; `out` sends Alice's call the wrong way */
+function roundTwo(scored: boolean, out: boolean): HigherLowerVote[] {
+  return MOCK_PLAYERS.filter((p) => p.id !== "p4").map((p, i) => {
+    const wrong = (p.id === "p1" && out) || i % 4 === 3;
+    return vote(
+      p.id,
+      1,
+      wrong ? "lower" : "higher",
+      scored
+        ? wrong
+          ? { is_correct: false, streak: 0, points_awarded: 0 }
+          : { is_correct: true, streak: 2, points_awarded: 150 }
+        : null
+    );
+  });
+}
+
+// ============================================================
+// Screen Definitions
+// ============================================================
+
+const KNOCKED_OUT: DevPreviewControl = { type: "toggle", key: "out", on: "Knocked Out", off: "Still In", tone: "risk" };
+
+const LOSE_POINTS: DevPreviewControl = { type: "toggle", key: "losePoints", on: "Lose Points", off: "Eliminate", tone: "mode" };
+
+const HOL_SCREENS: DevPreviewScreen[] = [
+  // HoL Player
+  { id: "hp-joining", label: "Joining", group: "Higher or Lower — Player", render: () => (
+    <HoLPlayerPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_LOBBY, player: null, players: MOCK_PLAYERS, round: holRound(-1) }} />
+  )},
+  { id: "hp-lobby", label: "Lobby", group: "Higher or Lower — Player", controls: [LOSE_POINTS],
+    render: ({ losePoints }) => (
+      <HoLPlayerPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_LOBBY, player: MOCK_PLAYER, players: MOCK_PLAYERS, round: holRound(-1, false, losePoints ? "lose_points" : "eliminate") }} />
+    )},
+  { id: "hp-voting", label: "Voting", group: "Higher or Lower — Player", render: () => (
+    <HoLPlayerPage sessionCode="DEMO" devMode={{ session: MOCK_HOL_SESSION_VOTING, player: MOCK_PLAYER, players: MOCK_PLAYERS, round: holRound(1), votes: MOCK_HOL_ROUND_ONE }} />
+  )},
+  { id: "hp-reveal", label: "Reveal", group: "Higher or Lower — Player", controls: [KNOCKED_OUT, LOSE_POINTS],
+    render: ({ out, losePoints }) => (
+      <HoLPlayerPage sessionCode="DEMO" devMode={{
+        session: MOCK_HOL_SESSION_REVEAL,
+        player: MOCK_PLAYER,
+        players: MOCK_PLAYERS,
+        round: holRound(1, true, losePoints ? "lose_points" : "eliminate"),
+        votes: [...MOCK_HOL_ROUND_ONE, ...roundTwo(true, Boolean(out))],
+      }} />
+    )},
+  { id: "hp-out", label: "Knocked Out", group: "Higher or Lower — Player", render: () => (
+    <HoLPlayerPage sessionCode="DEMO" devMode={{ session: MOCK_HOL_SESSION_VOTING, player: MOCK_PLAYERS[3], players: MOCK_PLAYERS, round: holRound(1), votes: MOCK_HOL_ROUND_ONE }} />
+  )},
+  { id: "hp-finished", label: "Finished", group: "Higher or Lower — Player", render: () => (
+    <HoLPlayerPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_FINISHED, player: MOCK_PLAYER, players: MOCK_PLAYERS, round: holRound(-1) }} />
+  )},
+
+  // HoL Screen
+  { id: "hs-lobby", label: "Lobby", group: "Higher or Lower — Screen", render: () => (
+    <HoLScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_LOBBY, players: MOCK_PLAYERS, round: holRound(-1) }} />
+  )},
+  { id: "hs-voting", label: "Voting", group: "Higher or Lower — Screen", render: () => (
+    <HoLScreenPage sessionCode="DEMO" devMode={{
+      session: MOCK_HOL_SESSION_VOTING,
+      players: MOCK_PLAYERS,
+      round: holRound(1),
+      votes: [...MOCK_HOL_ROUND_ONE, ...roundTwo(false, false).slice(0, 6)],
+    }} />
+  )},
+  { id: "hs-reveal", label: "Reveal", group: "Higher or Lower — Screen", controls: [LOSE_POINTS],
+    render: ({ losePoints }) => (
+      <HoLScreenPage sessionCode="DEMO" devMode={{
+        session: MOCK_HOL_SESSION_REVEAL,
+        players: MOCK_PLAYERS,
+        round: holRound(1, true, losePoints ? "lose_points" : "eliminate"),
+        votes: [...MOCK_HOL_ROUND_ONE, ...roundTwo(true, false)],
+      }} />
+    )},
+  { id: "hs-finished", label: "Finished", group: "Higher or Lower — Screen", render: () => (
+    <HoLScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_FINISHED, players: MOCK_PLAYERS, round: holRound(-1) }} />
+  )},
+];
+
+export default HOL_SCREENS;
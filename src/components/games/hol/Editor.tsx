@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState, useRef } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { Modal } from "@/components/ui/modal";
+import { generateGameCode } from "@/lib/game-code";
+import { ThemePicker } from "@/components/games/ThemePicker";
+import { HoLGameFields, useSourceGames, type HoLGameDraft } from "@/components/games/hol/GameFields";
+import { GAME_TYPES, type EditorProps } from "@/lib/game-registry";
+import { getHoLRoundCount } from "@/lib/higher-lower";
+import type { Game, GameTheme } from "@/lib/types";
+
+export default function HoLEditor({ gameId }: EditorProps) {
+  const router = useRouter();
+  const sourceGames = useSourceGames();
+  const [game, setGame] = useState<Game | null>(null);
+  const [draft, setDraft] = useState<HoLGameDraft | null>(null);
+  const [theme, setTheme] = useState<GameTheme>(GAME_TYPES.higher_or_lower.defaultTheme);
+  const [startingSession, setStartingSession] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [error, setError] = useState("");
+
+  // Autosave
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const savedStatusTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const lastSavedRef = useRef("");
+
+  useEffect(() => {
+    async function loadGame() {
+      const supabase = createClient();
+      const { data: gameData } = await supabase
+        .from("games")
+        .select("*")
+        .eq("id", gameId)
+        .single();
+
+      if (!gameData) {
+        router.push("/dashboard");
+        return;
+      }
+
+      const loaded: HoLGameDraft = {
+        title: gameData.title,
+        sourceGameId: gameData.source_game_id ?? "",
+        wrongAnswer: gameData.hol_wrong_answer ?? "eliminate",
+        timerSeconds: gameData.timer_seconds,
+      };
+      const loadedTheme = gameData.theme || GAME_TYPES.higher_or_lower.defaultTheme;
+      lastSavedRef.current = JSON.stringify({ ...loaded, theme: loadedTheme });
+      setGame(gameData);
+      setDraft(loaded);
+      setTheme(loadedTheme);
+    }
+
+    loadGame();
+    return () => {
+      clearTimeout(saveTimerRef.current);
+      clearTimeout(savedStatusTimerRef.current);
+    };
+  }, [gameId, router]);
+
+  // Autosave settings
+  useEffect(() => {
+    if (!game || !draft) return;
+    const snapshot = JSON.stringify({ ...draft, theme });
+    if (snapshot === lastSavedRef.current) return;
+
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(async () => {
+      if (!draft.title.trim() || !draft.sourceGameId) return;
+      setSaveStatus("saving");
+      try {
+        const supabase = createClient();
+        const { error: updateError } = await supabase
+          .from("games")
+          .update({
+            title: draft.title.trim(),
+            source_game_id: draft.sourceGameId,
+            hol_wrong_answer: draft.wrongAnswer,
+            timer_seconds: draft.timerSeconds,
+            theme,
+          })
+          .eq("id", game.id);
+
+        if (updateError) throw updateError;
+
+        lastSavedRef.current = snapshot;
+        setSaveStatus("saved");
+        clearTimeout(savedStatusTimerRef.current);
+        savedStatusTimerRef.current = setTimeout(() => setSaveStatus("idle"), 2000);
+      } catch {
+        setSaveStatus("error");
+      }
+    }, 800);
+  }, [draft, theme, game]);
+
+  const source = sourceGames?.find((g) => g.id === draft?.sourceGameId);
+  const canStart = !!source && getHoLRoundCount(source.itemCount) > 0;
+
+  async function handleStartSession() {
+    if (!game || !draft || !canStart) return;
+    setStartingSession(true);
+    setError("");
+
+    try {
+      const supabase = createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      let code = generateGameCode();
+      let attempts = 0;
+      while (attempts < 5) {
+        const { data: existing } = await supabase
+          .from("sessions")
+          .select("id")
+          .eq("code", code)
+          .neq("status", "finished")
+          .maybeSingle();
+
+        if (!existing) break;
+        code = generateGameCode();
+        attempts++;
+      }
+
+      const { data: session, error: sessionError } = await supabase
+        .from("sessions")
+        .insert({
+          game_id: game.id,
+          host_id: user.id,
+          code,
+          status: "lobby",
+          current_question_index: -1,
+          timer_seconds: draft.timerSeconds,
+          speed_bonus: false,
+          display_mode: "tv",
+        })
+        .select()
+        .single();
+
+      if (sessionError) throw sessionError;
+
+      // Open the host console in a new tab so the editor stays put
+      if (typeof window !== "undefined") {
+        window.open(`/host/${session.id}`, "_blank", "noopener,noreferrer");
+      }
+      setStartingSession(false);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to start session");
+      setStartingSession(false);
+    }
+  }
+
+  async function handleDeleteGame() {
+    const supabase = createClient();
+    await supabase.from("games").delete().eq("id", gameId);
+    router.push("/dashboard");
+  }
+
+  if (!draft) {
+    return (
+      <div className="flex justify-center py-24">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold text-ink mb-2">{draft.title || "Untitled"}</h1>
+          <p className="text-smoke text-sm">
+            Higher <span className="italic">or</span> Lower
+            {saveStatus === "saving" && " · Saving..."}
+            {saveStatus === "saved" && " · Saved"}
+            {saveStatus === "error" && " · Couldn't save"}
+          </p>
+        </div>
+        <Button variant="cta" onClick={handleStartSession} loading={startingSession} disabled={!canStart}>
+          Start Game
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        <HoLGameFields draft={draft} onChange={setDraft} sourceGames={sourceGames} />
+
+        {source && (
+          <p className="text-sm text-smoke">
+            To change the products, edit{" "}
+            <Link href={`/dashboard/games/${source.id}`} className="text-coral underline">
+              {source.title}
+            </Link>
+            .
+          </p>
+        )}
+
+        {/* Theme */}
+        <div className="bg-paper rounded-2xl p-6">
+          <ThemePicker value={theme} onChange={setTheme} />
+        </div>
+
+        {error && (
+          <p className="text-coral text-sm">{error}</p>
+        )}
+
+        <Button variant="cta-danger" size="sm" onClick={() => setShowDeleteModal(true)}>
+          Delete Game
+        </Button>
+      </div>
+
+      <Modal
+        open={showDeleteModal}
+        onClose={() => setShowDeleteModal(false)}
+        title="Delete Game"
+      >
+        <p className="text-sm text-smoke mb-4">
+          Are you sure you want to delete this game? This cannot be undone.
+        </p>
+        <div className="flex gap-2 justify-end">
+          <Button variant="cta-ghost" onClick={() => setShowDeleteModal(false)}>
+            Cancel
+          </Button>
+          <Button variant="cta-danger" onClick={handleDeleteGame}>
+            Delete
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/client";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { getHoLRoundCount, HOL_WRONG_ANSWER_RULES } from "@/lib/higher-lower";
+import type { HoLWrongAnswer } from "@/lib/types";
+
+export interface HoLGameDraft {
+  title: string;
+  sourceGameId: string;
+  wrongAnswer: HoLWrongAnswer;
+  timerSeconds: number;
+}
+
+export interface SourceGameOption {
+  id: string;
+  title: string;
+  itemCount: number;
+}
+
+/** The host's That Costs How Much games, with how many products each has */
+export function useSourceGames() {
+  const [games, setGames] = useState<SourceGameOption[] | null>(null);
+
+  useEffect(() => {
+    async function load() {
+      const supabase = createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data } = await supabase
+        .from("games")
+        .select("id, title, price_is_right_items(count)")
+        .eq("host_id", user.id)
+        .eq("game_type", "price_is_right")
+        .order("updated_at", { ascending: false });
+
+      setGames(
+        (data || []).map((g) => ({
+          id: g.id,
+          title: g.title,
+          itemCount: (g.price_is_right_items as unknown as { count: number }[])?.[0]?.count ?? 0,
+        }))
+      );
+    }
+
+    load();
+  }, []);
+
+  return games;
+}
+
+/** Settings shared by the Higher or Lower create page and editor */
+export function HoLGameFields({
+  draft,
+  onChange,
+  sourceGames,
+}: {
+  draft: HoLGameDraft;
+  onChange: (draft: HoLGameDraft) => void;
+  sourceGames: SourceGameOption[] | null;
+}) {
+  const source = sourceGames?.find((g) => g.id === draft.sourceGameId);
+
+  return (
+    <div className="bg-paper rounded-2xl p-6 space-y-4">
+      <h2 className="text-xl font-semibold text-ink">Game Settings</h2>
+
+      <Input variant="paper"
+        label="Game Title"
+        value={draft.title}
+        onChange={(e) => onChange({ ...draft, title: e.target.value })}
+        placeholder="e.g., Supermarket Sweep"
+      />
+
+      {sourceGames && sourceGames.length === 0 ? (
+        <p className="text-sm text-smoke">
+          Higher or Lower plays the products from one of your That Costs How Much!? games.{" "}
+          <Link href="/dashboard/games/new/that-costs-how-much" className="text-coral underline">
+            Make one first
+          </Link>
+          .
+        </p>
+      ) : (
+        <div>
+          <Select
+            variant="paper"
+            label="Products From"
+            value={draft.sourceGameId}
+            onChange={(e) => onChange({ ...draft, sourceGameId: e.target.value })}
+            disabled={!sourceGames}
+            options={[
+              { value: "", label: sourceGames ? "Pick a That Costs How Much!? game" : "Loading..." },
+              ...(sourceGames || []).map((g) => ({
+                value: g.id,
+                label: `${g.title} (${g.itemCount} products)`,
+              })),
+            ]}
+          />
+          {source && (
+            <p className="text-xs text-smoke mt-2">
+              {getHoLRoundCount(source.itemCount)} rounds, in the order the products appear in that game.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-ink mb-2">Wrong Answers</label>
+        <div className="grid grid-cols-2 gap-3">
+          {(Object.keys(HOL_WRONG_ANSWER_RULES) as HoLWrongAnswer[]).map((rule) => (
+            <button
+              key={rule}
+              type="button"
+              onClick={() => onChange({ ...draft, wrongAnswer: rule })}
+              className={`text-left rounded-xl p-4 border-2 transition-colors ${
+                draft.wrongAnswer === rule ? "border-ink bg-white" : "border-transparent bg-white/50"
+              }`}
+            >
+              <p className="font-semibold text-ink">{HOL_WRONG_ANSWER_RULES[rule].label}</p>
+              <p className="text-xs text-smoke mt-1">{HOL_WRONG_ANSWER_RULES[rule].description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-ink mb-2">Time to Vote</label>
+        <div className="flex items-center gap-4">
+          <input
+            type="range"
+            min={5}
+            max={60}
+            step={5}
+            value={draft.timerSeconds}
+            onChange={(e) => onChange({ ...draft, timerSeconds: Number(e.target.value) })}
+            className="flex-1 accent-coral"
+          />
+          <span className="text-ink font-bold text-lg w-14 text-right">{draft.timerSeconds}s</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,460 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/client";
+import { subscribeToSession, unsubscribe } from "@/lib/realtime";
+import { CountdownTimer } from "@/components/pir/CountdownTimer";
+import { PlayerCardIcon } from "@/components/pir/PlayerCardIcon";
+import { HoLShell } from "@/components/hol/HoLShell";
+import { ProductCard } from "@/components/hol/ProductCard";
+import { AVATAR_COLORS } from "@/lib/avatar-colors";
+import { loadPlayerToken, savePlayerToken } from "@/lib/player-session";
+import { useGameTheme } from "@/lib/theme-context";
+import { useHoLRound } from "@/lib/use-hol-round";
+import { formatPrice } from "@/lib/pir-scoring";
+import {
+  getEliminatedPlayerIds,
+  getHoLAnswer,
+  getHoLStreaks,
+  HOL_WRONG_ANSWER_RULES,
+  mergeHoLVote,
+} from "@/lib/higher-lower";
+import type {
+  GameTheme,
+  HigherLowerVote,
+  HoLRound,
+  HoLVote,
+  Session,
+  SessionPlayer,
+} from "@/lib/types";
+import type { PlayerPageProps } from "@/lib/game-registry";
+
+export interface HoLPlayerDevMode {
+  session: Session;
+  /** null shows the join form */
+  player: SessionPlayer | null;
+  players: SessionPlayer[];
+  round: HoLRound;
+  votes?: HigherLowerVote[];
+}
+
+function VoteButton({
+  vote,
+  selected,
+  disabled,
+  onClick,
+  t,
+}: {
+  vote: HoLVote;
+  selected: boolean;
+  disabled: boolean;
+  onClick: () => void;
+  t: GameTheme;
+}) {
+  const buttonTextColor = t.buttonTextMode === "light" ? "#FFFFFF" : "#1A1A1A";
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="flex-1 py-8 rounded-3xl text-2xl font-bold uppercase tracking-wide transition-transform active:scale-[0.97] disabled:opacity-40"
+      style={{
+        background: selected ? t.accent : t.surface,
+        color: selected ? buttonTextColor : t.textPrimary,
+        border: `2px solid ${selected ? t.accent : `color-mix(in srgb, ${t.textPrimary} 25%, transparent)`}`,
+      }}
+    >
+      {vote === "higher" ? "▲ Higher" : "▼ Lower"}
+    </button>
+  );
+}
+
+export default function HoLPlayerPage({
+  sessionCode,
+  devMode,
+}: PlayerPageProps & { devMode?: HoLPlayerDevMode }) {
+  const t = useGameTheme();
+  const [session, setSession] = useState<Session | null>(devMode?.session ?? null);
+  const [player, setPlayer] = useState<SessionPlayer | null>(devMode?.player ?? null);
+  const [playerToken, setPlayerToken] = useState<string | null>(null);
+  const [players, setPlayers] = useState<SessionPlayer[]>(devMode?.players ?? []);
+  const [votes, setVotes] = useState<HigherLowerVote[]>(devMode?.votes ?? []);
+  const [displayName, setDisplayName] = useState("");
+  const [avatarColor, setAvatarColor] = useState<string>(AVATAR_COLORS[0]);
+  const [error, setError] = useState("");
+  const [notFound, setNotFound] = useState(false);
+  const [joinLoading, setJoinLoading] = useState(false);
+  const [voteError, setVoteError] = useState("");
+  const [voting, setVoting] = useState(false);
+
+  const sessionId = session?.id;
+  const playerId = player?.id;
+  const liveRound = useHoLRound(
+    devMode ? null : sessionId,
+    `${session?.status}:${session?.current_question_index}:${session?.hol_phase}`
+  );
+  const holRound = devMode?.round ?? liveRound;
+  const rule = holRound?.rule ?? "eliminate";
+
+  // Load session
+  useEffect(() => {
+    if (devMode) return;
+    async function findSession() {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("sessions")
+        .select("*")
+        .eq("code", sessionCode.toUpperCase())
+        .neq("status", "finished")
+        .maybeSingle();
+
+      if (!data) {
+        setNotFound(true);
+        return;
+      }
+
+      setSession(data);
+
+      const [{ data: playersData }, { data: votesData }] = await Promise.all([
+        supabase
+          .from("session_players")
+          .select("*")
+          .eq("session_id", data.id)
+          .eq("is_removed", false),
+        supabase.from("higher_lower_votes").select("*").eq("session_id", data.id),
+      ]);
+      setPlayers(playersData || []);
+      setVotes(votesData || []);
+
+      const storedToken = loadPlayerToken(data.id);
+      if (storedToken) {
+        const res = await fetch("/api/players", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "rejoin", sessionId: data.id, token: storedToken }),
+        });
+        const existingPlayer: SessionPlayer | null = res.ok ? (await res.json()).player : null;
+        if (existingPlayer) {
+          setPlayerToken(storedToken);
+          setPlayer(existingPlayer);
+        }
+      }
+    }
+
+    findSession();
+  }, [sessionCode, devMode]);
+
+  // Subscribe to realtime
+  useEffect(() => {
+    if (devMode || !sessionId) return;
+
+    const channel = subscribeToSession(sessionId, {
+      onSessionChange: (payload) => {
+        const s = payload.new as Session;
+        setSession(s);
+        setVoteError("");
+        if (s.status === "lobby") setVotes([]);
+      },
+      onPlayerChange: (payload) => {
+        const p = payload.new as SessionPlayer;
+        if (payload.eventType === "INSERT") {
+          setPlayers((prev) => [...prev.filter((x) => x.id !== p.id), p]);
+        } else if (payload.eventType === "UPDATE") {
+          if (p.id === playerId) setPlayer(p);
+          setPlayers((prev) =>
+            prev.map((x) => (x.id === p.id ? p : x)).filter((x) => !x.is_removed)
+          );
+        }
+      },
+      onHoLVoteChange: (payload) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<HigherLowerVote>;
+        setVotes((prev) => mergeHoLVote(prev, payload.eventType, row));
+      },
+    });
+
+    return () => unsubscribe(channel);
+  }, [sessionId, playerId, devMode]);
+
+  const handleJoin = useCallback(async () => {
+    if (devMode) return;
+    if (!session || !displayName.trim()) {
+      setError("Enter a display name");
+      return;
+    }
+
+    setJoinLoading(true);
+    setError("");
+
+    try {
+      // The server de-duplicates names and signs the token that proves this phone is the player
+      const res = await fetch("/api/players", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "join",
+          sessionId: session.id,
+          displayName: displayName.trim(),
+          avatarColor,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+
+      setPlayer(data.player);
+      setPlayerToken(data.token);
+      savePlayerToken(session.id, data.token);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to join.");
+    } finally {
+      setJoinLoading(false);
+    }
+  }, [session, displayName, avatarColor, devMode]);
+
+  const handleVote = useCallback(async (vote: HoLVote) => {
+    if (devMode) return;
+    if (!session || !player) return;
+
+    setVoting(true);
+    setVoteError("");
+    try {
+      const res = await fetch("/api/hol", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "submit_vote",
+          sessionId: session.id,
+          playerToken,
+          round: session.current_question_index,
+          vote,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+    } catch (err) {
+      // Late votes are refused by the server — surface the reason
+      setVoteError(err instanceof Error && err.message ? err.message : "Failed to vote");
+    } finally {
+      setVoting(false);
+    }
+  }, [session, player, playerToken, devMode]);
+
+  // ============ RENDER ============
+
+  if (notFound || player?.is_removed) {
+    return (
+      <HoLShell t={t}>
+        <div className="flex-1 flex flex-col items-center justify-center px-5 text-center">
+          <p className="text-xl font-bold mb-2">{notFound ? "Oops!" : "You're out of this one"}</p>
+          <p className="text-sm mb-8" style={{ color: t.textMuted }}>
+            {notFound
+              ? "Game not found. Check the code and try again."
+              : "The host removed you from this session."}
+          </p>
+          <Link href="/play" className="underline font-semibold" style={{ color: t.accent }}>
+            Join another game
+          </Link>
+        </div>
+      </HoLShell>
+    );
+  }
+
+  if (!session) {
+    return (
+      <HoLShell t={t}>
+        <div className="flex-1 flex flex-col items-center justify-center gap-4">
+          <div className="w-10 h-10 border-3 rounded-full animate-spin" style={{ borderColor: `${t.accent} transparent transparent transparent` }} />
+          <p className="text-sm" style={{ color: t.textMuted }}>Connecting to server...</p>
+        </div>
+      </HoLShell>
+    );
+  }
+
+  // ─── JOIN FORM ───
+  if (!player) {
+    return (
+      <HoLShell t={t}>
+        <div className="flex-1 flex flex-col justify-center px-5 py-6 gap-4">
+          <div className="text-center">
+            <p className="font-mono font-bold text-xs tracking-[0.15em] mb-2" style={{ color: t.accent }}>
+              {sessionCode.toUpperCase()}
+            </p>
+            <h1 className="text-4xl font-bold">
+              Higher <em>or</em> Lower<span style={{ color: t.accent }}>?</span>
+            </h1>
+          </div>
+
+          <input
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="Enter your name"
+            maxLength={20}
+            autoFocus
+            className="w-full rounded-2xl px-4 py-3 text-lg font-bold text-center focus:outline-none"
+            style={{ background: t.surface, color: t.textPrimary, border: `1px solid ${t.border}`, caretColor: t.accent }}
+          />
+
+          <div className="grid grid-cols-6 gap-2">
+            {AVATAR_COLORS.map((color) => (
+              <button
+                key={color}
+                onClick={() => setAvatarColor(color)}
+                className="rounded-md p-1 flex items-center justify-center"
+                style={{
+                  background: avatarColor === color ? t.accentDim : "transparent",
+                  border: avatarColor === color ? `2px solid ${t.accent}` : `1px solid ${t.border}`,
+                }}
+              >
+                <PlayerCardIcon color={color} size={999} className="w-full h-auto" />
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <p className="text-xs text-center font-medium" style={{ color: t.danger }}>{error}</p>
+          )}
+
+          <button
+            onClick={handleJoin}
+            disabled={joinLoading}
+            className="w-full py-3.5 rounded-full font-semibold text-[16px] disabled:opacity-40"
+            style={{ background: t.accent, color: t.buttonTextMode === "light" ? "#FFFFFF" : "#1A1A1A" }}
+          >
+            {joinLoading ? "Joining..." : "Join Game"}
+          </button>
+        </div>
+      </HoLShell>
+    );
+  }
+
+  const me = players.find((p) => p.id === player.id) ?? player;
+
+  // ─── LOBBY ───
+  if (session.status === "lobby") {
+    return (
+      <HoLShell t={t}>
+        <div className="flex-1 flex flex-col items-center justify-center px-5 text-center">
+          <PlayerCardIcon color={me.avatar_color} size={72} />
+          <h1 className="text-3xl font-bold mt-4 mb-2">You&apos;re in, {me.display_name}!</h1>
+          <p className="text-sm mb-6" style={{ color: t.textMuted }}>
+            Watch the screen: call whether the next product costs more or less.
+          </p>
+          <p className="text-xs max-w-xs" style={{ color: t.textDim }}>
+            {HOL_WRONG_ANSWER_RULES[rule].description}
+          </p>
+        </div>
+      </HoLShell>
+    );
+  }
+
+  // ─── FINISHED ───
+  if (session.status === "finished") {
+    const rank = [...players].sort((a, b) => b.score - a.score).findIndex((p) => p.id === me.id) + 1;
+    return (
+      <HoLShell t={t}>
+        <div className="flex-1 flex flex-col items-center justify-center px-5 text-center">
+          <p className="text-sm uppercase tracking-wider mb-2" style={{ color: t.textMuted }}>Game over</p>
+          <h1 className="text-5xl font-bold mb-2" style={{ color: t.accent }}>{me.score}</h1>
+          <p className="text-lg mb-8">{rank > 0 ? `You finished #${rank}` : "Thanks for playing"}</p>
+          <Link href="/play" className="underline font-semibold" style={{ color: t.accent }}>
+            Join another game
+          </Link>
+        </div>
+      </HoLShell>
+    );
+  }
+
+  // ─── PLAYING ───
+  const round = session.current_question_index;
+  const shown = holRound?.shown;
+  const next = holRound?.next;
+  const isOut = getEliminatedPlayerIds(
+    votes.filter((v) => v.round < round && v.player_id === me.id),
+    rule
+  ).has(me.id);
+  const myVote = votes.find((v) => v.round === round && v.player_id === me.id) ?? null;
+  const streak = getHoLStreaks(votes.filter((v) => v.player_id === me.id)).get(me.id) ?? 0;
+  const price = (cents: number) => formatPrice(cents, holRound?.show_percent ?? false);
+
+  return (
+    <HoLShell t={t}>
+      <div className="flex items-center justify-between px-5 pt-5">
+        <p className="text-xs uppercase tracking-wider" style={{ color: t.textMuted }}>
+          Round {round + 1} of {holRound?.round_count ?? 0}
+        </p>
+        <p className="text-sm font-bold tabular-nums">
+          {me.score} pts{streak > 1 && ` · 🔥${streak}`}
+        </p>
+      </div>
+
+      {!shown || !next ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="w-10 h-10 border-3 rounded-full animate-spin" style={{ borderColor: `${t.accent} transparent transparent transparent` }} />
+        </div>
+      ) : isOut ? (
+        <div className="flex-1 flex flex-col items-center justify-center px-5 text-center">
+          <p className="text-3xl font-bold mb-2">You&apos;re out!</p>
+          <p className="text-sm" style={{ color: t.textMuted }}>
+            Keep watching the screen — your {me.score} points still count.
+          </p>
+        </div>
+      ) : session.hol_phase === "voting" ? (
+        <div className="flex-1 flex flex-col px-5 py-4 gap-4">
+          <div className="grid grid-cols-2 gap-3">
+            <ProductCard item={shown} price={price(shown.price)} t={t} size="sm" />
+            <ProductCard item={next} price={null} t={t} size="sm" highlight />
+          </div>
+          <div className="flex justify-center">
+            <CountdownTimer endsAt={session.hol_vote_ends_at} totalSeconds={session.timer_seconds} size="sm" />
+          </div>
+          <p className="text-center text-sm" style={{ color: t.textMuted }}>
+            Is <strong style={{ color: t.textPrimary }}>{next.name}</strong> higher or lower than{" "}
+            {price(shown.price)}?
+          </p>
+          <div className="flex gap-3">
+            {(["higher", "lower"] as const).map((v) => (
+              <VoteButton
+                key={v}
+                vote={v}
+                selected={myVote?.vote === v}
+                disabled={voting}
+                onClick={() => handleVote(v)}
+                t={t}
+              />
+            ))}
+          </div>
+          {voteError && (
+            <p className="text-xs text-center font-medium" style={{ color: t.danger }}>{voteError}</p>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center px-5 text-center gap-3">
+          {myVote?.is_correct ? (
+            <>
+              <p className="text-4xl font-bold" style={{ color: t.accent }}>Correct!</p>
+              <p className="text-lg">+{myVote.points_awarded} points</p>
+            </>
+          ) : (
+            <>
+              <p className="text-4xl font-bold" style={{ color: t.danger }}>
+                {myVote?.vote ? "Wrong!" : "Too slow!"}
+              </p>
+              <p className="text-lg">
+                {rule === "eliminate"
+                  ? "That's you out."
+                  : `${myVote?.points_awarded ?? 0} points`}
+              </p>
+            </>
+          )}
+          {next.price !== null && (
+            <p className="text-sm" style={{ color: t.textMuted }}>
+              {next.name} costs {price(next.price)}
+              {getHoLAnswer(shown, { price: next.price }) === null && " — the same price!"}
+            </p>
+          )}
+        </div>
+      )}
+    </HoLShell>
+  );
+}
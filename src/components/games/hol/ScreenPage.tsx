@@ -0,0 +1,285 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { subscribeToSession, unsubscribe } from "@/lib/realtime";
+import { Spinner } from "@/components/ui/spinner";
+import { CountdownTimer } from "@/components/pir/CountdownTimer";
+import { PlayerCardIcon } from "@/components/pir/PlayerCardIcon";
+import { HoLShell } from "@/components/hol/HoLShell";
+import { ProductCard } from "@/components/hol/ProductCard";
+import { useGameTheme } from "@/lib/theme-context";
+import { useHoLRound } from "@/lib/use-hol-round";
+import { formatPrice } from "@/lib/pir-scoring";
+import {
+  getEliminatedPlayerIds,
+  getHoLAnswer,
+  getHoLStreaks,
+  mergeHoLVote,
+} from "@/lib/higher-lower";
+import type { HigherLowerVote, HoLRound, Session, SessionPlayer } from "@/lib/types";
+import type { ScreenPageProps } from "@/lib/game-registry";
+
+export interface HoLScreenDevMode {
+  session: Session;
+  players: SessionPlayer[];
+  round: HoLRound;
+  votes?: HigherLowerVote[];
+}
+
+export default function HoLScreenPage({
+  sessionCode,
+  devMode,
+}: ScreenPageProps & { devMode?: HoLScreenDevMode }) {
+  const t = useGameTheme();
+
+  const [session, setSession] = useState<Session | null>(devMode?.session ?? null);
+  const [players, setPlayers] = useState<SessionPlayer[]>(devMode?.players ?? []);
+  const [votes, setVotes] = useState<HigherLowerVote[]>(devMode?.votes ?? []);
+  const sessionId = session?.id;
+  const liveRound = useHoLRound(
+    devMode ? null : sessionId,
+    `${session?.status}:${session?.current_question_index}:${session?.hol_phase}`
+  );
+  const holRound = devMode?.round ?? liveRound;
+  const rule = holRound?.rule ?? "eliminate";
+
+  // Load session
+  useEffect(() => {
+    if (devMode) return;
+    async function load() {
+      const supabase = createClient();
+      const { data: sessionData } = await supabase
+        .from("sessions")
+        .select("*")
+        .eq("code", sessionCode.toUpperCase())
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!sessionData) return;
+      setSession(sessionData);
+
+      const [{ data: playersData }, { data: votesData }] = await Promise.all([
+        supabase
+          .from("session_players")
+          .select("*")
+          .eq("session_id", sessionData.id)
+          .eq("is_removed", false),
+        supabase.from("higher_lower_votes").select("*").eq("session_id", sessionData.id),
+      ]);
+      setPlayers(playersData || []);
+      setVotes(votesData || []);
+    }
+
+    load();
+  }, [sessionCode, devMode]);
+
+  // Subscribe to realtime
+  useEffect(() => {
+    if (devMode || !sessionId) return;
+
+    const channel = subscribeToSession(sessionId, {
+      onSessionChange: (payload) => {
+        const s = payload.new as Session;
+        setSession(s);
+        // A restart clears the votes
+        if (s.status === "lobby") setVotes([]);
+      },
+      onPlayerChange: (payload) => {
+        const p = payload.new as SessionPlayer;
+        if (payload.eventType === "INSERT") {
+          setPlayers((prev) => [...prev.filter((x) => x.id !== p.id), p]);
+        } else if (payload.eventType === "UPDATE") {
+          if (p.is_removed) {
+            setPlayers((prev) => prev.filter((x) => x.id !== p.id));
+          } else {
+            setPlayers((prev) => prev.map((x) => (x.id === p.id ? p : x)));
+          }
+        }
+      },
+      onHoLVoteChange: (payload) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<HigherLowerVote>;
+        setVotes((prev) => mergeHoLVote(prev, payload.eventType, row));
+      },
+    });
+
+    return () => unsubscribe(channel);
+  }, [sessionId, devMode]);
+
+  if (!session) {
+    return (
+      <HoLShell t={t} className="h-full">
+        <div className="flex-1 flex items-center justify-center">
+          <Spinner className="h-10 w-10 text-white" />
+        </div>
+      </HoLShell>
+    );
+  }
+
+  const sortedPlayers = [...players].sort((a, b) => b.score - a.score);
+
+  // ─── LOBBY ───
+  if (session.status === "lobby") {
+    const joinUrl = typeof window !== "undefined" ? `${window.location.host}/play` : "heyhostgames.com/play";
+    const qrUrl = `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(
+      typeof window !== "undefined" ? `${window.location.origin}/play?code=${session.code}` : ""
+    )}`;
+
+    return (
+      <HoLShell t={t} className="h-full">
+        <div className="flex-1 min-h-0 flex items-center gap-12 px-12">
+          <div className="flex-1 min-w-0">
+            <h1 className="text-7xl font-bold leading-[0.95] mb-4">
+              Higher <em>or</em> Lower<span style={{ color: t.accent }}>?</span>
+            </h1>
+            <p className="text-xl mb-8" style={{ color: t.textMuted }}>
+              {holRound?.round_count ?? 0} rounds · call the next price higher or lower
+            </p>
+            <div
+              className="rounded-2xl p-5"
+              style={{ background: t.surface, border: `1.5px solid color-mix(in srgb, ${t.textPrimary} 22%, transparent)` }}
+            >
+              <h2 className="text-2xl font-bold mb-4" style={{ color: t.accent }}>Players</h2>
+              {players.length === 0 ? (
+                <p className="text-base" style={{ color: t.textDim }}>Waiting for players to join...</p>
+              ) : (
+                <div className="grid grid-cols-3 gap-x-8 gap-y-4">
+                  {players.map((p) => (
+                    <div key={p.id} className="flex items-center gap-3">
+                      <PlayerCardIcon color={p.avatar_color} size={44} />
+                      <span className="text-base font-bold uppercase tracking-wide truncate">{p.display_name}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="w-[300px] shrink-0 rounded-3xl text-center p-8" style={{ background: "#ffffff", color: "#1a1a1a" }}>
+            <p className="text-2xl font-bold uppercase tracking-wider mb-2">Join the Game</p>
+            <p className="text-sm mb-3">
+              Visit <strong>{joinUrl}</strong> and enter the code:
+            </p>
+            <p className="text-4xl font-bold font-mono tracking-[0.15em] mb-6">{session.code}</p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={qrUrl} alt="QR Code" className="w-36 h-36 mx-auto" />
+          </div>
+        </div>
+      </HoLShell>
+    );
+  }
+
+  // ─── FINISHED ───
+  if (session.status === "finished") {
+    return (
+      <HoLShell t={t} className="h-full">
+        <div className="flex-1 flex flex-col items-center justify-center p-8">
+          <h1 className="text-6xl font-bold mb-10">Final Scores</h1>
+          <div className="w-full max-w-xl space-y-3">
+            {sortedPlayers.slice(0, 8).map((p, i) => (
+              <div
+                key={p.id}
+                className="flex items-center gap-4 px-6 py-3 rounded-xl text-xl"
+                style={{ background: t.surface, border: `1px solid ${t.border}` }}
+              >
+                <span className="font-bold text-2xl w-10" style={{ color: t.textDim }}>{i + 1}</span>
+                <PlayerCardIcon color={p.avatar_color} size={40} />
+                <span className="flex-1 font-semibold truncate">{p.display_name}</span>
+                <span className="font-bold tabular-nums" style={{ color: t.accent }}>{p.score}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </HoLShell>
+    );
+  }
+
+  // ─── PLAYING ───
+  const round = session.current_question_index;
+  const shown = holRound?.shown;
+  const next = holRound?.next;
+  const isReveal = session.hol_phase === "reveal";
+
+  if (!shown || !next) {
+    return (
+      <HoLShell t={t} className="h-full">
+        <div className="flex-1 flex items-center justify-center">
+          <Spinner className="h-10 w-10 text-white" />
+        </div>
+      </HoLShell>
+    );
+  }
+
+  const eliminated = getEliminatedPlayerIds(votes.filter((v) => v.round < round), rule);
+  const stillIn = players.filter((p) => !eliminated.has(p.id));
+  const roundVotes = votes.filter((v) => v.round === round);
+  const answer = next.price === null ? null : getHoLAnswer(shown, { price: next.price });
+  const streaks = getHoLStreaks(votes);
+  const price = (cents: number) => formatPrice(cents, holRound.show_percent);
+
+  return (
+    <HoLShell t={t} className="h-full">
+      <div className="flex items-center justify-between px-10 pt-6">
+        <p className="text-lg font-semibold uppercase tracking-[0.15em]" style={{ color: t.textMuted }}>
+          Round {round + 1} of {holRound.round_count}
+        </p>
+        {rule === "eliminate" && (
+          <p className="text-lg" style={{ color: t.textMuted }}>
+            {stillIn.length} of {players.length} still in
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center gap-10 px-10">
+        <div className="w-[380px]">
+          <ProductCard item={shown} price={price(shown.price)} t={t} />
+        </div>
+
+        <div className="w-[200px] flex flex-col items-center gap-4">
+          {isReveal && next.price !== null ? (
+            <p className="text-5xl font-bold text-center uppercase" style={{ color: t.accent }}>
+              {answer === null ? "Same price!" : `${answer}!`}
+            </p>
+          ) : (
+            <>
+              <CountdownTimer endsAt={session.hol_vote_ends_at} totalSeconds={session.timer_seconds} />
+              <p className="text-lg" style={{ color: t.textMuted }}>
+                {roundVotes.filter((v) => v.vote).length} / {stillIn.length} voted
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="w-[380px]">
+          <ProductCard item={next} price={next.price === null ? null : price(next.price)} t={t} highlight />
+        </div>
+      </div>
+
+      {isReveal && (
+        <div className="flex flex-wrap justify-center gap-3 px-10 pb-8">
+          {roundVotes.map((v) => {
+            const p = players.find((x) => x.id === v.player_id);
+            if (!p) return null;
+            return (
+              <div
+                key={v.id}
+                className="flex items-center gap-2 px-4 py-2 rounded-full"
+                style={{
+                  background: t.surface,
+                  border: `2px solid ${v.is_correct ? t.accent : t.danger}`,
+                }}
+              >
+                <PlayerCardIcon color={p.avatar_color} size={28} />
+                <span className="font-semibold">{p.display_name}</span>
+                <span className="tabular-nums" style={{ color: v.is_correct ? t.accent : t.danger }}>
+                  {v.points_awarded > 0 ? `+${v.points_awarded}` : v.points_awarded}
+                </span>
+                {(streaks.get(p.id) ?? 0) > 1 && <span>🔥{streaks.get(p.id)}</span>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </HoLShell>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import PIRPlayerPage from "@/components/games/pir/PlayerPage";
+import PIRScreenPage from "@/components/games/pir/ScreenPage";
+import {
+  MOCK_PLAYER,
+  MOCK_PLAYERS,
+  MOCK_SESSION_FINISHED,
+  MOCK_SESSION_LOBBY,
+  MOCK_SESSION_PLAYING,
+} from "@/lib/dev-mocks";
+import type { DevPreviewControl, DevPreviewScreen } from "@/lib/game-registry";
+import type { PriceGuess, PriceIsRightItem, Session } from "@/lib/types";
+
+// ============================================================
+// Mock Data
+// ============================================================
+
+const MOCK_PIR_ITEMS: PriceIsRightItem[] = [
+  { id: "item1", game_id: "g1", item_order: 0, name: "Sony WH-1000XM5 Headphones", image: null, price: 34999, description: "Premium noise-cancelling wireless headphones", difficulty: "medium", timer_seconds: null, created_at: new Date().toISOString() },
+  { id: "item2", game_id: "g1", item_order: 1, name: "Nintendo Switch OLED", image: null, price: 34999, description: "Gaming console with 7-inch OLED screen", difficulty: "easy", timer_seconds: null, created_at: new Date().toISOString() },
+];
+
+const MOCK_PIR_SESSION_GUESSING: Session = {
+  ...MOCK_SESSION_PLAYING,
+  pir_phase: "guessing",
+  pir_current_item_id: "item1",
+  pir_current_item_order: 0,
+  pir_item_end_timestamp: new Date(Date.now() + 20000).toISOString(),
+};
+
+const MOCK_PIR_SESSION_RESULT: Session = {
+  ...MOCK_PIR_SESSION_GUESSING, pir_phase: "price_result",
+};
+
+const MOCK_PIR_SESSION_PAY_TV: Session = {
+  ...MOCK_PIR_SESSION_GUESSING, pir_phase: "pay_the_price", display_mode: "tv",
+};
+
+const MOCK_PIR_SESSION_PAY_OTG: Session = {
+  ...MOCK_PIR_SESSION_GUESSING, pir_phase: "pay_the_price", display_mode: "on_the_go",
+};
+
+const MOCK_PIR_SESSION_LEADERBOARD: Session = {
+  ...MOCK_PIR_SESSION_GUESSING, pir_phase: "leaderboard",
+};
+
+// Item price: 34999 cents ($349.99)
+// Guess 29999 ($299.99): diff 14.3% → within20, 50 pts, accuracy 86%
+// Guess 42000 ($420.00): diff 20.0% → within20, 50 pts, accuracy 80%
+// Guess 35500 ($355.00): diff 1.4% → within10, 60 pts, accuracy 99%
+// Guess 10000 ($100.00): diff 71.4% → beyond50, 10 pts, accuracy 29%
+const MOCK_PIR_GUESSES: PriceGuess[] = [
+  { id: "g1", session_id: "s1", player_id: "p1", item_id: "item1", guess: 29999, score_awarded: 50, tier: "within20", guess_accuracy: 86, paid_the_price: false, created_at: new Date().toISOString() },
+  { id: "g2", session_id: "s1", player_id: "p2", item_id: "item1", guess: 42000, score_awarded: 50, tier: "within20", guess_accuracy: 80, paid_the_price: false, created_at: new Date().toISOString() },
+  { id: "g3", session_id: "s1", player_id: "p3", item_id: "item1", guess: 35500, score_awarded: 60, tier: "within10", guess_accuracy: 99, paid_the_price: false, created_at: new Date().toISOString() },
+  { id: "g4", session_id: "s1", player_id: "p4", item_id: "item1", guess: 10000, score_awarded: 10, tier: "beyond50", guess_accuracy: 29, paid_the_price: false, created_at: new Date().toISOString() },
+  { id: "g5", session_id: "s1", player_id: "p5", item_id: "item1", guess: 31999, score_awarded: 60, tier: "within10", guess_accuracy: 92, paid_the_price: false, created_at: new Date().toISOString() },
+  { id: "g6", session_id: "s1", player_id: "p6", item_id: "item1", guess: 40000, score_awarded: 50, tier: "within20", guess_accuracy: 86, paid_the_price: false, created_at: new Date().toISOString() },
+  { id: "g7", session_id: "s1", player_id: "p7", item_id: "item1", guess: 24999, score_awarded: 30, tier: "within40", guess_accuracy: 71, paid_the_price: false, created_at: new Date().toISOString() },
+  { id: "g8", session_id: "s1", player_id: "p8", item_id: "item1", guess: 49999, score_awarded: 30, tier: "within40", guess_accuracy: 57, paid_the_price: false, created_at: new Date().toISOString() },
+  { id: "g9", session_id: "s1", player_id: "p9", item_id: "item1", guess: 35000, score_awarded: 100, tier: "bullseye", guess_accuracy: 100, paid_the_price: false, created_at: new Date().toISOString() },
+  { id: "g10", session_id: "s1", player_id: "p10", item_id: "item1", guess: 28000, score_awarded: 50, tier: "within20", guess_accuracy: 80, paid_the_price: false, created_at: new Date().toISOString() },
+  { id: "g11", session_id: "s1", player_id: "p11", item_id: "item1", guess: 60000, score_awarded: 10, tier: "beyond50", guess_accuracy: 29, paid_the_price: false, created_at: new Date().toISOString() },
+  { id: "g12", session_id: "s1", player_id: "p12", item_id: "item1", guess: 33000, score_awarded: 60, tier: "within10", guess_accuracy: 94, paid_the_price: false, created_at: new Date().toISOString() },
+];
+
+const MOCK_PIR_MY_GUESS: PriceGuess = MOCK_PIR_GUESSES[0];
+const MOCK_PIR_BAD_GUESS: PriceGuess = MOCK_PIR_GUESSES[3]; // beyond50, 29% accuracy
+
+// ============================================================
+// Screen Definitions
+// ============================================================
+
+// Player-count slider for the guessing/price-result screens
+const PLAYER_COUNT: DevPreviewControl = {
+  type: "range",
+  key: "players",
+  min: 2,
+  max: 12,
+  initial: 4,
+  describe: (n) => {
+    const rows = Math.ceil(n / 2);
+    return `${n} ${n === 1 ? "player" : "players"} · ${rows} ${rows === 1 ? "row" : "rows"}`;
+  },
+};
+
+const PIR_SCREENS: DevPreviewScreen[] = [
+  // PIR Player
+  { id: "pp-joining", label: "Joining", group: "PIR — Player", render: () => (
+    <PIRPlayerPage sessionCode="DEMO" devMode={{ phase: "joining", session: MOCK_SESSION_LOBBY, players: MOCK_PLAYERS, gameName: "Friday Night Prices" }} />
+  )},
+  { id: "pp-lobby", label: "Lobby", group: "PIR — Player", render: () => (
+    <PIRPlayerPage sessionCode="DEMO" devMode={{ phase: "lobby", session: MOCK_SESSION_LOBBY, player: MOCK_PLAYER, players: MOCK_PLAYERS }} />
+  )},
+  { id: "pp-guessing", label: "Guessing", group: "PIR — Player", render: () => (
+    <PIRPlayerPage sessionCode="DEMO" devMode={{ phase: "guessing", session: MOCK_PIR_SESSION_GUESSING, player: MOCK_PLAYER, players: MOCK_PLAYERS, currentItem: MOCK_PIR_ITEMS[0] }} />
+  )},
+  { id: "pp-guessed", label: "Guessed", group: "PIR — Player", render: () => (
+    <PIRPlayerPage sessionCode="DEMO" devMode={{ phase: "guessed", session: MOCK_PIR_SESSION_GUESSING, player: MOCK_PLAYER, players: MOCK_PLAYERS, currentItem: MOCK_PIR_ITEMS[0], myGuess: MOCK_PIR_MY_GUESS }} />
+  )},
+  { id: "pp-price-result", label: "Price Result", group: "PIR — Player",
+    controls: [{ type: "toggle", key: "badGuess", on: "Bad Guess", off: "Good Guess", tone: "risk" }],
+    render: ({ badGuess }) => (
+      <PIRPlayerPage sessionCode="DEMO" devMode={{ phase: "price_result", session: MOCK_PIR_SESSION_RESULT, player: MOCK_PLAYER, players: MOCK_PLAYERS, currentItem: MOCK_PIR_ITEMS[0], myGuess: badGuess ? MOCK_PIR_BAD_GUESS : MOCK_PIR_MY_GUESS }} />
+    )},
+  { id: "pp-pay-the-price", label: "Pay The Price", group: "PIR — Player",
+    controls: [
+      { type: "toggle", key: "onTheGo", on: "On the Go", off: "TV Mode", tone: "mode" },
+      { type: "toggle", key: "atRisk", on: "At Risk", off: "Safe", tone: "risk" },
+    ],
+    render: ({ onTheGo, atRisk }) => (
+      <PIRPlayerPage sessionCode="DEMO" devMode={{
+        phase: "pay_the_price",
+        session: onTheGo ? MOCK_PIR_SESSION_PAY_OTG : MOCK_PIR_SESSION_PAY_TV,
+        player: MOCK_PLAYER,
+        players: MOCK_PLAYERS,
+        penaltyPlayers: [
+          ...(atRisk ? [{ name: "Alice", color: "#FF6B6B", playerId: "p1" }] : []),
+          { name: "Bob", color: "#4ECDC4", playerId: "p2" },
+          { name: "Diana", color: "#96CEB4", playerId: "p4" },
+          { name: "Eve", color: "#FFEAA7", playerId: "p5" },
+        ],
+      }} />
+    )},
+  { id: "pp-leaderboard", label: "Leaderboard", group: "PIR — Player", render: () => (
+    <PIRPlayerPage sessionCode="DEMO" devMode={{ phase: "leaderboard", session: MOCK_PIR_SESSION_LEADERBOARD, player: MOCK_PLAYER, players: MOCK_PLAYERS }} />
+  )},
+  { id: "pp-finished", label: "Finished", group: "PIR — Player", render: () => (
+    <PIRPlayerPage sessionCode="DEMO" devMode={{ phase: "finished", session: MOCK_SESSION_FINISHED, player: MOCK_PLAYER, players: MOCK_PLAYERS }} />
+  )},
+  { id: "pp-removed", label: "Removed", group: "PIR — Player", render: () => (
+    <PIRPlayerPage sessionCode="DEMO" devMode={{ phase: "removed", session: MOCK_SESSION_PLAYING }} />
+  )},
+  { id: "pp-error", label: "Error", group: "PIR — Player", render: () => (
+    <PIRPlayerPage sessionCode="DEMO" devMode={{ phase: "error", error: "Game not found. Check the code and try again." }} />
+  )},
+
+  // PIR Screen
+  { id: "ps-lobby", label: "Lobby", group: "PIR — Screen", render: () => (
+    <PIRScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_LOBBY, players: MOCK_PLAYERS, items: MOCK_PIR_ITEMS, gameName: "Friday Night Prices", gameTopic: "Christmas Party Edition" }} />
+  )},
+  { id: "ps-guessing", label: "Guessing", group: "PIR — Screen", controls: [PLAYER_COUNT],
+    render: ({ players }) => (
+      <PIRScreenPage sessionCode="DEMO" devMode={{
+        session: MOCK_PIR_SESSION_GUESSING,
+        players: MOCK_PLAYERS.slice(0, Number(players)),
+        items: MOCK_PIR_ITEMS,
+        guesses: MOCK_PIR_GUESSES.slice(0, Math.min(2, Number(players))),
+      }} />
+    )},
+  { id: "ps-price-result", label: "Price Result", group: "PIR — Screen", controls: [PLAYER_COUNT],
+    render: ({ players }) => (
+      <PIRScreenPage sessionCode="DEMO" devMode={{
+        session: MOCK_PIR_SESSION_RESULT,
+        players: MOCK_PLAYERS.slice(0, Number(players)),
+        items: MOCK_PIR_ITEMS,
+        guesses: MOCK_PIR_GUESSES.slice(0, Number(players)),
+      }} />
+    )},
+  { id: "ps-leaderboard", label: "Leaderboard", group: "PIR — Screen", render: () => (
+    <PIRScreenPage sessionCode="DEMO" devMode={{ session: MOCK_PIR_SESSION_LEADERBOARD, players: MOCK_PLAYERS, items: MOCK_PIR_ITEMS, guesses: MOCK_PIR_GUESSES }} />
+  )},
+  { id: "ps-finished", label: "Finished", group: "PIR — Screen", render: () => (
+    <PIRScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_FINISHED, players: MOCK_PLAYERS, items: MOCK_PIR_ITEMS }} />
+  )},
+];
+
+export default PIR_SCREENS;
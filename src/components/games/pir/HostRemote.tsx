@@ -6,7 +6,11 @@ import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
 import { subscribeToSession, unsubscribe } from "@/lib/realtime";
 import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
 import { Spinner } from "@/components/ui/spinner";
+import { TeamSetup } from "@/components/teams/TeamSetup";
+import { TeamStandings } from "@/components/teams/TeamStandings";
+import { useSessionTeams } from "@/lib/use-session-teams";
 import { isInPenaltyZone } from "@/lib/pir-scoring";
 import type {
   Session,
@@ -15,6 +19,13 @@ import type {
   PriceGuess,
 } from "@/lib/types";
 import type { HostRemoteProps } from "@/lib/game-registry";
+import {
+  canPIR,
+  getPIRStage,
+  type HistoryAction,
+  type PIRAction,
+} from "@/lib/session-machine";
+import { PIR_EXTEND_SECONDS } from "@/lib/pir-timer";
 
 export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
   const router = useRouter();
@@ -23,8 +34,11 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
   const [items, setItems] = useState<PriceIsRightItem[]>([]);
   const [guesses, setGuesses] = useState<PriceGuess[]>([]);
   const [loading, setLoading] = useState(true);
+  const [rejoinCopiedId, setRejoinCopiedId] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
 
+  const { teams, standings } = useSessionTeams(session, players);
+
   useEffect(() => {
     async function load() {
       const supabase = createClient();
@@ -104,6 +118,10 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
           setGuesses((prev) => [...prev.filter((x) => x.player_id !== g.player_id), g]);
         } else if (payload.eventType === "UPDATE") {
           setGuesses((prev) => prev.map((x) => (x.id === g.id ? g : x)));
+        } else if (payload.eventType === "DELETE") {
+          // Undo removes guesses made after the restored point
+          const removed = payload.old as Partial<PriceGuess>;
+          setGuesses((prev) => prev.filter((x) => x.id !== removed.id));
         }
       },
     });
@@ -135,7 +153,7 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
   }, [session?.status, session?.game_id, items.length]);
 
   const callAction = useCallback(
-    async (action: string, extra: Record<string, unknown> = {}) => {
+    async (action: PIRAction | HistoryAction, extra: Record<string, unknown> = {}) => {
       setActionLoading(true);
       try {
         const res = await fetch("/api/pir", {
@@ -148,6 +166,24 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
 
         if (action === "next_item" || action === "start_game") {
           setGuesses([]);
+        } else if (action === "undo" || action === "rewind") {
+          // The current item may have changed — reload its guesses
+          const supabase = createClient();
+          const { data: sessionData } = await supabase
+            .from("sessions")
+            .select("pir_current_item_id")
+            .eq("id", sessionId)
+            .single();
+          if (sessionData?.pir_current_item_id) {
+            const { data: guessData } = await supabase
+              .from("price_guesses")
+              .select("*")
+              .eq("session_id", sessionId)
+              .eq("item_id", sessionData.pir_current_item_id);
+            setGuesses(guessData || []);
+          } else {
+            setGuesses([]);
+          }
         }
 
         return data;
@@ -160,6 +196,31 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
     [sessionId]
   );
 
+  // Moves a player to another phone: the old phone's token stops working
+  const copyRejoinLink = useCallback(
+    async (playerId: string) => {
+      if (!session) return;
+      try {
+        const res = await fetch("/api/players", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "reissue", sessionId: session.id, playerId }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        navigator.clipboard.writeText(
+          `${window.location.origin}/play/${session.code}?rejoin=${data.token}`
+        );
+        setRejoinCopiedId(playerId);
+        setTimeout(() => setRejoinCopiedId(null), 2000);
+      } catch (err) {
+        console.error("Failed to create rejoin link:", err);
+      }
+    },
+    [session]
+  );
+
   const kickPlayer = useCallback(async (playerId: string) => {
     const supabase = createClient();
     await supabase
@@ -181,7 +242,7 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
   const isLobby = session.status === "lobby";
   const isPlaying = session.status === "playing";
   const isFinished = session.status === "finished";
-  const phase = session.pir_phase;
+  const stage = getPIRStage(session);
   const currentItem = items.find((i) => i.id === session.pir_current_item_id);
   const currentItemIndex = session.pir_current_item_order || 0;
   const isLastItem = currentItemIndex >= items.length - 1;
@@ -228,7 +289,7 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
                 : "bg-zinc-100 text-zinc-800 dark:bg-slate-800 dark:text-zinc-200"
             }`}
           >
-            {isLobby ? "Lobby" : isPlaying ? `Playing - ${phase}` : "Finished"}
+            {isLobby ? "Lobby" : isPlaying ? `Playing - ${stage.replace(/_/g, " ")}` : "Finished"}
           </span>
         </div>
 
@@ -250,6 +311,15 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
                     <span className="text-sm text-zinc-700 dark:text-zinc-300">
                       {p.display_name}
                     </span>
+                    <button
+                      onClick={() => copyRejoinLink(p.id)}
+                      className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 ml-1"
+                      title={rejoinCopiedId === p.id ? "Rejoin link copied" : "Copy rejoin link"}
+                    >
+                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={rejoinCopiedId === p.id ? "M5 13l4 4L19 7" : "M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"} />
+                      </svg>
+                    </button>
                     <button
                       onClick={() => kickPlayer(p.id)}
                       className="text-red-400 hover:text-red-600 ml-1"
@@ -266,6 +336,8 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
               )}
             </div>
 
+            <TeamSetup session={session} players={players} teams={teams} />
+
             <Button
               onClick={() => callAction("start_game")}
               disabled={players.length === 0}
@@ -300,18 +372,48 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
               Guesses: {guesses.length} / {players.length}
             </div>
 
-            {phase === "guessing" && (
-              <Button
-                onClick={() => callAction("show_price_result")}
-                loading={actionLoading}
-                className="w-full"
-                size="lg"
-              >
-                Reveal Price
-              </Button>
+            {canPIR(stage, "show_price_result") && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-3 gap-2">
+                  <Button
+                    onClick={() =>
+                      callAction(canPIR(stage, "resume_guessing") ? "resume_guessing" : "pause_guessing")
+                    }
+                    loading={actionLoading}
+                    variant="secondary"
+                    size="sm"
+                  >
+                    {canPIR(stage, "resume_guessing") ? "Resume" : "Pause"}
+                  </Button>
+                  <Button
+                    onClick={() => callAction("extend_guessing")}
+                    loading={actionLoading}
+                    variant="secondary"
+                    size="sm"
+                  >
+                    +{PIR_EXTEND_SECONDS}s
+                  </Button>
+                  <Button
+                    onClick={() => callAction("close_guessing")}
+                    loading={actionLoading}
+                    variant="secondary"
+                    size="sm"
+                  >
+                    Close
+                  </Button>
+                </div>
+                <Button
+                  onClick={() => callAction("show_price_result")}
+                  loading={actionLoading}
+                  className="w-full"
+                  size="lg"
+                >
+                  Reveal Price
+                </Button>
+              </div>
             )}
 
-            {phase === "price_result" && (
+            {canPIR(stage, "pay_the_price") && (
               <div className="space-y-3">
                 <p className="text-center text-sm font-medium text-green-600 dark:text-green-400">
                   Showing price result
@@ -339,7 +441,7 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
               </div>
             )}
 
-            {phase === "pay_the_price" && (
+            {canPIR(stage, "paid_the_price") && (
               <div className="space-y-3">
                 <p className="text-center text-sm font-medium text-red-600 dark:text-red-400">
                   Spinning the wheel...
@@ -355,7 +457,7 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
               </div>
             )}
 
-            {phase === "leaderboard" && (
+            {canPIR(stage, "next_item") && (
               <div className="space-y-3">
                 <p className="text-center text-sm font-medium text-indigo-600 dark:text-indigo-400">
                   Showing leaderboard
@@ -376,6 +478,21 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
               </div>
             )}
 
+            {standings.length > 0 && (
+              <div className="mt-4">
+                <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Teams
+                </h3>
+                <TeamStandings
+                  standings={standings}
+                  className="space-y-1"
+                  rowClassName="text-sm px-3 py-1.5 rounded bg-white dark:bg-slate-800 text-zinc-900 dark:text-zinc-100"
+                  rankClassName="text-zinc-400"
+                  scoreClassName="text-zinc-600 dark:text-zinc-400"
+                />
+              </div>
+            )}
+
             <div className="mt-4">
               <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
                 Leaderboard
@@ -400,6 +517,15 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
                       <span className="font-mono text-zinc-600 dark:text-zinc-400">
                         {p.score}
                       </span>
+                      <button
+                        onClick={() => copyRejoinLink(p.id)}
+                        className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200"
+                        title={rejoinCopiedId === p.id ? "Rejoin link copied" : "Copy rejoin link"}
+                      >
+                        <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={rejoinCopiedId === p.id ? "M5 13l4 4L19 7" : "M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"} />
+                        </svg>
+                      </button>
                       <button
                         onClick={() => kickPlayer(p.id)}
                         className="text-red-400 hover:text-red-600"
@@ -420,6 +546,16 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
             <h2 className="text-xl font-bold text-zinc-900 dark:text-zinc-100 mb-4">
               Game Over
             </h2>
+            {standings.length > 0 && (
+              <TeamStandings
+                standings={standings}
+                showMembers
+                className="space-y-2 mb-6 text-left"
+                rowClassName="text-base px-3 py-2 rounded bg-white dark:bg-slate-800 text-zinc-900 dark:text-zinc-100"
+                rankClassName="text-zinc-400"
+                scoreClassName="font-bold text-zinc-600 dark:text-zinc-300"
+              />
+            )}
             <div className="space-y-2 mb-6">
               {[...players]
                 .sort((a, b) => b.score - a.score)
@@ -448,7 +584,31 @@ export default function PIRHostRemote({ sessionId }: HostRemoteProps) {
           </div>
         )}
 
-        {isPlaying && (
+        {(isPlaying || isFinished) && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => callAction("undo")}
+              loading={actionLoading}
+            >
+              Undo
+            </Button>
+            <Select
+              value=""
+              onChange={(e) => callAction("rewind", { index: Number(e.target.value) })}
+              disabled={actionLoading}
+              options={[
+                { value: "", label: "Go back to item..." },
+                ...items
+                  .slice(0, currentItemIndex + 1)
+                  .map((item, i) => ({ value: String(i), label: `Item ${i + 1}: ${item.name}` })),
+              ]}
+            />
+          </div>
+        )}
+
+        {canPIR(stage, "finish_game") && (
           <div className="pt-4 border-t border-zinc-200 dark:border-zinc-800">
             <Button
               variant="danger"
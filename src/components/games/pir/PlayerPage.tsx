@@ -1,23 +1,30 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useRef } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { createClient } from "@/lib/supabase/client";
 import { subscribeToSession, unsubscribe } from "@/lib/realtime";
 import { PlayerCardIcon } from "@/components/pir/PlayerCardIcon";
+import { TeamPicker } from "@/components/teams/TeamPicker";
+import { TeamStandings } from "@/components/teams/TeamStandings";
 import { CountdownTimer } from "@/components/pir/CountdownTimer";
 import {
   formatPrice,
   getTierLabel,
   getAccuracyColor,
   isInPenaltyZone,
+  getWheelCandidates,
+  getWheelSpinner,
 } from "@/lib/pir-scoring";
 import { WheelOfPain } from "@/components/pir/WheelOfPain";
 import { AVATAR_COLORS } from "@/lib/avatar-colors";
+import { loadPlayerToken, savePlayerToken } from "@/lib/player-session";
 import { useGameTheme } from "@/lib/theme-context";
 import { getFontFamily, getGoogleFontsUrl } from "@/lib/theme-fonts";
 import { getPatternBg } from "@/lib/theme-patterns";
+import { getItemTimerSeconds } from "@/lib/pir-timer";
+import { useSessionTeams } from "@/lib/use-session-teams";
 import type {
   Session,
   SessionPlayer,
@@ -50,6 +57,8 @@ export interface PIRPlayerDevMode {
   error?: string;
   guessHistory?: { itemName: string; guess: number; actualPrice: number; score: number; tier: string; accuracy: number }[];
   penaltyPlayers?: { name: string; color: string; playerId: string }[];
+  /** Whose phone spins the wheel in on-the-go mode; defaults to this player */
+  wheelSpinnerId?: string | null;
 }
 
 /* ─── Theme-aware helper components ─── */
@@ -244,23 +253,31 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
   const [phase, setPhase] = useState<PlayerPhase>(devMode?.phase || "joining");
   const [session, setSession] = useState<Session | null>(devMode?.session ?? null);
   const [player, setPlayer] = useState<SessionPlayer | null>(devMode?.player ?? null);
+  const [playerToken, setPlayerToken] = useState<string | null>(null);
   const [players, setPlayers] = useState<SessionPlayer[]>(devMode?.players ?? []);
   const [currentItem, setCurrentItem] = useState<PriceIsRightItem | null>(devMode?.currentItem ?? null);
   const [myGuess, setMyGuess] = useState<PriceGuess | null>(devMode?.myGuess ?? null);
+  const myGuessRef = useRef(myGuess);
   const [guessInput, setGuessInput] = useState("");
   const [displayName, setDisplayName] = useState("");
   const [avatarColor, setAvatarColor] = useState<string>(AVATAR_COLORS[0]);
   const [error, setError] = useState(devMode?.error || "");
   const [joinLoading, setJoinLoading] = useState(false);
+  const [guessError, setGuessError] = useState("");
+  const [teamError, setTeamError] = useState("");
   const [showPercent, setShowPercent] = useState(devMode?.showPercent ?? false);
   const [gameName, setGameName] = useState(devMode?.gameName ?? "");
   const [lightboxSrc, setLightboxSrc] = useState<string | null>(null);
   const [penaltyPlayers, setPenaltyPlayers] = useState<{ name: string; color: string; playerId: string }[]>(devMode?.penaltyPlayers ?? []);
+  const [wheelSpinnerId, setWheelSpinnerId] = useState<string | null>(
+    devMode ? (devMode.wheelSpinnerId ?? devMode.player?.id ?? null) : null
+  );
 
   const [guessHistory, setGuessHistory] = useState<
     { itemName: string; guess: number; actualPrice: number; score: number; tier: string; accuracy: number }[]
   >(devMode?.guessHistory ?? []);
   const [lobbyTab, setLobbyTab] = useState<"prices" | "scores" | "help">("prices");
+  const { teams, standings } = useSessionTeams(session, players, !!devMode);
 
   // Load session
   useEffect(() => {
@@ -299,13 +316,15 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
         .eq("is_removed", false);
       setPlayers(playersData || []);
 
-      const storedPlayerId = localStorage.getItem(`heyhost-player-${data.id}`);
-      if (storedPlayerId) {
-        const { data: existingPlayer } = await supabase
-          .from("session_players")
-          .select("*")
-          .eq("id", storedPlayerId)
-          .maybeSingle();
+      const storedToken = loadPlayerToken(data.id);
+      if (storedToken) {
+        const res = await fetch("/api/players", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "rejoin", sessionId: data.id, token: storedToken }),
+        });
+        const existingPlayer: SessionPlayer | null = res.ok ? (await res.json()).player : null;
+        if (existingPlayer) setPlayerToken(storedToken);
 
         if (existingPlayer && !existingPlayer.is_removed) {
           setPlayer(existingPlayer);
@@ -372,6 +391,10 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
     checkGuess();
   }, [session?.pir_current_item_id, player?.id, session?.pir_phase]);
 
+  useEffect(() => {
+    myGuessRef.current = myGuess;
+  }, [myGuess]);
+
   // Subscribe to realtime
   useEffect(() => {
     if (devMode) return;
@@ -387,22 +410,27 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
         } else if (s.status === "playing") {
           const pirPhase = s.pir_phase;
           if (pirPhase === "guessing") {
-            setMyGuess(null);
-            setGuessInput("");
-            setPhase("guessing");
+            // Pause, add time and undo stay on the same item — keep the guess already made
+            if (myGuessRef.current?.item_id === s.pir_current_item_id) {
+              setPhase("guessed");
+            } else {
+              setMyGuess(null);
+              setGuessInput("");
+              setGuessError("");
+              setPhase("guessing");
+            }
           } else {
             if (pirPhase === "pay_the_price" && s.display_mode === "on_the_go" && s.pir_current_item_id) {
               // Fetch penalty players for on-the-go wheel
               const supabase = createClient();
               const { data: guessesData } = await supabase
                 .from("price_guesses")
-                .select("player_id, guess_accuracy")
+                .select("player_id, tier, guess_accuracy, paid_the_price")
                 .eq("session_id", s.id)
                 .eq("item_id", s.pir_current_item_id);
               if (guessesData) {
-                const penaltyPlayerIds = guessesData
-                  .filter((g) => isInPenaltyZone(g.guess_accuracy))
-                  .map((g) => g.player_id);
+                const penaltyPlayerIds = getWheelCandidates(guessesData).map((g) => g.player_id);
+                setWheelSpinnerId(getWheelSpinner(guessesData));
                 setPenaltyPlayers(
                   players
                     .filter((p) => penaltyPlayerIds.includes(p.id))
@@ -432,6 +460,15 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
         }
       },
       onPriceGuessChange: (payload) => {
+        if (payload.eventType === "DELETE") {
+          // Undo removes guesses made after the restored point
+          const removed = payload.old as Partial<PriceGuess>;
+          if (myGuessRef.current?.id === removed.id) {
+            setMyGuess(null);
+            setPhase((prev) => (prev === "guessed" ? "guessing" : prev));
+          }
+          return;
+        }
         const g = payload.new as PriceGuess;
         if (player && g.player_id === player.id) {
           setMyGuess(g);
@@ -453,36 +490,24 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
     setError("");
 
     try {
-      const supabase = createClient();
-
-      const { data: existing } = await supabase
-        .from("session_players")
-        .select("display_name")
-        .eq("session_id", session.id)
-        .eq("is_removed", false);
+      // The server de-duplicates names and signs the token that proves this phone is the player
+      const res = await fetch("/api/players", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "join",
+          sessionId: session.id,
+          displayName: displayName.trim(),
+          avatarColor,
+        }),
+      });
 
-      let finalName = displayName.trim();
-      const names = (existing || []).map((p) => p.display_name.toLowerCase());
-      if (names.includes(finalName.toLowerCase())) {
-        let counter = 2;
-        while (names.includes(`${finalName.toLowerCase()}${counter}`)) counter++;
-        finalName = `${finalName}${counter}`;
-      }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
 
-      const { data: newPlayer, error: insertError } = await supabase
-        .from("session_players")
-        .insert({
-          session_id: session.id,
-          display_name: finalName,
-          avatar_color: avatarColor,
-        })
-        .select()
-        .single();
-
-      if (insertError) throw insertError;
-
-      setPlayer(newPlayer);
-      localStorage.setItem(`heyhost-player-${session.id}`, newPlayer.id);
+      setPlayer(data.player);
+      setPlayerToken(data.token);
+      savePlayerToken(session.id, data.token);
       setPhase("lobby");
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : "Failed to join.");
@@ -498,6 +523,7 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
     const guessValue = parseFloat(guessInput.replace(/,/g, ""));
     if (isNaN(guessValue) || guessValue < 0) return;
 
+    setGuessError("");
     try {
       const res = await fetch("/api/pir", {
         method: "POST",
@@ -505,7 +531,7 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
         body: JSON.stringify({
           action: "submit_guess",
           sessionId: session.id,
-          playerId: player.id,
+          playerToken,
           itemId: currentItem.id,
           guess: showPercent ? guessValue : guessValue * 100,
         }),
@@ -540,9 +566,38 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
         },
       ]);
     } catch (err) {
-      console.error("Failed to submit guess:", err);
+      // Late guesses are refused by the server — surface the reason
+      setGuessError(err instanceof Error && err.message ? err.message : "Failed to submit guess");
     }
-  }, [session, player, currentItem, guessInput, showPercent]);
+  }, [session, player, playerToken, currentItem, guessInput, showPercent]);
+
+  const handleChooseTeam = useCallback(async (teamId: string) => {
+    if (devMode) return;
+    if (!session) return;
+
+    setTeamError("");
+    try {
+      const res = await fetch("/api/players", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "choose_team",
+          sessionId: session.id,
+          token: playerToken,
+          teamId,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setPlayer(data.player);
+    } catch (err) {
+      setTeamError(err instanceof Error && err.message ? err.message : "Failed to join team");
+    }
+  }, [session, playerToken, devMode]);
+
+  const myTeamId = players.find((p) => p.id === player?.id)?.team_id ?? player?.team_id ?? null;
+  const myTeam = teams.find((team) => team.id === myTeamId) ?? null;
 
   // ============ RENDER ============
 
@@ -749,6 +804,37 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
             </div>
           </BankCard>
 
+          {/* Team — picked here, or shown once the host deals teams out */}
+          {session.team_mode !== "off" && teams.length > 0 && (
+            <div>
+              <h3 className="text-sm font-bold mb-2 px-1">
+                {session.team_mode === "choose" ? "Pick your team" : "Your team"}
+              </h3>
+              {session.team_mode === "choose" ? (
+                <TeamPicker
+                  teams={teams}
+                  players={players}
+                  currentTeamId={myTeamId}
+                  onPick={handleChooseTeam}
+                />
+              ) : myTeam ? (
+                <div
+                  className="rounded-xl px-4 py-3 font-bold text-white"
+                  style={{ backgroundColor: myTeam.color }}
+                >
+                  {myTeam.name}
+                </div>
+              ) : (
+                <p className="text-xs px-1" style={{ color: t.textDim }}>
+                  The host is putting teams together...
+                </p>
+              )}
+              {teamError && (
+                <p className="text-xs mt-2 px-1" style={{ color: t.danger }}>{teamError}</p>
+              )}
+            </div>
+          )}
+
           {/* Tab Buttons */}
           <div className="grid grid-cols-3 gap-2">
             {([
@@ -949,7 +1035,8 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
           </div>
           <CountdownTimer
             endsAt={session.pir_item_end_timestamp}
-            totalSeconds={30}
+            totalSeconds={getItemTimerSeconds(currentItem, session)}
+            pausedRemainingMs={session.pir_paused_remaining_ms}
             size="sm"
           />
         </div>
@@ -1054,6 +1141,11 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
               >
                 Lock In Guess
               </BankButton>
+              {guessError && (
+                <p className="text-xs text-center font-medium" style={{ color: t.danger }}>
+                  {guessError}
+                </p>
+              )}
             </>
           )}
         </div>
@@ -1177,6 +1269,7 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
   if (phase === "pay_the_price") {
     const isOnTheGo = session?.display_mode === "on_the_go";
     const playerAtRisk = penaltyPlayers.some((p) => p.playerId === player?.id);
+    const spinner = penaltyPlayers.find((p) => p.playerId === wheelSpinnerId);
 
     return (
       <BankShell t={t}>
@@ -1193,8 +1286,8 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
             Pay the Price<br />Penalty Audit
           </h2>
 
-          {isOnTheGo && penaltyPlayers.length > 0 ? (
-            /* On the Go — wheel on player's phone */
+          {isOnTheGo && spinner && spinner.playerId === player?.id ? (
+            /* On the Go — wheel on the spinning player's phone */
             <div className="w-full max-w-xs mx-auto">
               <WheelOfPain
                 contestants={penaltyPlayers}
@@ -1209,6 +1302,7 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
                         action: "paid_the_price",
                         sessionId: session.id,
                         playerId,
+                        playerToken,
                       }),
                     });
                   } catch (err) {
@@ -1225,7 +1319,7 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
                 Audit In Progress
               </p>
               <p className="text-center text-sm mb-8" style={{ color: t.textMuted }}>
-                Watch the screen!
+                {isOnTheGo && spinner ? `${spinner.name} is spinning the wheel!` : "Watch the screen!"}
               </p>
               <div
                 className="w-full max-w-xs h-1 rounded-full overflow-hidden"
@@ -1309,6 +1403,20 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
             </div>
           )}
 
+          {/* Team Standings */}
+          {standings.length > 0 && (
+            <BankCard t={t} className="!p-2">
+              <TeamStandings
+                standings={standings}
+                className="flex flex-col"
+                rowClassName="px-3 py-2.5 text-sm"
+                rankStyle={{ color: t.textDim }}
+                scoreClassName="font-bold tabular-nums"
+                scoreStyle={{ color: t.accent, fontFamily: getFontFamily(t.headingFont) }}
+              />
+            </BankCard>
+          )}
+
           {/* Full Rankings */}
           <BankCard t={t} className="!p-2">
             <div>
@@ -1413,6 +1521,20 @@ export default function PIRPlayerPage({ sessionCode, devMode }: { sessionCode: s
             </BankCard>
           )}
 
+          {/* Team Standings */}
+          {standings.length > 0 && (
+            <BankCard t={t} className="!p-2">
+              <TeamStandings
+                standings={standings}
+                className="flex flex-col"
+                rowClassName="px-3 py-2.5 text-sm"
+                rankStyle={{ color: t.textDim }}
+                scoreClassName="font-bold tabular-nums"
+                scoreStyle={{ color: t.accent, fontFamily: getFontFamily(t.headingFont) }}
+              />
+            </BankCard>
+          )}
+
           {/* Final Standings */}
           <div>
             <h3 className="text-sm font-bold mb-2 px-1">Final Standings</h3>
@@ -8,9 +8,12 @@ import { CountdownTimer } from "@/components/pir/CountdownTimer";
 import { BarcodePriceReveal } from "@/components/pir/BarcodePriceReveal";
 import { WheelOfPain } from "@/components/pir/WheelOfPain";
 import { PlayerCardIcon } from "@/components/pir/PlayerCardIcon";
+import { TeamStandings } from "@/components/teams/TeamStandings";
+import { useSessionTeams } from "@/lib/use-session-teams";
 import { useGameTheme } from "@/lib/theme-context";
 import { getFontFamily, getGoogleFontsUrl } from "@/lib/theme-fonts";
 import { getPatternBg } from "@/lib/theme-patterns";
+import { getItemTimerSeconds } from "@/lib/pir-timer";
 import {
   formatPrice,
   isInPenaltyZone,
@@ -72,6 +75,7 @@ export default function PIRScreenPage({ sessionCode, devMode }: { sessionCode: s
   const [gameTopic, setGameTopic] = useState(devMode?.gameTopic ?? "");
   const [showBarcodeReveal, setShowBarcodeReveal] = useState(false);
   const [showWheel, setShowWheel] = useState(false);
+  const { standings } = useSessionTeams(session, players, !!devMode);
 
   // Load session
   useEffect(() => {
@@ -204,6 +208,10 @@ export default function PIRScreenPage({ sessionCode, devMode }: { sessionCode: s
           setGuesses((prev) => [...prev.filter((x) => x.player_id !== g.player_id), g]);
         } else if (payload.eventType === "UPDATE") {
           setGuesses((prev) => prev.map((x) => (x.id === g.id ? g : x)));
+        } else if (payload.eventType === "DELETE") {
+          // Undo removes guesses made after the restored point
+          const removed = payload.old as Partial<PriceGuess>;
+          setGuesses((prev) => prev.filter((x) => x.id !== removed.id));
         }
       },
     });
@@ -363,6 +371,23 @@ export default function PIRScreenPage({ sessionCode, devMode }: { sessionCode: s
         <div className="flex-1 min-h-0 flex flex-col items-center justify-center p-6 overflow-hidden">
           <h1 className="text-4xl font-bold mb-6 shrink-0">Final Results</h1>
 
+          {standings.length > 0 && (
+            <div className="w-full max-w-md mb-6 shrink-0">
+              <p className="text-center text-xl font-bold mb-3" style={{ color: t.accent }}>
+                {standings[0].team.name} wins!
+              </p>
+              <TeamStandings
+                standings={standings.slice(0, 4)}
+                className="flex flex-col gap-1.5"
+                rowClassName="px-4 py-1.5 rounded-lg text-base"
+                rowStyle={{ background: t.surface, border: `1px solid ${t.border}` }}
+                rankStyle={{ color: t.textDim }}
+                scoreClassName="font-bold tabular-nums"
+                scoreStyle={{ color: t.accent, fontFamily: getFontFamily(t.headingFont) }}
+              />
+            </div>
+          )}
+
           <div className="flex items-end gap-5 mb-6 shrink-0">
             {podium[1] && (
               <div className="text-center">
@@ -553,7 +578,8 @@ export default function PIRScreenPage({ sessionCode, devMode }: { sessionCode: s
                   <p className="text-sm font-bold uppercase tracking-wider">Time Remaining</p>
                   <CountdownTimer
                     endsAt={session.pir_item_end_timestamp}
-                    totalSeconds={30}
+                    totalSeconds={getItemTimerSeconds(currentItem, session)}
+                    pausedRemainingMs={session.pir_paused_remaining_ms}
                   />
                 </div>
               )}
@@ -684,8 +710,21 @@ export default function PIRScreenPage({ sessionCode, devMode }: { sessionCode: s
         <div className="flex-1 min-h-0 flex flex-col items-center justify-center p-6 overflow-hidden">
           <h2 className="text-4xl font-bold mb-6 shrink-0">Leaderboard</h2>
 
+          {standings.length > 0 && (
+            <TeamStandings
+              standings={standings}
+              showMembers
+              className="w-full max-w-2xl flex flex-col gap-1.5 mb-4 shrink-0"
+              rowClassName="px-5 py-2.5 rounded-xl text-lg"
+              rowStyle={{ background: t.surface, border: `1px solid ${t.border}` }}
+              rankStyle={{ color: t.textDim }}
+              scoreClassName="text-2xl font-bold tracking-[-0.025em] tabular-nums"
+              scoreStyle={{ color: t.accent, fontFamily: getFontFamily(t.headingFont) }}
+            />
+          )}
+
           <div className="w-full max-w-2xl flex flex-col gap-1.5 min-h-0 overflow-hidden">
-            {sorted.slice(0, 10).map((p, i) => {
+            {sorted.slice(0, standings.length > 0 ? 6 : 10).map((p, i) => {
               const guess = guesses.find((g) => g.player_id === p.id);
               return (
                 <div
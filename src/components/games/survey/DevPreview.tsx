@@ -0,0 +1,139 @@
+"use client";
+
+import SurveyPlayerPage from "@/components/games/survey/PlayerPage";
+import SurveyScreenPage from "@/components/games/survey/ScreenPage";
+import {
+  MOCK_PLAYER,
+  MOCK_PLAYERS,
+  MOCK_SESSION_FINISHED,
+  MOCK_SESSION_LOBBY,
+  MOCK_SESSION_PLAYING,
+} from "@/lib/dev-mocks";
+import type { DevPreviewControl, DevPreviewScreen } from "@/lib/game-registry";
+import type { Session, SurveyBoard, SurveyBoardAnswer, SurveyGuess } from "@/lib/types";
+
+// ============================================================
+// Mock Data
+// ============================================================
+
+const MOCK_SURVEY_ANSWERS: { text: string; points: number }[] = [
+  { text: "Alarm clock", points: 38 },
+  { text: "Shower", points: 22 },
+  { text: "Coffee", points: 15 },
+  { text: "Check phone", points: 11 },
+  { text: "Brush teeth", points: 7 },
+  { text: "Get dressed", points: 4 },
+];
+
+/** The board for round 3; `found` answers are face up, `all` flips the rest too */
+function board(found: number[], all = false): SurveyBoard {
+  const answers: SurveyBoardAnswer[] = MOCK_SURVEY_ANSWERS.map((a, i) => {
+    const shown = all || found.includes(i);
+    return {
+      id: `a${i}`,
+      answer_order: i,
+      answer_text: shown ? a.text : null,
+      points: shown ? a.points : null,
+    };
+  });
+  return {
+    round_count: 5,
+    question: { id: "sq3", prompt: "Name something people do first thing in the morning", answers },
+  };
+}
+
+const MOCK_SURVEY_BOARD_LOBBY: SurveyBoard = { round_count: 5, question: null };
+
+const MOCK_SURVEY_SESSION_GUESSING: Session = {
+  ...MOCK_SESSION_PLAYING,
+  timer_seconds: 60,
+  survey_phase: "guessing",
+  survey_ends_at: new Date(Date.now() + 42000).toISOString(),
+};
+
+const MOCK_SURVEY_SESSION_BOARD: Session = {
+  ...MOCK_SURVEY_SESSION_GUESSING, survey_phase: "board",
+};
+
+function guess(playerId: string, text: string, answer: number | null): SurveyGuess {
+  return {
+    id: `sg-${playerId}-${text}`,
+    session_id: "s1",
+    player_id: playerId,
+    team_id: null,
+    question_id: "sq3",
+    guess_text: text,
+    answer_id: answer === null ? null : `a${answer}`,
+    points_awarded: answer === null ? 0 : MOCK_SURVEY_ANSWERS[answer].points,
+    created_at: new Date().toISOString(),
+  };
+}
+
+// Bob found the alarm clock, Alice the coffee; a few misses along the way
+const MOCK_SURVEY_GUESSES: SurveyGuess[] = [
+  guess("p2", "alarm", 0),
+  guess("p1", "coffee", 2),
+  guess("p3", "breakfast", null),
+  guess("p1", "yoga", null),
+  guess("p6", "phone", 3),
+  guess("p5", "pee", null),
+  guess("p5", "make bed", null),
+];
+
+// Alice's second and third misses strike her out
+const MOCK_SURVEY_STRUCK_OUT: SurveyGuess[] = [
+  ...MOCK_SURVEY_GUESSES,
+  guess("p1", "stretch", null),
+  guess("p1", "run", null),
+];
+
+// ============================================================
+// Screen Definitions
+// ============================================================
+
+const STRIKE: DevPreviewControl = { type: "toggle", key: "strike", on: "Strike", off: "No Strike", tone: "risk" };
+
+const SURVEY_SCREENS: DevPreviewScreen[] = [
+  // Survey Says Player
+  { id: "sp-joining", label: "Joining", group: "Survey Says — Player", render: () => (
+    <SurveyPlayerPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_LOBBY, player: null, players: MOCK_PLAYERS, board: MOCK_SURVEY_BOARD_LOBBY }} />
+  )},
+  { id: "sp-lobby", label: "Lobby", group: "Survey Says — Player", render: () => (
+    <SurveyPlayerPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_LOBBY, player: MOCK_PLAYER, players: MOCK_PLAYERS, board: MOCK_SURVEY_BOARD_LOBBY }} />
+  )},
+  { id: "sp-guessing", label: "Guessing", group: "Survey Says — Player", render: () => (
+    <SurveyPlayerPage sessionCode="DEMO" devMode={{ session: MOCK_SURVEY_SESSION_GUESSING, player: MOCK_PLAYER, players: MOCK_PLAYERS, board: board([0, 2, 3]), guesses: MOCK_SURVEY_GUESSES }} />
+  )},
+  { id: "sp-struck-out", label: "Struck Out", group: "Survey Says — Player", render: () => (
+    <SurveyPlayerPage sessionCode="DEMO" devMode={{ session: MOCK_SURVEY_SESSION_GUESSING, player: MOCK_PLAYER, players: MOCK_PLAYERS, board: board([0, 2, 3]), guesses: MOCK_SURVEY_STRUCK_OUT }} />
+  )},
+  { id: "sp-board", label: "Board", group: "Survey Says — Player", render: () => (
+    <SurveyPlayerPage sessionCode="DEMO" devMode={{ session: MOCK_SURVEY_SESSION_BOARD, player: MOCK_PLAYER, players: MOCK_PLAYERS, board: board([0, 2, 3], true), guesses: MOCK_SURVEY_GUESSES }} />
+  )},
+  { id: "sp-finished", label: "Finished", group: "Survey Says — Player", render: () => (
+    <SurveyPlayerPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_FINISHED, player: MOCK_PLAYER, players: MOCK_PLAYERS, board: MOCK_SURVEY_BOARD_LOBBY }} />
+  )},
+
+  // Survey Says Screen
+  { id: "ss-lobby", label: "Lobby", group: "Survey Says — Screen", render: () => (
+    <SurveyScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_LOBBY, players: MOCK_PLAYERS, board: MOCK_SURVEY_BOARD_LOBBY }} />
+  )},
+  { id: "ss-guessing", label: "Guessing", group: "Survey Says — Screen", controls: [STRIKE],
+    render: ({ strike }) => (
+      <SurveyScreenPage sessionCode="DEMO" devMode={{
+        session: MOCK_SURVEY_SESSION_GUESSING,
+        players: MOCK_PLAYERS,
+        board: board([0, 2, 3]),
+        guesses: MOCK_SURVEY_GUESSES,
+        strike: strike ? MOCK_SURVEY_GUESSES[6] : undefined,
+      }} />
+    )},
+  { id: "ss-board", label: "Board", group: "Survey Says — Screen", render: () => (
+    <SurveyScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SURVEY_SESSION_BOARD, players: MOCK_PLAYERS, board: board([0, 2, 3], true), guesses: MOCK_SURVEY_GUESSES }} />
+  )},
+  { id: "ss-finished", label: "Finished", group: "Survey Says — Screen", render: () => (
+    <SurveyScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_FINISHED, players: MOCK_PLAYERS, board: MOCK_SURVEY_BOARD_LOBBY }} />
+  )},
+];
+
+export default SURVEY_SCREENS;
@@ -0,0 +1,600 @@
+"use client";
+
+import { useEffect, useState, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import { Modal } from "@/components/ui/modal";
+import { generateGameCode } from "@/lib/game-code";
+import { ThemePicker } from "@/components/games/ThemePicker";
+import { SurveyGameFields, type SurveyGameDraft } from "@/components/games/survey/GameFields";
+import { GAME_TYPES, type EditorProps } from "@/lib/game-registry";
+import {
+  parseAliases,
+  sortSurveyAnswers,
+  sortSurveyQuestions,
+  SURVEY_DEFAULT_POINTS,
+  SURVEY_MAX_ANSWERS,
+  SURVEY_MIN_ANSWERS,
+} from "@/lib/survey-says";
+import type { Game, GameTheme, SurveyAnswer, SurveyQuestion } from "@/lib/types";
+
+type QuestionWithAnswers = SurveyQuestion & { survey_answers: SurveyAnswer[] };
+
+/** Answers new questions start with — enough for a board, more can be added */
+const STARTER_ANSWERS = 4;
+
+/** Why a question isn't ready to play, if it isn't */
+function getQuestionProblem(question: QuestionWithAnswers): string | null {
+  if (!question.prompt.trim()) return "needs a prompt";
+  if (question.survey_answers.length < SURVEY_MIN_ANSWERS) {
+    return `needs at least ${SURVEY_MIN_ANSWERS} answers`;
+  }
+  if (question.survey_answers.some((a) => !a.answer_text.trim())) return "has a blank answer";
+  return null;
+}
+
+export default function SurveyEditor({ gameId }: EditorProps) {
+  const router = useRouter();
+  const [game, setGame] = useState<Game | null>(null);
+  const [draft, setDraft] = useState<SurveyGameDraft | null>(null);
+  const [questions, setQuestions] = useState<QuestionWithAnswers[]>([]);
+  const [theme, setTheme] = useState<GameTheme>(GAME_TYPES.survey_says.defaultTheme);
+  const [startingSession, setStartingSession] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [error, setError] = useState("");
+
+  // Autosave
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const savedStatusTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const lastSavedRef = useRef("");
+
+  useEffect(() => {
+    async function loadGame() {
+      const supabase = createClient();
+      const { data: gameData } = await supabase
+        .from("games")
+        .select("*")
+        .eq("id", gameId)
+        .single();
+
+      if (!gameData) {
+        router.push("/dashboard");
+        return;
+      }
+
+      const { data: questionsData } = await supabase
+        .from("survey_questions")
+        .select("*, survey_answers(*)")
+        .eq("game_id", gameId);
+
+      const loaded: SurveyGameDraft = {
+        title: gameData.title,
+        timerSeconds: gameData.timer_seconds,
+      };
+      const loadedTheme = gameData.theme || GAME_TYPES.survey_says.defaultTheme;
+      lastSavedRef.current = JSON.stringify({ ...loaded, theme: loadedTheme });
+      setGame(gameData);
+      setDraft(loaded);
+      setTheme(loadedTheme);
+      setQuestions(
+        sortSurveyQuestions((questionsData || []) as QuestionWithAnswers[]).map((q) => ({
+          ...q,
+          survey_answers: sortSurveyAnswers(q.survey_answers),
+        }))
+      );
+    }
+
+    loadGame();
+    return () => {
+      clearTimeout(saveTimerRef.current);
+      clearTimeout(savedStatusTimerRef.current);
+    };
+  }, [gameId, router]);
+
+  // Autosave settings
+  useEffect(() => {
+    if (!game || !draft) return;
+    const snapshot = JSON.stringify({ ...draft, theme });
+    if (snapshot === lastSavedRef.current) return;
+
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(async () => {
+      if (!draft.title.trim()) return;
+      setSaveStatus("saving");
+      try {
+        const supabase = createClient();
+        const { error: updateError } = await supabase
+          .from("games")
+          .update({
+            title: draft.title.trim(),
+            timer_seconds: draft.timerSeconds,
+            theme,
+          })
+          .eq("id", game.id);
+
+        if (updateError) throw updateError;
+
+        lastSavedRef.current = snapshot;
+        setSaveStatus("saved");
+        clearTimeout(savedStatusTimerRef.current);
+        savedStatusTimerRef.current = setTimeout(() => setSaveStatus("idle"), 2000);
+      } catch {
+        setSaveStatus("error");
+      }
+    }, 800);
+  }, [draft, theme, game]);
+
+  async function handleAddQuestion() {
+    if (!game) return;
+    setError("");
+    const supabase = createClient();
+    const { data: question, error: insertError } = await supabase
+      .from("survey_questions")
+      .insert({
+        game_id: game.id,
+        question_order: questions.length,
+        prompt: "",
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      setError(insertError.message);
+      return;
+    }
+
+    const { data: answers } = await supabase
+      .from("survey_answers")
+      .insert(
+        SURVEY_DEFAULT_POINTS.slice(0, STARTER_ANSWERS).map((points, i) => ({
+          question_id: question.id,
+          answer_order: i,
+          answer_text: "",
+          points,
+        }))
+      )
+      .select();
+
+    setQuestions([...questions, { ...question, survey_answers: sortSurveyAnswers(answers || []) }]);
+  }
+
+  async function handleUpdateQuestion(questionId: string, prompt: string) {
+    const supabase = createClient();
+    await supabase.from("survey_questions").update({ prompt }).eq("id", questionId);
+    setQuestions((prev) => prev.map((q) => (q.id === questionId ? { ...q, prompt } : q)));
+  }
+
+  async function handleMoveQuestion(fromIdx: number, toIdx: number) {
+    if (toIdx < 0 || toIdx >= questions.length) return;
+    const reordered = [...questions];
+    const [moved] = reordered.splice(fromIdx, 1);
+    reordered.splice(toIdx, 0, moved);
+    const withOrder = reordered.map((q, i) => ({ ...q, question_order: i }));
+    setQuestions(withOrder);
+    const supabase = createClient();
+    await Promise.all(
+      withOrder.map((q, i) =>
+        supabase.from("survey_questions").update({ question_order: i }).eq("id", q.id)
+      )
+    );
+  }
+
+  async function handleDeleteQuestion(questionId: string) {
+    const supabase = createClient();
+    // Its answers go with it (on delete cascade)
+    await supabase.from("survey_questions").delete().eq("id", questionId);
+    const remaining = questions
+      .filter((q) => q.id !== questionId)
+      .map((q, i) => ({ ...q, question_order: i }));
+    setQuestions(remaining);
+    await Promise.all(
+      remaining.map((q, i) =>
+        supabase.from("survey_questions").update({ question_order: i }).eq("id", q.id)
+      )
+    );
+  }
+
+  async function handleAddAnswer(questionId: string) {
+    const question = questions.find((q) => q.id === questionId);
+    if (!question || question.survey_answers.length >= SURVEY_MAX_ANSWERS) return;
+    const count = question.survey_answers.length;
+    const supabase = createClient();
+    const { data, error: insertError } = await supabase
+      .from("survey_answers")
+      .insert({
+        question_id: questionId,
+        answer_order: count,
+        answer_text: "",
+        points: SURVEY_DEFAULT_POINTS[count] ?? 1,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      setError(insertError.message);
+      return;
+    }
+
+    setQuestions((prev) =>
+      prev.map((q) =>
+        q.id === questionId ? { ...q, survey_answers: [...q.survey_answers, data] } : q
+      )
+    );
+  }
+
+  async function handleUpdateAnswer(questionId: string, answerId: string, updates: Partial<SurveyAnswer>) {
+    const supabase = createClient();
+    await supabase.from("survey_answers").update(updates).eq("id", answerId);
+    setQuestions((prev) =>
+      prev.map((q) =>
+        q.id === questionId
+          ? { ...q, survey_answers: q.survey_answers.map((a) => (a.id === answerId ? { ...a, ...updates } : a)) }
+          : q
+      )
+    );
+  }
+
+  async function handleDeleteAnswer(questionId: string, answerId: string) {
+    const question = questions.find((q) => q.id === questionId);
+    if (!question) return;
+    const supabase = createClient();
+    await supabase.from("survey_answers").delete().eq("id", answerId);
+    // Close the gap so the board's numbering stays 1, 2, 3...
+    const remaining = question.survey_answers
+      .filter((a) => a.id !== answerId)
+      .map((a, i) => ({ ...a, answer_order: i }));
+    setQuestions((prev) =>
+      prev.map((q) => (q.id === questionId ? { ...q, survey_answers: remaining } : q))
+    );
+    await Promise.all(
+      remaining.map((a, i) =>
+        supabase.from("survey_answers").update({ answer_order: i }).eq("id", a.id)
+      )
+    );
+  }
+
+  const problems = questions
+    .map((q, i) => {
+      const problem = getQuestionProblem(q);
+      return problem ? `Question ${i + 1} ${problem}` : null;
+    })
+    .filter(Boolean);
+  const canStart = questions.length > 0 && problems.length === 0;
+
+  async function handleStartSession() {
+    if (!game || !draft || !canStart) return;
+    setStartingSession(true);
+    setError("");
+
+    try {
+      const supabase = createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      let code = generateGameCode();
+      let attempts = 0;
+      while (attempts < 5) {
+        const { data: existing } = await supabase
+          .from("sessions")
+          .select("id")
+          .eq("code", code)
+          .neq("status", "finished")
+          .maybeSingle();
+
+        if (!existing) break;
+        code = generateGameCode();
+        attempts++;
+      }
+
+      const { data: session, error: sessionError } = await supabase
+        .from("sessions")
+        .insert({
+          game_id: game.id,
+          host_id: user.id,
+          code,
+          status: "lobby",
+          current_question_index: -1,
+          timer_seconds: draft.timerSeconds,
+          speed_bonus: false,
+          display_mode: "tv",
+        })
+        .select()
+        .single();
+
+      if (sessionError) throw sessionError;
+
+      // Open the host console in a new tab so the editor stays put
+      if (typeof window !== "undefined") {
+        window.open(`/host/${session.id}`, "_blank", "noopener,noreferrer");
+      }
+      setStartingSession(false);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to start session");
+      setStartingSession(false);
+    }
+  }
+
+  async function handleDeleteGame() {
+    const supabase = createClient();
+    await supabase.from("games").delete().eq("id", gameId);
+    router.push("/dashboard");
+  }
+
+  if (!draft) {
+    return (
+      <div className="flex justify-center py-24">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="flex items-start justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl font-bold text-ink mb-2">{draft.title || "Untitled"}</h1>
+          <p className="text-smoke text-sm">
+            Survey Says
+            {saveStatus === "saving" && " · Saving..."}
+            {saveStatus === "saved" && " · Saved"}
+            {saveStatus === "error" && " · Couldn't save"}
+          </p>
+        </div>
+        <Button variant="cta" onClick={handleStartSession} loading={startingSession} disabled={!canStart}>
+          Start Game
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        <SurveyGameFields draft={draft} onChange={setDraft} />
+
+        {/* Questions */}
+        <div className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold text-ink">Survey Questions</h2>
+            <p className="text-sm text-smoke mt-1">
+              One round each. List answers from most to least popular — players find them on a
+              numbered board, and whoever finds one first gets its points.
+            </p>
+          </div>
+
+          {questions.map((q, i) => (
+            <SurveyQuestionCard
+              key={q.id}
+              question={q}
+              index={i}
+              count={questions.length}
+              onUpdatePrompt={(prompt) => handleUpdateQuestion(q.id, prompt)}
+              onMove={(to) => handleMoveQuestion(i, to)}
+              onDelete={() => handleDeleteQuestion(q.id)}
+              onAddAnswer={() => handleAddAnswer(q.id)}
+              onUpdateAnswer={(answerId, updates) => handleUpdateAnswer(q.id, answerId, updates)}
+              onDeleteAnswer={(answerId) => handleDeleteAnswer(q.id, answerId)}
+            />
+          ))}
+
+          {questions.length === 0 && (
+            <p className="text-sm text-smoke">No questions yet — add your first survey question.</p>
+          )}
+
+          <Button variant="cta-ghost" onClick={handleAddQuestion}>
+            Add Survey Question
+          </Button>
+
+          {problems.length > 0 && (
+            <p className="text-sm text-smoke">
+              Before you can start: {problems.join("; ")}.
+            </p>
+          )}
+        </div>
+
+        {/* Theme */}
+        <div className="bg-paper rounded-2xl p-6">
+          <ThemePicker value={theme} onChange={setTheme} />
+        </div>
+
+        {error && (
+          <p className="text-coral text-sm">{error}</p>
+        )}
+
+        <Button variant="cta-danger" size="sm" onClick={() => setShowDeleteModal(true)}>
+          Delete Game
+        </Button>
+      </div>
+
+      <Modal
+        open={showDeleteModal}
+        onClose={() => setShowDeleteModal(false)}
+        title="Delete Game"
+      >
+        <p className="text-sm text-smoke mb-4">
+          Are you sure you want to delete this game? This cannot be undone.
+        </p>
+        <div className="flex gap-2 justify-end">
+          <Button variant="cta-ghost" onClick={() => setShowDeleteModal(false)}>
+            Cancel
+          </Button>
+          <Button variant="cta-danger" onClick={handleDeleteGame}>
+            Delete
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+function SurveyQuestionCard({
+  question,
+  index,
+  count,
+  onUpdatePrompt,
+  onMove,
+  onDelete,
+  onAddAnswer,
+  onUpdateAnswer,
+  onDeleteAnswer,
+}: {
+  question: QuestionWithAnswers;
+  index: number;
+  count: number;
+  onUpdatePrompt: (prompt: string) => void;
+  onMove: (toIdx: number) => void;
+  onDelete: () => void;
+  onAddAnswer: () => void;
+  onUpdateAnswer: (answerId: string, updates: Partial<SurveyAnswer>) => void;
+  onDeleteAnswer: (answerId: string) => void;
+}) {
+  const [prompt, setPrompt] = useState(question.prompt);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  function changePrompt(value: string) {
+    setPrompt(value);
+    clearTimeout(timerRef.current);
+    if (value === question.prompt) return;
+    timerRef.current = setTimeout(() => onUpdatePrompt(value.trim()), 800);
+  }
+
+  const answers = question.survey_answers;
+
+  return (
+    <article className="bg-paper rounded-2xl p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-smoke">Question {index + 1}</span>
+        <div className="flex items-center gap-3 text-sm">
+          <button
+            type="button"
+            onClick={() => onMove(index - 1)}
+            disabled={index === 0}
+            className="text-smoke hover:text-ink disabled:opacity-30"
+            title="Move up"
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            onClick={() => onMove(index + 1)}
+            disabled={index === count - 1}
+            className="text-smoke hover:text-ink disabled:opacity-30"
+            title="Move down"
+          >
+            ↓
+          </button>
+          <button type="button" onClick={onDelete} className="text-coral hover:underline">
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <Input variant="paper"
+        label="We surveyed 100 people..."
+        value={prompt}
+        onChange={(e) => changePrompt(e.target.value)}
+        placeholder="e.g., Name something people do first thing in the morning"
+      />
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-[2rem_1fr_1fr_4.5rem_1.5rem] gap-2 text-xs font-medium text-smoke px-1">
+          <span>#</span>
+          <span>Answer</span>
+          <span>Also accept</span>
+          <span>Points</span>
+          <span />
+        </div>
+        {answers.map((a) => (
+          <SurveyAnswerRow
+            key={a.id}
+            answer={a}
+            canDelete={answers.length > SURVEY_MIN_ANSWERS}
+            onUpdate={(updates) => onUpdateAnswer(a.id, updates)}
+            onDelete={() => onDeleteAnswer(a.id)}
+          />
+        ))}
+      </div>
+
+      {answers.length < SURVEY_MAX_ANSWERS && (
+        <Button variant="cta-ghost" size="sm" onClick={onAddAnswer}>
+          Add Answer
+        </Button>
+      )}
+    </article>
+  );
+}
+
+function SurveyAnswerRow({
+  answer,
+  canDelete,
+  onUpdate,
+  onDelete,
+}: {
+  answer: SurveyAnswer;
+  canDelete: boolean;
+  onUpdate: (updates: Partial<SurveyAnswer>) => void;
+  onDelete: () => void;
+}) {
+  const [text, setText] = useState(answer.answer_text);
+  const [aliases, setAliases] = useState(answer.aliases.join(", "));
+  const [points, setPoints] = useState(String(answer.points));
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  function change(updates: { text?: string; aliases?: string; points?: string }) {
+    const next = { text, aliases, points, ...updates };
+    setText(next.text);
+    setAliases(next.aliases);
+    setPoints(next.points);
+    clearTimeout(timerRef.current);
+    if (
+      next.text === answer.answer_text &&
+      next.aliases === answer.aliases.join(", ") &&
+      next.points === String(answer.points)
+    ) return;
+    timerRef.current = setTimeout(() => {
+      onUpdate({
+        answer_text: next.text.trim(),
+        aliases: parseAliases(next.aliases),
+        points: Math.max(0, parseInt(next.points) || 0),
+      });
+    }, 800);
+  }
+
+  return (
+    <div className="grid grid-cols-[2rem_1fr_1fr_4.5rem_1.5rem] gap-2 items-center">
+      <span className="text-sm font-bold text-ink text-center">{answer.answer_order + 1}</span>
+      <Input variant="paper"
+        value={text}
+        onChange={(e) => change({ text: e.target.value })}
+        placeholder="Answer"
+      />
+      <Input variant="paper"
+        value={aliases}
+        onChange={(e) => change({ aliases: e.target.value })}
+        placeholder="Other wordings, comma-separated"
+      />
+      <Input variant="paper"
+        type="number"
+        min={0}
+        value={points}
+        onChange={(e) => change({ points: e.target.value })}
+      />
+      {canDelete ? (
+        <button
+          type="button"
+          onClick={onDelete}
+          className="text-smoke hover:text-coral"
+          title="Remove answer"
+        >
+          ✕
+        </button>
+      ) : (
+        <span />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+
+export interface SurveyGameDraft {
+  title: string;
+  timerSeconds: number;
+}
+
+/** Settings shared by the Survey Says create page and editor */
+export function SurveyGameFields({
+  draft,
+  onChange,
+}: {
+  draft: SurveyGameDraft;
+  onChange: (draft: SurveyGameDraft) => void;
+}) {
+  return (
+    <div className="bg-paper rounded-2xl p-6 space-y-4">
+      <h2 className="text-xl font-semibold text-ink">Game Settings</h2>
+
+      <Input variant="paper"
+        label="Game Title"
+        value={draft.title}
+        onChange={(e) => onChange({ ...draft, title: e.target.value })}
+        placeholder="e.g., Office Party Survey"
+      />
+
+      <div>
+        <label className="block text-sm font-medium text-ink mb-2">Time to Guess</label>
+        <div className="flex items-center gap-4">
+          <input
+            type="range"
+            min={15}
+            max={180}
+            step={15}
+            value={draft.timerSeconds}
+            onChange={(e) => onChange({ ...draft, timerSeconds: Number(e.target.value) })}
+            className="flex-1 accent-coral"
+          />
+          <span className="text-ink font-bold text-lg w-14 text-right">{draft.timerSeconds}s</span>
+        </div>
+        <p className="text-xs text-smoke mt-2">
+          How long players have to find the answers each round. You can reveal the board early.
+        </p>
+      </div>
+    </div>
+  );
+}
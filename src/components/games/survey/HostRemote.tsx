@@ -0,0 +1,503 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/client";
+import { subscribeToSession, unsubscribe } from "@/lib/realtime";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { TeamSetup } from "@/components/teams/TeamSetup";
+import { TeamStandings } from "@/components/teams/TeamStandings";
+import { useSessionTeams } from "@/lib/use-session-teams";
+import {
+  getStrikeKey,
+  getSurveyStrikes,
+  mergeSurveyGuess,
+  sortSurveyAnswers,
+  sortSurveyQuestions,
+  SURVEY_MAX_STRIKES,
+  SURVEY_TEAM_SCORING_OPTIONS,
+} from "@/lib/survey-says";
+import { canSurvey, getSurveyStage, type SurveyAction } from "@/lib/session-machine";
+import type { Session, SessionPlayer, SurveyAnswer, SurveyGuess, SurveyQuestion } from "@/lib/types";
+import type { HostRemoteProps } from "@/lib/game-registry";
+
+type QuestionWithAnswers = SurveyQuestion & { survey_answers: SurveyAnswer[] };
+
+export default function SurveyHostRemote({ sessionId }: HostRemoteProps) {
+  const router = useRouter();
+  const [session, setSession] = useState<Session | null>(null);
+  const [players, setPlayers] = useState<SessionPlayer[]>([]);
+  const [questions, setQuestions] = useState<QuestionWithAnswers[]>([]);
+  const [guesses, setGuesses] = useState<SurveyGuess[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rejoinCopiedId, setRejoinCopiedId] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [actionError, setActionError] = useState("");
+
+  const { teams, standings } = useSessionTeams(session, players);
+
+  useEffect(() => {
+    async function load() {
+      const supabase = createClient();
+
+      const { data: sessionData } = await supabase
+        .from("sessions")
+        .select("*")
+        .eq("id", sessionId)
+        .single();
+
+      if (!sessionData) {
+        router.push("/dashboard");
+        return;
+      }
+
+      setSession(sessionData);
+
+      // The host owns the game, so the answers come straight from the table
+      const [{ data: playersData }, { data: questionsData }, { data: guessesData }] = await Promise.all([
+        supabase
+          .from("session_players")
+          .select("*")
+          .eq("session_id", sessionId)
+          .eq("is_removed", false),
+        supabase
+          .from("survey_questions")
+          .select("*, survey_answers(*)")
+          .eq("game_id", sessionData.game_id),
+        supabase.from("survey_guesses").select("*").eq("session_id", sessionId),
+      ]);
+      setPlayers(playersData || []);
+      setQuestions(sortSurveyQuestions(questionsData || []));
+      setGuesses(guessesData || []);
+
+      setLoading(false);
+    }
+
+    load();
+  }, [sessionId, router]);
+
+  const sessionLoaded = !!session;
+
+  useEffect(() => {
+    if (!sessionLoaded) return;
+
+    const channel = subscribeToSession(sessionId, {
+      onSessionChange: (payload) => {
+        setSession(payload.new as Session);
+      },
+      onPlayerChange: (payload) => {
+        const p = payload.new as SessionPlayer;
+        if (payload.eventType === "INSERT") {
+          setPlayers((prev) => [...prev.filter((x) => x.id !== p.id), p]);
+        } else if (payload.eventType === "UPDATE") {
+          if (p.is_removed) {
+            setPlayers((prev) => prev.filter((x) => x.id !== p.id));
+          } else {
+            setPlayers((prev) => prev.map((x) => (x.id === p.id ? p : x)));
+          }
+        }
+      },
+      onSurveyGuessChange: (payload) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<SurveyGuess>;
+        setGuesses((prev) => mergeSurveyGuess(prev, payload.eventType, row));
+      },
+    });
+
+    return () => unsubscribe(channel);
+  }, [sessionId, sessionLoaded]);
+
+  const callAction = useCallback(
+    async (action: SurveyAction) => {
+      setActionLoading(true);
+      setActionError("");
+      try {
+        const res = await fetch("/api/survey", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action, sessionId }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        if (action === "start_game") setGuesses([]);
+        return data;
+      } catch (err) {
+        console.error(`Action ${action} failed:`, err);
+        setActionError(err instanceof Error ? err.message : "Something went wrong");
+      } finally {
+        setActionLoading(false);
+      }
+    },
+    [sessionId]
+  );
+
+  // Moves a player to another phone: the old phone's token stops working
+  const copyRejoinLink = useCallback(
+    async (playerId: string) => {
+      if (!session) return;
+      try {
+        const res = await fetch("/api/players", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "reissue", sessionId: session.id, playerId }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        navigator.clipboard.writeText(
+          `${window.location.origin}/play/${session.code}?rejoin=${data.token}`
+        );
+        setRejoinCopiedId(playerId);
+        setTimeout(() => setRejoinCopiedId(null), 2000);
+      } catch (err) {
+        console.error("Failed to create rejoin link:", err);
+      }
+    },
+    [session]
+  );
+
+  const kickPlayer = useCallback(async (playerId: string) => {
+    const supabase = createClient();
+    await supabase
+      .from("session_players")
+      .update({ is_removed: true })
+      .eq("id", playerId);
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-zinc-50 dark:bg-background">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (!session) return null;
+
+  const isLobby = session.status === "lobby";
+  const isPlaying = session.status === "playing";
+  const isFinished = session.status === "finished";
+  const stage = getSurveyStage(session);
+  const round = session.current_question_index;
+  const roundCount = questions.length;
+  const question = questions[round] ?? null;
+  const answers = question ? sortSurveyAnswers(question.survey_answers) : [];
+  const roundGuesses = question ? guesses.filter((g) => g.question_id === question.id) : [];
+  const strikes = question ? getSurveyStrikes(guesses, question.id, session.team_mode) : new Map<string, number>();
+  const isOut = (p: SessionPlayer) =>
+    (strikes.get(getStrikeKey(p, session.team_mode)) ?? 0) >= SURVEY_MAX_STRIKES;
+  const playerName = (id: string) => players.find((p) => p.id === id)?.display_name ?? "Someone";
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-background flex flex-col">
+      <header className="bg-white dark:bg-slate-800 border-b border-zinc-200 dark:border-zinc-800 px-4 py-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-lg font-bold text-indigo-600 dark:text-indigo-400">
+              Survey Says - Host
+            </h1>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              Code:{" "}
+              <span className="font-mono font-bold text-zinc-900 dark:text-zinc-100">
+                {session.code}
+              </span>
+            </p>
+          </div>
+          <Link
+            href={`/screen/${session.code}`}
+            target="_blank"
+            className="text-xs text-indigo-600 dark:text-indigo-400 underline"
+          >
+            Open Screen
+          </Link>
+        </div>
+      </header>
+
+      <div className="flex-1 p-4 space-y-4 max-w-lg mx-auto w-full">
+        <div className="text-center">
+          <span
+            className={`inline-block px-3 py-1 rounded-full text-sm font-medium ${
+              isLobby
+                ? "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300"
+                : isPlaying
+                ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+                : "bg-zinc-100 text-zinc-800 dark:bg-slate-800 dark:text-zinc-200"
+            }`}
+          >
+            {isLobby ? "Lobby" : isPlaying ? `Playing - ${stage}` : "Finished"}
+          </span>
+        </div>
+
+        {actionError && (
+          <p className="text-center text-sm text-red-600 dark:text-red-400">{actionError}</p>
+        )}
+
+        {isLobby && (
+          <>
+            <div className="text-center">
+              <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-1">
+                Players ({players.length})
+              </p>
+              <div className="flex flex-wrap justify-center gap-2 mb-4">
+                {players.map((p) => (
+                  <div key={p.id} className="flex items-center gap-1">
+                    <div
+                      className="w-6 h-6 rounded-full flex items-center justify-center text-white text-xs font-bold"
+                      style={{ backgroundColor: p.avatar_color }}
+                    >
+                      {p.display_name.charAt(0).toUpperCase()}
+                    </div>
+                    <span className="text-sm text-zinc-700 dark:text-zinc-300">
+                      {p.display_name}
+                    </span>
+                    <button
+                      onClick={() => copyRejoinLink(p.id)}
+                      className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 ml-1"
+                      title={rejoinCopiedId === p.id ? "Rejoin link copied" : "Copy rejoin link"}
+                    >
+                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={rejoinCopiedId === p.id ? "M5 13l4 4L19 7" : "M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"} />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => kickPlayer(p.id)}
+                      className="text-red-400 hover:text-red-600 ml-1"
+                    >
+                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {players.length === 0 && (
+                <p className="text-zinc-400 text-sm">Waiting for players...</p>
+              )}
+            </div>
+
+            <TeamSetup
+              session={session}
+              players={players}
+              teams={teams}
+              scoringOptions={SURVEY_TEAM_SCORING_OPTIONS}
+            />
+
+            {roundCount === 0 && (
+              <p className="text-center text-sm text-amber-700 dark:text-amber-400">
+                This game has no survey questions yet.
+              </p>
+            )}
+
+            <Button
+              onClick={() => callAction("start_game")}
+              disabled={players.length === 0 || roundCount === 0}
+              loading={actionLoading}
+              className="w-full"
+              size="lg"
+            >
+              Start Game ({roundCount} rounds)
+            </Button>
+          </>
+        )}
+
+        {isPlaying && question && (
+          <>
+            <div className="text-center">
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                Round {round + 1} of {roundCount}
+              </p>
+              <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 mt-1">
+                {question.prompt}
+              </p>
+            </div>
+
+            <div className="space-y-1">
+              {answers.map((a) => {
+                const claim = roundGuesses.find((g) => g.answer_id === a.id);
+                return (
+                  <div
+                    key={a.id}
+                    className={`flex items-center gap-2 text-sm px-3 py-1.5 rounded ${
+                      claim
+                        ? "bg-green-100 dark:bg-green-900/30"
+                        : "bg-white dark:bg-slate-800"
+                    }`}
+                  >
+                    <span className="font-bold text-zinc-400 w-6">{a.answer_order + 1}</span>
+                    <span className="flex-1 text-zinc-900 dark:text-zinc-100 truncate">
+                      {a.answer_text}
+                    </span>
+                    {claim && (
+                      <span className="text-xs text-green-700 dark:text-green-400 truncate">
+                        {playerName(claim.player_id)}
+                      </span>
+                    )}
+                    <span className="font-mono text-zinc-600 dark:text-zinc-400">{a.points}</span>
+                  </div>
+                );
+              })}
+            </div>
+
+            {roundGuesses.some((g) => !g.answer_id) && (
+              <p className="text-xs text-center text-zinc-500 dark:text-zinc-400">
+                Strikes:{" "}
+                {roundGuesses
+                  .filter((g) => !g.answer_id)
+                  .map((g) => `${playerName(g.player_id)} "${g.guess_text}"`)
+                  .join(", ")}
+              </p>
+            )}
+
+            {canSurvey(stage, "reveal_board") && (
+              <Button
+                onClick={() => callAction("reveal_board")}
+                loading={actionLoading}
+                className="w-full"
+                size="lg"
+              >
+                Reveal the Board
+              </Button>
+            )}
+
+            {canSurvey(stage, "next_round") && (
+              <Button
+                onClick={() => callAction("next_round")}
+                loading={actionLoading}
+                className="w-full"
+                size="lg"
+              >
+                {round + 1 >= roundCount ? "Finish Game" : "Next Round"}
+              </Button>
+            )}
+
+            {standings.length > 0 && (
+              <div className="mt-4">
+                <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Teams
+                </h3>
+                <TeamStandings
+                  standings={standings}
+                  className="space-y-1"
+                  rowClassName="text-sm px-3 py-1.5 rounded bg-white dark:bg-slate-800 text-zinc-900 dark:text-zinc-100"
+                  rankClassName="text-zinc-400"
+                  scoreClassName="text-zinc-600 dark:text-zinc-400"
+                />
+              </div>
+            )}
+
+            <div className="mt-4">
+              <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                Leaderboard
+              </h3>
+              <div className="space-y-1">
+                {[...players]
+                  .sort((a, b) => b.score - a.score)
+                  .map((p, i) => (
+                    <div
+                      key={p.id}
+                      className={`flex items-center gap-2 text-sm px-3 py-1.5 rounded bg-white dark:bg-slate-800 ${
+                        stage === "guessing" && isOut(p) ? "opacity-50" : ""
+                      }`}
+                    >
+                      <span className="font-bold text-zinc-400 w-6">{i + 1}</span>
+                      <div
+                        className="w-5 h-5 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: p.avatar_color }}
+                      />
+                      <span className="flex-1 text-zinc-900 dark:text-zinc-100 truncate">
+                        {p.display_name}
+                      </span>
+                      {stage === "guessing" && (
+                        <span className="text-xs text-red-500 dark:text-red-400">
+                          {"✕".repeat(strikes.get(getStrikeKey(p, session.team_mode)) ?? 0)}
+                        </span>
+                      )}
+                      <span className="font-mono text-zinc-600 dark:text-zinc-400">
+                        {p.score}
+                      </span>
+                      <button
+                        onClick={() => copyRejoinLink(p.id)}
+                        className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200"
+                        title={rejoinCopiedId === p.id ? "Rejoin link copied" : "Copy rejoin link"}
+                      >
+                        <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={rejoinCopiedId === p.id ? "M5 13l4 4L19 7" : "M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"} />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => kickPlayer(p.id)}
+                        className="text-red-400 hover:text-red-600"
+                      >
+                        <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        {isFinished && (
+          <div className="text-center">
+            <h2 className="text-xl font-bold text-zinc-900 dark:text-zinc-100 mb-4">
+              Game Over
+            </h2>
+            {standings.length > 0 && (
+              <TeamStandings
+                standings={standings}
+                showMembers
+                className="space-y-2 mb-6 text-left"
+                rowClassName="text-base px-3 py-2 rounded bg-white dark:bg-slate-800 text-zinc-900 dark:text-zinc-100"
+                rankClassName="text-zinc-400"
+                scoreClassName="font-bold text-zinc-600 dark:text-zinc-300"
+              />
+            )}
+            <div className="space-y-2 mb-6">
+              {[...players]
+                .sort((a, b) => b.score - a.score)
+                .map((p, i) => (
+                  <div
+                    key={p.id}
+                    className="flex items-center gap-2 text-sm px-3 py-2 rounded bg-white dark:bg-slate-800"
+                  >
+                    <span className="font-bold text-zinc-400 w-6">#{i + 1}</span>
+                    <div
+                      className="w-6 h-6 rounded-full"
+                      style={{ backgroundColor: p.avatar_color }}
+                    />
+                    <span className="flex-1 text-zinc-900 dark:text-zinc-100">
+                      {p.display_name}
+                    </span>
+                    <span className="font-mono font-bold text-zinc-600 dark:text-zinc-300">
+                      {p.score}
+                    </span>
+                  </div>
+                ))}
+            </div>
+            <Link href="/dashboard">
+              <Button>Back to Dashboard</Button>
+            </Link>
+          </div>
+        )}
+
+        {canSurvey(stage, "finish_game") && (
+          <div className="pt-4 border-t border-zinc-200 dark:border-zinc-800">
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={() => callAction("finish_game")}
+              loading={actionLoading}
+              className="w-full"
+            >
+              End Game Now
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,531 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/client";
+import { subscribeToSession, unsubscribe } from "@/lib/realtime";
+import { CountdownTimer } from "@/components/pir/CountdownTimer";
+import { PlayerCardIcon } from "@/components/pir/PlayerCardIcon";
+import { TeamPicker } from "@/components/teams/TeamPicker";
+import { TeamStandings } from "@/components/teams/TeamStandings";
+import { SurveyShell } from "@/components/survey/SurveyShell";
+import { AnswerBoard, getAnswerFinders, StrikeMarks } from "@/components/survey/AnswerBoard";
+import { AVATAR_COLORS } from "@/lib/avatar-colors";
+import { MAX_ANSWER_LENGTH } from "@/lib/answer-matching";
+import { loadPlayerToken, savePlayerToken } from "@/lib/player-session";
+import { useGameTheme } from "@/lib/theme-context";
+import { useSessionTeams } from "@/lib/use-session-teams";
+import { useSurveyBoard } from "@/lib/use-survey-board";
+import {
+  getStrikeKey,
+  getSurveyStrikes,
+  mergeSurveyGuess,
+  SURVEY_MAX_STRIKES,
+} from "@/lib/survey-says";
+import type { Session, SessionPlayer, SurveyBoard, SurveyGuess } from "@/lib/types";
+import type { PlayerPageProps } from "@/lib/game-registry";
+
+export interface SurveyPlayerDevMode {
+  session: Session;
+  /** null shows the join form */
+  player: SessionPlayer | null;
+  players: SessionPlayer[];
+  board: SurveyBoard;
+  guesses?: SurveyGuess[];
+}
+
+/** What the server made of the last guess */
+type GuessFeedback = { tone: "good" | "bad" | "info"; text: string };
+
+export default function SurveyPlayerPage({
+  sessionCode,
+  devMode,
+}: PlayerPageProps & { devMode?: SurveyPlayerDevMode }) {
+  const t = useGameTheme();
+  const [session, setSession] = useState<Session | null>(devMode?.session ?? null);
+  const [player, setPlayer] = useState<SessionPlayer | null>(devMode?.player ?? null);
+  const [playerToken, setPlayerToken] = useState<string | null>(null);
+  const [players, setPlayers] = useState<SessionPlayer[]>(devMode?.players ?? []);
+  const [guesses, setGuesses] = useState<SurveyGuess[]>(devMode?.guesses ?? []);
+  const [displayName, setDisplayName] = useState("");
+  const [avatarColor, setAvatarColor] = useState<string>(AVATAR_COLORS[0]);
+  const [error, setError] = useState("");
+  const [notFound, setNotFound] = useState(false);
+  const [joinLoading, setJoinLoading] = useState(false);
+  const [teamError, setTeamError] = useState("");
+  const [guessText, setGuessText] = useState("");
+  const [guessing, setGuessing] = useState(false);
+  const [feedback, setFeedback] = useState<GuessFeedback | null>(null);
+
+  const { teams, standings } = useSessionTeams(session, players, !!devMode);
+
+  const sessionId = session?.id;
+  const playerId = player?.id;
+  const claimed = guesses.filter((g) => g.answer_id).length;
+  const liveBoard = useSurveyBoard(
+    devMode ? null : sessionId,
+    `${session?.status}|${session?.current_question_index}|${session?.survey_phase}|${claimed}`
+  );
+  const board = devMode?.board ?? liveBoard;
+
+  // Load session
+  useEffect(() => {
+    if (devMode) return;
+    async function findSession() {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("sessions")
+        .select("*")
+        .eq("code", sessionCode.toUpperCase())
+        .neq("status", "finished")
+        .maybeSingle();
+
+      if (!data) {
+        setNotFound(true);
+        return;
+      }
+
+      setSession(data);
+
+      const [{ data: playersData }, { data: guessesData }] = await Promise.all([
+        supabase
+          .from("session_players")
+          .select("*")
+          .eq("session_id", data.id)
+          .eq("is_removed", false),
+        supabase.from("survey_guesses").select("*").eq("session_id", data.id),
+      ]);
+      setPlayers(playersData || []);
+      setGuesses(guessesData || []);
+
+      const storedToken = loadPlayerToken(data.id);
+      if (storedToken) {
+        const res = await fetch("/api/players", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "rejoin", sessionId: data.id, token: storedToken }),
+        });
+        const existingPlayer: SessionPlayer | null = res.ok ? (await res.json()).player : null;
+        if (existingPlayer) {
+          setPlayerToken(storedToken);
+          setPlayer(existingPlayer);
+        }
+      }
+    }
+
+    findSession();
+  }, [sessionCode, devMode]);
+
+  // Subscribe to realtime
+  useEffect(() => {
+    if (devMode || !sessionId) return;
+
+    const channel = subscribeToSession(sessionId, {
+      onSessionChange: (payload) => {
+        const s = payload.new as Session;
+        setSession(s);
+        // Sessions only change between phases — the last guess's result is stale
+        setFeedback(null);
+        setGuessText("");
+        if (s.status === "lobby") setGuesses([]);
+      },
+      onPlayerChange: (payload) => {
+        const p = payload.new as SessionPlayer;
+        if (payload.eventType === "INSERT") {
+          setPlayers((prev) => [...prev.filter((x) => x.id !== p.id), p]);
+        } else if (payload.eventType === "UPDATE") {
+          if (p.id === playerId) setPlayer(p);
+          setPlayers((prev) =>
+            prev.map((x) => (x.id === p.id ? p : x)).filter((x) => !x.is_removed)
+          );
+        }
+      },
+      onSurveyGuessChange: (payload) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<SurveyGuess>;
+        setGuesses((prev) => mergeSurveyGuess(prev, payload.eventType, row));
+      },
+    });
+
+    return () => unsubscribe(channel);
+  }, [sessionId, playerId, devMode]);
+
+  const handleJoin = useCallback(async () => {
+    if (devMode) return;
+    if (!session || !displayName.trim()) {
+      setError("Enter a display name");
+      return;
+    }
+
+    setJoinLoading(true);
+    setError("");
+
+    try {
+      // The server de-duplicates names and signs the token that proves this phone is the player
+      const res = await fetch("/api/players", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "join",
+          sessionId: session.id,
+          displayName: displayName.trim(),
+          avatarColor,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+
+      setPlayer(data.player);
+      setPlayerToken(data.token);
+      savePlayerToken(session.id, data.token);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to join.");
+    } finally {
+      setJoinLoading(false);
+    }
+  }, [session, displayName, avatarColor, devMode]);
+
+  const handleChooseTeam = useCallback(async (teamId: string) => {
+    if (devMode) return;
+    if (!session) return;
+
+    setTeamError("");
+    try {
+      const res = await fetch("/api/players", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "choose_team",
+          sessionId: session.id,
+          token: playerToken,
+          teamId,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setPlayer(data.player);
+    } catch (err) {
+      setTeamError(err instanceof Error && err.message ? err.message : "Failed to join team");
+    }
+  }, [session, playerToken, devMode]);
+
+  const handleGuess = useCallback(async () => {
+    if (devMode) return;
+    if (!session || !player || !guessText.trim()) return;
+
+    setGuessing(true);
+    setFeedback(null);
+    try {
+      const res = await fetch("/api/survey", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "submit_guess",
+          sessionId: session.id,
+          playerToken,
+          round: session.current_question_index,
+          text: guessText.trim(),
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+
+      setGuessText("");
+      if (data.result === "found") {
+        setFeedback({ tone: "good", text: `On the board! +${data.points}` });
+      } else if (data.result === "taken") {
+        setFeedback({ tone: "info", text: "Good answer — but someone got there first" });
+      } else if (data.result === "repeat") {
+        setFeedback({ tone: "info", text: "Already tried that one" });
+      } else {
+        setFeedback({ tone: "bad", text: "Not on the board!" });
+      }
+    } catch (err) {
+      // Late guesses and struck-out players are refused by the server — surface the reason
+      setFeedback({
+        tone: "bad",
+        text: err instanceof Error && err.message ? err.message : "Failed to send your guess",
+      });
+    } finally {
+      setGuessing(false);
+    }
+  }, [session, player, playerToken, guessText, devMode]);
+
+  const myTeamId = players.find((p) => p.id === player?.id)?.team_id ?? player?.team_id ?? null;
+  const myTeam = teams.find((team) => team.id === myTeamId) ?? null;
+
+  // ============ RENDER ============
+
+  if (notFound || player?.is_removed) {
+    return (
+      <SurveyShell t={t}>
+        <div className="flex-1 flex flex-col items-center justify-center px-5 text-center">
+          <p className="text-xl font-bold mb-2">{notFound ? "Oops!" : "You're out of this one"}</p>
+          <p className="text-sm mb-8" style={{ color: t.textMuted }}>
+            {notFound
+              ? "Game not found. Check the code and try again."
+              : "The host removed you from this session."}
+          </p>
+          <Link href="/play" className="underline font-semibold" style={{ color: t.accent }}>
+            Join another game
+          </Link>
+        </div>
+      </SurveyShell>
+    );
+  }
+
+  if (!session) {
+    return (
+      <SurveyShell t={t}>
+        <div className="flex-1 flex flex-col items-center justify-center gap-4">
+          <div className="w-10 h-10 border-3 rounded-full animate-spin" style={{ borderColor: `${t.accent} transparent transparent transparent` }} />
+          <p className="text-sm" style={{ color: t.textMuted }}>Connecting to server...</p>
+        </div>
+      </SurveyShell>
+    );
+  }
+
+  // ─── JOIN FORM ───
+  if (!player) {
+    return (
+      <SurveyShell t={t}>
+        <div className="flex-1 flex flex-col justify-center px-5 py-6 gap-4">
+          <div className="text-center">
+            <p className="font-mono font-bold text-xs tracking-[0.15em] mb-2" style={{ color: t.accent }}>
+              {sessionCode.toUpperCase()}
+            </p>
+            <h1 className="text-4xl font-bold">
+              Survey Says<span style={{ color: t.accent }}>!</span>
+            </h1>
+          </div>
+
+          <input
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="Enter your name"
+            maxLength={20}
+            autoFocus
+            className="w-full rounded-2xl px-4 py-3 text-lg font-bold text-center focus:outline-none"
+            style={{ background: t.surface, color: t.textPrimary, border: `1px solid ${t.border}`, caretColor: t.accent }}
+          />
+
+          <div className="grid grid-cols-6 gap-2">
+            {AVATAR_COLORS.map((color) => (
+              <button
+                key={color}
+                onClick={() => setAvatarColor(color)}
+                className="rounded-md p-1 flex items-center justify-center"
+                style={{
+                  background: avatarColor === color ? t.accentDim : "transparent",
+                  border: avatarColor === color ? `2px solid ${t.accent}` : `1px solid ${t.border}`,
+                }}
+              >
+                <PlayerCardIcon color={color} size={999} className="w-full h-auto" />
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <p className="text-xs text-center font-medium" style={{ color: t.danger }}>{error}</p>
+          )}
+
+          <button
+            onClick={handleJoin}
+            disabled={joinLoading}
+            className="w-full py-3.5 rounded-full font-semibold text-[16px] disabled:opacity-40"
+            style={{ background: t.accent, color: t.buttonTextMode === "light" ? "#FFFFFF" : "#1A1A1A" }}
+          >
+            {joinLoading ? "Joining..." : "Join Game"}
+          </button>
+        </div>
+      </SurveyShell>
+    );
+  }
+
+  const me = players.find((p) => p.id === player.id) ?? player;
+
+  // ─── LOBBY ───
+  if (session.status === "lobby") {
+    return (
+      <SurveyShell t={t}>
+        <div className="flex-1 flex flex-col items-center justify-center px-5 text-center gap-6">
+          <div className="flex flex-col items-center">
+            <PlayerCardIcon color={me.avatar_color} size={72} />
+            <h1 className="text-3xl font-bold mt-4 mb-2">You&apos;re in, {me.display_name}!</h1>
+            <p className="text-sm" style={{ color: t.textMuted }}>
+              We surveyed people — type the answers you think they gave. {SURVEY_MAX_STRIKES} wrong
+              guesses and you&apos;re done for the round.
+            </p>
+          </div>
+
+          {/* Team — picked here, or shown once the host deals teams out */}
+          {session.team_mode !== "off" && teams.length > 0 && (
+            <div className="w-full text-left">
+              <h3 className="text-sm font-bold mb-2 px-1">
+                {session.team_mode === "choose" ? "Pick your team" : "Your team"}
+              </h3>
+              {session.team_mode === "choose" ? (
+                <TeamPicker
+                  teams={teams}
+                  players={players}
+                  currentTeamId={myTeamId}
+                  onPick={handleChooseTeam}
+                />
+              ) : myTeam ? (
+                <div
+                  className="rounded-xl px-4 py-3 font-bold text-white"
+                  style={{ backgroundColor: myTeam.color }}
+                >
+                  {myTeam.name}
+                </div>
+              ) : (
+                <p className="text-xs px-1" style={{ color: t.textDim }}>
+                  The host is putting teams together...
+                </p>
+              )}
+              {teamError && (
+                <p className="text-xs mt-2 px-1" style={{ color: t.danger }}>{teamError}</p>
+              )}
+            </div>
+          )}
+        </div>
+      </SurveyShell>
+    );
+  }
+
+  // ─── FINISHED ───
+  if (session.status === "finished") {
+    const rank = [...players].sort((a, b) => b.score - a.score).findIndex((p) => p.id === me.id) + 1;
+    return (
+      <SurveyShell t={t}>
+        <div className="flex-1 flex flex-col items-center justify-center px-5 text-center">
+          <p className="text-sm uppercase tracking-wider mb-2" style={{ color: t.textMuted }}>Game over</p>
+          <h1 className="text-5xl font-bold mb-2" style={{ color: t.accent }}>{me.score}</h1>
+          <p className="text-lg mb-6">{rank > 0 ? `You finished #${rank}` : "Thanks for playing"}</p>
+          {standings.length > 0 && (
+            <TeamStandings
+              standings={standings}
+              className="w-full flex flex-col gap-1.5 mb-8 text-left"
+              rowClassName="px-4 py-2.5 rounded-xl text-sm"
+              rowStyle={{ background: t.surface, border: `1px solid ${t.border}` }}
+              rankStyle={{ color: t.textDim }}
+              scoreClassName="font-bold tabular-nums"
+              scoreStyle={{ color: t.accent }}
+            />
+          )}
+          <Link href="/play" className="underline font-semibold" style={{ color: t.accent }}>
+            Join another game
+          </Link>
+        </div>
+      </SurveyShell>
+    );
+  }
+
+  // ─── PLAYING ───
+  const question = board?.question;
+
+  if (!question) {
+    return (
+      <SurveyShell t={t}>
+        <div className="flex-1 flex items-center justify-center">
+          <div className="w-10 h-10 border-3 rounded-full animate-spin" style={{ borderColor: `${t.accent} transparent transparent transparent` }} />
+        </div>
+      </SurveyShell>
+    );
+  }
+
+  const roundGuesses = guesses.filter((g) => g.question_id === question.id);
+  const strikes =
+    getSurveyStrikes(roundGuesses, question.id, session.team_mode).get(getStrikeKey(me, session.team_mode)) ?? 0;
+  const isOut = strikes >= SURVEY_MAX_STRIKES;
+  const roundPoints = roundGuesses
+    .filter((g) => g.player_id === me.id)
+    .reduce((sum, g) => sum + g.points_awarded, 0);
+  const isBoard = session.survey_phase === "board";
+
+  return (
+    <SurveyShell t={t}>
+      <div className="flex items-center justify-between px-5 pt-5">
+        <p className="text-xs uppercase tracking-wider" style={{ color: t.textMuted }}>
+          Round {session.current_question_index + 1} of {board.round_count}
+        </p>
+        <p className="text-sm font-bold tabular-nums">{me.score} pts</p>
+      </div>
+
+      <div className="flex-1 flex flex-col px-5 py-4 gap-4">
+        <h2 className="text-2xl font-bold text-center">{question.prompt}</h2>
+
+        <AnswerBoard
+          answers={question.answers}
+          finders={getAnswerFinders(roundGuesses, players, teams)}
+          t={t}
+          size="sm"
+        />
+
+        {isBoard ? (
+          <div className="text-center">
+            <p className="text-2xl font-bold" style={{ color: roundPoints > 0 ? t.accent : t.textPrimary }}>
+              {roundPoints > 0 ? `+${roundPoints} this round` : "No points this round"}
+            </p>
+            <p className="text-sm mt-1" style={{ color: t.textMuted }}>Watch the screen for the next survey</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <StrikeMarks count={strikes} max={SURVEY_MAX_STRIKES} t={t} size="sm" />
+              <CountdownTimer endsAt={session.survey_ends_at} totalSeconds={session.timer_seconds} size="sm" />
+            </div>
+
+            {isOut ? (
+              <div className="text-center">
+                <p className="text-3xl font-bold" style={{ color: t.danger }}>Three strikes!</p>
+                <p className="text-sm mt-1" style={{ color: t.textMuted }}>
+                  {myTeam ? `${myTeam.name} is` : "You're"} done this round — watch the board fill up.
+                </p>
+              </div>
+            ) : (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleGuess();
+                }}
+                className="flex flex-col gap-3"
+              >
+                <input
+                  value={guessText}
+                  onChange={(e) => setGuessText(e.target.value)}
+                  placeholder="Type an answer"
+                  maxLength={MAX_ANSWER_LENGTH}
+                  autoComplete="off"
+                  className="w-full rounded-2xl px-4 py-3 text-lg font-bold text-center focus:outline-none"
+                  style={{ background: t.surface, color: t.textPrimary, border: `1px solid ${t.border}`, caretColor: t.accent }}
+                />
+                <button
+                  type="submit"
+                  disabled={guessing || !guessText.trim()}
+                  className="w-full py-3.5 rounded-full font-semibold text-[16px] disabled:opacity-40"
+                  style={{ background: t.accent, color: t.buttonTextMode === "light" ? "#FFFFFF" : "#1A1A1A" }}
+                >
+                  {guessing ? "Checking..." : "Survey Says..."}
+                </button>
+              </form>
+            )}
+
+            {feedback && (
+              <p
+                className="text-sm text-center font-semibold"
+                style={{
+                  color: feedback.tone === "good" ? t.accent : feedback.tone === "bad" ? t.danger : t.textMuted,
+                }}
+              >
+                {feedback.text}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </SurveyShell>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { subscribeToSession, unsubscribe } from "@/lib/realtime";
+import { Spinner } from "@/components/ui/spinner";
+import { CountdownTimer } from "@/components/pir/CountdownTimer";
+import { PlayerCardIcon } from "@/components/pir/PlayerCardIcon";
+import { TeamStandings } from "@/components/teams/TeamStandings";
+import { SurveyShell } from "@/components/survey/SurveyShell";
+import { AnswerBoard, getAnswerFinders, StrikeMarks } from "@/components/survey/AnswerBoard";
+import { useGameTheme } from "@/lib/theme-context";
+import { getFontFamily } from "@/lib/theme-fonts";
+import { useSessionTeams } from "@/lib/use-session-teams";
+import { useSurveyBoard } from "@/lib/use-survey-board";
+import {
+  getStrikeKey,
+  getSurveyStrikes,
+  mergeSurveyGuess,
+  SURVEY_MAX_STRIKES,
+} from "@/lib/survey-says";
+import type { Session, SessionPlayer, SurveyBoard, SurveyGuess } from "@/lib/types";
+import type { ScreenPageProps } from "@/lib/game-registry";
+
+/** How long a strike's big red X stays up */
+const STRIKE_FLASH_MS = 1500;
+
+export interface SurveyScreenDevMode {
+  session: Session;
+  players: SessionPlayer[];
+  board: SurveyBoard;
+  guesses?: SurveyGuess[];
+  /** Holds a strike's X on screen */
+  strike?: SurveyGuess;
+}
+
+export default function SurveyScreenPage({
+  sessionCode,
+  devMode,
+}: ScreenPageProps & { devMode?: SurveyScreenDevMode }) {
+  const t = useGameTheme();
+
+  const [session, setSession] = useState<Session | null>(devMode?.session ?? null);
+  const [players, setPlayers] = useState<SessionPlayer[]>(devMode?.players ?? []);
+  const [guesses, setGuesses] = useState<SurveyGuess[]>(devMode?.guesses ?? []);
+  const [strike, setStrike] = useState<SurveyGuess | null>(devMode?.strike ?? null);
+  const strikeTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const { teams, standings } = useSessionTeams(session, players, !!devMode);
+
+  const sessionId = session?.id;
+  const claimed = guesses.filter((g) => g.answer_id).length;
+  const liveBoard = useSurveyBoard(
+    devMode ? null : sessionId,
+    `${session?.status}|${session?.current_question_index}|${session?.survey_phase}|${claimed}`
+  );
+  const board = devMode?.board ?? liveBoard;
+
+  // Load session
+  useEffect(() => {
+    if (devMode) return;
+    async function load() {
+      const supabase = createClient();
+      const { data: sessionData } = await supabase
+        .from("sessions")
+        .select("*")
+        .eq("code", sessionCode.toUpperCase())
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!sessionData) return;
+      setSession(sessionData);
+
+      const [{ data: playersData }, { data: guessesData }] = await Promise.all([
+        supabase
+          .from("session_players")
+          .select("*")
+          .eq("session_id", sessionData.id)
+          .eq("is_removed", false),
+        supabase.from("survey_guesses").select("*").eq("session_id", sessionData.id),
+      ]);
+      setPlayers(playersData || []);
+      setGuesses(guessesData || []);
+    }
+
+    load();
+  }, [sessionCode, devMode]);
+
+  // Subscribe to realtime
+  useEffect(() => {
+    if (devMode || !sessionId) return;
+
+    const channel = subscribeToSession(sessionId, {
+      onSessionChange: (payload) => {
+        const s = payload.new as Session;
+        setSession(s);
+        // A restart clears the guesses
+        if (s.status === "lobby") setGuesses([]);
+      },
+      onPlayerChange: (payload) => {
+        const p = payload.new as SessionPlayer;
+        if (payload.eventType === "INSERT") {
+          setPlayers((prev) => [...prev.filter((x) => x.id !== p.id), p]);
+        } else if (payload.eventType === "UPDATE") {
+          if (p.is_removed) {
+            setPlayers((prev) => prev.filter((x) => x.id !== p.id));
+          } else {
+            setPlayers((prev) => prev.map((x) => (x.id === p.id ? p : x)));
+          }
+        }
+      },
+      onSurveyGuessChange: (payload) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<SurveyGuess>;
+        setGuesses((prev) => mergeSurveyGuess(prev, payload.eventType, row));
+
+        if (payload.eventType === "INSERT" && !row.answer_id) {
+          setStrike(row as SurveyGuess);
+          clearTimeout(strikeTimerRef.current);
+          strikeTimerRef.current = setTimeout(() => setStrike(null), STRIKE_FLASH_MS);
+        }
+      },
+    });
+
+    return () => {
+      unsubscribe(channel);
+      clearTimeout(strikeTimerRef.current);
+    };
+  }, [sessionId, devMode]);
+
+  if (!session) {
+    return (
+      <SurveyShell t={t} className="h-full">
+        <div className="flex-1 flex items-center justify-center">
+          <Spinner className="h-10 w-10 text-white" />
+        </div>
+      </SurveyShell>
+    );
+  }
+
+  const sortedPlayers = [...players].sort((a, b) => b.score - a.score);
+  const headingFont = getFontFamily(t.headingFont);
+
+  // ─── LOBBY ───
+  if (session.status === "lobby") {
+    const joinUrl = typeof window !== "undefined" ? `${window.location.host}/play` : "heyhostgames.com/play";
+    const qrUrl = `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(
+      typeof window !== "undefined" ? `${window.location.origin}/play?code=${session.code}` : ""
+    )}`;
+    const roundCount = board?.round_count ?? 0;
+
+    return (
+      <SurveyShell t={t} className="h-full">
+        <div className="flex-1 min-h-0 flex items-center gap-12 px-12">
+          <div className="flex-1 min-w-0">
+            <h1 className="text-7xl font-bold leading-[0.95] mb-4">
+              Survey Says<span style={{ color: t.accent }}>!</span>
+            </h1>
+            <p className="text-xl mb-8" style={{ color: t.textMuted }}>
+              {roundCount} {roundCount === 1 ? "round" : "rounds"} · name the most popular answers ·{" "}
+              {SURVEY_MAX_STRIKES} strikes and you&apos;re out
+            </p>
+            <div
+              className="rounded-2xl p-5"
+              style={{ background: t.surface, border: `1.5px solid color-mix(in srgb, ${t.textPrimary} 22%, transparent)` }}
+            >
+              <h2 className="text-2xl font-bold mb-4" style={{ color: t.accent }}>Players</h2>
+              {players.length === 0 ? (
+                <p className="text-base" style={{ color: t.textDim }}>Waiting for players to join...</p>
+              ) : (
+                <div className="grid grid-cols-3 gap-x-8 gap-y-4">
+                  {players.map((p) => {
+                    const team = teams.find((x) => x.id === p.team_id);
+                    return (
+                      <div key={p.id} className="flex items-center gap-3">
+                        <PlayerCardIcon color={p.avatar_color} size={44} />
+                        <span className="text-base font-bold uppercase tracking-wide truncate">{p.display_name}</span>
+                        {session.team_mode !== "off" && team && (
+                          <span className="w-3 h-3 rounded-full shrink-0" style={{ background: team.color }} />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="w-[300px] shrink-0 rounded-3xl text-center p-8" style={{ background: "#ffffff", color: "#1a1a1a" }}>
+            <p className="text-2xl font-bold uppercase tracking-wider mb-2">Join the Game</p>
+            <p className="text-sm mb-3">
+              Visit <strong>{joinUrl}</strong> and enter the code:
+            </p>
+            <p className="text-4xl font-bold font-mono tracking-[0.15em] mb-6">{session.code}</p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={qrUrl} alt="QR Code" className="w-36 h-36 mx-auto" />
+          </div>
+        </div>
+      </SurveyShell>
+    );
+  }
+
+  // ─── FINISHED ───
+  if (session.status === "finished") {
+    return (
+      <SurveyShell t={t} className="h-full">
+        <div className="flex-1 flex flex-col items-center justify-center p-8">
+          <h1 className="text-6xl font-bold mb-10">Final Scores</h1>
+          {standings.length > 0 && (
+            <div className="w-full max-w-xl mb-8">
+              <p className="text-center text-2xl font-bold mb-3" style={{ color: t.accent }}>
+                {standings[0].team.name} wins!
+              </p>
+              <TeamStandings
+                standings={standings}
+                showMembers
+                className="flex flex-col gap-2"
+                rowClassName="px-6 py-3 rounded-xl text-xl"
+                rowStyle={{ background: t.surface, border: `1px solid ${t.border}` }}
+                rankStyle={{ color: t.textDim }}
+                scoreClassName="font-bold tabular-nums"
+                scoreStyle={{ color: t.accent, fontFamily: headingFont }}
+              />
+            </div>
+          )}
+          <div className="w-full max-w-xl space-y-3">
+            {sortedPlayers.slice(0, standings.length > 0 ? 5 : 8).map((p, i) => (
+              <div
+                key={p.id}
+                className="flex items-center gap-4 px-6 py-3 rounded-xl text-xl"
+                style={{ background: t.surface, border: `1px solid ${t.border}` }}
+              >
+                <span className="font-bold text-2xl w-10" style={{ color: t.textDim }}>{i + 1}</span>
+                <PlayerCardIcon color={p.avatar_color} size={40} />
+                <span className="flex-1 font-semibold truncate">{p.display_name}</span>
+                <span className="font-bold tabular-nums" style={{ color: t.accent }}>{p.score}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </SurveyShell>
+    );
+  }
+
+  // ─── PLAYING ───
+  const question = board?.question;
+
+  if (!question) {
+    return (
+      <SurveyShell t={t} className="h-full">
+        <div className="flex-1 flex items-center justify-center">
+          <Spinner className="h-10 w-10 text-white" />
+        </div>
+      </SurveyShell>
+    );
+  }
+
+  const isBoard = session.survey_phase === "board";
+  const strikes = getSurveyStrikes(guesses, question.id, session.team_mode);
+  const finders = getAnswerFinders(
+    guesses.filter((g) => g.question_id === question.id),
+    players,
+    teams
+  );
+  const found = question.answers.filter((a) => finders.has(a.id)).length;
+  const strikePlayer = strike ? players.find((p) => p.id === strike.player_id) : null;
+  const strikeCount = strike
+    ? strikes.get(getStrikeKey({ id: strike.player_id, team_id: strike.team_id }, session.team_mode)) ?? 1
+    : 0;
+
+  return (
+    <SurveyShell t={t} className="h-full">
+      <div className="flex items-center justify-between px-10 pt-6">
+        <p className="text-lg font-semibold uppercase tracking-[0.15em]" style={{ color: t.textMuted }}>
+          Round {session.current_question_index + 1} of {board.round_count}
+        </p>
+        <p className="text-lg" style={{ color: t.textMuted }}>
+          {found} of {question.answers.length} found
+        </p>
+      </div>
+
+      <div className="flex-1 min-h-0 flex gap-10 px-10 py-6">
+        <div className="flex-1 min-w-0 flex flex-col">
+          <h2 className="text-5xl font-bold leading-tight mb-8">{question.prompt}</h2>
+          <AnswerBoard answers={question.answers} finders={finders} t={t} />
+        </div>
+
+        <div className="w-[340px] shrink-0 flex flex-col gap-4 min-h-0">
+          <div className="flex justify-center">
+            {isBoard ? (
+              <p className="text-4xl font-bold uppercase" style={{ color: t.accent }}>Survey says!</p>
+            ) : (
+              <CountdownTimer endsAt={session.survey_ends_at} totalSeconds={session.timer_seconds} />
+            )}
+          </div>
+
+          {/* Team mode shares strikes, so they sit with the teams */}
+          {standings.length > 0 ? (
+            <div className="flex flex-col gap-2">
+              {standings.map(({ team, score }) => (
+                <div
+                  key={team.id}
+                  className="flex items-center gap-3 px-4 py-2.5 rounded-xl"
+                  style={{ background: t.surface, borderLeft: `6px solid ${team.color}` }}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold truncate">{team.name}</p>
+                    <StrikeMarks count={strikes.get(team.id) ?? 0} max={SURVEY_MAX_STRIKES} t={t} size="sm" />
+                  </div>
+                  <span className="text-2xl font-bold tabular-nums" style={{ color: t.accent, fontFamily: headingFont }}>
+                    {score}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col gap-1.5 min-h-0 overflow-hidden">
+              {sortedPlayers.map((p) => (
+                <div
+                  key={p.id}
+                  className="flex items-center gap-3 px-3 py-1.5 rounded-xl"
+                  style={{ background: t.surface }}
+                >
+                  <PlayerCardIcon color={p.avatar_color} size={28} />
+                  <span className="flex-1 min-w-0 font-semibold truncate">{p.display_name}</span>
+                  <StrikeMarks count={strikes.get(p.id) ?? 0} max={SURVEY_MAX_STRIKES} t={t} size="sm" />
+                  <span className="w-12 text-right font-bold tabular-nums" style={{ color: t.accent }}>
+                    {p.score}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Strike — the big red X */}
+      {strike && !isBoard && (
+        <div
+          className="fixed inset-0 flex flex-col items-center justify-center pointer-events-none"
+          style={{ background: "rgba(0,0,0,0.45)", animation: "fade-in 0.15s ease" }}
+        >
+          <div className="flex gap-6">
+            {Array.from({ length: strikeCount }, (_, i) => (
+              <span key={i} className="text-[12rem] font-black leading-none" style={{ color: t.danger }}>
+                ✕
+              </span>
+            ))}
+          </div>
+          <p className="text-3xl font-bold mt-4">
+            {strikePlayer?.display_name ?? "Someone"} said &ldquo;{strike.guess_text}&rdquo;
+          </p>
+        </div>
+      )}
+    </SurveyShell>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import TriviaPlayerPage from "@/components/games/trivia/PlayerPage";
+import TriviaScreenPage from "@/components/games/trivia/ScreenPage";
+import {
+  MOCK_PLAYER,
+  MOCK_PLAYERS,
+  MOCK_SESSION_FINISHED,
+  MOCK_SESSION_LOBBY,
+  MOCK_SESSION_PLAYING,
+} from "@/lib/dev-mocks";
+import type { DevPreviewScreen } from "@/lib/game-registry";
+import type { GameQuestionWithChoices, SessionAnswer, SessionQuestionState } from "@/lib/types";
+
+// ============================================================
+// Mock Data
+// ============================================================
+
+const MOCK_QUESTION: GameQuestionWithChoices = {
+  id: "q1", game_id: "g1", question_order: 2, question_type: "multiple_choice",
+  prompt: "What is the largest planet in our solar system?",
+  explanation: "Jupiter is the largest planet.", point_weight: 1, answer_tolerance: null, multi_select_scoring: "all_or_nothing", poll_allows_multiple: false,
+  pin_target_x: null, pin_target_y: null, pin_target_radius: null, is_wager: false,
+  media_url: null, media_type: null, media_on_phones: false, created_at: new Date().toISOString(),
+  game_question_choices: [
+    { id: "c1", question_id: "q1", choice_text: "Mars", is_correct: false, choice_order: 0, media_url: null, media_type: null },
+    { id: "c2", question_id: "q1", choice_text: "Jupiter", is_correct: true, choice_order: 1, media_url: null, media_type: null },
+    { id: "c3", question_id: "q1", choice_text: "Saturn", is_correct: false, choice_order: 2, media_url: null, media_type: null },
+    { id: "c4", question_id: "q1", choice_text: "Neptune", is_correct: false, choice_order: 3, media_url: null, media_type: null },
+  ],
+};
+
+const MOCK_QUESTION_STATE: SessionQuestionState = {
+  id: "qs1", session_id: "s1", question_index: 2, question_id: "q1",
+  started_at: new Date(Date.now() - 10000).toISOString(),
+  ends_at: new Date(Date.now() + 20000).toISOString(),
+  is_paused: false, paused_remaining_ms: null, is_locked: false,
+  show_results: false, show_leaderboard: false, answer_count: 2, is_wagering: false, wager_count: 0, extra_seconds: 0, advance_at: null,
+  media_playing: false, media_restarted_at: null,
+};
+
+const MOCK_QUESTION_STATE_RESULTS: SessionQuestionState = {
+  ...MOCK_QUESTION_STATE, show_results: true,
+};
+
+const MOCK_QUESTION_STATE_LEADERBOARD: SessionQuestionState = {
+  ...MOCK_QUESTION_STATE, show_results: true, show_leaderboard: true,
+};
+
+const MOCK_ANSWERS: SessionAnswer[] = [
+  { id: "a1", session_id: "s1", player_id: "p1", question_id: "q1", choice_id: "c2", answer_text: null, answer_number: null, pin_x: null, pin_y: null, choice_ids: null, answered_at: new Date().toISOString(), is_correct: true, time_ms: 3200, points_awarded: 1350 },
+  { id: "a2", session_id: "s1", player_id: "p2", question_id: "q1", choice_id: "c1", answer_text: null, answer_number: null, pin_x: null, pin_y: null, choice_ids: null, answered_at: new Date().toISOString(), is_correct: false, time_ms: 5000, points_awarded: 0 },
+  { id: "a3", session_id: "s1", player_id: "p3", question_id: "q1", choice_id: "c2", answer_text: null, answer_number: null, pin_x: null, pin_y: null, choice_ids: null, answered_at: new Date().toISOString(), is_correct: true, time_ms: 8000, points_awarded: 1100 },
+  { id: "a4", session_id: "s1", player_id: "p4", question_id: "q1", choice_id: "c3", answer_text: null, answer_number: null, pin_x: null, pin_y: null, choice_ids: null, answered_at: new Date().toISOString(), is_correct: false, time_ms: 12000, points_awarded: 0 },
+];
+
+// ============================================================
+// Screen Definitions
+// ============================================================
+
+const TRIVIA_SCREENS: DevPreviewScreen[] = [
+  // Trivia Player
+  { id: "tp-joining", label: "Joining", group: "Trivia — Player", render: () => (
+    <TriviaPlayerPage sessionCode="DEMO" devMode={{ phase: "joining", session: MOCK_SESSION_LOBBY, players: MOCK_PLAYERS }} />
+  )},
+  { id: "tp-lobby", label: "Lobby", group: "Trivia — Player", render: () => (
+    <TriviaPlayerPage sessionCode="DEMO" devMode={{ phase: "lobby", session: MOCK_SESSION_LOBBY, player: MOCK_PLAYER, players: MOCK_PLAYERS }} />
+  )},
+  { id: "tp-question", label: "Question", group: "Trivia — Player", render: () => (
+    <TriviaPlayerPage sessionCode="DEMO" devMode={{ phase: "question", session: MOCK_SESSION_PLAYING, player: MOCK_PLAYER, players: MOCK_PLAYERS, questionState: MOCK_QUESTION_STATE, currentQuestion: MOCK_QUESTION, timeLeft: 18 }} />
+  )},
+  { id: "tp-answered-correct", label: "Answered (Correct)", group: "Trivia — Player", render: () => (
+    <TriviaPlayerPage sessionCode="DEMO" devMode={{ phase: "answered", session: MOCK_SESSION_PLAYING, player: MOCK_PLAYER, players: MOCK_PLAYERS, questionState: MOCK_QUESTION_STATE, currentQuestion: MOCK_QUESTION, answerResult: { correct: true, points: 1350 } }} />
+  )},
+  { id: "tp-answered-wrong", label: "Answered (Wrong)", group: "Trivia — Player", render: () => (
+    <TriviaPlayerPage sessionCode="DEMO" devMode={{ phase: "answered", session: MOCK_SESSION_PLAYING, player: MOCK_PLAYER, players: MOCK_PLAYERS, questionState: MOCK_QUESTION_STATE, currentQuestion: MOCK_QUESTION, answerResult: { correct: false, points: 0 } }} />
+  )},
+  { id: "tp-results", label: "Results", group: "Trivia — Player", render: () => (
+    <TriviaPlayerPage sessionCode="DEMO" devMode={{ phase: "results", session: MOCK_SESSION_PLAYING, player: MOCK_PLAYER, players: MOCK_PLAYERS, questionState: MOCK_QUESTION_STATE_RESULTS, currentQuestion: MOCK_QUESTION, answerResult: { correct: true, points: 1350 } }} />
+  )},
+  { id: "tp-leaderboard", label: "Leaderboard", group: "Trivia — Player", render: () => (
+    <TriviaPlayerPage sessionCode="DEMO" devMode={{ phase: "leaderboard", session: MOCK_SESSION_PLAYING, player: MOCK_PLAYER, players: MOCK_PLAYERS }} />
+  )},
+  { id: "tp-finished", label: "Finished", group: "Trivia — Player", render: () => (
+    <TriviaPlayerPage sessionCode="DEMO" devMode={{ phase: "finished", session: MOCK_SESSION_FINISHED, player: MOCK_PLAYER, players: MOCK_PLAYERS }} />
+  )},
+  { id: "tp-removed", label: "Removed", group: "Trivia — Player", render: () => (
+    <TriviaPlayerPage sessionCode="DEMO" devMode={{ phase: "removed", session: MOCK_SESSION_PLAYING }} />
+  )},
+  { id: "tp-error", label: "Error", group: "Trivia — Player", render: () => (
+    <TriviaPlayerPage sessionCode="DEMO" devMode={{ phase: "error", error: "Game not found. Check the code and try again." }} />
+  )},
+
+  // Trivia Screen
+  { id: "ts-lobby", label: "Lobby", group: "Trivia — Screen", render: () => (
+    <TriviaScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_LOBBY, players: MOCK_PLAYERS, totalQuestions: 10 }} />
+  )},
+  { id: "ts-question", label: "Active Question", group: "Trivia — Screen", render: () => (
+    <TriviaScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_PLAYING, players: MOCK_PLAYERS, questionState: MOCK_QUESTION_STATE, currentQuestion: MOCK_QUESTION, answers: MOCK_ANSWERS.slice(0, 2), timeLeft: 18, totalQuestions: 10 }} />
+  )},
+  { id: "ts-results", label: "Results", group: "Trivia — Screen", render: () => (
+    <TriviaScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_PLAYING, players: MOCK_PLAYERS, questionState: MOCK_QUESTION_STATE_RESULTS, currentQuestion: MOCK_QUESTION, answers: MOCK_ANSWERS, totalQuestions: 10 }} />
+  )},
+  { id: "ts-leaderboard", label: "Leaderboard", group: "Trivia — Screen", render: () => (
+    <TriviaScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_PLAYING, players: MOCK_PLAYERS, questionState: MOCK_QUESTION_STATE_LEADERBOARD, currentQuestion: MOCK_QUESTION, answers: MOCK_ANSWERS, totalQuestions: 10, showLeaderboard: true }} />
+  )},
+  { id: "ts-finished", label: "Finished", group: "Trivia — Screen", render: () => (
+    <TriviaScreenPage sessionCode="DEMO" devMode={{ session: MOCK_SESSION_FINISHED, players: MOCK_PLAYERS, totalQuestions: 10 }} />
+  )},
+];
+
+export default TRIVIA_SCREENS;
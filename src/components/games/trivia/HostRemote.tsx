@@ -5,8 +5,13 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
 import { subscribeToSession, unsubscribe } from "@/lib/realtime";
+import { useTriviaAutoAdvance } from "@/lib/use-trivia-auto-advance";
+import { useSessionTeams } from "@/lib/use-session-teams";
 import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
 import { Spinner } from "@/components/ui/spinner";
+import { TeamSetup } from "@/components/teams/TeamSetup";
+import { TeamStandings } from "@/components/teams/TeamStandings";
 import type {
   Session,
   SessionPlayer,
@@ -15,6 +20,17 @@ import type {
   SessionAnswer,
 } from "@/lib/types";
 import type { HostRemoteProps } from "@/lib/game-registry";
+import {
+  canTrivia,
+  getTriviaStage,
+  type HistoryAction,
+  type MediaAction,
+  type TriviaAction,
+} from "@/lib/session-machine";
+
+/** How long auto-pilot may hold each results / leaderboard screen */
+const AUTO_ADVANCE_MIN_SECONDS = 2;
+const AUTO_ADVANCE_MAX_SECONDS = 60;
 
 export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
   const router = useRouter();
@@ -25,7 +41,11 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
     useState<SessionQuestionState | null>(null);
   const [answers, setAnswers] = useState<SessionAnswer[]>([]);
   const [loading, setLoading] = useState(true);
-  const [timerSeconds, setTimerSeconds] = useState(30);
+  const [rejoinCopiedId, setRejoinCopiedId] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  useTriviaAutoAdvance(session, questionState);
+  const { teams, standings } = useSessionTeams(session, players);
 
   useEffect(() => {
     async function load() {
@@ -44,14 +64,6 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
 
       setSession(sessionData);
 
-      const { data: gameData } = await supabase
-        .from("games")
-        .select("timer_seconds")
-        .eq("id", sessionData.game_id)
-        .single();
-
-      if (gameData) setTimerSeconds(gameData.timer_seconds);
-
       const { data: questionsData } = await supabase
         .from("game_questions")
         .select("*")
@@ -117,11 +129,16 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
         }
       },
       onQuestionStateChange: (payload) => {
+        // Undo deletes states for questions it rewinds past
+        if (payload.eventType === "DELETE") return;
         setQuestionState(payload.new as SessionQuestionState);
       },
       onAnswerChange: (payload) => {
         if (payload.eventType === "INSERT") {
           setAnswers((prev) => [...prev, payload.new as SessionAnswer]);
+        } else if (payload.eventType === "DELETE") {
+          const removed = payload.old as Partial<SessionAnswer>;
+          setAnswers((prev) => prev.filter((a) => a.id !== removed.id));
         }
       },
     });
@@ -129,117 +146,97 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
     return () => unsubscribe(channel);
   }, [session?.id]);
 
-  const startGame = useCallback(async () => {
-    if (!session || questions.length === 0) return;
-    const supabase = createClient();
-
-    await supabase
-      .from("sessions")
-      .update({ status: "playing", current_question_index: 0 })
-      .eq("id", session.id);
-
-    const now = new Date();
-    const endsAt = new Date(now.getTime() + timerSeconds * 1000);
-
-    await supabase.from("session_question_state").insert({
-      session_id: session.id,
-      question_index: 0,
-      question_id: questions[0].id,
-      started_at: now.toISOString(),
-      ends_at: endsAt.toISOString(),
-      is_paused: false,
-      is_locked: false,
-      show_results: false,
-    });
-
-    setAnswers([]);
-  }, [session, questions, timerSeconds]);
-
-  const pauseResume = useCallback(async () => {
-    if (!questionState || !session) return;
-    const supabase = createClient();
-
-    if (questionState.is_paused) {
-      const remainingMs = questionState.paused_remaining_ms || 0;
-      const newEndsAt = new Date(Date.now() + remainingMs);
-      await supabase
-        .from("session_question_state")
-        .update({
-          is_paused: false,
-          paused_remaining_ms: null,
-          started_at: new Date(
-            Date.now() - (timerSeconds * 1000 - remainingMs)
-          ).toISOString(),
-          ends_at: newEndsAt.toISOString(),
-        })
-        .eq("id", questionState.id);
-    } else {
-      const remaining = Math.max(
-        0,
-        new Date(questionState.ends_at!).getTime() - Date.now()
-      );
-      await supabase
-        .from("session_question_state")
-        .update({
-          is_paused: true,
-          paused_remaining_ms: remaining,
-        })
-        .eq("id", questionState.id);
-    }
-  }, [questionState, session, timerSeconds]);
+  const callAction = useCallback(
+    async (action: TriviaAction | HistoryAction | MediaAction, extra: Record<string, unknown> = {}) => {
+      setActionLoading(true);
+      try {
+        const res = await fetch("/api/trivia", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action, sessionId, ...extra }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        if (action === "next_question" || action === "start_game") {
+          setAnswers([]);
+        } else if (action === "undo" || action === "rewind") {
+          // The current question may have changed — reload its answers
+          const supabase = createClient();
+          const { data: sessionData } = await supabase
+            .from("sessions")
+            .select("current_question_index")
+            .eq("id", sessionId)
+            .single();
+          const current = sessionData ? questions[sessionData.current_question_index] : undefined;
+          if (current) {
+            const { data: answersData } = await supabase
+              .from("session_answers")
+              .select("*")
+              .eq("session_id", sessionId)
+              .eq("question_id", current.id);
+            setAnswers(answersData || []);
+          } else {
+            setAnswers([]);
+          }
+        }
 
-  const endQuestionEarly = useCallback(async () => {
-    if (!questionState || !session) return;
-    const supabase = createClient();
-    await supabase
-      .from("session_question_state")
-      .update({ is_locked: true, show_results: true })
-      .eq("id", questionState.id);
-  }, [questionState, session]);
+        return data;
+      } catch (err) {
+        console.error(`Action ${action} failed:`, err);
+      } finally {
+        setActionLoading(false);
+      }
+    },
+    [sessionId, questions]
+  );
 
-  const showLeaderboard = useCallback(async () => {
-    if (!questionState || !session) return;
+  // Hands the flow to the server (see lib/trivia-flow) or takes it back
+  const toggleAutoAdvance = useCallback(async () => {
+    if (!session) return;
     const supabase = createClient();
     await supabase
-      .from("session_question_state")
-      .update({ show_leaderboard: true })
-      .eq("id", questionState.id);
-  }, [questionState, session]);
-
-  const nextQuestion = useCallback(async () => {
-    if (!session || !questions.length) return;
-    const supabase = createClient();
-    const nextIndex = session.current_question_index + 1;
+      .from("sessions")
+      .update({ auto_advance: !session.auto_advance })
+      .eq("id", session.id);
+  }, [session]);
 
-    if (nextIndex >= questions.length) {
+  const saveAutoAdvanceSeconds = useCallback(
+    async (seconds: number) => {
+      if (!session || !Number.isFinite(seconds)) return;
+      const clamped = Math.min(AUTO_ADVANCE_MAX_SECONDS, Math.max(AUTO_ADVANCE_MIN_SECONDS, Math.round(seconds)));
+      const supabase = createClient();
       await supabase
         .from("sessions")
-        .update({ status: "finished", ended_at: new Date().toISOString() })
+        .update({ auto_advance_seconds: clamped })
         .eq("id", session.id);
-      return;
-    }
-
-    await supabase
-      .from("sessions")
-      .update({ current_question_index: nextIndex })
-      .eq("id", session.id);
-
-    const now = new Date();
-    const endsAt = new Date(now.getTime() + timerSeconds * 1000);
-
-    await supabase.from("session_question_state").insert({
-      session_id: session.id,
-      question_index: nextIndex,
-      question_id: questions[nextIndex].id,
-      started_at: now.toISOString(),
-      ends_at: endsAt.toISOString(),
-      is_paused: false,
-      is_locked: false,
-      show_results: false,
-    });
+    },
+    [session]
+  );
 
-    setAnswers([]);
-  }, [session, questions, timerSeconds]);
+  const copyRejoinLink = useCallback(
+    async (playerId: string) => {
+      if (!session) return;
+      try {
+        const res = await fetch("/api/players", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "reissue", sessionId: session.id, playerId }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+
+        navigator.clipboard.writeText(
+          `${window.location.origin}/play/${session.code}?rejoin=${data.token}`
+        );
+        setRejoinCopiedId(playerId);
+        setTimeout(() => setRejoinCopiedId(null), 2000);
+      } catch (err) {
+        console.error("Failed to create rejoin link:", err);
+      }
+    },
+    [session]
+  );
 
   const kickPlayer = useCallback(
     async (playerId: string) => {
@@ -253,15 +250,6 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
     [session]
   );
 
-  const endGame = useCallback(async () => {
-    if (!session) return;
-    const supabase = createClient();
-    await supabase
-      .from("sessions")
-      .update({ status: "finished", ended_at: new Date().toISOString() })
-      .eq("id", session.id);
-  }, [session]);
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-zinc-50 dark:bg-background">
@@ -280,6 +268,41 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
     : null;
   const isLastQuestion =
     session.current_question_index >= questions.length - 1;
+  const stage = getTriviaStage(session, questionState);
+
+  const autoPilotToggle = (
+    <div className="flex items-center justify-between gap-3 px-3 py-2 rounded bg-white dark:bg-slate-800 text-sm">
+      <label className="flex flex-1 items-center justify-between gap-3">
+        <span>
+          <span className="block font-medium text-zinc-900 dark:text-zinc-100">Auto-pilot</span>
+          <span className="block text-xs text-zinc-500 dark:text-zinc-400">
+            {session.auto_advance
+              ? `Questions advance on their own (${session.auto_advance_seconds}s per results screen)`
+              : "You tap through each question"}
+          </span>
+        </span>
+        <input
+          type="checkbox"
+          checked={session.auto_advance}
+          onChange={toggleAutoAdvance}
+          className="h-4 w-4 accent-indigo-600"
+        />
+      </label>
+      <label className="flex items-center gap-1 text-xs text-zinc-500 dark:text-zinc-400">
+        <input
+          key={session.auto_advance_seconds}
+          type="number"
+          min={AUTO_ADVANCE_MIN_SECONDS}
+          max={AUTO_ADVANCE_MAX_SECONDS}
+          defaultValue={session.auto_advance_seconds}
+          onBlur={(e) => saveAutoAdvanceSeconds(Number(e.target.value))}
+          aria-label="Seconds per results screen"
+          className="w-12 px-1 py-0.5 rounded border border-zinc-300 dark:border-zinc-600 bg-transparent text-zinc-900 dark:text-zinc-100 text-right"
+        />
+        s
+      </label>
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-zinc-50 dark:bg-background flex flex-col">
@@ -341,6 +364,15 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
                     <span className="text-sm text-zinc-700 dark:text-zinc-300">
                       {p.display_name}
                     </span>
+                    <button
+                      onClick={() => copyRejoinLink(p.id)}
+                      className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 ml-1"
+                      title={rejoinCopiedId === p.id ? "Rejoin link copied" : "Copy rejoin link"}
+                    >
+                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={rejoinCopiedId === p.id ? "M5 13l4 4L19 7" : "M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"} />
+                      </svg>
+                    </button>
                     <button
                       onClick={() => kickPlayer(p.id)}
                       className="text-red-400 hover:text-red-600 ml-1"
@@ -360,8 +392,13 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
               )}
             </div>
 
+            <TeamSetup session={session} players={players} teams={teams} />
+
+            {autoPilotToggle}
+
             <Button
-              onClick={startGame}
+              onClick={() => callAction("start_game")}
+              loading={actionLoading}
               disabled={players.length === 0}
               className="w-full"
               size="lg"
@@ -376,47 +413,125 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
             <div className="text-center">
               <p className="text-xs text-zinc-500 dark:text-zinc-400">
                 Question {session.current_question_index + 1} of {questions.length}
+                {currentQ.is_wager && " · Wager round"}
               </p>
               <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 mt-1">
                 {currentQ.prompt}
               </p>
             </div>
 
+            {/* Clip controls — the question's audio/video plays on the screen */}
+            {questionState && (currentQ.media_type === "audio" || currentQ.media_type === "video") && (
+              <div className="flex items-center gap-2 px-3 py-2 rounded bg-white dark:bg-slate-800">
+                <span className="flex-1 text-sm text-zinc-700 dark:text-zinc-300">
+                  {currentQ.media_type === "audio" ? "Audio clip" : "Video clip"}
+                  {questionState.media_playing ? " — playing" : ""}
+                </span>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => callAction(questionState.media_playing ? "pause_media" : "play_media")}
+                  loading={actionLoading}
+                >
+                  {questionState.media_playing ? "Pause Clip" : "Play Clip"}
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => callAction("restart_media")}
+                  loading={actionLoading}
+                >
+                  Restart
+                </Button>
+              </div>
+            )}
+
             <div className="text-center text-sm text-zinc-500 dark:text-zinc-400">
-              Answers: {answers.length} / {players.length}
+              {stage === "wagering"
+                ? `Wagers: ${questionState?.wager_count ?? 0} / ${players.length}`
+                : `Answers: ${answers.length} / ${players.length}`}
             </div>
 
-            {questionState && !questionState.show_results && !questionState.is_locked ? (
+            {autoPilotToggle}
+
+            {questionState && canTrivia(stage, "open_question") ? (
+              <div className="space-y-3">
+                <p className="text-center text-sm font-medium text-amber-600 dark:text-amber-400">
+                  Players are placing wagers — the question stays hidden until you open it
+                </p>
+                <Button
+                  onClick={() => callAction("open_question")}
+                  loading={actionLoading}
+                  className="w-full"
+                  size="lg"
+                >
+                  Open Question
+                </Button>
+              </div>
+            ) : questionState && canTrivia(stage, "close_question") ? (
               <div className="space-y-3">
                 <div className="grid grid-cols-2 gap-3">
-                  <Button onClick={pauseResume} variant="secondary">
-                    {questionState.is_paused ? "Resume" : "Pause"}
+                  <Button
+                    onClick={() => callAction(canTrivia(stage, "resume") ? "resume" : "pause")}
+                    loading={actionLoading}
+                    variant="secondary"
+                  >
+                    {canTrivia(stage, "resume") ? "Resume" : "Pause"}
                   </Button>
-                  <Button onClick={endQuestionEarly} variant="secondary">
+                  <Button
+                    onClick={() => callAction("close_question")}
+                    loading={actionLoading}
+                    variant="secondary"
+                  >
                     End Question
                   </Button>
                 </div>
               </div>
-            ) : questionState?.show_results && !questionState.show_leaderboard ? (
+            ) : canTrivia(stage, "show_leaderboard") ? (
               <div className="space-y-3">
                 <p className="text-center text-sm font-medium text-green-600 dark:text-green-400">
                   Showing results
                 </p>
-                <Button onClick={showLeaderboard} className="w-full" size="lg">
+                <Button
+                  onClick={() => callAction("show_leaderboard")}
+                  loading={actionLoading}
+                  className="w-full"
+                  size="lg"
+                >
                   Show Leaderboard
                 </Button>
               </div>
-            ) : questionState?.show_leaderboard ? (
+            ) : canTrivia(stage, "next_question") ? (
               <div className="space-y-3">
                 <p className="text-center text-sm font-medium text-indigo-600 dark:text-indigo-400">
                   Showing leaderboard
                 </p>
-                <Button onClick={nextQuestion} className="w-full" size="lg">
+                <Button
+                  onClick={() => callAction("next_question")}
+                  loading={actionLoading}
+                  className="w-full"
+                  size="lg"
+                >
                   {isLastQuestion ? "Finish Game" : "Next Question"}
                 </Button>
               </div>
             ) : null}
 
+            {standings.length > 0 && (
+              <div className="mt-4">
+                <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Teams
+                </h3>
+                <TeamStandings
+                  standings={standings}
+                  className="space-y-1"
+                  rowClassName="text-sm px-3 py-1.5 rounded bg-white dark:bg-slate-800 text-zinc-900 dark:text-zinc-100"
+                  rankClassName="text-zinc-400"
+                  scoreClassName="text-zinc-600 dark:text-zinc-400"
+                />
+              </div>
+            )}
+
             <div className="mt-4">
               <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
                 Leaderboard
@@ -441,6 +556,15 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
                       <span className="font-mono text-zinc-600 dark:text-zinc-400">
                         {p.score}
                       </span>
+                      <button
+                        onClick={() => copyRejoinLink(p.id)}
+                        className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200"
+                        title={rejoinCopiedId === p.id ? "Rejoin link copied" : "Copy rejoin link"}
+                      >
+                        <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={rejoinCopiedId === p.id ? "M5 13l4 4L19 7" : "M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"} />
+                        </svg>
+                      </button>
                       <button
                         onClick={() => kickPlayer(p.id)}
                         className="text-red-400 hover:text-red-600"
@@ -461,6 +585,16 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
             <h2 className="text-xl font-bold text-zinc-900 dark:text-zinc-100 mb-4">
               Game Over
             </h2>
+            {standings.length > 0 && (
+              <TeamStandings
+                standings={standings}
+                showMembers
+                className="space-y-2 mb-6 text-left"
+                rowClassName="text-base px-3 py-2 rounded bg-white dark:bg-slate-800 text-zinc-900 dark:text-zinc-100"
+                rankClassName="text-zinc-400"
+                scoreClassName="font-bold text-zinc-600 dark:text-zinc-300"
+              />
+            )}
             <div className="space-y-2 mb-6">
               {[...players]
                 .sort((a, b) => b.score - a.score)
@@ -489,9 +623,39 @@ export default function TriviaHostRemote({ sessionId }: HostRemoteProps) {
           </div>
         )}
 
+        {(isPlaying || isFinished) && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => callAction("undo")}
+              loading={actionLoading}
+            >
+              Undo
+            </Button>
+            <Select
+              value=""
+              onChange={(e) => callAction("rewind", { index: Number(e.target.value) })}
+              disabled={actionLoading}
+              options={[
+                { value: "", label: "Go back to question..." },
+                ...questions
+                  .slice(0, session.current_question_index + 1)
+                  .map((q, i) => ({ value: String(i), label: `Question ${i + 1}` })),
+              ]}
+            />
+          </div>
+        )}
+
         {isPlaying && (
           <div className="pt-4 border-t border-zinc-200 dark:border-zinc-800">
-            <Button variant="danger" size="sm" onClick={endGame} className="w-full">
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={() => callAction("end_game")}
+              loading={actionLoading}
+              className="w-full"
+            >
               End Game Now
             </Button>
           </div>
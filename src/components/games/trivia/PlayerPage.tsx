@@ -1,10 +1,29 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback } from "react";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
 import { subscribeToSession, unsubscribe } from "@/lib/realtime";
+import { useTriviaAutoAdvance } from "@/lib/use-trivia-auto-advance";
+import { useSessionTeams } from "@/lib/use-session-teams";
 import { AVATAR_COLORS } from "@/lib/avatar-colors";
+import { loadPlayerToken, savePlayerToken } from "@/lib/player-session";
+import {
+  CHOICE_LETTERS,
+  getChoiceColumns,
+  getEstimateGrade,
+  getOrderingCredit,
+  isScoredQuestion,
+  type PinPoint,
+} from "@/lib/question-types";
+import { getTierLabel } from "@/lib/pir-scoring";
+import { getMaxWager } from "@/lib/scoring";
+import { EXTRA_TIME_SECONDS, POWER_UPS } from "@/lib/power-ups";
+import { MAX_ANSWER_LENGTH } from "@/lib/answer-matching";
+import { QuestionMedia } from "@/components/trivia/QuestionMedia";
+import { PinBoard } from "@/components/trivia/PinBoard";
+import { TeamPicker } from "@/components/teams/TeamPicker";
+import { TeamStandings } from "@/components/teams/TeamStandings";
 import { useGameTheme } from "@/lib/theme-context";
 import { getFontFamily, getGoogleFontsUrl } from "@/lib/theme-fonts";
 import { getPatternBg } from "@/lib/theme-patterns";
@@ -12,8 +31,11 @@ import type {
   Session,
   SessionPlayer,
   SessionQuestionState,
-  GameQuestionWithChoices,
+  PlayerSafeQuestion,
+  PlayerSafeChoice,
   GameTheme,
+  PowerUpId,
+  SessionPowerUp,
 } from "@/lib/types";
 
 // ─── Themed shell + helpers — mirrors TCHM's BankShell so every phase
@@ -147,10 +169,95 @@ function AvatarBubble({ player, size = 64 }: { player: SessionPlayer; size?: num
   );
 }
 
+/**
+ * Drag-to-reorder list for ordering questions. Pointer events rather than
+ * HTML5 drag and drop, which phones don't fire for touch.
+ */
+function OrderingList({
+  items,
+  onMove,
+  disabled,
+  t,
+}: {
+  items: PlayerSafeChoice[];
+  onMove: (from: number, to: number) => void;
+  disabled: boolean;
+  t: GameTheme;
+}) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [dragIdx, setDragIdx] = useState<number | null>(null);
+
+  function handlePointerMove(e: React.PointerEvent) {
+    if (dragIdx === null || !listRef.current) return;
+    const rows = Array.from(listRef.current.children);
+    const target = rows.findIndex((row) => {
+      const rect = row.getBoundingClientRect();
+      return e.clientY >= rect.top && e.clientY <= rect.bottom;
+    });
+    if (target !== -1 && target !== dragIdx) {
+      onMove(dragIdx, target);
+      setDragIdx(target);
+    }
+  }
+
+  return (
+    <div ref={listRef} className="flex-1 min-h-0 flex flex-col gap-2">
+      {items.map((item, idx) => (
+        <div
+          key={item.id}
+          onPointerDown={(e) => {
+            if (disabled) return;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setDragIdx(idx);
+          }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragIdx(null)}
+          onPointerCancel={() => setDragIdx(null)}
+          className={`flex-1 min-h-0 max-h-16 flex items-center gap-3 px-4 rounded-2xl font-semibold text-base select-none transition-shadow ${
+            disabled ? "opacity-60" : "cursor-grab active:cursor-grabbing"
+          }`}
+          style={{
+            background: t.surface,
+            border: `2px solid color-mix(in srgb, ${t.textPrimary} ${dragIdx === idx ? 90 : 25}%, transparent)`,
+            boxShadow: dragIdx === idx ? `0 0 0 3px ${t.accent}` : "none",
+            touchAction: "none",
+          }}
+        >
+          <span
+            className="w-7 h-7 rounded-full flex items-center justify-center text-sm font-bold shrink-0"
+            style={{ background: t.accentDim, color: t.accent }}
+          >
+            {idx + 1}
+          </span>
+          {item.media_url && item.media_type && (
+            <QuestionMedia
+              url={item.media_url}
+              type={item.media_type}
+              alt={item.choice_text}
+              className="h-10 w-14 rounded-lg object-cover shrink-0 pointer-events-none"
+              ambient
+            />
+          )}
+          <span className="flex-1 text-left truncate">{item.choice_text}</span>
+          <svg className="w-4 h-4 shrink-0" fill="currentColor" viewBox="0 0 20 20" style={{ color: t.textDim }} aria-hidden>
+            <circle cx="7" cy="5" r="1.4" />
+            <circle cx="7" cy="10" r="1.4" />
+            <circle cx="7" cy="15" r="1.4" />
+            <circle cx="13" cy="5" r="1.4" />
+            <circle cx="13" cy="10" r="1.4" />
+            <circle cx="13" cy="15" r="1.4" />
+          </svg>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 type PlayerPhase =
   | "loading"
   | "joining"
   | "lobby"
+  | "wagering"
   | "question"
   | "answered"
   | "results"
@@ -165,7 +272,7 @@ export interface TriviaPlayerDevMode {
   player?: SessionPlayer | null;
   players?: SessionPlayer[];
   questionState?: SessionQuestionState | null;
-  currentQuestion?: GameQuestionWithChoices | null;
+  currentQuestion?: PlayerSafeQuestion | null;
   selectedChoiceId?: string | null;
   timeLeft?: number;
   answerResult?: { correct: boolean; points: number } | null;
@@ -177,22 +284,45 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
   const [phase, setPhase] = useState<PlayerPhase>(devMode?.phase || "joining");
   const [session, setSession] = useState<Session | null>(devMode?.session ?? null);
   const [player, setPlayer] = useState<SessionPlayer | null>(devMode?.player ?? null);
+  const [playerToken, setPlayerToken] = useState<string | null>(null);
   const [players, setPlayers] = useState<SessionPlayer[]>(devMode?.players ?? []);
   const [questionState, setQuestionState] =
     useState<SessionQuestionState | null>(devMode?.questionState ?? null);
   const [currentQuestion, setCurrentQuestion] =
-    useState<GameQuestionWithChoices | null>(devMode?.currentQuestion ?? null);
+    useState<PlayerSafeQuestion | null>(devMode?.currentQuestion ?? null);
   const [selectedChoiceId, setSelectedChoiceId] = useState<string | null>(devMode?.selectedChoiceId ?? null);
+  const [typedAnswer, setTypedAnswer] = useState("");
+  const [submittedText, setSubmittedText] = useState<string | null>(null);
+  const [submittedNumber, setSubmittedNumber] = useState<number | null>(null);
+  // Pin: where the player has tapped so far, and what they sent
+  const [placedPin, setPlacedPin] = useState<PinPoint | null>(null);
+  const [submittedPin, setSubmittedPin] = useState<PinPoint | null>(null);
+  // Ordering: the player's arrangement (null until they move something); multi-select: their
+  // picks so far. Either is sent as choiceIds.
+  const [itemOrder, setItemOrder] = useState<string[] | null>(null);
+  const [pickedIds, setPickedIds] = useState<string[]>([]);
+  const [submittedChoiceIds, setSubmittedChoiceIds] = useState<string[] | null>(null);
+  // Wager rounds: the amount being typed, and the bet the server accepted
+  const [wagerInput, setWagerInput] = useState("");
+  const [placedWager, setPlacedWager] = useState<number | null>(null);
+  // Power-ups this player has spent this game, and the choices a 50/50 took off this question
+  const [spentPowerUps, setSpentPowerUps] = useState<Pick<SessionPowerUp, "power_up" | "question_state_id">[]>([]);
+  const [removedChoiceIds, setRemovedChoiceIds] = useState<string[]>([]);
   const [timeLeft, setTimeLeft] = useState(devMode?.timeLeft ?? 0);
   const [displayName, setDisplayName] = useState("");
   const [avatarColor, setAvatarColor] = useState<string>(AVATAR_COLORS[0]);
   const [error, setError] = useState(devMode?.error || "");
   const [joinLoading, setJoinLoading] = useState(false);
+  const [answerError, setAnswerError] = useState("");
+  const [teamError, setTeamError] = useState("");
   const [answerResult, setAnswerResult] = useState<{
     correct: boolean;
     points: number;
   } | null>(devMode?.answerResult ?? null);
 
+  useTriviaAutoAdvance(session, questionState, !!devMode);
+  const { teams, standings } = useSessionTeams(session, players, !!devMode);
+
   useEffect(() => {
     if (devMode) return;
 
@@ -220,13 +350,15 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
         .eq("is_removed", false);
       setPlayers(playersData || []);
 
-      const storedPlayerId = localStorage.getItem(`heyhost-player-${data.id}`);
-      if (storedPlayerId) {
-        const { data: existingPlayer } = await supabase
-          .from("session_players")
-          .select("*")
-          .eq("id", storedPlayerId)
-          .maybeSingle();
+      const storedToken = loadPlayerToken(data.id);
+      if (storedToken) {
+        const res = await fetch("/api/players", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "rejoin", sessionId: data.id, token: storedToken }),
+        });
+        const existingPlayer: SessionPlayer | null = res.ok ? (await res.json()).player : null;
+        if (existingPlayer) setPlayerToken(storedToken);
 
         if (existingPlayer && !existingPlayer.is_removed) {
           setPlayer(existingPlayer);
@@ -267,17 +399,39 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
         }
       },
       onQuestionStateChange: (payload) => {
+        // Undo deletes states for questions it rewinds past
+        if (payload.eventType === "DELETE") return;
         const qs = payload.new as SessionQuestionState;
         setQuestionState(qs);
 
         if (payload.eventType === "INSERT") {
           setSelectedChoiceId(null);
+          setTypedAnswer("");
+          setSubmittedText(null);
+          setSubmittedNumber(null);
+          setPlacedPin(null);
+          setSubmittedPin(null);
+          setItemOrder(null);
+          setPickedIds([]);
+          setSubmittedChoiceIds(null);
+          setWagerInput("");
+          setPlacedWager(null);
+          setRemovedChoiceIds([]);
           setAnswerResult(null);
-          setPhase("question");
+          setAnswerError("");
+          setPhase(qs.is_wagering ? "wagering" : "question");
         } else if (qs.show_leaderboard) {
           setPhase("leaderboard");
         } else if (qs.show_results) {
           setPhase("results");
+        } else if (qs.is_wagering) {
+          setPhase("wagering");
+        } else {
+          // The wager question opened, or the host undid the reveal — on to the
+          // open question (a choice already made stays selected, so it can't be sent twice)
+          setPhase((prev) =>
+            prev === "wagering" || prev === "results" || prev === "leaderboard" ? "question" : prev
+          );
         }
       },
     });
@@ -289,27 +443,20 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
     if (devMode) return;
     if (!questionState) return;
 
+    // Refetched on reveal — the RPC only includes is_correct once results show
+    // (and a wager question's prompt once it opens)
     async function loadQuestion() {
       const supabase = createClient();
-      const { data } = await supabase
-        .from("game_questions")
-        .select("*, game_question_choices(*)")
-        .eq("id", questionState!.question_id)
-        .single();
+      const { data } = await supabase.rpc("get_session_question", {
+        p_session_id: questionState!.session_id,
+        p_question_id: questionState!.question_id,
+      });
 
-      if (data) {
-        setCurrentQuestion({
-          ...data,
-          game_question_choices: data.game_question_choices.sort(
-            (a: { choice_order: number }, b: { choice_order: number }) =>
-              a.choice_order - b.choice_order
-          ),
-        });
-      }
+      if (data) setCurrentQuestion(data as PlayerSafeQuestion);
     }
 
     loadQuestion();
-  }, [questionState?.question_id]);
+  }, [questionState?.question_id, questionState?.show_results, questionState?.is_wagering]);
 
   useEffect(() => {
     if (devMode) return;
@@ -325,15 +472,46 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
         .eq("question_id", questionState!.question_id)
         .maybeSingle();
 
+      // Own answers are only readable once the results are revealed
       if (data) {
         setSelectedChoiceId(data.choice_id);
+        setSubmittedText(data.answer_text);
+        setSubmittedNumber(data.answer_number === null ? null : Number(data.answer_number));
+        setSubmittedPin(data.pin_x === null ? null : { x: Number(data.pin_x), y: Number(data.pin_y) });
+        setSubmittedChoiceIds(data.choice_ids);
         setAnswerResult({ correct: data.is_correct, points: data.points_awarded });
-        setPhase("answered");
+        if (!questionState!.show_results) setPhase("answered");
       }
     }
 
     checkExistingAnswer();
-  }, [questionState?.question_id, player?.id, currentQuestion?.id]);
+  }, [questionState?.question_id, questionState?.show_results, player?.id, currentQuestion?.id]);
+
+  const powerUpSessionId = session?.power_ups.length ? session.id : null;
+  const powerUpPlayerId = player?.id;
+  useEffect(() => {
+    if (devMode || !powerUpSessionId || !powerUpPlayerId) return;
+
+    async function loadPowerUps() {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("session_power_ups")
+        .select("power_up, question_state_id")
+        .eq("session_id", powerUpSessionId)
+        .eq("player_id", powerUpPlayerId);
+
+      setSpentPowerUps(data || []);
+    }
+
+    loadPowerUps();
+  }, [devMode, powerUpSessionId, powerUpPlayerId]);
+
+  // Extra time moves only this player's clock
+  const extraMs = spentPowerUps.some(
+    (s) => s.power_up === "extra_time" && s.question_state_id === questionState?.id
+  )
+    ? EXTRA_TIME_SECONDS * 1000
+    : 0;
 
   useEffect(() => {
     if (devMode) return;
@@ -343,14 +521,14 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
     const interval = setInterval(() => {
       const remaining = Math.max(
         0,
-        Math.ceil((new Date(questionState.ends_at!).getTime() - Date.now()) / 1000)
+        Math.ceil((new Date(questionState.ends_at!).getTime() + extraMs - Date.now()) / 1000)
       );
       setTimeLeft(remaining);
       if (remaining <= 0) clearInterval(interval);
     }, 100);
 
     return () => clearInterval(interval);
-  }, [questionState?.ends_at, questionState?.is_paused, questionState?.is_locked]);
+  }, [questionState?.ends_at, questionState?.is_paused, questionState?.is_locked, extraMs]);
 
   const handleJoin = useCallback(async () => {
     if (devMode) return;
@@ -363,36 +541,24 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
     setError("");
 
     try {
-      const supabase = createClient();
-
-      const { data: existing } = await supabase
-        .from("session_players")
-        .select("display_name")
-        .eq("session_id", session.id)
-        .eq("is_removed", false);
+      // The server de-duplicates names and signs the token that proves this phone is the player
+      const res = await fetch("/api/players", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "join",
+          sessionId: session.id,
+          displayName: displayName.trim(),
+          avatarColor,
+        }),
+      });
 
-      let finalName = displayName.trim();
-      const names = (existing || []).map((p) => p.display_name.toLowerCase());
-      if (names.includes(finalName.toLowerCase())) {
-        let counter = 2;
-        while (names.includes(`${finalName.toLowerCase()}${counter}`)) counter++;
-        finalName = `${finalName}${counter}`;
-      }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
 
-      const { data: newPlayer, error: insertError } = await supabase
-        .from("session_players")
-        .insert({
-          session_id: session.id,
-          display_name: finalName,
-          avatar_color: avatarColor,
-        })
-        .select()
-        .single();
-
-      if (insertError) throw insertError;
-
-      setPlayer(newPlayer);
-      localStorage.setItem(`heyhost-player-${session.id}`, newPlayer.id);
+      setPlayer(data.player);
+      setPlayerToken(data.token);
+      savePlayerToken(session.id, data.token);
       setPhase("lobby");
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : "Failed to join. Try again.");
@@ -401,47 +567,170 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
     }
   }, [session, displayName, avatarColor]);
 
+  const hasAnswered =
+    !!selectedChoiceId ||
+    submittedText !== null ||
+    submittedNumber !== null ||
+    submittedPin !== null ||
+    submittedChoiceIds !== null;
+
   const handleAnswer = useCallback(
-    async (choiceId: string) => {
+    async (
+      answer:
+        | { choiceId: string }
+        | { text: string }
+        | { number: number }
+        | { pin: PinPoint }
+        | { choiceIds: string[] }
+    ) => {
       if (devMode) return;
-      if (!session || !player || !questionState || !currentQuestion || selectedChoiceId) return;
+      if (!session || !player || !questionState || !currentQuestion || hasAnswered) return;
 
-      setSelectedChoiceId(choiceId);
+      if ("choiceId" in answer) setSelectedChoiceId(answer.choiceId);
+      else if ("text" in answer) setSubmittedText(answer.text);
+      else if ("number" in answer) setSubmittedNumber(answer.number);
+      else if ("pin" in answer) setSubmittedPin(answer.pin);
+      else setSubmittedChoiceIds(answer.choiceIds);
       setPhase("answered");
 
-      const supabase = createClient();
-      const startedAt = questionState.started_at ? new Date(questionState.started_at).getTime() : Date.now();
-      const timeMs = Date.now() - startedAt;
-
-      const choice = currentQuestion.game_question_choices.find((c) => c.id === choiceId);
-      const isCorrect = choice?.is_correct || false;
-
-      let points = 0;
-      if (isCorrect) {
-        points = 1000;
-        if (session.speed_bonus) {
-          const totalMs = session.timer_seconds * 1000;
-          const fraction = Math.max(0, 1 - timeMs / totalMs);
-          points += Math.round(500 * fraction);
-        }
+      try {
+        const res = await fetch("/api/trivia", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action: "submit_answer",
+            sessionId: session.id,
+            playerToken,
+            ...answer,
+          }),
+        });
+
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+      } catch (err) {
+        // The server refuses late, duplicate and locked answers — tell the player why
+        setAnswerError(err instanceof Error && err.message ? err.message : "Failed to submit answer");
+        setSelectedChoiceId(null);
+        setSubmittedText(null);
+        setSubmittedNumber(null);
+        setSubmittedPin(null);
+        setSubmittedChoiceIds(null);
+        setPhase("question");
       }
+    },
+    [session, player, playerToken, questionState, currentQuestion, hasAnswered]
+  );
 
-      setAnswerResult({ correct: isCorrect, points });
+  const handleWager = useCallback(
+    async (amount: number) => {
+      if (devMode) return;
+      if (!session) return;
+
+      setAnswerError("");
+      try {
+        const res = await fetch("/api/trivia", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action: "place_wager",
+            sessionId: session.id,
+            playerToken,
+            amount,
+          }),
+        });
 
-      await supabase.from("session_answers").insert({
-        session_id: session.id,
-        player_id: player.id,
-        question_id: questionState.question_id,
-        choice_id: choiceId,
-        is_correct: isCorrect,
-        time_ms: timeMs,
-        points_awarded: points,
-      });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setPlacedWager(data.amount);
+      } catch (err) {
+        setAnswerError(err instanceof Error && err.message ? err.message : "Failed to place wager");
+      }
     },
-    [session, player, questionState, currentQuestion, selectedChoiceId]
+    [session, playerToken, devMode]
+  );
+
+  const handlePowerUp = useCallback(
+    async (powerUp: PowerUpId) => {
+      if (devMode) return;
+      if (!session || !questionState) return;
+
+      setAnswerError("");
+      try {
+        const res = await fetch("/api/trivia", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action: "use_power_up",
+            sessionId: session.id,
+            playerToken,
+            powerUp,
+          }),
+        });
+
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setSpentPowerUps((prev) => [...prev, { power_up: powerUp, question_state_id: questionState.id }]);
+        if (data.removedChoiceIds?.length) setRemovedChoiceIds(data.removedChoiceIds);
+      } catch (err) {
+        setAnswerError(err instanceof Error && err.message ? err.message : "Failed to use power-up");
+      }
+    },
+    [session, playerToken, questionState, devMode]
+  );
+
+  const handleChooseTeam = useCallback(
+    async (teamId: string) => {
+      if (devMode) return;
+      if (!session) return;
+
+      setTeamError("");
+      try {
+        const res = await fetch("/api/players", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action: "choose_team",
+            sessionId: session.id,
+            token: playerToken,
+            teamId,
+          }),
+        });
+
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setPlayer(data.player);
+      } catch (err) {
+        setTeamError(err instanceof Error && err.message ? err.message : "Failed to join team");
+      }
+    },
+    [session, playerToken, devMode]
   );
 
   const buttonTextColor = t.buttonTextMode === "light" ? "#FFFFFF" : "#1A1A1A";
+  const myTeamId = players.find((p) => p.id === player?.id)?.team_id ?? player?.team_id ?? null;
+  const myTeam = teams.find((team) => team.id === myTeamId) ?? null;
+
+  /** An ordering question's items as the player has them (the server's shuffle until they move one) */
+  function getOrderedItems(choices: PlayerSafeChoice[]): PlayerSafeChoice[] {
+    const order = submittedChoiceIds ?? itemOrder;
+    if (!order) return choices;
+    return order
+      .map((id) => choices.find((c) => c.id === id))
+      .filter((c): c is PlayerSafeChoice => !!c);
+  }
+
+  function togglePick(choiceId: string) {
+    setPickedIds((prev) =>
+      prev.includes(choiceId) ? prev.filter((id) => id !== choiceId) : [...prev, choiceId]
+    );
+  }
+
+  function moveItem(choices: PlayerSafeChoice[], from: number, to: number) {
+    const ids = getOrderedItems(choices).map((c) => c.id);
+    const [moved] = ids.splice(from, 1);
+    ids.splice(to, 0, moved);
+    setItemOrder(ids);
+  }
 
   if (phase === "error") {
     return (
@@ -614,6 +903,37 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
             </TriviaCard>
           )}
 
+          {/* Team — picked here, or shown once the host deals teams out */}
+          {session.team_mode !== "off" && teams.length > 0 && (
+            <div>
+              <h3 className="text-sm font-bold mb-2 px-1">
+                {session.team_mode === "choose" ? "Pick your team" : "Your team"}
+              </h3>
+              {session.team_mode === "choose" ? (
+                <TeamPicker
+                  teams={teams}
+                  players={players}
+                  currentTeamId={myTeamId}
+                  onPick={handleChooseTeam}
+                />
+              ) : myTeam ? (
+                <div
+                  className="rounded-xl px-4 py-3 font-bold text-white"
+                  style={{ backgroundColor: myTeam.color }}
+                >
+                  {myTeam.name}
+                </div>
+              ) : (
+                <p className="text-xs px-1" style={{ color: t.textDim }}>
+                  The host is putting teams together…
+                </p>
+              )}
+              {teamError && (
+                <p className="text-xs mt-2 px-1" style={{ color: t.danger }}>{teamError}</p>
+              )}
+            </div>
+          )}
+
           {/* Player list */}
           <div>
             <div className="flex items-center justify-between mb-2 px-1">
@@ -657,11 +977,114 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
     );
   }
 
+  if (phase === "wagering" && questionState) {
+    const myScore = players.find((p) => p.id === player?.id)?.score ?? player?.score ?? 0;
+    const maxWager = getMaxWager(myScore);
+    const amount = wagerInput === "" ? NaN : Number(wagerInput);
+    const isValidAmount = Number.isInteger(amount) && amount >= 0 && amount <= maxWager;
+    return (
+      <TriviaShell t={t}>
+        <div className="px-5 pt-5 pb-3 flex items-center justify-between shrink-0">
+          <div
+            className="px-3 py-1 rounded-lg text-sm font-bold"
+            style={{ background: t.accentDim, color: t.accent }}
+          >
+            Question {questionState.question_index + 1}
+          </div>
+          <div className="text-lg font-bold" style={{ fontFamily: getFontFamily(t.headingFont) }}>
+            Wager Round
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 px-5 pb-6 flex flex-col justify-center gap-4">
+          <TriviaCard t={t} glow className="text-center">
+            <p className="text-xs uppercase tracking-wider mb-2" style={{ color: t.textDim }}>
+              Your Score
+            </p>
+            <p
+              className="text-4xl font-bold tabular-nums"
+              style={{ color: t.accent, fontFamily: getFontFamily(t.headingFont) }}
+            >
+              {myScore}
+            </p>
+            <p className="mt-2 text-sm" style={{ color: t.textMuted }}>
+              {maxWager > 0
+                ? "Bet any part of it before the question is shown. Right answer wins the bet — wrong or no answer loses it."
+                : "You have no points to bet, but you can still answer."}
+            </p>
+          </TriviaCard>
+
+          <form
+            className="flex flex-col gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (isValidAmount) handleWager(amount);
+            }}
+          >
+            <TriviaCard t={t} className="!p-4">
+              <input
+                type="text"
+                inputMode="numeric"
+                value={wagerInput}
+                onChange={(e) => setWagerInput(e.target.value.replace(/[^0-9]/g, ""))}
+                placeholder={`0 – ${maxWager}`}
+                autoComplete="off"
+                className="w-full bg-transparent text-3xl font-bold text-center tabular-nums focus:outline-none"
+                style={{ color: t.textPrimary, caretColor: t.accent }}
+              />
+              <input
+                type="range"
+                min={0}
+                max={maxWager}
+                step={1}
+                value={isValidAmount ? amount : 0}
+                onChange={(e) => setWagerInput(e.target.value)}
+                disabled={maxWager === 0}
+                className="w-full mt-3"
+                style={{ accentColor: t.accent }}
+              />
+            </TriviaCard>
+            <TriviaButton t={t} disabled={!isValidAmount}>
+              {placedWager === null ? "Place Wager" : "Change Wager"}
+            </TriviaButton>
+          </form>
+
+          {answerError && (
+            <div
+              className="flex items-center justify-center gap-2 py-2 px-4 rounded-full shrink-0"
+              style={{ background: "rgba(185,28,28,0.10)", border: "1px solid rgba(185,28,28,0.25)" }}
+            >
+              <span className="text-xs font-medium text-center" style={{ color: t.danger }}>
+                {answerError}
+              </span>
+            </div>
+          )}
+
+          {placedWager !== null && (
+            <div
+              className="flex items-center justify-center gap-2 py-2 rounded-full shrink-0"
+              style={{ background: t.accentDim }}
+            >
+              <div className="w-4 h-4 border-2 rounded-full animate-spin" style={{ borderColor: `${t.accent} transparent transparent transparent` }} />
+              <span className="text-xs font-medium" style={{ color: t.accent }}>
+                Wagered {placedWager} — waiting for the question…
+              </span>
+            </div>
+          )}
+        </div>
+      </TriviaShell>
+    );
+  }
+
   if ((phase === "question" || phase === "answered") && currentQuestion && questionState) {
     const choices = currentQuestion.game_question_choices;
-    const choiceColors = ["#EF4444", "#3B82F6", "#F59E0B", "#10B981", "#8B5CF6"];
-    const choiceLetters = ["A", "B", "C", "D", "E"];
-    const isLocked = questionState.is_locked || questionState.is_paused || !!selectedChoiceId;
+    const choiceColors = ["#EF4444", "#3B82F6", "#F59E0B", "#10B981", "#8B5CF6", "#EC4899"];
+    const isLocked = questionState.is_locked || questionState.is_paused || hasAnswered;
+    const isMultiSelect =
+      currentQuestion.question_type === "multi_select" ||
+      (currentQuestion.question_type === "poll" && currentQuestion.poll_allows_multiple);
+    const isWordCloud = currentQuestion.question_type === "word_cloud";
+    const myPin = submittedPin ?? placedPin;
     return (
       <TriviaShell t={t}>
         {/* Top bar */}
@@ -671,6 +1094,7 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
             style={{ background: t.accentDim, color: t.accent }}
           >
             Question {questionState.question_index + 1}
+            {currentQuestion.is_wager && placedWager !== null && ` · Wager ${placedWager}`}
           </div>
           <div
             className="text-2xl font-bold tabular-nums"
@@ -684,41 +1108,224 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
           {/* Prompt */}
           <TriviaCard t={t} glow className="text-center !p-4 shrink-0">
             <p className="text-lg font-bold leading-tight">{currentQuestion.prompt}</p>
+            {/* Media plays on the screen; the host can opt to show it on phones too */}
+            {currentQuestion.media_on_phones &&
+              currentQuestion.question_type !== "pin" &&
+              currentQuestion.media_url &&
+              currentQuestion.media_type && (
+              <QuestionMedia
+                url={currentQuestion.media_url}
+                type={currentQuestion.media_type}
+                alt={currentQuestion.prompt}
+                className="max-h-40 w-full mt-3 rounded-xl object-contain"
+                controls
+              />
+            )}
           </TriviaCard>
 
-          {/* Choices fill remaining space */}
-          <div className="flex-1 min-h-0 flex flex-col gap-2.5">
-            {choices.map((choice, idx) => {
-              const color = choiceColors[idx] || t.accent;
-              const isMe = selectedChoiceId === choice.id;
-              return (
-                <button
-                  key={choice.id}
-                  onClick={() => handleAnswer(choice.id)}
+          {!!session.power_ups.length && !hasAnswered && (
+            <div className="flex gap-2 shrink-0">
+              {session.power_ups.map((id) => {
+                const powerUp = POWER_UPS[id];
+                const isSpent = spentPowerUps.some((s) => s.power_up === id);
+                return (
+                  <button
+                    key={id}
+                    onClick={() => handlePowerUp(id)}
+                    disabled={
+                      isLocked ||
+                      isSpent ||
+                      !powerUp.appliesTo(currentQuestion.question_type, currentQuestion.is_wager)
+                    }
+                    title={powerUp.description}
+                    className={`flex-1 py-1.5 rounded-full text-xs font-bold transition-opacity disabled:opacity-40 ${
+                      isSpent ? "line-through" : ""
+                    }`}
+                    style={{ background: t.accentDim, color: t.accent }}
+                  >
+                    {powerUp.label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {currentQuestion.question_type === "type_in" || isWordCloud ? (
+            /* Type-in: the server grades the text against the accepted answers
+               (word-cloud answers go straight onto the screen) */
+            <form
+              className="flex-1 min-h-0 flex flex-col justify-center gap-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (typedAnswer.trim()) handleAnswer({ text: typedAnswer.trim() });
+              }}
+            >
+              <TriviaCard t={t} className="!p-4">
+                <input
+                  value={submittedText ?? typedAnswer}
+                  onChange={(e) => setTypedAnswer(e.target.value)}
+                  placeholder={isWordCloud ? "A word or two" : "Type your answer"}
+                  maxLength={MAX_ANSWER_LENGTH}
                   disabled={isLocked}
-                  className="w-full flex items-center gap-3 px-4 py-3 rounded-2xl text-white font-semibold text-base transition-all disabled:opacity-60 active:scale-[0.98] hover:brightness-95 flex-1 min-h-0"
-                  style={{
-                    background: color,
-                    border: `2px solid color-mix(in srgb, ${t.textPrimary} 90%, transparent)`,
-                    boxShadow: isMe ? `0 0 0 3px ${t.accent}` : "none",
-                  }}
+                  autoFocus
+                  autoComplete="off"
+                  className="w-full bg-transparent text-lg font-bold text-center focus:outline-none disabled:opacity-60"
+                  style={{ color: t.textPrimary, caretColor: t.accent }}
+                />
+              </TriviaCard>
+              <TriviaButton t={t} disabled={isLocked || !typedAnswer.trim()}>
+                {isWordCloud ? "Send" : "Submit Answer"}
+              </TriviaButton>
+            </form>
+          ) : currentQuestion.question_type === "estimate" ? (
+            /* Estimate: the phone's number pad, graded by how close the guess is */
+            <form
+              className="flex-1 min-h-0 flex flex-col justify-center gap-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                const guess = parseFloat(typedAnswer);
+                if (Number.isFinite(guess)) handleAnswer({ number: guess });
+              }}
+            >
+              <TriviaCard t={t} className="!p-4">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={submittedNumber !== null ? String(submittedNumber) : typedAnswer}
+                  onChange={(e) => setTypedAnswer(e.target.value.replace(/[^0-9.]/g, ""))}
+                  placeholder="Your best guess"
+                  disabled={isLocked}
+                  autoFocus
+                  autoComplete="off"
+                  className="w-full bg-transparent text-3xl font-bold text-center tabular-nums focus:outline-none disabled:opacity-60"
+                  style={{ color: t.textPrimary, caretColor: t.accent }}
+                />
+              </TriviaCard>
+              <TriviaButton t={t} disabled={isLocked || !Number.isFinite(parseFloat(typedAnswer))}>
+                Lock In Guess
+              </TriviaButton>
+            </form>
+          ) : currentQuestion.question_type === "pin" && currentQuestion.media_url ? (
+            /* Pin: tap the image (as often as they like) until they drop the pin */
+            <>
+              <div className="flex-1 min-h-0 flex items-center justify-center">
+                <PinBoard
+                  url={currentQuestion.media_url}
+                  alt={currentQuestion.prompt}
+                  imageClassName="max-h-[50vh] max-w-full rounded-xl"
+                  pins={myPin ? [{ key: "me", ...myPin, color: player?.avatar_color ?? t.accent }] : []}
+                  onPick={setPlacedPin}
+                  disabled={isLocked}
+                />
+              </div>
+              <TriviaButton
+                t={t}
+                disabled={isLocked || !placedPin}
+                onClick={() => placedPin && handleAnswer({ pin: placedPin })}
+                className="shrink-0"
+              >
+                {placedPin ? "Drop Pin" : "Tap the Image"}
+              </TriviaButton>
+            </>
+          ) : currentQuestion.question_type === "ordering" ? (
+            /* Ordering: drag the items into place, then lock the order in */
+            <>
+              <OrderingList
+                items={getOrderedItems(choices)}
+                onMove={(from, to) => moveItem(choices, from, to)}
+                disabled={isLocked}
+                t={t}
+              />
+              <TriviaButton
+                t={t}
+                disabled={isLocked}
+                onClick={() => handleAnswer({ choiceIds: getOrderedItems(choices).map((c) => c.id) })}
+                className="shrink-0"
+              >
+                Lock In Order
+              </TriviaButton>
+            </>
+          ) : (
+            /* Choices fill remaining space — multi-select taps toggle until the player submits */
+            <>
+              <div
+                className="flex-1 min-h-0 grid gap-2.5"
+                style={{
+                  gridTemplateColumns: `repeat(${getChoiceColumns(choices.length, 2)}, minmax(0, 1fr))`,
+                  gridAutoRows: "minmax(0, 1fr)",
+                }}
+              >
+                {choices.map((choice, idx) => {
+                  const color = choiceColors[idx] || t.accent;
+                  const isMe = isMultiSelect
+                    ? (submittedChoiceIds ?? pickedIds).includes(choice.id)
+                    : selectedChoiceId === choice.id;
+                  // A 50/50 hides its choices but keeps their places, so the grid still matches the screen
+                  const isRemoved = removedChoiceIds.includes(choice.id);
+                  return (
+                    <button
+                      key={choice.id}
+                      onClick={() =>
+                        isMultiSelect ? togglePick(choice.id) : handleAnswer({ choiceId: choice.id })
+                      }
+                      disabled={isLocked || isRemoved}
+                      className={`${isRemoved ? "invisible " : ""}w-full flex items-center gap-3 px-4 py-3 rounded-2xl text-white font-semibold text-base transition-all disabled:opacity-60 active:scale-[0.98] hover:brightness-95 min-h-0`}
+                      style={{
+                        background: color,
+                        border: `2px solid color-mix(in srgb, ${t.textPrimary} 90%, transparent)`,
+                        boxShadow: isMe ? `0 0 0 3px ${t.accent}` : "none",
+                      }}
+                    >
+                      <span
+                        className="w-7 h-7 rounded-full flex items-center justify-center text-sm font-bold shrink-0"
+                        style={{ background: "rgba(255,255,255,0.25)", border: "1.5px solid rgba(255,255,255,0.5)" }}
+                      >
+                        {CHOICE_LETTERS[idx]}
+                      </span>
+                      {choice.media_url && choice.media_type && (
+                        <QuestionMedia
+                          url={choice.media_url}
+                          type={choice.media_type}
+                          alt={choice.choice_text}
+                          className="h-full max-h-16 w-16 rounded-lg object-cover shrink-0"
+                          ambient
+                        />
+                      )}
+                      <span className="flex-1 text-left">{choice.choice_text}</span>
+                      {isMe && (
+                        <svg className="w-5 h-5 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                        </svg>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+              {isMultiSelect && (
+                <TriviaButton
+                  t={t}
+                  disabled={isLocked || !pickedIds.length}
+                  onClick={() => handleAnswer({ choiceIds: pickedIds })}
+                  className="shrink-0"
                 >
-                  <span
-                    className="w-7 h-7 rounded-full flex items-center justify-center text-sm font-bold shrink-0"
-                    style={{ background: "rgba(255,255,255,0.25)", border: "1.5px solid rgba(255,255,255,0.5)" }}
-                  >
-                    {choiceLetters[idx]}
-                  </span>
-                  <span className="flex-1 text-left">{choice.choice_text}</span>
-                  {isMe && (
-                    <svg className="w-5 h-5 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
-                    </svg>
-                  )}
-                </button>
-              );
-            })}
-          </div>
+                  {pickedIds.length
+                    ? `Submit ${pickedIds.length} ${pickedIds.length === 1 ? "Pick" : "Picks"}`
+                    : "Pick All That Apply"}
+                </TriviaButton>
+              )}
+            </>
+          )}
+
+          {answerError && (
+            <div
+              className="flex items-center justify-center gap-2 py-2 px-4 rounded-full shrink-0"
+              style={{ background: "rgba(185,28,28,0.10)", border: "1px solid rgba(185,28,28,0.25)" }}
+            >
+              <span className="text-xs font-medium text-center" style={{ color: t.danger }}>
+                {answerError}
+              </span>
+            </div>
+          )}
 
           {phase === "answered" && (
             <div
@@ -736,23 +1343,117 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
     );
   }
 
-  if (phase === "results" && questionState && currentQuestion) {
-    const correctChoice = currentQuestion.game_question_choices.find((c) => c.is_correct);
-    const correctColor = "#15803D";
-    const isCorrect = answerResult?.correct;
+  // Polls and word clouds: no right answer, so just echo what the player sent
+  if (phase === "results" && questionState && currentQuestion && !isScoredQuestion(currentQuestion.question_type)) {
+    const picked = currentQuestion.game_question_choices.filter(
+      (c) => c.id === selectedChoiceId || !!submittedChoiceIds?.includes(c.id)
+    );
+    const yourAnswer = submittedText ?? picked.map((c) => c.choice_text).join(", ");
     return (
       <TriviaShell t={t}>
         <div className="flex-1 px-5 py-6 flex flex-col items-center justify-center gap-4">
           <TriviaCard t={t} glow className="w-full text-center">
             <p className="text-xs uppercase tracking-wider mb-2" style={{ color: t.textDim }}>
-              Correct Answer
+              {currentQuestion.question_type === "poll" ? "Your Vote" : "Your Answer"}
             </p>
             <p
               className="text-3xl font-bold tracking-[-0.025em]"
-              style={{ color: t.accent, fontFamily: getFontFamily(t.headingFont) }}
+              style={{ color: yourAnswer ? t.accent : t.textMuted, fontFamily: getFontFamily(t.headingFont) }}
             >
-              {correctChoice?.choice_text}
+              {yourAnswer || "No answer"}
+            </p>
+            <p className="mt-3 text-sm" style={{ color: t.textMuted }}>
+              No right answer — see what everyone said on the screen
+            </p>
+          </TriviaCard>
+
+          <div
+            className="flex items-center gap-2 px-4 py-2 rounded-full"
+            style={{ background: t.accentDim }}
+          >
+            <div className="w-4 h-4 border-2 rounded-full animate-spin" style={{ borderColor: `${t.accent} transparent transparent transparent` }} />
+            <span className="text-xs font-medium" style={{ color: t.accent }}>Waiting for next question…</span>
+          </div>
+        </div>
+      </TriviaShell>
+    );
+  }
+
+  if (phase === "results" && questionState && currentQuestion) {
+    const correctChoices = currentQuestion.game_question_choices.filter((c) => c.is_correct);
+    const correctColor = "#15803D";
+    const isCorrect = answerResult?.correct;
+    // Revealed ordering questions come back in the correct order
+    const isOrdering = currentQuestion.question_type === "ordering";
+    const correctIds = currentQuestion.game_question_choices.map((c) => c.id);
+    const placed = isOrdering && submittedChoiceIds
+      ? Math.round(getOrderingCredit(submittedChoiceIds, correctIds) * correctIds.length)
+      : 0;
+    // Partial credit earns points without being correct (ordering, multi-select, estimate)
+    const isPartlyRight = !isCorrect && (placed > 0 || (answerResult?.points ?? 0) > 0);
+    const isPin = currentQuestion.question_type === "pin";
+    const pinTarget =
+      currentQuestion.pin_target_x !== null &&
+      currentQuestion.pin_target_y !== null &&
+      currentQuestion.pin_target_radius !== null
+        ? {
+            x: Number(currentQuestion.pin_target_x),
+            y: Number(currentQuestion.pin_target_y),
+            radius: Number(currentQuestion.pin_target_radius),
+          }
+        : null;
+    const estimateTier =
+      currentQuestion.question_type === "estimate" && submittedNumber !== null
+        ? getEstimateGrade(submittedNumber, Number(correctChoices[0]?.choice_text)).tier
+        : null;
+    let verdict: string;
+    if (estimateTier) verdict = getTierLabel(estimateTier);
+    else if (isPin) verdict = isCorrect ? "On target!" : isPartlyRight ? "Close" : "Missed";
+    else if (isCorrect) verdict = "Correct!";
+    else if (isOrdering && placed > 0) verdict = `${placed} of ${correctIds.length} in place`;
+    else verdict = isPartlyRight ? "Partly right" : "Wrong";
+    return (
+      <TriviaShell t={t}>
+        <div className="flex-1 px-5 py-6 flex flex-col items-center justify-center gap-4">
+          <TriviaCard t={t} glow className="w-full text-center">
+            <p className="text-xs uppercase tracking-wider mb-2" style={{ color: t.textDim }}>
+              {isOrdering ? "Correct Order" : isPin ? "The Target" : "Correct Answer"}
             </p>
+            {isPin && currentQuestion.media_url ? (
+              <PinBoard
+                url={currentQuestion.media_url}
+                alt={currentQuestion.prompt}
+                imageClassName="max-h-[40vh] max-w-full rounded-xl mx-auto"
+                pins={submittedPin ? [{ key: "me", ...submittedPin, color: player?.avatar_color ?? t.accent }] : []}
+                target={pinTarget}
+              />
+            ) : isOrdering ? (
+              <ol className="text-left space-y-1.5">
+                {currentQuestion.game_question_choices.map((c, idx) => (
+                  <li key={c.id} className="flex items-center gap-2.5 text-base font-semibold">
+                    <span
+                      className="w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold shrink-0"
+                      style={{ background: t.accentDim, color: t.accent }}
+                    >
+                      {idx + 1}
+                    </span>
+                    <span className="flex-1 truncate">{c.choice_text}</span>
+                    {submittedChoiceIds && (
+                      <span style={{ color: submittedChoiceIds[idx] === c.id ? correctColor : t.danger }}>
+                        {submittedChoiceIds[idx] === c.id ? "✓" : "✗"}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p
+                className="text-3xl font-bold tracking-[-0.025em]"
+                style={{ color: t.accent, fontFamily: getFontFamily(t.headingFont) }}
+              >
+                {correctChoices.map((c) => c.choice_text).join(", ")}
+              </p>
+            )}
           </TriviaCard>
 
           {answerResult && (
@@ -763,22 +1464,37 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
                 </span>
                 <span
                   className="text-lg font-bold"
-                  style={{ color: isCorrect ? correctColor : t.danger }}
+                  style={{ color: isCorrect ? correctColor : isPartlyRight ? t.accent : t.danger }}
                 >
-                  {isCorrect ? "Correct!" : "Wrong"}
+                  {verdict}
                 </span>
               </div>
-              {answerResult.points > 0 && (
+              {submittedText !== null && (
+                <p className="mt-2 text-sm truncate" style={{ color: t.textMuted }}>
+                  You answered &ldquo;{submittedText}&rdquo;
+                </p>
+              )}
+              {submittedNumber !== null && (
+                <p className="mt-2 text-sm truncate" style={{ color: t.textMuted }}>
+                  You guessed {submittedNumber.toLocaleString()}
+                </p>
+              )}
+              {answerResult.points !== 0 && (
                 <div
                   className="rounded-xl mt-3 py-3 text-center"
                   style={{ background: t.surfaceLight }}
                 >
-                  <p className="text-[10px] uppercase tracking-wider mb-1" style={{ color: t.textDim }}>Points Earned</p>
+                  <p className="text-[10px] uppercase tracking-wider mb-1" style={{ color: t.textDim }}>
+                    {answerResult.points > 0 ? "Points Earned" : "Points Lost"}
+                  </p>
                   <p
                     className="text-2xl font-bold tabular-nums"
-                    style={{ color: t.accent, fontFamily: getFontFamily(t.headingFont) }}
+                    style={{
+                      color: answerResult.points > 0 ? t.accent : t.danger,
+                      fontFamily: getFontFamily(t.headingFont),
+                    }}
                   >
-                    +{answerResult.points}
+                    {answerResult.points > 0 ? "+" : ""}{answerResult.points}
                   </p>
                 </div>
               )}
@@ -807,6 +1523,19 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
         </div>
 
         <div className="flex-1 px-5 pb-5 flex flex-col gap-3 overflow-y-auto min-h-0">
+          {standings.length > 0 && (
+            <TriviaCard t={t} className="!p-2 shrink-0">
+              <TeamStandings
+                standings={standings}
+                className="flex flex-col"
+                rowClassName="px-3 py-2.5 text-[14px]"
+                rankStyle={{ color: t.textDim }}
+                scoreClassName="font-display font-bold tabular-nums"
+                scoreStyle={{ color: t.accent, fontFamily: getFontFamily(t.headingFont) }}
+              />
+            </TriviaCard>
+          )}
+
           <TriviaCard t={t} className="!p-2">
             <div>
               {sorted.slice(0, 10).map((p, i) => {
@@ -888,6 +1617,19 @@ export default function TriviaPlayerPage({ sessionCode, devMode }: { sessionCode
             </TriviaCard>
           )}
 
+          {standings.length > 0 && (
+            <TriviaCard t={t} className="!p-2 shrink-0">
+              <TeamStandings
+                standings={standings}
+                className="flex flex-col"
+                rowClassName="px-3 py-2.5 text-[14px]"
+                rankStyle={{ color: t.textDim }}
+                scoreClassName="font-display font-bold tabular-nums"
+                scoreStyle={{ color: t.accent, fontFamily: getFontFamily(t.headingFont) }}
+              />
+            </TriviaCard>
+          )}
+
           <div className="shrink-0">
             <h3 className="text-sm font-bold mb-2 px-1">Final Standings</h3>
             <TriviaCard t={t} className="!p-2">
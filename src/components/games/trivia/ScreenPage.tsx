@@ -3,20 +3,30 @@
 import { useEffect, useState } from "react";
 import { createClient } from "@/lib/supabase/client";
 import { subscribeToSession, unsubscribe } from "@/lib/realtime";
+import { useTriviaAutoAdvance } from "@/lib/use-trivia-auto-advance";
+import { useSessionTeams } from "@/lib/use-session-teams";
+import { getChoiceColumns, isScoredQuestion } from "@/lib/question-types";
+import { groupTypedAnswers } from "@/lib/answer-matching";
+import { POWER_UPS } from "@/lib/power-ups";
 import { Spinner } from "@/components/ui/spinner";
+import { QuestionMedia } from "@/components/trivia/QuestionMedia";
+import { PinBoard } from "@/components/trivia/PinBoard";
+import { TeamStandings } from "@/components/teams/TeamStandings";
 import type {
   Session,
   SessionPlayer,
   SessionQuestionState,
-  GameQuestionWithChoices,
+  PlayerSafeQuestion,
+  PlayerSafeChoice,
   SessionAnswer,
+  SessionPowerUp,
 } from "@/lib/types";
 
 export interface TriviaScreenDevMode {
   session?: Session | null;
   players?: SessionPlayer[];
   questionState?: SessionQuestionState | null;
-  currentQuestion?: GameQuestionWithChoices | null;
+  currentQuestion?: PlayerSafeQuestion | null;
   answers?: SessionAnswer[];
   timeLeft?: number;
   totalQuestions?: number;
@@ -29,10 +39,181 @@ const CHOICE_COLORS = [
   "bg-amber-500",
   "bg-green-500",
   "bg-violet-500",
+  "bg-pink-500",
 ];
 
+/** How many of the most common typed answers the results chart shows */
+const TOP_TYPED_ANSWERS = 6;
+
+/** Delay between items as an ordering question's correct sequence slides in */
+const ORDERING_REVEAL_STAGGER_MS = 600;
+
+/** Estimate guesses are bucketed this many percent wide either side of the answer, out to ±50% */
+const ESTIMATE_BUCKET_PERCENT = 10;
+const ESTIMATE_BUCKETS_PER_SIDE = 5;
+
+/** Most distinct answers a word cloud shows */
+const WORD_CLOUD_SIZE = 40;
+
+interface AnswerBar {
+  key: string;
+  label: string;
+  count: number;
+  isCorrect: boolean;
+  color: string;
+}
+
+/**
+ * Choice questions and polls chart how many picked each choice (a multi-pick
+ * answer counts toward every choice in it); type-in questions the most common
+ * answers.
+ */
+function getAnswerBars(question: PlayerSafeQuestion, answers: SessionAnswer[]): AnswerBar[] {
+  if (question.question_type === "estimate") {
+    return getEstimateBars(Number(question.game_question_choices[0]?.choice_text), answers);
+  }
+  if (question.question_type === "type_in") {
+    return groupTypedAnswers(answers, TOP_TYPED_ANSWERS).map((g, i) => ({
+      key: `typed-${i}`,
+      label: g.text,
+      count: g.count,
+      isCorrect: g.isCorrect,
+      color: g.isCorrect ? "bg-green-500" : "bg-white/30",
+    }));
+  }
+  return question.game_question_choices.map((choice, i) => ({
+    key: choice.id,
+    label: choice.choice_text,
+    count: answers.filter((a) =>
+      a.choice_ids ? a.choice_ids.includes(choice.id) : a.choice_id === choice.id
+    ).length,
+    isCorrect: !!choice.is_correct,
+    color: CHOICE_COLORS[i],
+  }));
+}
+
+/**
+ * Estimate guesses spread around the true value: an exact bucket in the middle,
+ * then 10% bands under and over it, with everything past 50% in the end bars.
+ */
+function getEstimateBars(trueValue: number, answers: SessionAnswer[]): AnswerBar[] {
+  const side = ESTIMATE_BUCKETS_PER_SIDE;
+  const counts = new Array(side * 2 + 1).fill(0);
+  for (const a of answers) {
+    if (a.answer_number === null) continue;
+    const guess = Number(a.answer_number);
+    if (guess === trueValue) {
+      counts[side]++;
+      continue;
+    }
+    const percentOff = (Math.abs(guess - trueValue) / (Math.abs(trueValue) || 1)) * 100;
+    const band = Math.min(side, Math.max(1, Math.ceil(percentOff / ESTIMATE_BUCKET_PERCENT)));
+    counts[guess < trueValue ? side - band : side + band]++;
+  }
+
+  return counts.map((count, i) => {
+    const band = i - side;
+    const distance = Math.abs(band);
+    const edge = `${band < 0 ? "\u2212" : "+"}${distance * ESTIMATE_BUCKET_PERCENT}%`;
+    return {
+      key: `band-${band}`,
+      label: band === 0 ? "Exact" : distance === side ? (band < 0 ? `< ${edge}` : `> ${edge}`) : edge,
+      count,
+      isCorrect: band === 0,
+      color: distance <= 1 ? "bg-green-500" : distance <= 3 ? "bg-amber-500" : "bg-red-500",
+    };
+  });
+}
+
+function AnswerBars({ bars, maxHeight = 300 }: { bars: AnswerBar[]; maxHeight?: number }) {
+  const maxCount = Math.max(...bars.map((d) => d.count), 1);
+  return (
+    <div className="flex-1 flex items-end gap-4 justify-center max-w-4xl mx-auto w-full pb-8">
+      {bars.map((d) => (
+        <div key={d.key} className="flex-1 flex flex-col items-center">
+          <p className="text-lg font-bold mb-2">{d.count}</p>
+          <div
+            className={`w-full rounded-t-lg transition-all duration-500 ${d.color} ${
+              d.isCorrect ? "ring-4 ring-green-400" : ""
+            }`}
+            style={{
+              height: `${Math.max(
+                20,
+                (d.count / maxCount) * maxHeight
+              )}px`,
+            }}
+          />
+          <p className="text-sm mt-2 text-center truncate w-full px-1">
+            {d.label}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function EstimateSummary({ trueValue, answers }: { trueValue: number; answers: SessionAnswer[] }) {
+  const guesses = answers.filter((a) => a.answer_number !== null).map((a) => Number(a.answer_number));
+  const average = guesses.length ? guesses.reduce((sum, g) => sum + g, 0) / guesses.length : null;
+  return (
+    <>
+      <p className="text-xl text-green-400">Answer: {trueValue.toLocaleString()}</p>
+      {average !== null && (
+        <p className="text-lg text-indigo-300 mt-1">
+          Average guess: {average.toLocaleString(undefined, { maximumFractionDigits: 1 })}
+        </p>
+      )}
+    </>
+  );
+}
+
+/** Word-cloud answers grouped like type-in ones, sized by how many sent each */
+function WordCloud({ answers }: { answers: SessionAnswer[] }) {
+  const words = groupTypedAnswers(answers, WORD_CLOUD_SIZE);
+  const maxCount = Math.max(...words.map((w) => w.count), 1);
+
+  if (!words.length) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <p className="text-2xl text-indigo-300">Answers will appear here as they come in</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-wrap items-center justify-center content-center gap-x-8 gap-y-4 max-w-5xl mx-auto w-full p-6">
+      {words.map((w, i) => (
+        <span
+          key={w.text}
+          className="font-bold leading-none transition-all duration-500"
+          style={{
+            fontSize: `${1.25 + (w.count / maxCount) * 3.25}rem`,
+            color: ["#F87171", "#60A5FA", "#FBBF24", "#34D399", "#A78BFA", "#F472B6"][i % 6],
+            animation: "slide-up 0.4s ease both",
+          }}
+        >
+          {w.text}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function ChoiceMedia({ choice, className }: { choice: PlayerSafeChoice; className: string }) {
+  if (!choice.media_url || !choice.media_type) return null;
+  return (
+    <QuestionMedia
+      url={choice.media_url}
+      type={choice.media_type}
+      alt={choice.choice_text}
+      className={`object-cover rounded-lg shrink-0 ${className}`}
+      ambient
+    />
+  );
+}
+
 function getShape(index: number): string {
-  const shapes = ["\u25B2", "\u25C6", "\u25CF", "\u25A0", "\u2605"];
+  const shapes = ["\u25B2", "\u25C6", "\u25CF", "\u25A0", "\u2605", "\u2665"];
   return shapes[index] || "\u25CF";
 }
 
@@ -42,11 +223,15 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
   const [questionState, setQuestionState] =
     useState<SessionQuestionState | null>(devMode?.questionState ?? null);
   const [currentQuestion, setCurrentQuestion] =
-    useState<GameQuestionWithChoices | null>(devMode?.currentQuestion ?? null);
+    useState<PlayerSafeQuestion | null>(devMode?.currentQuestion ?? null);
   const [answers, setAnswers] = useState<SessionAnswer[]>(devMode?.answers ?? []);
   const [timeLeft, setTimeLeft] = useState(devMode?.timeLeft ?? 0);
   const [totalQuestions, setTotalQuestions] = useState(devMode?.totalQuestions ?? 0);
   const [showLeaderboard, setShowLeaderboard] = useState(devMode?.showLeaderboard ?? false);
+  const [powerUpUses, setPowerUpUses] = useState<SessionPowerUp[]>([]);
+
+  useTriviaAutoAdvance(session, questionState, !!devMode);
+  const { standings } = useSessionTeams(session, players, !!devMode);
 
   // Load session
   useEffect(() => {
@@ -74,10 +259,9 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
 
       setSession(sessionData);
 
-      const { count } = await supabase
-        .from("game_questions")
-        .select("id", { count: "exact" })
-        .eq("game_id", sessionData.game_id);
+      const { data: count } = await supabase.rpc("get_session_question_count", {
+        p_session_id: sessionData.id,
+      });
       setTotalQuestions(count || 0);
 
       const { data: playersData } = await supabase
@@ -87,6 +271,14 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
         .eq("is_removed", false);
       setPlayers(playersData || []);
 
+      if (sessionData.power_ups.length) {
+        const { data: powerUpsData } = await supabase
+          .from("session_power_ups")
+          .select("*")
+          .eq("session_id", sessionData.id);
+        setPowerUpUses(powerUpsData || []);
+      }
+
       if (sessionData.current_question_index >= 0) {
         const { data: qsData } = await supabase
           .from("session_question_state")
@@ -97,28 +289,7 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
 
         if (qsData) {
           setQuestionState(qsData);
-
-          const { data: qData } = await supabase
-            .from("game_questions")
-            .select("*, game_question_choices(*)")
-            .eq("id", qsData.question_id)
-            .single();
-          if (qData) {
-            setCurrentQuestion({
-              ...qData,
-              game_question_choices: qData.game_question_choices.sort(
-                (a: { choice_order: number }, b: { choice_order: number }) =>
-                  a.choice_order - b.choice_order
-              ),
-            });
-          }
-
-          const { data: answersData } = await supabase
-            .from("session_answers")
-            .select("*")
-            .eq("session_id", sessionData.id)
-            .eq("question_id", qsData.question_id);
-          setAnswers(answersData || []);
+          setShowLeaderboard(qsData.show_leaderboard);
         }
       }
     }
@@ -148,6 +319,8 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
         }
       },
       onQuestionStateChange: (payload) => {
+        // Undo deletes states for questions it rewinds past
+        if (payload.eventType === "DELETE") return;
         const qs = payload.new as SessionQuestionState;
         setQuestionState(qs);
         setShowLeaderboard(qs.show_leaderboard);
@@ -157,7 +330,14 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
       },
       onAnswerChange: (payload) => {
         if (payload.eventType === "INSERT") {
-          setAnswers((prev) => [...prev, payload.new as SessionAnswer]);
+          const a = payload.new as SessionAnswer;
+          setAnswers((prev) => [...prev.filter((x) => x.id !== a.id), a]);
+        }
+      },
+      onPowerUpChange: (payload) => {
+        if (payload.eventType === "INSERT") {
+          const use = payload.new as SessionPowerUp;
+          setPowerUpUses((prev) => [...prev.filter((x) => x.id !== use.id), use]);
         }
       },
     });
@@ -165,29 +345,33 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
     return () => unsubscribe(channel);
   }, [session?.id]);
 
-  // Load question when state changes
+  // Load question when state changes. Correct choices and answers only become
+  // readable once results are shown (poll answers straight away), so reload
+  // both on the reveal — and a wager question's prompt once it opens.
   useEffect(() => {
     if (devMode) return;
     if (!questionState) return;
     async function loadQ() {
       const supabase = createClient();
-      const { data } = await supabase
-        .from("game_questions")
-        .select("*, game_question_choices(*)")
-        .eq("id", questionState!.question_id)
-        .single();
-      if (data) {
-        setCurrentQuestion({
-          ...data,
-          game_question_choices: data.game_question_choices.sort(
-            (a: { choice_order: number }, b: { choice_order: number }) =>
-              a.choice_order - b.choice_order
-          ),
-        });
+      const { data } = await supabase.rpc("get_session_question", {
+        p_session_id: questionState!.session_id,
+        p_question_id: questionState!.question_id,
+      });
+      if (data) setCurrentQuestion(data as PlayerSafeQuestion);
+
+      // Poll and word-cloud answers are readable live, for the running chart
+      const isUnscored = data && !isScoredQuestion((data as PlayerSafeQuestion).question_type);
+      if (questionState!.show_results || isUnscored) {
+        const { data: answersData } = await supabase
+          .from("session_answers")
+          .select("*")
+          .eq("session_id", questionState!.session_id)
+          .eq("question_id", questionState!.question_id);
+        setAnswers(answersData || []);
       }
     }
     loadQ();
-  }, [questionState?.question_id]);
+  }, [questionState?.question_id, questionState?.show_results, questionState?.is_wagering]);
 
   // Timer
   useEffect(() => {
@@ -271,6 +455,21 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
       <div className="min-h-screen bg-indigo-950 text-white flex flex-col items-center justify-center p-8">
         <h1 className="text-5xl font-bold mb-10">Final Results</h1>
 
+        {standings.length > 0 && (
+          <div className="w-full max-w-lg mb-12">
+            <p className="text-center text-2xl font-bold mb-4">
+              {standings[0].team.name} wins!
+            </p>
+            <TeamStandings
+              standings={standings}
+              showMembers
+              className="space-y-3"
+              rowClassName="px-6 py-3 rounded-xl bg-white/10 text-xl"
+              rankClassName="text-indigo-300"
+            />
+          </div>
+        )}
+
         <div className="flex items-end gap-4 mb-12">
           {podium[1] && (
             <div className="text-center">
@@ -353,27 +552,56 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
     );
   }
 
+  // Wager round taking bets — the question stays hidden until the host opens it
+  if (questionState.is_wagering) {
+    const sorted = [...players].sort((a, b) => b.score - a.score);
+    return (
+      <div className="min-h-screen bg-indigo-950 text-white flex flex-col items-center justify-center p-8">
+        <p className="text-lg text-indigo-400 mb-2">
+          Question {questionState.question_index + 1} of {totalQuestions}
+        </p>
+        <h1 className="text-6xl font-bold mb-4">Wager Round</h1>
+        <p className="text-2xl text-indigo-300 mb-10">
+          Bet some or all of your points on your phone
+        </p>
+        <div className="w-full max-w-lg space-y-3 mb-10">
+          {sorted.map((p) => (
+            <div key={p.id} className="flex items-center gap-4 px-6 py-3 rounded-xl bg-white/10">
+              <div className="w-10 h-10 rounded-full" style={{ backgroundColor: p.avatar_color }} />
+              <span className="flex-1 text-xl font-medium">{p.display_name}</span>
+              <span className="text-xl font-mono">{p.score}</span>
+            </div>
+          ))}
+        </div>
+        <p className="text-xl text-indigo-300">
+          {questionState.wager_count} of {players.length} wagers in
+        </p>
+      </div>
+    );
+  }
+
   // Show results view
   if (questionState.show_results) {
-    const correctChoice = currentQuestion.game_question_choices.find(
+    const correctChoices = currentQuestion.game_question_choices.filter(
       (c) => c.is_correct
     );
 
-    const distribution = currentQuestion.game_question_choices.map(
-      (choice) => ({
-        choice,
-        count: answers.filter((a) => a.choice_id === choice.id).length,
-      })
-    );
-    const maxCount = Math.max(...distribution.map((d) => d.count), 1);
-
     if (showLeaderboard) {
       const sorted = [...players].sort((a, b) => b.score - a.score);
       return (
         <div className="min-h-screen bg-indigo-950 text-white flex flex-col items-center justify-center p-8">
           <h2 className="text-4xl font-bold mb-8">Leaderboard</h2>
+          {standings.length > 0 && (
+            <TeamStandings
+              standings={standings}
+              showMembers
+              className="w-full max-w-lg space-y-3 mb-8"
+              rowClassName="px-6 py-3 rounded-xl bg-white/10 text-xl"
+              rankClassName="text-2xl text-indigo-300"
+            />
+          )}
           <div className="w-full max-w-lg space-y-3">
-            {sorted.slice(0, 8).map((p, i) => (
+            {sorted.slice(0, standings.length > 0 ? 5 : 8).map((p, i) => (
               <div
                 key={p.id}
                 className="flex items-center gap-4 px-6 py-3 rounded-xl bg-white/10 text-lg"
@@ -396,6 +624,97 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
       );
     }
 
+    // Ordering questions reveal the correct sequence one item at a time
+    if (currentQuestion.question_type === "ordering") {
+      return (
+        <div className="min-h-screen bg-indigo-950 text-white flex flex-col p-8">
+          <div className="text-center mb-8">
+            <p className="text-sm text-indigo-400 mb-2">
+              Question {questionState.question_index + 1} of {totalQuestions}
+            </p>
+            <h2 className="text-3xl font-bold">
+              {currentQuestion.prompt}
+            </h2>
+          </div>
+
+          <ol className="flex-1 flex flex-col justify-center gap-3 max-w-3xl mx-auto w-full pb-8">
+            {currentQuestion.game_question_choices.map((choice, idx) => {
+              const placedHere = answers.filter((a) => a.choice_ids?.[idx] === choice.id).length;
+              return (
+                <li
+                  key={choice.id}
+                  className="flex items-center gap-4 px-6 py-4 rounded-xl bg-white/10"
+                  style={{ animation: `slide-up 0.5s ease ${idx * ORDERING_REVEAL_STAGGER_MS}ms both` }}
+                >
+                  <span className="w-10 h-10 rounded-full bg-green-500 flex items-center justify-center font-bold text-xl shrink-0">
+                    {idx + 1}
+                  </span>
+                  <ChoiceMedia choice={choice} className="h-14 w-20" />
+                  <span className="flex-1 text-2xl font-semibold">{choice.choice_text}</span>
+                  <span className="text-sm text-indigo-300">
+                    {placedHere} of {answers.length} got this spot
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      );
+    }
+
+    // Pin questions plot every player's pin, in their colour, around the target
+    if (currentQuestion.question_type === "pin" && currentQuestion.media_url) {
+      const target =
+        currentQuestion.pin_target_x !== null &&
+        currentQuestion.pin_target_y !== null &&
+        currentQuestion.pin_target_radius !== null
+          ? {
+              x: Number(currentQuestion.pin_target_x),
+              y: Number(currentQuestion.pin_target_y),
+              radius: Number(currentQuestion.pin_target_radius),
+            }
+          : null;
+      const pins = answers.flatMap((a) => {
+        if (a.pin_x === null || a.pin_y === null) return [];
+        const player = players.find((p) => p.id === a.player_id);
+        return [
+          {
+            key: a.id,
+            x: Number(a.pin_x),
+            y: Number(a.pin_y),
+            color: player?.avatar_color ?? "#FFFFFF",
+            label: player?.display_name,
+          },
+        ];
+      });
+      const onTarget = answers.filter((a) => a.is_correct).length;
+      return (
+        <div className="min-h-screen bg-indigo-950 text-white flex flex-col p-8">
+          <div className="text-center mb-6">
+            <p className="text-sm text-indigo-400 mb-2">
+              Question {questionState.question_index + 1} of {totalQuestions}
+            </p>
+            <h2 className="text-3xl font-bold mb-2">
+              {currentQuestion.prompt}
+            </h2>
+            <p className="text-xl text-green-400">
+              {onTarget} of {answers.length} on target
+            </p>
+          </div>
+
+          <div className="flex-1 flex items-center justify-center pb-8">
+            <PinBoard
+              url={currentQuestion.media_url}
+              alt={currentQuestion.prompt}
+              imageClassName="max-h-[65vh] max-w-full rounded-xl"
+              pins={pins}
+              target={target}
+            />
+          </div>
+        </div>
+      );
+    }
+
     return (
       <div className="min-h-screen bg-indigo-950 text-white flex flex-col p-8">
         <div className="text-center mb-8">
@@ -405,48 +724,61 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
           <h2 className="text-3xl font-bold mb-4">
             {currentQuestion.prompt}
           </h2>
-          <p className="text-xl text-green-400">
-            Correct: {correctChoice?.choice_text}
-          </p>
+          {currentQuestion.question_type === "estimate" ? (
+            <EstimateSummary trueValue={Number(correctChoices[0]?.choice_text)} answers={answers} />
+          ) : isScoredQuestion(currentQuestion.question_type) ? (
+            <p className="text-xl text-green-400">
+              Correct: {correctChoices.map((c) => c.choice_text).join(", ")}
+            </p>
+          ) : (
+            <p className="text-xl text-indigo-300">
+              {answers.length} {answers.length === 1 ? "response" : "responses"}
+            </p>
+          )}
         </div>
 
-        <div className="flex-1 flex items-end gap-4 justify-center max-w-4xl mx-auto w-full pb-8">
-          {distribution.map((d, i) => (
-            <div key={d.choice.id} className="flex-1 flex flex-col items-center">
-              <p className="text-lg font-bold mb-2">{d.count}</p>
-              <div
-                className={`w-full rounded-t-lg transition-all duration-500 ${CHOICE_COLORS[i]} ${
-                  d.choice.is_correct ? "ring-4 ring-green-400" : ""
-                }`}
-                style={{
-                  height: `${Math.max(
-                    20,
-                    (d.count / maxCount) * 300
-                  )}px`,
-                }}
-              />
-              <p className="text-sm mt-2 text-center truncate w-full px-1">
-                {d.choice.choice_text}
-              </p>
-            </div>
-          ))}
-        </div>
+        {currentQuestion.question_type === "word_cloud" ? (
+          <WordCloud answers={answers} />
+        ) : (
+          <AnswerBars bars={getAnswerBars(currentQuestion, answers)} />
+        )}
       </div>
     );
   }
 
   // Active question view
+  const powerUpsHere = powerUpUses.filter((u) => u.question_state_id === questionState.id);
   return (
     <div className="min-h-screen bg-indigo-950 text-white flex flex-col">
       <div className="flex items-center justify-between p-6">
         <span className="text-lg text-indigo-400">
           Question {questionState.question_index + 1} of {totalQuestions}
         </span>
+        {powerUpsHere.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-2 px-4">
+            {powerUpsHere.map((use) => {
+              const player = players.find((p) => p.id === use.player_id);
+              return (
+                <span
+                  key={use.id}
+                  className="flex items-center gap-2 pl-1 pr-3 py-1 rounded-full bg-white/10 text-sm animate-in fade-in"
+                >
+                  <span
+                    className="w-6 h-6 rounded-full"
+                    style={{ backgroundColor: player?.avatar_color ?? "#6366F1" }}
+                  />
+                  {player?.display_name ?? "Someone"} used{" "}
+                  <span className="font-bold text-yellow-300">{POWER_UPS[use.power_up].label}</span>
+                </span>
+              );
+            })}
+          </div>
+        )}
         <div className="flex items-center gap-2 text-sm text-indigo-400">
           <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
           </svg>
-          {answers.length}/{players.length}
+          {questionState.answer_count}/{players.length}
         </div>
       </div>
 
@@ -468,19 +800,76 @@ export default function TriviaScreenPage({ sessionCode, devMode }: { sessionCode
         <h2 className="text-4xl font-bold leading-tight">
           {currentQuestion.prompt}
         </h2>
+        {(currentQuestion.question_type === "multi_select" ||
+          (currentQuestion.question_type === "poll" && currentQuestion.poll_allows_multiple)) && (
+          <p className="text-xl text-indigo-300 mt-3">Select all that apply</p>
+        )}
+        {/* A pin question's image is its answer board, below */}
+        {currentQuestion.media_url && currentQuestion.media_type && currentQuestion.question_type !== "pin" && (
+          <QuestionMedia
+            url={currentQuestion.media_url}
+            type={currentQuestion.media_type}
+            alt={currentQuestion.prompt}
+            className="max-h-[35vh] max-w-full mx-auto mt-6 rounded-xl object-contain text-indigo-300"
+            playing={questionState.media_playing}
+            restartedAt={questionState.media_restarted_at}
+          />
+        )}
       </div>
 
-      <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 p-6 content-end">
-        {currentQuestion.game_question_choices.map((choice, idx) => (
-          <div
-            key={choice.id}
-            className={`${CHOICE_COLORS[idx]} rounded-xl p-6 flex items-center gap-4`}
-          >
-            <span className="text-3xl opacity-70">{getShape(idx)}</span>
-            <span className="text-xl font-semibold">{choice.choice_text}</span>
-          </div>
-        ))}
-      </div>
+      {/* Polls and word clouds fill in live as the answers arrive */}
+      {currentQuestion.question_type === "word_cloud" ? (
+        <WordCloud answers={answers} />
+      ) : currentQuestion.question_type === "pin" && currentQuestion.media_url ? (
+        <div className="flex-1 flex flex-col items-center justify-end gap-3 p-6">
+          <PinBoard
+            url={currentQuestion.media_url}
+            alt={currentQuestion.prompt}
+            imageClassName="max-h-[50vh] max-w-full rounded-xl"
+          />
+          <p className="text-xl text-indigo-300">Tap the spot on your phone</p>
+        </div>
+      ) : currentQuestion.question_type === "poll" ? (
+        <AnswerBars bars={getAnswerBars(currentQuestion, answers)} maxHeight={200} />
+      ) : currentQuestion.question_type === "type_in" || currentQuestion.question_type === "estimate" ? (
+        <div className="flex-1 flex items-end justify-center p-6">
+          <p className="text-2xl text-indigo-300 bg-white/10 rounded-xl px-8 py-6">
+            {currentQuestion.question_type === "estimate"
+              ? "Enter your best guess on your phone"
+              : "Type your answer on your phone"}
+          </p>
+        </div>
+      ) : currentQuestion.question_type === "ordering" ? (
+        <div className="flex-1 flex flex-col justify-end gap-3 p-6 max-w-3xl mx-auto w-full">
+          <p className="text-center text-xl text-indigo-300 mb-2">
+            Put these in order on your phone
+          </p>
+          {currentQuestion.game_question_choices.map((choice) => (
+            <div key={choice.id} className="bg-white/10 rounded-xl px-6 py-4 text-xl font-semibold flex items-center gap-4">
+              <ChoiceMedia choice={choice} className="h-12 w-16" />
+              {choice.choice_text}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div
+          className="flex-1 grid gap-4 p-6 content-end"
+          style={{
+            gridTemplateColumns: `repeat(${getChoiceColumns(currentQuestion.game_question_choices.length, 3)}, minmax(0, 1fr))`,
+          }}
+        >
+          {currentQuestion.game_question_choices.map((choice, idx) => (
+            <div
+              key={choice.id}
+              className={`${CHOICE_COLORS[idx]} rounded-xl p-6 flex items-center gap-4`}
+            >
+              <span className="text-3xl opacity-70">{getShape(idx)}</span>
+              <ChoiceMedia choice={choice} className="h-24 w-32" />
+              <span className="text-xl font-semibold">{choice.choice_text}</span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,36 @@
+"use client";
+
+import { getFontFamily, getGoogleFontsUrl } from "@/lib/theme-fonts";
+import { getPatternBg } from "@/lib/theme-patterns";
+import type { GameTheme } from "@/lib/types";
+
+/** Themed page frame for the Higher or Lower phone and screen views */
+export function HoLShell({
+  children,
+  t,
+  className = "min-h-full",
+}: {
+  children: React.ReactNode;
+  t: GameTheme;
+  className?: string;
+}) {
+  const fontsUrl = getGoogleFontsUrl([t.headingFont, t.bodyFont]);
+  const headingFontCss = getFontFamily(t.headingFont);
+  const patternBg = getPatternBg(t.pattern, t.accent);
+  return (
+    <div
+      className={`${className} flex flex-col overflow-hidden hol-shell`}
+      style={{
+        backgroundColor: t.bg,
+        backgroundImage: patternBg ?? undefined,
+        backgroundRepeat: patternBg ? "repeat" : undefined,
+        color: t.textPrimary,
+        fontFamily: getFontFamily(t.bodyFont),
+      }}
+    >
+      {fontsUrl && <link rel="stylesheet" href={fontsUrl} />}
+      <style>{`.hol-shell h1,.hol-shell h2,.hol-shell h3{font-family:${headingFontCss};letter-spacing:-0.02em}`}</style>
+      {children}
+    </div>
+  );
+}
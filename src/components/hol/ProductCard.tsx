@@ -0,0 +1,54 @@
+"use client";
+
+import type { GameTheme, PriceIsRightItem } from "@/lib/types";
+
+interface ProductCardProps {
+  item: Pick<PriceIsRightItem, "name" | "image">;
+  /** Formatted price, or null while it's the one being called */
+  price: string | null;
+  t: GameTheme;
+  size?: "sm" | "lg";
+  /** Draws the eye to the product being called */
+  highlight?: boolean;
+}
+
+/** One product with its price (or a "?" until the reveal) */
+export function ProductCard({ item, price, t, size = "lg", highlight = false }: ProductCardProps) {
+  const large = size === "lg";
+  return (
+    <div
+      className={`rounded-3xl flex flex-col items-center text-center ${large ? "p-6" : "p-3"}`}
+      style={{
+        background: t.surface,
+        border: highlight
+          ? `3px solid ${t.accent}`
+          : `1.5px solid color-mix(in srgb, ${t.textPrimary} 18%, transparent)`,
+        boxShadow: highlight ? `0 0 30px ${t.accentDim}` : undefined,
+      }}
+    >
+      <div
+        className={`w-full flex items-center justify-center rounded-2xl overflow-hidden mb-3 ${
+          large ? "h-64" : "h-28"
+        }`}
+        style={{ background: "#ffffff" }}
+      >
+        {item.image ? (
+          // Host-entered URLs from anywhere, so not next/image
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={item.image} alt={item.name} className="max-h-full max-w-full object-contain" />
+        ) : (
+          <span className={large ? "text-6xl" : "text-3xl"}>🛒</span>
+        )}
+      </div>
+      <p className={`font-semibold leading-tight ${large ? "text-2xl mb-2" : "text-sm mb-1"}`}>
+        {item.name}
+      </p>
+      <p
+        className={`font-bold tabular-nums ${large ? "text-5xl" : "text-2xl"}`}
+        style={{ color: price === null ? t.textDim : t.accent }}
+      >
+        {price ?? "?"}
+      </p>
+    </div>
+  );
+}
@@ -6,29 +6,34 @@ interface CountdownTimerProps {
   endsAt: string | null;
   totalSeconds?: number;
   size?: "sm" | "md";
+  /** Time left on a paused clock; the timer freezes while this is set */
+  pausedRemainingMs?: number | null;
 }
 
-export function CountdownTimer({ endsAt, totalSeconds = 30, size = "md" }: CountdownTimerProps) {
-  const [remaining, setRemaining] = useState(totalSeconds);
+export function CountdownTimer({ endsAt, totalSeconds = 30, size = "md", pausedRemainingMs = null }: CountdownTimerProps) {
+  const [ticking, setTicking] = useState(totalSeconds);
   const totalBars = 20;
+  const paused = pausedRemainingMs !== null;
 
   useEffect(() => {
-    if (!endsAt) return;
+    if (!endsAt || paused) return;
     const end = new Date(endsAt).getTime();
 
     const tick = () => {
       const now = Date.now();
       const left = Math.max(0, Math.ceil((end - now) / 1000));
-      setRemaining(left);
+      setTicking(left);
     };
 
     tick();
     const interval = setInterval(tick, 200);
     return () => clearInterval(interval);
-  }, [endsAt]);
+  }, [endsAt, paused]);
 
-  const activeBars = Math.round((remaining / totalSeconds) * totalBars);
-  const expired = remaining <= 0;
+  const remaining = pausedRemainingMs !== null ? Math.ceil(pausedRemainingMs / 1000) : ticking;
+  // Added time can put more on the clock than the item started with
+  const activeBars = Math.min(totalBars, Math.round((remaining / totalSeconds) * totalBars));
+  const expired = !paused && remaining <= 0;
 
   const dim = size === "sm" ? 72 : 112; // w/h in px
   const radius = dim / 2;
@@ -52,17 +57,24 @@ export function CountdownTimer({ endsAt, totalSeconds = 30, size = "md" }: Count
                 expired
                   ? "bg-red-500 animate-pulse"
                   : isActive
-                  ? "bg-[#F6BA01]"
+                  ? paused
+                    ? "bg-white/60"
+                    : "bg-[#F6BA01]"
                   : "bg-white/20"
               }`}
             />
           </div>
         );
       })}
-      <div className="absolute inset-0 flex items-center justify-center">
+      <div className="absolute inset-0 flex flex-col items-center justify-center">
         <span className={`${textSize} font-bold ${expired ? "text-red-500" : "text-white"}`}>
           {remaining}
         </span>
+        {paused && (
+          <span className="text-[9px] font-bold uppercase tracking-wider text-white/70">
+            Paused
+          </span>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { getGameTypeConfig } from "@/lib/game-registry";
+import { getNextPlaylistGame } from "@/lib/playlists";
+import { usePlaylist } from "@/lib/use-playlist";
+import type { PlaylistGameStatus } from "@/lib/types";
+
+const STATUS_LABELS: Record<PlaylistGameStatus, string> = {
+  upcoming: "Up next",
+  playing: "Now",
+  played: "Played",
+  skipped: "Skipped",
+};
+
+/**
+ * Game-night controls above the host remote: the running order (upcoming
+ * games can be moved or skipped), the totals so far, and the button that
+ * opens the next game once this one's finished.
+ */
+export function PlaylistPanel({ sessionId, playlistId }: { sessionId: string; playlistId: string }) {
+  const router = useRouter();
+  const { playlist, games, currentSession, standings } = usePlaylist(playlistId);
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  if (!playlist) return null;
+
+  const lineup = games.filter((g) => g.status !== "skipped");
+  const gameNumber = lineup.findIndex((g) => g.session_id === sessionId) + 1;
+  const next = getNextPlaylistGame(games);
+  const isCurrent = playlist.current_session_id === sessionId;
+  const gameOver = isCurrent && currentSession?.status === "finished";
+
+  async function callAction(action: string, extra: Record<string, unknown> = {}) {
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch("/api/playlists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, sessionId, ...extra }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      return data;
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function startNextGame() {
+    const data = await callAction("next_game");
+    if (data?.sessionId) router.push(`/host/${data.sessionId}`);
+  }
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border-b border-zinc-200 dark:border-zinc-800 px-4 py-2">
+      <div className="max-w-lg mx-auto space-y-2">
+        <button
+          type="button"
+          onClick={() => setOpen((o) => !o)}
+          className="w-full flex items-center justify-between gap-2 text-left"
+        >
+          <span className="min-w-0">
+            <span className="block text-sm font-medium text-zinc-900 dark:text-zinc-100 truncate">
+              {playlist.name}
+              {gameNumber > 0 && ` · Game ${gameNumber} of ${lineup.length}`}
+            </span>
+            <span className="block text-xs text-zinc-500 dark:text-zinc-400 truncate">
+              {playlist.status === "finished"
+                ? "Game night over"
+                : next
+                  ? `Up next: ${next.title}`
+                  : "Last game of the night"}
+            </span>
+          </span>
+          <svg
+            className={`h-4 w-4 shrink-0 text-zinc-400 transition-transform ${open ? "rotate-180" : ""}`}
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 9l6 6 6-6" />
+          </svg>
+        </button>
+
+        {open && (
+          <div className="space-y-3 pb-1">
+            <div className="space-y-1">
+              {games.map((game) => {
+                const upcoming = game.status === "upcoming";
+                return (
+                  <div
+                    key={game.id}
+                    className={`flex items-center gap-2 text-sm px-3 py-1.5 rounded bg-zinc-50 dark:bg-slate-900 ${
+                      game.status === "skipped" ? "opacity-50" : ""
+                    }`}
+                  >
+                    <span>{getGameTypeConfig(game.game_type).icon}</span>
+                    <span className="flex-1 truncate text-zinc-900 dark:text-zinc-100">{game.title}</span>
+                    <span className="text-xs text-zinc-500 dark:text-zinc-400">{STATUS_LABELS[game.status]}</span>
+                    {upcoming && (
+                      <>
+                        <button
+                          onClick={() => callAction("move_game", { playlistGameId: game.id, direction: -1 })}
+                          disabled={busy}
+                          className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200"
+                          title="Move earlier"
+                        >
+                          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 15l-6-6-6 6" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={() => callAction("move_game", { playlistGameId: game.id, direction: 1 })}
+                          disabled={busy}
+                          className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200"
+                          title="Move later"
+                        >
+                          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 9l6 6 6-6" />
+                          </svg>
+                        </button>
+                      </>
+                    )}
+                    {(upcoming || game.status === "skipped") && (
+                      <button
+                        onClick={() =>
+                          callAction("skip_game", { playlistGameId: game.id, restore: !upcoming })
+                        }
+                        disabled={busy}
+                        className="text-xs text-indigo-600 dark:text-indigo-400 underline"
+                      >
+                        {upcoming ? "Skip" : "Restore"}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {standings.length > 0 && (
+              <div>
+                <h3 className="text-xs font-medium text-zinc-500 dark:text-zinc-400 mb-1">
+                  Game night totals
+                </h3>
+                <div className="space-y-1">
+                  {standings.slice(0, 5).map((p, i) => (
+                    <div key={p.key} className="flex items-center gap-2 text-sm px-3 py-1">
+                      <span className="font-bold text-zinc-400 w-6">{i + 1}</span>
+                      <div
+                        className="w-5 h-5 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: p.avatar_color }}
+                      />
+                      <span className="flex-1 text-zinc-900 dark:text-zinc-100 truncate">
+                        {p.display_name}
+                      </span>
+                      <span className="font-mono text-zinc-600 dark:text-zinc-400">{p.score}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {gameOver && playlist.status === "active" && (
+          next ? (
+            <Button onClick={startNextGame} loading={busy} className="w-full">
+              Start Next Game: {next.title}
+            </Button>
+          ) : (
+            <Button onClick={() => callAction("finish")} loading={busy} className="w-full">
+              End Game Night
+            </Button>
+          )
+        )}
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useGameTheme } from "@/lib/theme-context";
+import { getFontFamily } from "@/lib/theme-fonts";
+import type { PlaylistStanding } from "@/lib/playlists";
+
+interface PlaylistStandingsScreenProps {
+  playlistName: string;
+  standings: PlaylistStanding[];
+  code: string;
+  /** The game about to start; leave out once the night is over */
+  upNext?: string;
+}
+
+/** The big screen between a playlist's games, and after its last one */
+export function PlaylistStandingsScreen({ playlistName, standings, code, upNext }: PlaylistStandingsScreenProps) {
+  const t = useGameTheme();
+  const headingFont = getFontFamily(t.headingFont);
+
+  return (
+    <div
+      className="h-full flex flex-col items-center justify-center p-8 overflow-hidden"
+      style={{ backgroundColor: t.bg, color: t.textPrimary, fontFamily: getFontFamily(t.bodyFont) }}
+    >
+      <p className="text-lg mb-2" style={{ color: t.textMuted }}>{playlistName}</p>
+      <h1 className="text-5xl font-bold mb-8" style={{ fontFamily: headingFont }}>
+        {upNext ? "Standings So Far" : "Final Standings"}
+      </h1>
+
+      <div className="w-full max-w-lg space-y-3 mb-10">
+        {standings.slice(0, 8).map((p, i) => (
+          <div
+            key={p.key}
+            className="flex items-center gap-4 px-6 py-3 rounded-xl text-lg"
+            style={{ background: t.surface, border: `1px solid ${t.border}` }}
+          >
+            <span className="font-bold text-2xl w-10" style={{ color: t.textDim }}>
+              {i + 1}
+            </span>
+            <div
+              className="w-10 h-10 rounded-full flex items-center justify-center text-white font-bold"
+              style={{ backgroundColor: p.avatar_color }}
+            >
+              {p.display_name.charAt(0).toUpperCase()}
+            </div>
+            <span className="flex-1 font-semibold">{p.display_name}</span>
+            <span className="font-mono text-xl" style={{ color: t.accent }}>
+              {p.score}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {upNext && (
+        <div className="text-center">
+          <p className="text-sm uppercase tracking-wider mb-1" style={{ color: t.textDim }}>Up next</p>
+          <p className="text-3xl font-bold mb-4" style={{ fontFamily: headingFont }}>{upNext}</p>
+          <p className="text-lg" style={{ color: t.textMuted }}>
+            Join with code{" "}
+            <span className="font-mono font-bold tracking-[0.15em]" style={{ color: t.accent }}>
+              {code}
+            </span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import type {
+  GameTheme,
+  SessionPlayer,
+  SessionTeam,
+  SurveyBoardAnswer,
+  SurveyGuess,
+} from "@/lib/types";
+
+export interface AnswerFinder {
+  name: string;
+  /** The player's avatar color, or their team's in team mode */
+  color: string;
+}
+
+/** Who claimed each found answer, for the board's tiles */
+export function getAnswerFinders(
+  guesses: Pick<SurveyGuess, "player_id" | "team_id" | "answer_id">[],
+  players: Pick<SessionPlayer, "id" | "display_name" | "avatar_color">[],
+  teams: Pick<SessionTeam, "id" | "color">[]
+): Map<string, AnswerFinder> {
+  const finders = new Map<string, AnswerFinder>();
+  for (const g of guesses) {
+    if (!g.answer_id) continue;
+    const player = players.find((p) => p.id === g.player_id);
+    const team = teams.find((x) => x.id === g.team_id);
+    finders.set(g.answer_id, {
+      name: player?.display_name ?? "Someone",
+      color: team?.color ?? player?.avatar_color ?? "#9CA3AF",
+    });
+  }
+  return finders;
+}
+
+interface AnswerBoardProps {
+  answers: SurveyBoardAnswer[];
+  /** Who found each answer, by answer id — answers the host revealed have none */
+  finders: Map<string, AnswerFinder>;
+  t: GameTheme;
+  size?: "sm" | "lg";
+}
+
+/** Flips over when its answer is found, showing the number-on-the-back first */
+function AnswerTile({
+  answer,
+  finder,
+  t,
+  large,
+}: {
+  answer: SurveyBoardAnswer;
+  finder: AnswerFinder | undefined;
+  t: GameTheme;
+  large: boolean;
+}) {
+  const revealed = answer.answer_text !== null;
+  const face: React.CSSProperties = {
+    backfaceVisibility: "hidden",
+    WebkitBackfaceVisibility: "hidden",
+  };
+
+  return (
+    <div className={large ? "h-20" : "h-12"} style={{ perspective: 800 }}>
+      <div
+        className="relative w-full h-full"
+        style={{
+          transformStyle: "preserve-3d",
+          transition: "transform 0.6s ease",
+          transform: revealed ? "rotateX(180deg)" : undefined,
+        }}
+      >
+        <div
+          className="absolute inset-0 rounded-xl flex items-center justify-center"
+          style={{
+            ...face,
+            background: t.surface,
+            border: `1.5px solid color-mix(in srgb, ${t.textPrimary} 18%, transparent)`,
+          }}
+        >
+          <span
+            className={`rounded-full flex items-center justify-center font-bold ${
+              large ? "w-12 h-12 text-2xl" : "w-8 h-8 text-base"
+            }`}
+            style={{ background: t.accent, color: t.buttonTextMode === "light" ? "#FFFFFF" : "#1A1A1A" }}
+          >
+            {answer.answer_order + 1}
+          </span>
+        </div>
+
+        <div
+          className={`absolute inset-0 rounded-xl flex items-center gap-3 ${large ? "px-5" : "px-3"}`}
+          style={{
+            ...face,
+            transform: "rotateX(180deg)",
+            background: finder ? t.accent : t.surfaceLight,
+            color: finder ? (t.buttonTextMode === "light" ? "#FFFFFF" : "#1A1A1A") : t.textMuted,
+          }}
+        >
+          <div className="flex-1 min-w-0">
+            <p className={`font-bold uppercase truncate ${large ? "text-2xl" : "text-sm"}`}>
+              {answer.answer_text}
+            </p>
+            {finder && (
+              <p className={`flex items-center gap-1.5 truncate ${large ? "text-sm" : "text-[10px]"}`}>
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ background: finder.color }} />
+                {finder.name}
+              </p>
+            )}
+          </div>
+          <span className={`font-bold tabular-nums ${large ? "text-3xl" : "text-base"}`}>
+            {answer.points}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The survey board: answers in rank order, down the left column first like
+ * the TV show once there are more than four.
+ */
+export function AnswerBoard({ answers, finders, t, size = "lg" }: AnswerBoardProps) {
+  const large = size === "lg";
+  const twoColumns = answers.length > 4;
+  return (
+    <div
+      className={`grid ${large ? "gap-3" : "gap-2"}`}
+      style={{
+        gridAutoFlow: "column",
+        gridTemplateColumns: twoColumns ? "repeat(2, minmax(0, 1fr))" : "minmax(0, 1fr)",
+        gridTemplateRows: `repeat(${twoColumns ? Math.ceil(answers.length / 2) : answers.length}, auto)`,
+      }}
+    >
+      {answers.map((a) => (
+        <AnswerTile key={a.id} answer={a} finder={finders.get(a.id)} t={t} large={large} />
+      ))}
+    </div>
+  );
+}
+
+/** A row of strike boxes, the used ones crossed out */
+export function StrikeMarks({
+  count,
+  max,
+  t,
+  size = "lg",
+}: {
+  count: number;
+  max: number;
+  t: GameTheme;
+  size?: "sm" | "lg";
+}) {
+  const large = size === "lg";
+  return (
+    <div className="flex gap-1.5">
+      {Array.from({ length: max }, (_, i) => (
+        <span
+          key={i}
+          className={`rounded-md flex items-center justify-center font-bold ${
+            large ? "w-10 h-10 text-2xl" : "w-6 h-6 text-sm"
+          }`}
+          style={{
+            border: `2px solid ${i < count ? t.danger : t.border}`,
+            color: t.danger,
+          }}
+        >
+          {i < count ? "✕" : ""}
+        </span>
+      ))}
+    </div>
+  );
+}
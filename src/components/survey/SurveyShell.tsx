@@ -0,0 +1,36 @@
+"use client";
+
+import { getFontFamily, getGoogleFontsUrl } from "@/lib/theme-fonts";
+import { getPatternBg } from "@/lib/theme-patterns";
+import type { GameTheme } from "@/lib/types";
+
+/** Themed page frame for the Survey Says phone and screen views */
+export function SurveyShell({
+  children,
+  t,
+  className = "min-h-full",
+}: {
+  children: React.ReactNode;
+  t: GameTheme;
+  className?: string;
+}) {
+  const fontsUrl = getGoogleFontsUrl([t.headingFont, t.bodyFont]);
+  const headingFontCss = getFontFamily(t.headingFont);
+  const patternBg = getPatternBg(t.pattern, t.accent);
+  return (
+    <div
+      className={`${className} flex flex-col overflow-hidden survey-shell`}
+      style={{
+        backgroundColor: t.bg,
+        backgroundImage: patternBg ?? undefined,
+        backgroundRepeat: patternBg ? "repeat" : undefined,
+        color: t.textPrimary,
+        fontFamily: getFontFamily(t.bodyFont),
+      }}
+    >
+      {fontsUrl && <link rel="stylesheet" href={fontsUrl} />}
+      <style>{`.survey-shell h1,.survey-shell h2,.survey-shell h3{font-family:${headingFontCss};letter-spacing:-0.02em}`}</style>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import type { SessionPlayer, SessionTeam } from "@/lib/types";
+
+interface TeamPickerProps {
+  teams: SessionTeam[];
+  players: SessionPlayer[];
+  /** The team this phone's player is on, if any */
+  currentTeamId: string | null;
+  onPick: (teamId: string) => void;
+  disabled?: boolean;
+}
+
+/** The lobby's team buttons on a phone, for sessions where players pick their own team */
+export function TeamPicker({ teams, players, currentTeamId, onPick, disabled = false }: TeamPickerProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2 w-full">
+      {teams.map((team) => {
+        const count = players.filter((p) => p.team_id === team.id).length;
+        const picked = team.id === currentTeamId;
+        return (
+          <button
+            key={team.id}
+            onClick={() => onPick(team.id)}
+            disabled={disabled || picked}
+            className={`rounded-xl px-3 py-3 text-left text-white transition-transform active:scale-[0.98] ${
+              picked ? "ring-4 ring-white/80" : "opacity-80 hover:opacity-100"
+            }`}
+            style={{ backgroundColor: team.color }}
+          >
+            <span className="block font-bold truncate">{team.name}</span>
+            <span className="block text-xs opacity-90">
+              {picked ? "Your team" : `${count} ${count === 1 ? "player" : "players"}`}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
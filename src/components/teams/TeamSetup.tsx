@@ -0,0 +1,217 @@
+"use client";
+
+import { useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import {
+  balanceTeams,
+  MAX_TEAM_NAME_LENGTH,
+  MAX_TEAMS,
+  MIN_TEAMS,
+  TEAM_MODE_OPTIONS,
+  TEAM_PRESETS,
+  TEAM_SCORING_OPTIONS,
+} from "@/lib/teams";
+import type { Session, SessionPlayer, SessionTeam, TeamMode, TeamScoring } from "@/lib/types";
+
+interface TeamSetupProps {
+  session: Session;
+  players: SessionPlayer[];
+  /** From useSessionTeams */
+  teams: SessionTeam[];
+  /** Team score rules the game supports — all of them unless it says otherwise */
+  scoringOptions?: typeof TEAM_SCORING_OPTIONS;
+}
+
+/**
+ * The host remote's lobby controls for team mode. Writes straight to the
+ * session's rows (hosts own them under RLS); phones and the screen follow
+ * along over realtime.
+ */
+export function TeamSetup({
+  session,
+  players,
+  teams,
+  scoringOptions = TEAM_SCORING_OPTIONS,
+}: TeamSetupProps) {
+  const [saving, setSaving] = useState(false);
+  const enabled = session.team_mode !== "off";
+  const unassigned = players.filter((p) => !teams.some((t) => t.id === p.team_id));
+
+  async function run(task: () => Promise<void>) {
+    setSaving(true);
+    try {
+      await task();
+    } catch (err) {
+      console.error("Team setup failed:", err);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function rebalance(onto: SessionTeam[]) {
+    const supabase = createClient();
+    const byTeam = new Map<string, string[]>();
+    for (const { playerId, teamId } of balanceTeams(players, onto)) {
+      byTeam.set(teamId, [...(byTeam.get(teamId) || []), playerId]);
+    }
+    for (const [teamId, playerIds] of byTeam) {
+      await supabase.from("session_players").update({ team_id: teamId }).in("id", playerIds);
+    }
+  }
+
+  async function insertTeams(count: number, after: SessionTeam[]): Promise<SessionTeam[]> {
+    const supabase = createClient();
+    const used = new Set(after.map((t) => t.color));
+    const presets = TEAM_PRESETS.filter((p) => !used.has(p.color)).slice(0, count);
+    const nextOrder = after.reduce((max, t) => Math.max(max, t.team_order + 1), 0);
+    const { data, error } = await supabase
+      .from("session_teams")
+      .insert(presets.map((p, i) => ({ session_id: session.id, ...p, team_order: nextOrder + i })))
+      .select();
+    if (error) throw new Error(error.message);
+    return [...after, ...(data as SessionTeam[])];
+  }
+
+  function setMode(mode: TeamMode) {
+    run(async () => {
+      const supabase = createClient();
+      const current = mode !== "off" && teams.length < MIN_TEAMS
+        ? await insertTeams(MIN_TEAMS - teams.length, teams)
+        : teams;
+      if (mode === "auto") await rebalance(current);
+      await supabase.from("sessions").update({ team_mode: mode }).eq("id", session.id);
+    });
+  }
+
+  function setScoring(scoring: TeamScoring) {
+    run(async () => {
+      const supabase = createClient();
+      await supabase.from("sessions").update({ team_scoring: scoring }).eq("id", session.id);
+    });
+  }
+
+  function addTeam() {
+    run(async () => {
+      const current = await insertTeams(1, teams);
+      if (session.team_mode === "auto") await rebalance(current);
+    });
+  }
+
+  function removeTeam(teamId: string) {
+    run(async () => {
+      const supabase = createClient();
+      // Its players drop to no team (on delete set null) until rebalanced or they pick again
+      await supabase.from("session_teams").delete().eq("id", teamId);
+      if (session.team_mode === "auto") await rebalance(teams.filter((t) => t.id !== teamId));
+    });
+  }
+
+  function renameTeam(team: SessionTeam, value: string) {
+    const name = value.trim().slice(0, MAX_TEAM_NAME_LENGTH);
+    if (!name || name === team.name) return;
+    run(async () => {
+      const supabase = createClient();
+      await supabase.from("session_teams").update({ name }).eq("id", team.id);
+    });
+  }
+
+  const scoringOption = scoringOptions.find((o) => o.value === session.team_scoring);
+
+  return (
+    <div className="space-y-3 px-3 py-3 rounded bg-white dark:bg-slate-800 text-sm">
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          label="Teams"
+          value={session.team_mode}
+          onChange={(e) => setMode(e.target.value as TeamMode)}
+          disabled={saving}
+          options={TEAM_MODE_OPTIONS}
+        />
+        {enabled && (
+          <Select
+            label="Team score"
+            value={session.team_scoring}
+            onChange={(e) => setScoring(e.target.value as TeamScoring)}
+            disabled={saving}
+            options={scoringOptions}
+          />
+        )}
+      </div>
+
+      {enabled && (
+        <>
+          {scoringOption && (
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">{scoringOption.description}</p>
+          )}
+
+          <div className="space-y-2">
+            {teams.map((team) => {
+              const members = players.filter((p) => p.team_id === team.id);
+              return (
+                <div key={team.id} className="flex items-start gap-2">
+                  <span
+                    className="w-3 h-8 rounded-full shrink-0"
+                    style={{ backgroundColor: team.color }}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <input
+                      key={team.name}
+                      defaultValue={team.name}
+                      maxLength={MAX_TEAM_NAME_LENGTH}
+                      onBlur={(e) => renameTeam(team, e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") e.currentTarget.blur();
+                      }}
+                      className="w-full bg-transparent font-medium text-zinc-900 dark:text-zinc-100 border-b border-transparent focus:border-indigo-500 outline-none"
+                    />
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400 truncate">
+                      {members.length ? members.map((p) => p.display_name).join(", ") : "No players yet"}
+                    </p>
+                  </div>
+                  {teams.length > MIN_TEAMS && (
+                    <button
+                      onClick={() => removeTeam(team.id)}
+                      disabled={saving}
+                      className="text-red-400 hover:text-red-600 mt-1"
+                      title="Remove team"
+                    >
+                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {unassigned.length > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              No team yet: {unassigned.map((p) => p.display_name).join(", ")}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            {teams.length < MAX_TEAMS && (
+              <Button variant="secondary" size="sm" onClick={addTeam} disabled={saving}>
+                Add Team
+              </Button>
+            )}
+            {session.team_mode === "auto" && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => run(() => rebalance(teams))}
+                disabled={saving || players.length === 0}
+              >
+                Shuffle Teams
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import type { TeamStanding } from "@/lib/teams";
+
+interface TeamStandingsProps {
+  standings: TeamStanding[];
+  className?: string;
+  /** Each team's row — pages bring their own surface, padding and text size */
+  rowClassName?: string;
+  rowStyle?: React.CSSProperties;
+  rankClassName?: string;
+  rankStyle?: React.CSSProperties;
+  scoreClassName?: string;
+  scoreStyle?: React.CSSProperties;
+  /** List each team's players under its name */
+  showMembers?: boolean;
+}
+
+/** Teams ranked by score, drawn in their colors. Sizes are relative to the row's text. */
+export function TeamStandings({
+  standings,
+  className = "",
+  rowClassName = "",
+  rowStyle,
+  rankClassName = "",
+  rankStyle,
+  scoreClassName = "",
+  scoreStyle,
+  showMembers = false,
+}: TeamStandingsProps) {
+  return (
+    <div className={className}>
+      {standings.map(({ team, members, score }, i) => (
+        <div key={team.id} className={`flex items-center gap-[0.75em] ${rowClassName}`} style={rowStyle}>
+          <span className={`font-bold w-[1.5em] shrink-0 ${rankClassName}`} style={rankStyle}>
+            {i + 1}
+          </span>
+          <span
+            className="w-[0.5em] self-stretch rounded-full shrink-0"
+            style={{ backgroundColor: team.color }}
+          />
+          <div className="flex-1 min-w-0">
+            <p className="font-semibold truncate">{team.name}</p>
+            {showMembers && (
+              <p className="text-[0.7em] opacity-70 truncate">
+                {members.length ? members.map((p) => p.display_name).join(", ") : "No players"}
+              </p>
+            )}
+          </div>
+          <span className={`font-mono shrink-0 ${scoreClassName}`} style={scoreStyle}>
+            {score}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
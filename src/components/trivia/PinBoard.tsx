@@ -0,0 +1,88 @@
+"use client";
+
+import type { PinPoint } from "@/lib/question-types";
+
+export interface BoardPin extends PinPoint {
+  key: string;
+  color: string;
+  label?: string;
+}
+
+interface PinBoardProps {
+  url: string;
+  alt?: string;
+  /** Sizing for the image — pins and the target are placed relative to it */
+  imageClassName?: string;
+  pins?: BoardPin[];
+  /** The host's target region, drawn once it's known (editor, reveal) */
+  target?: (PinPoint & { radius: number }) | null;
+  /** Tapping the image reports the point as fractions of its width and height */
+  onPick?: (point: PinPoint) => void;
+  disabled?: boolean;
+}
+
+/** A pin question's image with the target region and players' pins laid over it */
+export function PinBoard({
+  url,
+  alt = "",
+  imageClassName = "",
+  pins = [],
+  target,
+  onPick,
+  disabled = false,
+}: PinBoardProps) {
+  const interactive = !!onPick && !disabled;
+
+  function handleClick(e: React.MouseEvent<HTMLDivElement>) {
+    if (!interactive) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (n: number) => Math.min(1, Math.max(0, n));
+    onPick({
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    });
+  }
+
+  return (
+    <div
+      className={`relative inline-block select-none ${interactive ? "cursor-crosshair" : ""}`}
+      onClick={handleClick}
+    >
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={url} alt={alt} draggable={false} className={`block ${imageClassName}`} />
+
+      {target && (
+        <div
+          className="absolute rounded-full border-4 border-green-400 bg-green-400/25 pointer-events-none"
+          style={{
+            left: `${(target.x - target.radius) * 100}%`,
+            top: `${(target.y - target.radius) * 100}%`,
+            width: `${target.radius * 200}%`,
+            height: `${target.radius * 200}%`,
+          }}
+        />
+      )}
+
+      {pins.map((pin) => (
+        <div
+          key={pin.key}
+          className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none flex flex-col items-center"
+          style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` }}
+        >
+          <span
+            className="block w-4 h-4 rounded-full border-2 border-white shadow-md"
+            style={{ backgroundColor: pin.color }}
+          />
+          {pin.label && (
+            <span
+              className="absolute top-full mt-0.5 px-1.5 rounded text-[10px] font-bold text-white whitespace-nowrap"
+              style={{ backgroundColor: pin.color }}
+            >
+              {pin.label}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { MediaType } from "@/lib/types";
+
+interface QuestionMediaProps {
+  url: string;
+  type: MediaType;
+  alt?: string;
+  className?: string;
+  /** Show the browser's own player controls (phones, editor) */
+  controls?: boolean;
+  /** Video plays muted on a loop by itself — for choices, which nobody controls */
+  ambient?: boolean;
+  /** Screen only: follows the host remote's clip controls when set */
+  playing?: boolean;
+  restartedAt?: string | null;
+}
+
+export function QuestionMedia({
+  url,
+  type,
+  alt = "",
+  className = "",
+  controls = false,
+  ambient = false,
+  playing,
+  restartedAt,
+}: QuestionMediaProps) {
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+
+  useEffect(() => {
+    const el = mediaRef.current;
+    if (!el || playing === undefined) return;
+    // Autoplay can be refused until the page has had a click — nothing to do but wait for the next one
+    if (playing) el.play().catch(() => {});
+    else el.pause();
+  }, [playing]);
+
+  useEffect(() => {
+    const el = mediaRef.current;
+    if (!el || !restartedAt) return;
+    el.currentTime = 0;
+  }, [restartedAt]);
+
+  if (type === "image") {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img src={url} alt={alt} className={className} />
+    );
+  }
+
+  if (type === "video") {
+    return (
+      <video
+        ref={(el) => {
+          mediaRef.current = el;
+        }}
+        src={url}
+        controls={controls}
+        autoPlay={ambient}
+        muted={ambient}
+        loop={ambient}
+        playsInline
+        preload="auto"
+        className={className}
+      />
+    );
+  }
+
+  return (
+    <div className={`flex items-center justify-center gap-3 ${className}`}>
+      {!controls && (
+        <svg className="w-10 h-10 shrink-0 opacity-80" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.8} aria-hidden>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+        </svg>
+      )}
+      <audio
+        ref={(el) => {
+          mediaRef.current = el;
+        }}
+        src={url}
+        controls={controls}
+        preload="auto"
+        className={controls ? "w-full" : "hidden"}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+/**
+ * Per-session action log for undo and rewind (server-only).
+ *
+ * Before every host step (and every auto-pilot step) the API records a
+ * snapshot of everything that step can change: the session's phase columns,
+ * player scores, and the game's per-round rows (trivia question states,
+ * answers, wagers and power-ups, or PIR guesses). Undo restores the newest snapshot; rewinding to
+ * item/question N restores the snapshot taken just before N was entered and
+ * lets the caller enter it again with a fresh timer.
+ *
+ * Restored clocks come back paused with the time that was left, so the host
+ * decides when play resumes. Undo and rewind also switch auto-pilot off.
+ */
+import { createServiceSupabase } from "@/lib/supabase/server";
+import type {
+  PriceGuess,
+  Session,
+  SessionAnswer,
+  SessionPowerUp,
+  SessionQuestionState,
+  SessionWager,
+} from "@/lib/types";
+
+type SB = Awaited<ReturnType<typeof createServiceSupabase>>;
+
+/** The game types with undo and rewind */
+export type LoggedGameType = "trivia" | "price_is_right";
+
+const SHARED_PHASE_COLUMNS = ["status", "current_question_index", "ended_at"] as const;
+
+/** Session columns a step can change, per game — everything else (code, settings) is left alone */
+const PHASE_COLUMNS: Record<LoggedGameType, readonly (keyof Session)[]> = {
+  trivia: SHARED_PHASE_COLUMNS,
+  price_is_right: [
+    ...SHARED_PHASE_COLUMNS,
+    "pir_current_item_id",
+    "pir_current_item_order",
+    "pir_item_end_timestamp",
+    "pir_paused_remaining_ms",
+    "pir_closed_at",
+    "pir_phase",
+  ],
+};
+
+type PhaseColumns = Pick<Session, (typeof SHARED_PHASE_COLUMNS)[number]> &
+  Partial<
+    Pick<
+      Session,
+      | "pir_current_item_id"
+      | "pir_current_item_order"
+      | "pir_item_end_timestamp"
+      | "pir_paused_remaining_ms"
+      | "pir_closed_at"
+      | "pir_phase"
+    >
+  >;
+
+export interface SessionSnapshot {
+  session: PhaseColumns;
+  scores: { id: string; score: number }[];
+  /** Trivia only */
+  questionStates?: SessionQuestionState[];
+  /** Trivia only — answers are never edited, so this is the set to keep */
+  answerIds?: string[];
+  /** Trivia only — bets can be replaced, so the rows themselves */
+  wagers?: SessionWager[];
+  /** Trivia only — power-up uses are never edited, so this is the set to keep */
+  powerUpIds?: string[];
+  /** PIR only */
+  guesses?: PriceGuess[];
+}
+
+export interface ActionLogEntry {
+  id: string;
+  session_id: string;
+  action: string;
+  question_index: number;
+  snapshot: SessionSnapshot;
+  created_at: string;
+}
+
+/** Actions that move a session onto a new item/question */
+const ENTER_ACTIONS = ["start_game", "next_question", "next_item"];
+
+/** Snapshots the session before `action` runs. Returns the log entry id. */
+export async function recordAction(
+  supabase: SB,
+  sessionId: string,
+  gameType: LoggedGameType,
+  action: string
+): Promise<string> {
+  const { data: session } = await supabase
+    .from("sessions")
+    .select(PHASE_COLUMNS[gameType].join(", "))
+    .eq("id", sessionId)
+    .single();
+
+  if (!session) throw new Error("Session not found");
+  const phase = session as unknown as PhaseColumns;
+
+  const { data: players } = await supabase
+    .from("session_players")
+    .select("id, score")
+    .eq("session_id", sessionId);
+
+  const snapshot: SessionSnapshot = { session: phase, scores: players || [] };
+
+  if (gameType === "price_is_right") {
+    const { data: guesses } = await supabase
+      .from("price_guesses")
+      .select("*")
+      .eq("session_id", sessionId);
+    snapshot.guesses = guesses || [];
+  } else if (gameType === "trivia") {
+    const [{ data: questionStates }, { data: answers }, { data: wagers }, { data: powerUps }] =
+      await Promise.all([
+        supabase.from("session_question_state").select("*").eq("session_id", sessionId),
+        supabase.from("session_answers").select("id").eq("session_id", sessionId),
+        supabase.from("session_wagers").select("*").eq("session_id", sessionId),
+        supabase.from("session_power_ups").select("id").eq("session_id", sessionId),
+      ]);
+    snapshot.questionStates = questionStates || [];
+    snapshot.answerIds = (answers || []).map((a: Pick<SessionAnswer, "id">) => a.id);
+    snapshot.wagers = wagers || [];
+    snapshot.powerUpIds = (powerUps || []).map((u: Pick<SessionPowerUp, "id">) => u.id);
+  }
+
+  const { data: entry, error } = await supabase
+    .from("session_action_log")
+    .insert({
+      session_id: sessionId,
+      action,
+      question_index: phase.current_question_index,
+      snapshot,
+    })
+    .select("id")
+    .single();
+
+  if (error) throw new Error(error.message);
+  return entry.id;
+}
+
+/** Drops an entry whose step turned out to be a no-op (e.g. lost an auto-pilot race) */
+export async function discardAction(supabase: SB, entryId: string) {
+  await supabase.from("session_action_log").delete().eq("id", entryId);
+}
+
+/**
+ * Records `action` and runs its step, dropping the entry again if the step
+ * didn't run — refused, lost a race to another caller, or threw — so undo
+ * never lands on it. `ran` decides from the step's result (truthy by default).
+ */
+export async function logStep<T>(
+  supabase: SB,
+  sessionId: string,
+  gameType: LoggedGameType,
+  action: string,
+  step: () => Promise<T>,
+  ran: (result: T) => boolean = Boolean
+): Promise<T> {
+  const entryId = await recordAction(supabase, sessionId, gameType, action);
+  let result: T;
+  try {
+    result = await step();
+  } catch (err) {
+    await discardAction(supabase, entryId);
+    throw err;
+  }
+  if (!ran(result)) await discardAction(supabase, entryId);
+  return result;
+}
+
+/** Restores the newest snapshot. Returns the undone entry, or null if there is nothing to undo. */
+export async function undoLastAction(
+  supabase: SB,
+  sessionId: string,
+  gameType: LoggedGameType
+): Promise<ActionLogEntry | null> {
+  const { data: entry } = await supabase
+    .from("session_action_log")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!entry) return null;
+
+  await restoreEntry(supabase, entry as ActionLogEntry, gameType);
+  return entry as ActionLogEntry;
+}
+
+/**
+ * Restores the session to just before item/question `index` was entered.
+ * Returns the entry that entered it (so the caller can re-run its action),
+ * or null if the session never reached that index.
+ */
+export async function rewindTo(
+  supabase: SB,
+  sessionId: string,
+  gameType: LoggedGameType,
+  index: number
+): Promise<ActionLogEntry | null> {
+  const { data: entry } = await supabase
+    .from("session_action_log")
+    .select("*")
+    .eq("session_id", sessionId)
+    .in("action", ENTER_ACTIONS)
+    .eq("question_index", index - 1)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!entry) return null;
+
+  await restoreEntry(supabase, entry as ActionLogEntry, gameType);
+  return entry as ActionLogEntry;
+}
+
+/** Puts the snapshot back and forgets it along with every later entry */
+async function restoreEntry(supabase: SB, entry: ActionLogEntry, gameType: LoggedGameType) {
+  const { session_id: sessionId, snapshot } = entry;
+  const takenAt = new Date(entry.created_at).getTime();
+
+  const session = { ...snapshot.session };
+  // A running PIR clock comes back paused with the time it had left
+  if (
+    session.status === "playing" &&
+    session.pir_phase === "guessing" &&
+    session.pir_paused_remaining_ms === null &&
+    session.pir_item_end_timestamp &&
+    gameType === "price_is_right"
+  ) {
+    session.pir_paused_remaining_ms = Math.max(
+      0,
+      new Date(session.pir_item_end_timestamp).getTime() - takenAt
+    );
+  }
+
+  await supabase
+    .from("sessions")
+    .update({ ...session, auto_advance: false })
+    .eq("id", sessionId);
+
+  if (gameType === "price_is_right") {
+    const guesses = snapshot.guesses || [];
+    await deleteAllExcept(supabase, "price_guesses", sessionId, guesses.map((g) => g.id));
+
+    // Only the current item's guesses can have been edited since (paid the
+    // price, zero-guesses), so only those are written back
+    const current = guesses.filter((g) => g.item_id === session.pir_current_item_id);
+    if (current.length) {
+      const { error } = await supabase.from("price_guesses").upsert(current);
+      if (error) throw new Error(error.message);
+    }
+  } else if (gameType === "trivia") {
+    const keepStates = (snapshot.questionStates || []).map((qs) => qs.id);
+    const keepAnswers = snapshot.answerIds || [];
+    const wagers = snapshot.wagers || [];
+
+    await deleteAllExcept(supabase, "session_answers", sessionId, keepAnswers);
+    await deleteAllExcept(supabase, "session_power_ups", sessionId, snapshot.powerUpIds || []);
+    await deleteAllExcept(supabase, "session_wagers", sessionId, wagers.map((w) => w.id));
+    await deleteAllExcept(supabase, "session_question_state", sessionId, keepStates);
+
+    // Only the current question's state can have changed since; rewriting
+    // earlier ones would send stale rows to every client
+    const current = (snapshot.questionStates || []).find(
+      (qs) => qs.question_index === session.current_question_index
+    );
+
+    if (current) {
+      const running = !current.is_locked && !current.show_results && !current.is_paused && current.ends_at;
+      // A running question comes back paused with the time it had left
+      const restored = running
+        ? {
+            ...current,
+            is_paused: true,
+            paused_remaining_ms: Math.max(0, new Date(current.ends_at!).getTime() - takenAt),
+          }
+        : current;
+
+      const { error } = await supabase.from("session_question_state").upsert(restored);
+      if (error) throw new Error(error.message);
+
+      // Bets on the current question may have been replaced since
+      const currentWagers = wagers.filter((w) => w.question_state_id === current.id);
+      if (currentWagers.length) {
+        const { error: wagerError } = await supabase.from("session_wagers").upsert(currentWagers);
+        if (wagerError) throw new Error(wagerError.message);
+      }
+    }
+  }
+
+  // Last, so score triggers fired by the restores above don't win
+  for (const { id, score } of snapshot.scores) {
+    await supabase.from("session_players").update({ score }).eq("id", id);
+  }
+
+  await supabase
+    .from("session_action_log")
+    .delete()
+    .eq("session_id", sessionId)
+    .gte("created_at", entry.created_at);
+}
+
+async function deleteAllExcept(
+  supabase: SB,
+  table:
+    | "session_answers"
+    | "session_question_state"
+    | "session_wagers"
+    | "session_power_ups"
+    | "price_guesses",
+  sessionId: string,
+  keepIds: string[]
+) {
+  let query = supabase.from(table).delete().eq("session_id", sessionId);
+  if (keepIds.length) query = query.not("id", "in", `(${keepIds.join(",")})`);
+  await query;
+}
@@ -0,0 +1,106 @@
+/**
+ * Grading for type-in trivia answers. A question's accepted answers are its
+ * game_question_choices rows; a typed answer matches one when, after
+ * normalization, it is within a small edit distance of it — or, for numbers,
+ * within the question's answer_tolerance.
+ *
+ * Also used by the screen to group submitted answers for the results view.
+ */
+
+/** Longest typed answer the server will grade */
+export const MAX_ANSWER_LENGTH = 100;
+
+const LEADING_ARTICLE = /^(the|a|an)\s+/;
+
+/** Lowercase, no accents or punctuation, single spaces, no leading "the"/"a"/"an" */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}.\s-]/gu, "")
+    // Dots only survive inside numbers ("3.14"), so "U.S.A." reads as "usa"
+    .replace(/(?<!\d)\.|\.(?!\d)/g, "")
+    .replace(/[-\s]+/g, " ")
+    .trim()
+    .replace(LEADING_ARTICLE, "");
+}
+
+/** Typos allowed for an answer of this length — none for short answers, where one letter changes the word */
+function allowedTypos(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 7) return 1;
+  return 2;
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function parseNumber(text: string): number | null {
+  const cleaned = text.replace(/[,\s$%]/g, "");
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+  return Number(cleaned);
+}
+
+export function isAnswerMatch(
+  typed: string,
+  accepted: string,
+  numericTolerance: number | null
+): boolean {
+  const typedNumber = parseNumber(typed);
+  const acceptedNumber = parseNumber(accepted);
+  if (typedNumber !== null && acceptedNumber !== null) {
+    return Math.abs(typedNumber - acceptedNumber) <= (numericTolerance ?? 0);
+  }
+
+  const a = normalizeAnswer(typed);
+  const b = normalizeAnswer(accepted);
+  if (!a || !b) return false;
+  return editDistance(a, b) <= allowedTypos(b.length);
+}
+
+/** The accepted answer a typed answer matches, if any */
+export function findMatchingAnswer<T extends { choice_text: string }>(
+  typed: string,
+  accepted: T[],
+  numericTolerance: number | null
+): T | null {
+  return accepted.find((a) => isAnswerMatch(typed, a.choice_text, numericTolerance)) ?? null;
+}
+
+export interface AnswerGroup {
+  /** The first spelling submitted, shown as the group's label */
+  text: string;
+  count: number;
+  isCorrect: boolean;
+}
+
+/** Typed answers grouped by their normalized form, most common first */
+export function groupTypedAnswers(
+  answers: { answer_text: string | null; is_correct: boolean }[],
+  limit: number
+): AnswerGroup[] {
+  const groups = new Map<string, AnswerGroup>();
+  for (const a of answers) {
+    if (!a.answer_text) continue;
+    const key = normalizeAnswer(a.answer_text);
+    const group = groups.get(key);
+    if (group) group.count++;
+    else groups.set(key, { text: a.answer_text, count: 1, isCorrect: a.is_correct });
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count).slice(0, limit);
+}
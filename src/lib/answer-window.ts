@@ -0,0 +1,18 @@
+/**
+ * Server-side submission window checks shared by the game action handlers.
+ */
+
+/** Allowance for network latency between the phone's last tick and the server */
+export const SUBMISSION_GRACE_MS = 1000;
+
+/** True once a deadline (plus grace) has passed. A null deadline never expires. */
+export function isPastDeadline(deadline: string | null, now: number = Date.now()): boolean {
+  if (!deadline) return false;
+  return now > new Date(deadline).getTime() + SUBMISSION_GRACE_MS;
+}
+
+/** Postgres unique_violation — a second answer for the same question */
+export const UNIQUE_VIOLATION = "23505";
+
+/** Postgres check_violation — also raised by triggers that cap submissions (survey strikes) */
+export const CHECK_VIOLATION = "23514";
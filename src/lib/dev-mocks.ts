@@ -0,0 +1,41 @@
+/**
+ * Mock players and sessions shared by the game types' /dev preview screens
+ * (see DevPreviewScreen in lib/game-registry). Game-specific mocks live with
+ * each game type's DevPreview.
+ */
+import type { Session, SessionPlayer } from "./types";
+
+export const MOCK_PLAYERS: SessionPlayer[] = [
+  { id: "p1", session_id: "s1", display_name: "Alice", avatar_color: "#FF6B6B", score: 3200, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+  { id: "p2", session_id: "s1", display_name: "Bob", avatar_color: "#4ECDC4", score: 2800, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+  { id: "p3", session_id: "s1", display_name: "Charlie", avatar_color: "#45B7D1", score: 1900, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+  { id: "p4", session_id: "s1", display_name: "Diana", avatar_color: "#96CEB4", score: 1500, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+  { id: "p5", session_id: "s1", display_name: "Eve", avatar_color: "#FFEAA7", score: 800, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+  { id: "p6", session_id: "s1", display_name: "Frank", avatar_color: "#FFA94D", score: 2400, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+  { id: "p7", session_id: "s1", display_name: "Grace", avatar_color: "#A78BFA", score: 2100, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+  { id: "p8", session_id: "s1", display_name: "Henry", avatar_color: "#34D399", score: 1700, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+  { id: "p9", session_id: "s1", display_name: "Ivy", avatar_color: "#F472B6", score: 1300, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+  { id: "p10", session_id: "s1", display_name: "Jack", avatar_color: "#60A5FA", score: 1100, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+  { id: "p11", session_id: "s1", display_name: "Kate", avatar_color: "#FBBF24", score: 950, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+  { id: "p12", session_id: "s1", display_name: "Liam", avatar_color: "#22D3EE", score: 700, team_id: null, playlist_player_id: null, is_removed: false, token_version: 0, joined_at: new Date().toISOString() },
+];
+
+export const MOCK_PLAYER = MOCK_PLAYERS[0];
+
+export const MOCK_SESSION_LOBBY: Session = {
+  id: "s1", game_id: "g1", host_id: "h1", code: "DEMO",
+  status: "lobby", current_question_index: -1, timer_seconds: 30, speed_bonus: true, scoring_rule: "classic",
+  power_ups: [], team_mode: "off", team_scoring: "sum", auto_advance: false, auto_advance_seconds: 5,
+  pir_current_item_id: null, pir_current_item_order: 0, pir_item_end_timestamp: null, pir_paused_remaining_ms: null, pir_closed_at: null, pir_phase: "guessing",
+  display_mode: "tv", hol_phase: "voting", hol_vote_ends_at: null,
+  survey_phase: "guessing", survey_ends_at: null, playlist_id: null,
+  created_at: new Date().toISOString(), ended_at: null,
+};
+
+export const MOCK_SESSION_PLAYING: Session = {
+  ...MOCK_SESSION_LOBBY, status: "playing", current_question_index: 2,
+};
+
+export const MOCK_SESSION_FINISHED: Session = {
+  ...MOCK_SESSION_LOBBY, status: "finished", ended_at: new Date().toISOString(),
+};
@@ -0,0 +1,46 @@
+/**
+ * Game Action Registry — the server half of lib/game-registry
+ *
+ * Each game type's session actions (start, answer, undo, ...) are served by
+ * app/api/[game] at /api/<route>, e.g. POST /api/trivia. The handlers pull in
+ * server-only code (cookies, the service-role client), so they're registered
+ * here rather than in game-registry, which the browser bundles. The Record
+ * makes the compiler insist every GameType has an entry.
+ */
+
+import type { NextRequest, NextResponse } from "next/server";
+import type { GameType } from "./types";
+
+export type GameActionHandler = (req: NextRequest) => Promise<NextResponse>;
+
+export interface GameActionsConfig {
+  /** URL segment the handler is served at: /api/<route> */
+  route: string;
+
+  /** Lazy-loaded so each request only loads its own game type's handler */
+  handler: () => Promise<{ default: GameActionHandler }>;
+}
+
+export const GAME_ACTIONS: Record<GameType, GameActionsConfig> = {
+  trivia: {
+    route: "trivia",
+    handler: () => import("./trivia-actions"),
+  },
+  price_is_right: {
+    route: "pir",
+    handler: () => import("./pir-actions"),
+  },
+  higher_or_lower: {
+    route: "hol",
+    handler: () => import("./hol-actions"),
+  },
+  survey_says: {
+    route: "survey",
+    handler: () => import("./survey-actions"),
+  },
+};
+
+/** The game type's actions served at /api/<route>, if any */
+export function findGameActions(route: string): GameActionsConfig | null {
+  return Object.values(GAME_ACTIONS).find((a) => a.route === route) ?? null;
+}
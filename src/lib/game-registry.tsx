@@ -0,0 +1,405 @@
+/**
+ * Game Type Registry
+ *
+ * Central configuration for all game types. To add a new game type:
+ * 1. Add an entry to GAME_TYPES below
+ * 2. Create the component files it references (views, editor, dev preview)
+ * 3. Add its server action handler to GAME_ACTIONS in game-actions.ts
+ * 4. Add any new DB tables/schema
+ * 5. Register the game type key in the GameType union in types.ts
+ *
+ * That's it — routing, dashboard cards and filters, the editor, game library,
+ * dev preview and play/host/screen pages all read from this registry
+ * automatically.
+ */
+
+import type { ComponentType, ReactNode } from "react";
+import type { createClient } from "./supabase/client";
+import { THEME_PRESETS } from "./theme-presets";
+import type { GameTheme, GameType } from "./types";
+
+// Props that every host remote component receives
+export interface HostRemoteProps {
+  sessionId: string;
+}
+
+// Props that every player component receives
+export interface PlayerPageProps {
+  sessionCode: string;
+}
+
+// Props that every screen/display component receives
+export interface ScreenPageProps {
+  sessionCode: string;
+}
+
+// Props that every dashboard editor component receives
+export interface EditorProps {
+  gameId: string;
+}
+
+type BrowserSupabase = ReturnType<typeof createClient>;
+
+/** Brand palette colors used behind game artwork */
+export type BrandAccent = "coral" | "violet" | "teal" | "magenta" | "sunflower" | "lime";
+
+/** Artwork shown on a solid accent background (dashboard cards, library) */
+export interface GameArt {
+  thumb: string;
+  /** "bottom" — thumb art sits flush with bottom of its container; otherwise vertically centered. */
+  thumbAnchor?: "bottom" | "center";
+  /** Extra scale applied to the thumb image (1 = no change). */
+  thumbScale?: number;
+}
+
+/** A ready-made format listed in the Game Library */
+export interface LibraryTemplate {
+  id: string;
+  title: ReactNode;
+  description: string;
+  playerRange: string;
+  art: GameArt;
+  accent: BrandAccent;
+}
+
+/** A toggle or slider shown over a dev-preview screen */
+export type DevPreviewControl =
+  | {
+      type: "toggle";
+      key: string;
+      on: string;
+      off: string;
+      /** risk: red when on, green when off; mode: purple when on */
+      tone: "risk" | "mode";
+    }
+  | {
+      type: "range";
+      key: string;
+      min: number;
+      max: number;
+      initial: number;
+      describe: (value: number) => string;
+    };
+
+export type DevPreviewValues = Record<string, number | boolean>;
+
+/** One screen in the /dev preview, rendered with mock data */
+export interface DevPreviewScreen {
+  id: string;
+  label: string;
+  group: string;
+  controls?: DevPreviewControl[];
+  render: (values: DevPreviewValues) => ReactNode;
+}
+
+export interface GameTypeConfig {
+  /** Unique key matching the DB game_type column and GameType union */
+  key: GameType;
+
+  /** Human-readable name */
+  label: string;
+
+  /** The name in its brand typography, for cards and filters */
+  title: ReactNode;
+
+  /** Short description shown in "New Game" menus */
+  description: string;
+
+  /** Emoji or icon for quick identification */
+  icon: string;
+
+  /** Thumbnail image path (in /public/) for dashboard cards */
+  thumbnail: string;
+
+  /** Theme a new game starts with, and the fallback when a game has none */
+  defaultTheme: GameTheme;
+
+  /** Dashboard card artwork */
+  card: {
+    accent: BrandAccent;
+    art: GameArt;
+  };
+
+  /** What a game is made of, for the counts on dashboard cards */
+  items: {
+    /** Singular noun, e.g. "question" */
+    label: string;
+    /** Icon (in /public/) shown next to the count */
+    icon: string;
+    /** Number of items per game, for the given games */
+    count: (supabase: BrowserSupabase, gameIds: string[]) => Promise<Record<string, number>>;
+  };
+
+  /** Formats listed in the Game Library */
+  library: LibraryTemplate[];
+
+  /** Default host route for starting a session */
+  hostRoute: (sessionId: string) => string;
+
+  /** Player route */
+  playerRoute: (sessionCode: string) => string;
+
+  /** Screen/projector route */
+  screenRoute: (sessionCode: string) => string;
+
+  /** Dashboard creation page path */
+  createRoute: string;
+
+  /** Dashboard edit page path */
+  editRoute: (gameId: string) => string;
+
+  /**
+   * Lazy-loaded components for each view.
+   * Using dynamic imports keeps the bundle small — only the active
+   * game type's code is loaded.
+   */
+  components: {
+    HostRemote: () => Promise<{ default: ComponentType<HostRemoteProps> }>;
+    PlayerPage: () => Promise<{ default: ComponentType<PlayerPageProps> }>;
+    ScreenPage: () => Promise<{ default: ComponentType<ScreenPageProps> }>;
+    Editor: () => Promise<{ default: ComponentType<EditorProps> }>;
+  };
+
+  /** Mock-data screens for the /dev preview */
+  devPreview: () => Promise<{ default: DevPreviewScreen[] }>;
+}
+
+/** Counts rows per game_id in a table of game items */
+async function countRowsByGame(
+  supabase: BrowserSupabase,
+  table: string,
+  gameIds: string[]
+): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  if (gameIds.length === 0) return counts;
+  const { data } = await supabase.from(table).select("game_id").in("game_id", gameIds);
+  data?.forEach((r: { game_id: string }) => {
+    counts[r.game_id] = (counts[r.game_id] || 0) + 1;
+  });
+  return counts;
+}
+
+/** Higher or Lower plays another game's items — count those */
+async function countSourceItems(
+  supabase: BrowserSupabase,
+  gameIds: string[]
+): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  if (gameIds.length === 0) return counts;
+  const { data } = await supabase.from("games").select("id, source_game_id").in("id", gameIds);
+  const sources = (data || []).filter((g) => g.source_game_id);
+  const sourceCounts = await countRowsByGame(
+    supabase,
+    "price_is_right_items",
+    sources.map((g) => g.source_game_id)
+  );
+  sources.forEach((g) => {
+    counts[g.id] = sourceCounts[g.source_game_id] || 0;
+  });
+  return counts;
+}
+
+/**
+ * All registered game types. Add new game types here.
+ */
+export const GAME_TYPES: Record<GameType, GameTypeConfig> = {
+  trivia: {
+    key: "trivia",
+    label: "Straight Off The Dome",
+    title: "Straight Off The Dome",
+    description: "Multiple choice questions",
+    icon: "🧠",
+    thumbnail: "/straight-off-the-dome-thumbnail.png",
+    defaultTheme: THEME_PRESETS[3], // Sky Plum — quiz-friendly accent
+    card: {
+      accent: "violet",
+      art: { thumb: "/straight-off-dome-thumb.png", thumbScale: 0.85 },
+    },
+    items: {
+      label: "question",
+      icon: "/straight-off-dome-icon.svg",
+      count: (supabase, gameIds) => countRowsByGame(supabase, "game_questions", gameIds),
+    },
+    library: [
+      {
+        id: "trivia-straight-off-the-dome",
+        title: "Straight Off The Dome",
+        description:
+          "Rapid-fire trivia. Pick the correct answer before time runs out. The faster you answer, the more points you earn.",
+        playerRange: "2–12 players",
+        art: { thumb: "/straight-off-dome-thumb.png", thumbScale: 0.85 },
+        accent: "violet",
+      },
+    ],
+    hostRoute: (sessionId) => `/host/${sessionId}`,
+    playerRoute: (sessionCode) => `/play/${sessionCode}`,
+    screenRoute: (sessionCode) => `/screen/${sessionCode}`,
+    createRoute: "/dashboard/games/new/straight-off-the-dome",
+    editRoute: (gameId) => `/dashboard/games/${gameId}`,
+    components: {
+      HostRemote: () => import("@/components/games/trivia/HostRemote"),
+      PlayerPage: () => import("@/components/games/trivia/PlayerPage"),
+      ScreenPage: () => import("@/components/games/trivia/ScreenPage"),
+      Editor: () => import("@/components/games/trivia/Editor"),
+    },
+    devPreview: () => import("@/components/games/trivia/DevPreview"),
+  },
+  price_is_right: {
+    key: "price_is_right",
+    label: "That Costs How Much!?",
+    title: (
+      <>
+        That Costs <span className="italic">How</span> Much!?
+      </>
+    ),
+    description: "Guess the price of items",
+    icon: "💰",
+    thumbnail: "/that-costs-how-much-thumbnail.png",
+    defaultTheme: THEME_PRESETS[0], // Snow Indigo — clean default
+    card: {
+      accent: "lime",
+      art: { thumb: "/that-costs-how-much-thumb.png", thumbAnchor: "bottom" },
+    },
+    items: {
+      label: "product",
+      icon: "/cart-link.svg",
+      count: (supabase, gameIds) => countRowsByGame(supabase, "price_is_right_items", gameIds),
+    },
+    library: [
+      {
+        id: "pir-that-costs-how-much",
+        title: (
+          <>
+            That Costs <span className="italic">How</span> Much!?
+          </>
+        ),
+        description:
+          "Watch a product appear on screen. Use your phone to guess the price. The closer you get, the more points you earn — but guess too wildly and you'll pay for it.",
+        playerRange: "2–12 players",
+        art: { thumb: "/that-costs-how-much-thumb.png", thumbAnchor: "bottom" },
+        accent: "lime",
+      },
+      {
+        id: "pir-the-stalk-market",
+        title: "The Stalk Market",
+        description:
+          "A grocery-aisle spin on guess-the-price. Watch the item, punch in your guess, and earn points for how close you land.",
+        playerRange: "2–12 players",
+        art: { thumb: "/stalk-market-thumb.png", thumbAnchor: "bottom", thumbScale: 1.2 },
+        accent: "coral",
+      },
+    ],
+    hostRoute: (sessionId) => `/host/${sessionId}`,
+    playerRoute: (sessionCode) => `/play/${sessionCode}`,
+    screenRoute: (sessionCode) => `/screen/${sessionCode}`,
+    createRoute: "/dashboard/games/new/that-costs-how-much",
+    editRoute: (gameId) => `/dashboard/games/${gameId}`,
+    components: {
+      HostRemote: () => import("@/components/games/pir/HostRemote"),
+      PlayerPage: () => import("@/components/games/pir/PlayerPage"),
+      ScreenPage: () => import("@/components/games/pir/ScreenPage"),
+      Editor: () => import("@/components/games/pir/Editor"),
+    },
+    devPreview: () => import("@/components/games/pir/DevPreview"),
+  },
+  higher_or_lower: {
+    key: "higher_or_lower",
+    label: "Higher or Lower",
+    title: (
+      <>
+        Higher <span className="italic">or</span> Lower
+      </>
+    ),
+    description: "Call the next price higher or lower",
+    icon: "↕️",
+    thumbnail: "/that-costs-how-much-thumbnail.png",
+    defaultTheme: THEME_PRESETS[0],
+    card: {
+      accent: "teal",
+      art: { thumb: "/that-costs-how-much-thumb.png", thumbAnchor: "bottom" },
+    },
+    items: {
+      label: "product",
+      icon: "/cart-link.svg",
+      count: countSourceItems,
+    },
+    library: [
+      {
+        id: "hol-higher-or-lower",
+        title: (
+          <>
+            Higher <span className="italic">or</span> Lower
+          </>
+        ),
+        description:
+          "Plays the products from any of your That Costs How Much!? games. One price is on screen — is the next one higher or lower? Keep your streak alive for bigger points.",
+        playerRange: "2–12 players",
+        art: { thumb: "/that-costs-how-much-thumb.png", thumbAnchor: "bottom" },
+        accent: "teal",
+      },
+    ],
+    hostRoute: (sessionId) => `/host/${sessionId}`,
+    playerRoute: (sessionCode) => `/play/${sessionCode}`,
+    screenRoute: (sessionCode) => `/screen/${sessionCode}`,
+    createRoute: "/dashboard/games/new/higher-or-lower",
+    editRoute: (gameId) => `/dashboard/games/${gameId}`,
+    components: {
+      HostRemote: () => import("@/components/games/hol/HostRemote"),
+      PlayerPage: () => import("@/components/games/hol/PlayerPage"),
+      ScreenPage: () => import("@/components/games/hol/ScreenPage"),
+      Editor: () => import("@/components/games/hol/Editor"),
+    },
+    devPreview: () => import("@/components/games/hol/DevPreview"),
+  },
+  survey_says: {
+    key: "survey_says",
+    label: "Survey Says",
+    title: "Survey Says",
+    description: "Name the most popular answers",
+    icon: "📋",
+    thumbnail: "/straight-off-the-dome-thumbnail.png",
+    defaultTheme: THEME_PRESETS[5], // Butter Amber — game-show gold
+    card: {
+      accent: "sunflower",
+      art: { thumb: "/straight-off-dome-thumb.png", thumbScale: 0.85 },
+    },
+    items: {
+      label: "question",
+      icon: "/straight-off-dome-icon.svg",
+      count: (supabase, gameIds) => countRowsByGame(supabase, "survey_questions", gameIds),
+    },
+    library: [
+      {
+        id: "survey-says",
+        title: "Survey Says",
+        description:
+          "We asked 100 people… Type the most popular answers to flip them on the board. Three wrong guesses and you're struck out — play solo or in teams.",
+        playerRange: "2–12 players",
+        art: { thumb: "/straight-off-dome-thumb.png", thumbScale: 0.85 },
+        accent: "sunflower",
+      },
+    ],
+    hostRoute: (sessionId) => `/host/${sessionId}`,
+    playerRoute: (sessionCode) => `/play/${sessionCode}`,
+    screenRoute: (sessionCode) => `/screen/${sessionCode}`,
+    createRoute: "/dashboard/games/new/survey-says",
+    editRoute: (gameId) => `/dashboard/games/${gameId}`,
+    components: {
+      HostRemote: () => import("@/components/games/survey/HostRemote"),
+      PlayerPage: () => import("@/components/games/survey/PlayerPage"),
+      ScreenPage: () => import("@/components/games/survey/ScreenPage"),
+      Editor: () => import("@/components/games/survey/Editor"),
+    },
+    devPreview: () => import("@/components/games/survey/DevPreview"),
+  },
+};
+
+/** Get config for a game type, with fallback to trivia */
+export function getGameTypeConfig(gameType: GameType): GameTypeConfig {
+  return GAME_TYPES[gameType] || GAME_TYPES.trivia;
+}
+
+/** Get all game types as an array (useful for rendering menus) */
+export function getAllGameTypes(): GameTypeConfig[] {
+  return Object.values(GAME_TYPES);
+}
@@ -0,0 +1,34 @@
+/**
+ * Opening a session for a game. The dashboard's Start button and
+ * /api/playlists both build the new sessions row here, so a game plays the
+ * same whether it's started on its own or as part of a game night.
+ */
+import type { DisplayMode, Game, Session } from "./types";
+
+export interface NewSessionOptions {
+  hostId: string;
+  code: string;
+  displayMode: DisplayMode;
+  playlistId?: string | null;
+}
+
+/** The sessions row a lobby starts from, with the game's own settings copied over */
+export function newSessionRow(
+  game: Pick<Game, "id" | "game_type" | "timer_seconds" | "speed_bonus" | "scoring_rule" | "power_ups">,
+  { hostId, code, displayMode, playlistId = null }: NewSessionOptions
+): Partial<Session> {
+  return {
+    game_id: game.id,
+    host_id: hostId,
+    code,
+    status: "lobby",
+    current_question_index: -1,
+    timer_seconds: game.timer_seconds,
+    // Only trivia scores by speed; other games never turn it on
+    speed_bonus: game.game_type === "trivia" && game.speed_bonus,
+    scoring_rule: game.scoring_rule,
+    power_ups: game.power_ups,
+    display_mode: displayMode,
+    playlist_id: playlistId,
+  };
+}
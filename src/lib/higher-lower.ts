@@ -0,0 +1,116 @@
+/**
+ * Higher or Lower — rules shared by /api/hol and the clients.
+ *
+ * A game plays the items of one That Costs How Much game (games.source_game_id)
+ * in item order. Round n shows item n with its price, then item n + 1; players
+ * call whether its price is higher or lower. Correct calls score more the
+ * longer the player's streak runs. A wrong or missed call either knocks the
+ * player out or costs points, depending on games.hol_wrong_answer.
+ */
+import type { HigherLowerVote, HoLVote, HoLWrongAnswer, PriceIsRightItem } from "./types";
+
+/** Points for a correct call on a fresh streak */
+export const HOL_BASE_POINTS = 100;
+/** Added per correct call already in the streak */
+export const HOL_STREAK_BONUS = 50;
+/** Most the streak can add to one call */
+export const HOL_MAX_STREAK_BONUS = 250;
+/** Taken off a wrong or missed call when wrong answers lose points */
+export const HOL_WRONG_PENALTY = 100;
+
+export const HOL_DEFAULT_TIMER_SECONDS = 15;
+
+export const HOL_WRONG_ANSWER_RULES: Record<HoLWrongAnswer, { label: string; description: string }> = {
+  eliminate: {
+    label: "Knock them out",
+    description: "One wrong call and you're out. Last ones standing keep scoring.",
+  },
+  lose_points: {
+    label: "Lose points",
+    description: `A wrong call costs ${HOL_WRONG_PENALTY} points and ends your streak.`,
+  },
+};
+
+type HoLItem = Pick<PriceIsRightItem, "id" | "item_order" | "price">;
+
+/** Play order, matching get_hol_round(): by item_order, then id */
+export function sortHoLItems<T extends HoLItem>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.item_order - b.item_order || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+/** Each round compares two neighbouring items */
+export function getHoLRoundCount(itemCount: number): number {
+  return Math.max(0, itemCount - 1);
+}
+
+/** The item already on screen and the one players call, for a round of sorted items */
+export function getHoLPair<T extends HoLItem>(items: T[], round: number): { shown: T; next: T } | null {
+  if (round < 0 || round + 1 >= items.length) return null;
+  return { shown: items[round], next: items[round + 1] };
+}
+
+/** The right call, or null when both cost the same (either call counts) */
+export function getHoLAnswer(shown: Pick<HoLItem, "price">, next: Pick<HoLItem, "price">): HoLVote | null {
+  if (next.price === shown.price) return null;
+  return next.price > shown.price ? "higher" : "lower";
+}
+
+export function isHoLVoteCorrect(vote: HoLVote | null, answer: HoLVote | null): boolean {
+  return vote !== null && (answer === null || vote === answer);
+}
+
+/** Points for a correct call that makes the streak `streak` long */
+export function getHoLPoints(streak: number): number {
+  return HOL_BASE_POINTS + Math.min(HOL_STREAK_BONUS * Math.max(0, streak - 1), HOL_MAX_STREAK_BONUS);
+}
+
+/** A call's result, given the player's streak going into the round */
+export function scoreHoLVote(
+  vote: HoLVote | null,
+  answer: HoLVote | null,
+  previousStreak: number,
+  rule: HoLWrongAnswer
+): Pick<HigherLowerVote, "is_correct" | "streak" | "points_awarded"> {
+  if (isHoLVoteCorrect(vote, answer)) {
+    const streak = previousStreak + 1;
+    return { is_correct: true, streak, points_awarded: getHoLPoints(streak) };
+  }
+  return {
+    is_correct: false,
+    streak: 0,
+    points_awarded: rule === "lose_points" ? -HOL_WRONG_PENALTY : 0,
+  };
+}
+
+/** A vote list with one realtime insert, update or delete applied */
+export function mergeHoLVote(
+  votes: HigherLowerVote[],
+  eventType: "INSERT" | "UPDATE" | "DELETE",
+  row: Partial<HigherLowerVote>
+): HigherLowerVote[] {
+  if (eventType === "DELETE") return votes.filter((v) => v.id !== row.id);
+  const vote = row as HigherLowerVote;
+  return [...votes.filter((v) => v.id !== vote.id), vote];
+}
+
+/** Each player's streak after their latest scored call */
+export function getHoLStreaks(
+  votes: Pick<HigherLowerVote, "player_id" | "round" | "is_correct" | "streak">[]
+): Map<string, number> {
+  const latest = new Map<string, { round: number; streak: number }>();
+  for (const v of votes) {
+    if (v.is_correct === null) continue;
+    const seen = latest.get(v.player_id);
+    if (!seen || v.round > seen.round) latest.set(v.player_id, { round: v.round, streak: v.streak });
+  }
+  return new Map([...latest].map(([playerId, v]) => [playerId, v.streak]));
+}
+
+/** Players knocked out by a wrong call — always none when wrong answers lose points */
+export function getEliminatedPlayerIds(
+  votes: Pick<HigherLowerVote, "player_id" | "is_correct">[],
+  rule: HoLWrongAnswer
+): Set<string> {
+  if (rule !== "eliminate") return new Set();
+  return new Set(votes.filter((v) => v.is_correct === false).map((v) => v.player_id));
+}
@@ -0,0 +1,294 @@
+/**
+ * Higher or Lower API — handles all game phase transitions
+ * POST /api/hol with { action, sessionId, ... } — registered in lib/game-actions
+ *
+ * Host actions require the logged-in session owner; submit_vote requires the
+ * player's signed { playerToken } (see lib/session-auth). Phase changes are
+ * refused unless lib/session-machine allows them from the current phase.
+ * Scoring rules live in lib/higher-lower.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceSupabase } from "@/lib/supabase/server";
+import { isPastDeadline } from "@/lib/answer-window";
+import { authorizeHost, authorizePlayer } from "@/lib/session-auth";
+import {
+  getEliminatedPlayerIds,
+  getHoLAnswer,
+  getHoLPair,
+  getHoLRoundCount,
+  scoreHoLVote,
+  sortHoLItems,
+} from "@/lib/higher-lower";
+import {
+  canHoL,
+  getHoLStage,
+  isHoLAction,
+  transitionError,
+  type HoLAction,
+} from "@/lib/session-machine";
+import type { Game, HigherLowerVote, PriceIsRightItem, Session } from "@/lib/types";
+
+export default async function handleHoLAction(req: NextRequest) {
+  const supabase = await createServiceSupabase();
+  const body = await req.json();
+  const { action, sessionId } = body;
+
+  if (!sessionId) {
+    return NextResponse.json({ error: "sessionId required" }, { status: 400 });
+  }
+
+  try {
+    // submitVote resolves (and verifies) the player from the token itself
+    if (action !== "submit_vote") {
+      const denied = await authorizeHost(supabase, sessionId);
+      if (denied) return denied;
+    }
+
+    if (isHoLAction(action)) {
+      const refused = await validateTransition(supabase, sessionId, action);
+      if (refused) return refused;
+    }
+
+    switch (action) {
+      case "start_game": return await startGame(supabase, sessionId);
+      case "submit_vote": return await submitVote(supabase, body);
+      case "reveal": return await reveal(supabase, sessionId);
+      case "next_round": return await nextRound(supabase, sessionId);
+      case "finish_game": return await finishGame(supabase, sessionId);
+      default:
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+type SB = Awaited<ReturnType<typeof createServiceSupabase>>;
+
+async function validateTransition(
+  supabase: SB,
+  sessionId: string,
+  action: HoLAction
+): Promise<NextResponse | null> {
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("status, hol_phase")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (!session) throw new Error("Session not found");
+
+  const stage = getHoLStage(session);
+  if (!canHoL(stage, action)) {
+    return NextResponse.json({ error: transitionError(stage, action) }, { status: 409 });
+  }
+  return null;
+}
+
+/** A session row with the settings it needs from its game, as joined by select("..., games(...)") */
+type WithGame<S, G extends keyof Game> = S & { games: Pick<Game, G> | null };
+
+/** The session, its game's wrong-answer rule, and the source game's items in play order */
+async function getSessionWithItems(supabase: SB, sessionId: string) {
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("*, games(source_game_id, hol_wrong_answer)")
+    .eq("id", sessionId)
+    .single<WithGame<Session, "source_game_id" | "hol_wrong_answer">>();
+  if (!session) throw new Error("Session not found");
+
+  const sourceGameId = session.games?.source_game_id ?? null;
+  const { data: items } = sourceGameId
+    ? await supabase.from("price_is_right_items").select("*").eq("game_id", sourceGameId)
+    : { data: [] };
+
+  return {
+    session,
+    rule: session.games?.hol_wrong_answer ?? "eliminate",
+    items: sortHoLItems((items || []) as PriceIsRightItem[]),
+  };
+}
+
+function voteEndsAt(timerSeconds: number) {
+  return new Date(Date.now() + timerSeconds * 1000).toISOString();
+}
+
+async function startGame(supabase: SB, sessionId: string) {
+  const { session, items } = await getSessionWithItems(supabase, sessionId);
+
+  if (getHoLRoundCount(items.length) === 0) {
+    return NextResponse.json(
+      { error: "The source game needs at least two products" },
+      { status: 400 }
+    );
+  }
+
+  // Clear any votes from an earlier run
+  await supabase.from("higher_lower_votes").delete().eq("session_id", sessionId);
+
+  await supabase.from("sessions").update({
+    status: "playing",
+    current_question_index: 0,
+    hol_phase: "voting",
+    hol_vote_ends_at: voteEndsAt(session.timer_seconds),
+  }).eq("id", sessionId);
+
+  return NextResponse.json({ success: true });
+}
+
+async function submitVote(
+  supabase: SB,
+  body: { sessionId: string; playerToken: string; round: number; vote: string }
+) {
+  const { sessionId, playerToken, round, vote } = body;
+
+  const caller = await authorizePlayer(supabase, sessionId, playerToken);
+  if (caller instanceof NextResponse) return caller;
+  const { playerId } = caller;
+
+  if (vote !== "higher" && vote !== "lower") {
+    return NextResponse.json({ error: "Vote higher or lower" }, { status: 400 });
+  }
+
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("status, hol_phase, hol_vote_ends_at, current_question_index, games(hol_wrong_answer)")
+    .eq("id", sessionId)
+    .single<
+      WithGame<Pick<Session, "status" | "hol_phase" | "hol_vote_ends_at" | "current_question_index">, "hol_wrong_answer">
+    >();
+
+  if (!session) throw new Error("Session not found");
+  if (
+    getHoLStage(session) !== "voting" ||
+    session.current_question_index !== round ||
+    isPastDeadline(session.hol_vote_ends_at)
+  ) {
+    return NextResponse.json({ error: "Time's up — voting is closed" }, { status: 409 });
+  }
+
+  const { data: earlier } = await supabase
+    .from("higher_lower_votes")
+    .select("player_id, is_correct")
+    .eq("session_id", sessionId)
+    .eq("player_id", playerId)
+    .lt("round", round);
+
+  const rule = session.games?.hol_wrong_answer ?? "eliminate";
+  if (getEliminatedPlayerIds(earlier || [], rule).has(playerId)) {
+    return NextResponse.json({ error: "You've been knocked out" }, { status: 409 });
+  }
+
+  // Players may change their call until the clock runs out
+  await supabase.from("higher_lower_votes").upsert({
+    session_id: sessionId,
+    player_id: playerId,
+    round,
+    vote,
+  }, {
+    onConflict: "session_id,player_id,round",
+  });
+
+  return NextResponse.json({ success: true });
+}
+
+async function reveal(supabase: SB, sessionId: string) {
+  const { session, rule, items } = await getSessionWithItems(supabase, sessionId);
+  const round: number = session.current_question_index;
+  const pair = getHoLPair(items, round);
+
+  if (!pair) throw new Error("No products for this round");
+  const answer = getHoLAnswer(pair.shown, pair.next);
+
+  const { data: players } = await supabase
+    .from("session_players")
+    .select("id")
+    .eq("session_id", sessionId)
+    .eq("is_removed", false);
+
+  const { data: votes } = await supabase
+    .from("higher_lower_votes")
+    .select("*")
+    .eq("session_id", sessionId)
+    .lte("round", round);
+
+  const allVotes = (votes || []) as HigherLowerVote[];
+  const eliminated = getEliminatedPlayerIds(allVotes.filter((v) => v.round < round), rule);
+  const previousStreaks = new Map(
+    allVotes.filter((v) => v.round === round - 1).map((v) => [v.player_id, v.streak])
+  );
+  const calls = new Map(allVotes.filter((v) => v.round === round).map((v) => [v.player_id, v.vote]));
+
+  // Everyone still in gets a scored row; a missed vote counts as a wrong call
+  const scored = (players || [])
+    .filter((p) => !eliminated.has(p.id))
+    .map((p) => {
+      const vote = calls.get(p.id) ?? null;
+      return {
+        session_id: sessionId,
+        player_id: p.id,
+        round,
+        vote,
+        ...scoreHoLVote(vote, answer, previousStreaks.get(p.id) ?? 0, rule),
+      };
+    });
+
+  if (scored.length > 0) {
+    await supabase.from("higher_lower_votes").upsert(scored, {
+      onConflict: "session_id,player_id,round",
+    });
+  }
+
+  await supabase.from("sessions").update({
+    hol_phase: "reveal",
+  }).eq("id", sessionId);
+
+  return NextResponse.json({ success: true });
+}
+
+async function nextRound(supabase: SB, sessionId: string) {
+  const { session, rule, items } = await getSessionWithItems(supabase, sessionId);
+  const nextRoundIndex = session.current_question_index + 1;
+
+  let nobodyLeft = false;
+  if (rule === "eliminate") {
+    const { data: players } = await supabase
+      .from("session_players")
+      .select("id")
+      .eq("session_id", sessionId)
+      .eq("is_removed", false);
+    const { data: votes } = await supabase
+      .from("higher_lower_votes")
+      .select("player_id, is_correct")
+      .eq("session_id", sessionId);
+    const eliminated = getEliminatedPlayerIds(votes || [], rule);
+    nobodyLeft = !(players || []).some((p) => !eliminated.has(p.id));
+  }
+
+  if (nextRoundIndex >= getHoLRoundCount(items.length) || nobodyLeft) {
+    await supabase.from("sessions").update({
+      status: "finished",
+      ended_at: new Date().toISOString(),
+    }).eq("id", sessionId);
+
+    return NextResponse.json({ success: true, finished: true });
+  }
+
+  await supabase.from("sessions").update({
+    current_question_index: nextRoundIndex,
+    hol_phase: "voting",
+    hol_vote_ends_at: voteEndsAt(session.timer_seconds),
+  }).eq("id", sessionId);
+
+  return NextResponse.json({ success: true, finished: false });
+}
+
+async function finishGame(supabase: SB, sessionId: string) {
+  await supabase.from("sessions").update({
+    status: "finished",
+    ended_at: new Date().toISOString(),
+  }).eq("id", sessionId);
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,511 @@
+/**
+ * Price Is Right API — handles all game phase transitions
+ * POST /api/pir with { action, sessionId, ... } — registered in lib/game-actions
+ *
+ * Host actions require the logged-in session owner; submit_guess requires the
+ * player's signed { playerToken } (see lib/session-auth). In on-the-go mode
+ * paid_the_price may instead come from the phone spinning the wheel, and
+ * either way lands on one wheel candidate per item. Phase changes are
+ * refused unless lib/session-machine allows them from the current phase, apply
+ * only if no other remote moved the session first, and are recorded in the
+ * action log (when they run) so undo / rewind ({ index }) can restore them.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceSupabase } from "@/lib/supabase/server";
+import { getScoreData, getWheelCandidates, getWheelSpinner } from "@/lib/pir-scoring";
+import { isPastDeadline } from "@/lib/answer-window";
+import { getItemTimerSeconds, PIR_EXTEND_SECONDS } from "@/lib/pir-timer";
+import { authorizeHost, authorizePlayer } from "@/lib/session-auth";
+import { logStep, rewindTo, undoLastAction } from "@/lib/action-log";
+import {
+  canPIR,
+  getPIRStage,
+  isPIRAction,
+  transitionError,
+  type PIRAction,
+} from "@/lib/session-machine";
+import type { Session } from "@/lib/types";
+
+export default async function handlePIRAction(req: NextRequest) {
+  const supabase = await createServiceSupabase();
+  const body = await req.json();
+  const { action, sessionId } = body;
+
+  if (!sessionId) {
+    return NextResponse.json({ error: "sessionId required" }, { status: 400 });
+  }
+
+  try {
+    const denied = await authorize(supabase, body);
+    if (denied) return denied;
+
+    if (isPIRAction(action)) {
+      const from = await loadPIRState(supabase, sessionId);
+      const stage = getPIRStage(from);
+      if (!canPIR(stage, action)) {
+        return NextResponse.json({ error: transitionError(stage, action) }, { status: 409 });
+      }
+      // Refused steps and lost races leave no log entry, so one undo reverses one step
+      const step = () => runStep(supabase, body, action, from);
+      return await logStep(supabase, sessionId, "price_is_right", action, step, (res) => res.ok);
+    }
+
+    switch (action) {
+      case "submit_guess": return await submitGuess(supabase, body);
+      case "undo": return await undo(supabase, sessionId);
+      case "rewind": return await rewind(supabase, body);
+      default:
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+type SB = Awaited<ReturnType<typeof createServiceSupabase>>;
+
+async function authorize(
+  supabase: SB,
+  body: { action: string; sessionId: string; playerToken?: string }
+): Promise<NextResponse | null> {
+  const { action, sessionId, playerToken } = body;
+
+  // submitGuess resolves (and verifies) the player from the token itself
+  if (action === "submit_guess") return null;
+
+  // In on-the-go mode the penalty wheel spins on one player's phone (see
+  // getWheelSpinner), so that player may report its result. Otherwise it's
+  // the host's screen.
+  if (action === "paid_the_price" && playerToken) {
+    const { data: session } = await supabase
+      .from("sessions")
+      .select("display_mode, pir_current_item_id")
+      .eq("id", sessionId)
+      .maybeSingle();
+    if (session?.display_mode === "on_the_go" && session.pir_current_item_id) {
+      const caller = await authorizePlayer(supabase, sessionId, playerToken);
+      if (caller instanceof NextResponse) return caller;
+
+      const guesses = await getItemGuesses(supabase, sessionId, session.pir_current_item_id);
+      if (caller.playerId !== getWheelSpinner(guesses)) {
+        return NextResponse.json({ error: "Only the player spinning the wheel can report it" }, { status: 403 });
+      }
+      return null;
+    }
+  }
+
+  return authorizeHost(supabase, sessionId);
+}
+
+/** Where a step found the session; it only applies while the session is still there */
+type PIRState = Pick<Session, "status" | "pir_phase" | "pir_current_item_id" | "pir_paused_remaining_ms">;
+
+async function loadPIRState(supabase: SB, sessionId: string): Promise<PIRState> {
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("status, pir_phase, pir_current_item_id, pir_paused_remaining_ms")
+    .eq("id", sessionId)
+    .maybeSingle<PIRState>();
+
+  if (!session) throw new Error("Session not found");
+  return session;
+}
+
+/** A host step; anything but an ok response leaves no action-log entry */
+function runStep(
+  supabase: SB,
+  body: { sessionId: string; playerId: string },
+  action: PIRAction,
+  from: PIRState
+): Promise<NextResponse> {
+  const { sessionId } = body;
+  switch (action) {
+    case "start_game": return startGame(supabase, sessionId, from);
+    case "pause_guessing": return pauseGuessing(supabase, sessionId, from);
+    case "resume_guessing": return resumeGuessing(supabase, sessionId, from);
+    case "extend_guessing": return extendGuessing(supabase, sessionId, from);
+    case "close_guessing": return closeGuessing(supabase, sessionId, from);
+    case "show_price_result": return showPriceResult(supabase, sessionId, from);
+    case "pay_the_price": return payThePrice(supabase, sessionId, from);
+    case "paid_the_price": return paidThePrice(supabase, body, from);
+    case "show_leaderboard": return showLeaderboard(supabase, sessionId, from);
+    case "next_item": return nextItem(supabase, sessionId, from);
+    case "finish_game": return finishGame(supabase, sessionId, from);
+  }
+}
+
+/**
+ * Updates the session only while it's still in the phase, item and pause
+ * state `from` found it in, so two remotes can't both take a step. False when
+ * another caller moved it first.
+ */
+async function advance(
+  supabase: SB,
+  sessionId: string,
+  from: PIRState,
+  updates: Partial<Session>
+): Promise<boolean> {
+  let query = supabase
+    .from("sessions")
+    .update(updates)
+    .eq("id", sessionId)
+    .eq("status", from.status)
+    .eq("pir_phase", from.pir_phase);
+  query = from.pir_current_item_id === null
+    ? query.is("pir_current_item_id", null)
+    : query.eq("pir_current_item_id", from.pir_current_item_id);
+  query = from.pir_paused_remaining_ms === null
+    ? query.is("pir_paused_remaining_ms", null)
+    : query.eq("pir_paused_remaining_ms", from.pir_paused_remaining_ms);
+
+  const { data } = await query.select("id");
+  return !!data?.length;
+}
+
+/** Another caller (a second remote, the wheel's phone) took the step first */
+function movedOn() {
+  return NextResponse.json({ error: "The game already moved on" }, { status: 409 });
+}
+
+async function getItemGuesses(supabase: SB, sessionId: string, itemId: string) {
+  const { data: guesses } = await supabase
+    .from("price_guesses")
+    .select("player_id, tier, guess_accuracy, paid_the_price")
+    .eq("session_id", sessionId)
+    .eq("item_id", itemId);
+  return guesses || [];
+}
+
+async function getSessionWithGame(supabase: SB, sessionId: string) {
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("*, games(*, price_is_right_items(*))")
+    .eq("id", sessionId)
+    .single();
+  if (!session) throw new Error("Session not found");
+  return session;
+}
+
+async function startGame(supabase: SB, sessionId: string, from: PIRState) {
+  const session = await getSessionWithGame(supabase, sessionId);
+  const items = (session.games?.price_is_right_items || []).sort(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (a: any, b: any) => a.item_order - b.item_order
+  );
+
+  if (items.length === 0) {
+    return NextResponse.json({ error: "No items in game" }, { status: 400 });
+  }
+
+  const firstItem = items[0];
+
+  const started = await advance(supabase, sessionId, from, {
+    status: "playing",
+    current_question_index: 0,
+    pir_current_item_id: firstItem.id,
+    pir_current_item_order: 0,
+    pir_item_end_timestamp: new Date(
+      Date.now() + getItemTimerSeconds(firstItem, session) * 1000
+    ).toISOString(),
+    pir_paused_remaining_ms: null,
+    pir_closed_at: null,
+    pir_phase: "guessing",
+  });
+  if (!started) return movedOn();
+
+  // Clear any guesses from an earlier run
+  await supabase.from("price_guesses").delete().eq("session_id", sessionId);
+
+  return NextResponse.json({ success: true });
+}
+
+async function pauseGuessing(supabase: SB, sessionId: string, from: PIRState) {
+  const session = await getSessionWithGame(supabase, sessionId);
+  const remaining = session.pir_item_end_timestamp
+    ? Math.max(0, new Date(session.pir_item_end_timestamp).getTime() - Date.now())
+    : 0;
+
+  if (!(await advance(supabase, sessionId, from, { pir_paused_remaining_ms: remaining }))) {
+    return movedOn();
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+async function resumeGuessing(supabase: SB, sessionId: string, from: PIRState) {
+  const resumed = await advance(supabase, sessionId, from, {
+    pir_item_end_timestamp: new Date(Date.now() + (from.pir_paused_remaining_ms || 0)).toISOString(),
+    pir_paused_remaining_ms: null,
+  });
+  if (!resumed) return movedOn();
+
+  return NextResponse.json({ success: true });
+}
+
+async function extendGuessing(supabase: SB, sessionId: string, from: PIRState) {
+  const session = await getSessionWithGame(supabase, sessionId);
+  const extraMs = PIR_EXTEND_SECONDS * 1000;
+
+  let extended: boolean;
+  if (from.pir_paused_remaining_ms !== null) {
+    extended = await advance(supabase, sessionId, from, {
+      pir_paused_remaining_ms: from.pir_paused_remaining_ms + extraMs,
+    });
+  } else {
+    // Extending after the clock ran out reopens guessing from now
+    const currentEnd = session.pir_item_end_timestamp
+      ? new Date(session.pir_item_end_timestamp).getTime()
+      : 0;
+    extended = await advance(supabase, sessionId, from, {
+      pir_item_end_timestamp: new Date(Math.max(currentEnd, Date.now()) + extraMs).toISOString(),
+      pir_closed_at: null,
+    });
+  }
+  if (!extended) return movedOn();
+
+  return NextResponse.json({ success: true });
+}
+
+async function closeGuessing(supabase: SB, sessionId: string, from: PIRState) {
+  const now = new Date().toISOString();
+  const closed = await advance(supabase, sessionId, from, {
+    pir_item_end_timestamp: now,
+    pir_paused_remaining_ms: null,
+    pir_closed_at: now,
+  });
+  if (!closed) return movedOn();
+
+  return NextResponse.json({ success: true });
+}
+
+async function submitGuess(supabase: SB, body: { sessionId: string; playerToken: string; itemId: string; guess: number }) {
+  const { sessionId, playerToken, itemId, guess } = body;
+
+  const caller = await authorizePlayer(supabase, sessionId, playerToken);
+  if (caller instanceof NextResponse) return caller;
+  const { playerId } = caller;
+
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("status, pir_phase, pir_paused_remaining_ms, pir_current_item_id, pir_item_end_timestamp, pir_closed_at")
+    .eq("id", sessionId)
+    .single();
+
+  if (!session) throw new Error("Session not found");
+  if (getPIRStage(session) === "guessing_paused") {
+    return NextResponse.json({ error: "Guessing is paused" }, { status: 409 });
+  }
+  if (
+    getPIRStage(session) !== "guessing" ||
+    session.pir_current_item_id !== itemId ||
+    // Closing early is final; only the natural timer gets the grace period
+    session.pir_closed_at !== null ||
+    isPastDeadline(session.pir_item_end_timestamp)
+  ) {
+    return NextResponse.json({ error: "Time's up — guessing is closed" }, { status: 409 });
+  }
+
+  // Get the item to calculate score
+  const { data: item } = await supabase
+    .from("price_is_right_items")
+    .select("*")
+    .eq("id", itemId)
+    .single();
+
+  if (!item) throw new Error("Item not found");
+
+  const scoreData = getScoreData(guess, item.price);
+
+  // Upsert guess
+  await supabase.from("price_guesses").upsert({
+    session_id: sessionId,
+    player_id: playerId,
+    item_id: itemId,
+    guess,
+    score_awarded: scoreData.scoreAwarded,
+    tier: scoreData.tier,
+    guess_accuracy: scoreData.guessAccuracy,
+    paid_the_price: false,
+  }, {
+    onConflict: "session_id,player_id,item_id",
+  });
+
+  return NextResponse.json({ success: true, ...scoreData });
+}
+
+async function showPriceResult(supabase: SB, sessionId: string, from: PIRState) {
+  const currentItemId = from.pir_current_item_id;
+
+  if (!currentItemId) throw new Error("No current item");
+
+  // Get the item for correct price
+  const { data: item } = await supabase
+    .from("price_is_right_items")
+    .select("*")
+    .eq("id", currentItemId)
+    .single();
+
+  if (!item) throw new Error("Item not found");
+
+  // Get all active players
+  const { data: players } = await supabase
+    .from("session_players")
+    .select("id")
+    .eq("session_id", sessionId)
+    .eq("is_removed", false);
+
+  // Get existing guesses for this item
+  const { data: guesses } = await supabase
+    .from("price_guesses")
+    .select("player_id")
+    .eq("session_id", sessionId)
+    .eq("item_id", currentItemId);
+
+  const shown = await advance(supabase, sessionId, from, {
+    pir_phase: "price_result",
+    pir_paused_remaining_ms: null,
+  });
+  if (!shown) return movedOn();
+
+  const guessedPlayerIds = new Set((guesses || []).map(g => g.player_id));
+
+  // Create zero-guesses for non-guessers
+  const nonGuessers = (players || []).filter(p => !guessedPlayerIds.has(p.id));
+  if (nonGuessers.length > 0) {
+    await supabase.from("price_guesses").insert(
+      nonGuessers.map(p => ({
+        session_id: sessionId,
+        player_id: p.id,
+        item_id: currentItemId,
+        guess: 0,
+        score_awarded: 0,
+        tier: "beyond50",
+        guess_accuracy: 0,
+        paid_the_price: false,
+      }))
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+async function payThePrice(supabase: SB, sessionId: string, from: PIRState) {
+  if (!(await advance(supabase, sessionId, from, { pir_phase: "pay_the_price" }))) {
+    return movedOn();
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+async function paidThePrice(supabase: SB, body: { sessionId: string; playerId: string }, from: PIRState) {
+  const { sessionId, playerId } = body;
+  const currentItemId = from.pir_current_item_id;
+
+  if (!currentItemId) throw new Error("No current item");
+
+  // The wheel lands once per item, and only on a candidate
+  const candidates = getWheelCandidates(await getItemGuesses(supabase, sessionId, currentItemId));
+  if (candidates.some((g) => g.paid_the_price)) {
+    return NextResponse.json({ error: "The wheel already landed for this item" }, { status: 409 });
+  }
+  if (!candidates.some((g) => g.player_id === playerId)) {
+    return NextResponse.json({ error: "That player isn't on the wheel" }, { status: 400 });
+  }
+
+  // Set this player's guess score to 0 and mark paid_the_price
+  const { data: paid } = await supabase.from("price_guesses").update({
+    score_awarded: 0,
+    paid_the_price: true,
+    tier: "Paid the Price",
+  }).match({
+    session_id: sessionId,
+    player_id: playerId,
+    item_id: currentItemId,
+    paid_the_price: false,
+  }).select("id");
+  if (!paid?.length) return movedOn();
+
+  return NextResponse.json({ success: true });
+}
+
+async function showLeaderboard(supabase: SB, sessionId: string, from: PIRState) {
+  if (!(await advance(supabase, sessionId, from, { pir_phase: "leaderboard" }))) {
+    return movedOn();
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+async function nextItem(supabase: SB, sessionId: string, from: PIRState) {
+  const session = await getSessionWithGame(supabase, sessionId);
+  const items = (session.games?.price_is_right_items || []).sort(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (a: any, b: any) => a.item_order - b.item_order
+  );
+
+  const currentOrder = session.pir_current_item_order || 0;
+  const nextOrder = currentOrder + 1;
+
+  if (nextOrder >= items.length) {
+    // No more items — finish game
+    const finished = await advance(supabase, sessionId, from, {
+      status: "finished",
+      ended_at: new Date().toISOString(),
+    });
+    if (!finished) return movedOn();
+
+    return NextResponse.json({ success: true, finished: true });
+  }
+
+  const nextItemData = items[nextOrder];
+
+  const moved = await advance(supabase, sessionId, from, {
+    pir_current_item_id: nextItemData.id,
+    pir_current_item_order: nextOrder,
+    pir_item_end_timestamp: new Date(
+      Date.now() + getItemTimerSeconds(nextItemData, session) * 1000
+    ).toISOString(),
+    pir_paused_remaining_ms: null,
+    pir_closed_at: null,
+    pir_phase: "guessing",
+    current_question_index: nextOrder,
+  });
+  if (!moved) return movedOn();
+
+  return NextResponse.json({ success: true, finished: false });
+}
+
+async function finishGame(supabase: SB, sessionId: string, from: PIRState) {
+  const finished = await advance(supabase, sessionId, from, {
+    status: "finished",
+    ended_at: new Date().toISOString(),
+  });
+  if (!finished) return movedOn();
+
+  return NextResponse.json({ success: true });
+}
+
+async function undo(supabase: SB, sessionId: string) {
+  const undone = await undoLastAction(supabase, sessionId, "price_is_right");
+  if (!undone) {
+    return NextResponse.json({ error: "Nothing to undo" }, { status: 409 });
+  }
+
+  return NextResponse.json({ success: true, undone: undone.action });
+}
+
+/** Replays item `index` from the start: restore to just before it, then enter it again */
+async function rewind(supabase: SB, body: { sessionId: string; index: number }) {
+  const { sessionId, index } = body;
+
+  const entered = await rewindTo(supabase, sessionId, "price_is_right", index);
+  if (!entered) {
+    return NextResponse.json({ error: "That item hasn't been played yet" }, { status: 409 });
+  }
+
+  const from = await loadPIRState(supabase, sessionId);
+  const step = () =>
+    entered.action === "start_game" ? startGame(supabase, sessionId, from) : nextItem(supabase, sessionId, from);
+  return logStep(supabase, sessionId, "price_is_right", entered.action, step, (res) => res.ok);
+}
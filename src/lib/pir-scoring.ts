@@ -2,6 +2,10 @@
  * Price Is Right scoring algorithm
  * Ported from the original heyhost priceisright game
  */
+import type { PriceGuess } from "@/lib/types";
+
+/** Points for a perfect guess, the top tier */
+export const PERFECT_GUESS_SCORE = 75;
 
 export interface ScoreData {
   scoreAwarded: number;
@@ -28,7 +32,7 @@ export function getScoreData(
   const percentageDifference = (absoluteDifference / correctPrice) * 100;
 
   if (absoluteDifference === 0) {
-    return { scoreAwarded: 75, tier: "Perfect Guess!", guessAccuracy };
+    return { scoreAwarded: PERFECT_GUESS_SCORE, tier: "Perfect Guess!", guessAccuracy };
   }
   if (percentageDifference <= 10) {
     return { scoreAwarded: 60, tier: "within10", guessAccuracy };
@@ -64,6 +68,27 @@ export function isInPenaltyZone(tierOrAccuracy: string | number, penaltyMargin:
   return PENALTY_TIERS.includes(tierOrAccuracy);
 }
 
+type WheelGuess = Pick<PriceGuess, "player_id" | "tier" | "guess_accuracy" | "paid_the_price">;
+
+/**
+ * The players the Pay the Price wheel can land on for an item: everyone in
+ * the penalty zone, plus whoever it already landed on.
+ */
+export function getWheelCandidates<T extends WheelGuess>(guesses: T[]): T[] {
+  return guesses.filter((g) => g.paid_the_price || (g.tier !== null && isInPenaltyZone(g.tier)));
+}
+
+/**
+ * In on-the-go mode the wheel spins on one phone: the candidate with the
+ * worst guess (ties go to the lowest player id). Null with no candidates.
+ */
+export function getWheelSpinner(guesses: WheelGuess[]): string | null {
+  const [spinner] = [...getWheelCandidates(guesses)].sort(
+    (a, b) => a.guess_accuracy - b.guess_accuracy || a.player_id.localeCompare(b.player_id)
+  );
+  return spinner?.player_id ?? null;
+}
+
 export function formatPrice(cents: number, showPercent: boolean = false): string {
   if (showPercent) return `${cents}%`;
   return `$${(cents / 100).toFixed(2)}`;
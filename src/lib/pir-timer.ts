@@ -0,0 +1,23 @@
+/**
+ * That Costs How Much guessing timer, shared by /api/pir and the clients.
+ *
+ * Each item runs for its own timer_seconds, or the session's timer (copied
+ * from the game) when the item doesn't set one. While paused,
+ * pir_paused_remaining_ms holds the time left and pir_item_end_timestamp is
+ * ignored until resume.
+ */
+import type { PriceIsRightItem, Session } from "./types";
+
+/** How much "add time" puts back on the clock */
+export const PIR_EXTEND_SECONDS = 15;
+
+export function getItemTimerSeconds(
+  item: Pick<PriceIsRightItem, "timer_seconds"> | null | undefined,
+  session: Pick<Session, "timer_seconds">
+): number {
+  return item?.timer_seconds ?? session.timer_seconds;
+}
+
+export function isGuessingPaused(session: Pick<Session, "pir_paused_remaining_ms">): boolean {
+  return session.pir_paused_remaining_ms !== null;
+}
@@ -0,0 +1,57 @@
+/**
+ * Player token storage on the phone (client-side).
+ *
+ * The token issued by /api/players is kept in localStorage per session. A host
+ * can hand a player a rejoin link (?rejoin=<token>) to move them to another
+ * phone; that token replaces whatever was stored.
+ */
+
+function storageKey(sessionId: string) {
+  return `heyhost-player-token-${sessionId}`;
+}
+
+/** Reads the token for this session, preferring a ?rejoin= link over storage */
+export function loadPlayerToken(sessionId: string): string | null {
+  const params = new URLSearchParams(window.location.search);
+  const linked = params.get("rejoin");
+  if (linked) {
+    savePlayerToken(sessionId, linked);
+    // Keep the token out of the address bar so it isn't shared by accident
+    params.delete("rejoin");
+    const query = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (query ? `?${query}` : ""));
+    return linked;
+  }
+  return localStorage.getItem(storageKey(sessionId));
+}
+
+export function savePlayerToken(sessionId: string, token: string) {
+  localStorage.setItem(storageKey(sessionId), token);
+}
+
+/**
+ * Game nights: a phone that played an earlier game on the playlist swaps the
+ * latest of those tokens for this game's carried-over player (see
+ * /api/players carry_over). Does nothing if this game already has a token, or
+ * the player wasn't carried over — then they join like anyone else.
+ */
+export async function carryOverPlayerToken(sessionId: string, earlierSessionIds: string[]) {
+  if (localStorage.getItem(storageKey(sessionId))) return;
+
+  const earlierToken = earlierSessionIds
+    .map((id) => localStorage.getItem(storageKey(id)))
+    .find((token) => token);
+  if (!earlierToken) return;
+
+  try {
+    const res = await fetch("/api/players", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "carry_over", sessionId, token: earlierToken }),
+    });
+    const data = await res.json();
+    if (res.ok) savePlayerToken(sessionId, data.token);
+  } catch (err) {
+    console.error("Failed to carry player over:", err);
+  }
+}
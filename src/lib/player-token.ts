@@ -0,0 +1,74 @@
+/**
+ * Signed player session tokens (server-only).
+ *
+ * Issued by /api/players when a player joins, stored on the phone, and sent
+ * with every answer/guess. The token is scoped to one session and carries the
+ * player's token_version, so the host can move a player to a new phone by
+ * re-issuing — which bumps the version and invalidates the old phone's token.
+ * Tokens expire after PLAYER_TOKEN_TTL_MS, long enough for a game night;
+ * rejoining and carry-over issue a fresh one.
+ *
+ * Format: base64url(JSON claims) + "." + base64url(HMAC-SHA256 signature),
+ * signed with PLAYER_TOKEN_SECRET — there is no fallback key.
+ */
+import { createHmac, timingSafeEqual } from "crypto";
+
+export interface PlayerTokenClaims {
+  /** session_players.session_id */
+  sid: string;
+  /** session_players.id */
+  pid: string;
+  /** session_players.token_version at issue time */
+  ver: number;
+  /** Expiry, in ms since the epoch */
+  exp: number;
+}
+
+/** How long a player token stays valid */
+export const PLAYER_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+function getSigningKey(): string {
+  const key = process.env.PLAYER_TOKEN_SECRET;
+  if (!key) {
+    throw new Error("PLAYER_TOKEN_SECRET is not configured — set it in .env.local to sign player tokens");
+  }
+  return key;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSigningKey()).update(payload).digest("base64url");
+}
+
+export function signPlayerToken(claims: Omit<PlayerTokenClaims, "exp">): string {
+  const expiring: PlayerTokenClaims = { ...claims, exp: Date.now() + PLAYER_TOKEN_TTL_MS };
+  const payload = Buffer.from(JSON.stringify(expiring)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/** Returns the claims if the signature is valid and the token hasn't expired, otherwise null */
+export function verifyPlayerToken(token: string): PlayerTokenClaims | null {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (
+      typeof claims.sid !== "string" ||
+      typeof claims.pid !== "string" ||
+      typeof claims.ver !== "number" ||
+      typeof claims.exp !== "number"
+    ) {
+      return null;
+    }
+    if (claims.exp < Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
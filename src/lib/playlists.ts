@@ -0,0 +1,85 @@
+/**
+ * Game-night playlists: several games of any type — trivia, Price Is Right,
+ * Higher or Lower, Survey Says — run back-to-back under one join code.
+ *
+ * Each game still gets its own session, started by /api/playlists when the
+ * host moves on. Players are carried into it as new session_players rows that
+ * share a playlist_player_id, and phones swap their token over with
+ * /api/players carry_over. Every game plays on the display the host picked
+ * for the night (session_playlists.display_mode). Team mode and the teams
+ * carry over too, with everyone kept on their team; Survey Says has no
+ * majority team score, so once the night reaches one, teams are scored by
+ * total points from then on. Scores stay per game; the playlist's leaderboard
+ * adds them up per player.
+ */
+import type { DisplayMode, PlaylistGame, SessionPlayer } from "./types";
+
+export const MIN_PLAYLIST_GAMES = 2;
+export const MAX_PLAYLIST_GAMES = 10;
+export const MAX_PLAYLIST_NAME_LENGTH = 40;
+
+export const PLAYLIST_DISPLAY_MODES: { value: DisplayMode; label: string }[] = [
+  { value: "tv", label: "TV" },
+  { value: "on_the_go", label: "Phone" },
+];
+
+/** The same person across the playlist's games */
+export function getPlaylistPlayerKey(player: Pick<SessionPlayer, "id" | "playlist_player_id">): string {
+  return player.playlist_player_id ?? player.id;
+}
+
+export interface PlaylistStanding {
+  key: string;
+  display_name: string;
+  avatar_color: string;
+  score: number;
+  /** How many of the playlist's games they've played in */
+  games: number;
+}
+
+/** Cumulative leaderboard from every game's players, best first. Names and colors come from the latest game. */
+export function getPlaylistStandings(players: SessionPlayer[]): PlaylistStanding[] {
+  const byKey = new Map<string, PlaylistStanding>();
+  for (const player of [...players].sort((a, b) => a.joined_at.localeCompare(b.joined_at))) {
+    if (player.is_removed) continue;
+    const key = getPlaylistPlayerKey(player);
+    const existing = byKey.get(key);
+    byKey.set(key, {
+      key,
+      display_name: player.display_name,
+      avatar_color: player.avatar_color,
+      score: (existing?.score ?? 0) + player.score,
+      games: (existing?.games ?? 0) + 1,
+    });
+  }
+  return [...byKey.values()].sort((a, b) => b.score - a.score);
+}
+
+export function sortPlaylistGames<T extends Pick<PlaylistGame, "position">>(games: T[]): T[] {
+  return [...games].sort((a, b) => a.position - b.position);
+}
+
+/** The game the host starts next, if any are left */
+export function getNextPlaylistGame<T extends Pick<PlaylistGame, "position" | "status">>(games: T[]): T | null {
+  return sortPlaylistGames(games).find((g) => g.status === "upcoming") ?? null;
+}
+
+/**
+ * New positions for moving an upcoming game one place earlier (-1) or later
+ * (1) among the other upcoming games, or null when it can't move that way.
+ */
+export function moveUpcomingGame(
+  games: PlaylistGame[],
+  playlistGameId: string,
+  direction: -1 | 1
+): { id: string; position: number }[] | null {
+  const upcoming = sortPlaylistGames(games).filter((g) => g.status === "upcoming");
+  const index = upcoming.findIndex((g) => g.id === playlistGameId);
+  const neighbour = upcoming[index + direction];
+  if (index < 0 || !neighbour) return null;
+  const game = upcoming[index];
+  return [
+    { id: game.id, position: neighbour.position },
+    { id: neighbour.id, position: game.position },
+  ];
+}
@@ -0,0 +1,68 @@
+/**
+ * Trivia power-ups. A game turns on any of them (games.power_ups, copied onto
+ * the session when it starts) and each player can spend each one once per
+ * game, on an open question they haven't answered yet. /api/trivia records
+ * the use in session_power_ups and honours it when scoring.
+ */
+import type { PowerUpId, QuestionType } from "./types";
+
+/** How much longer an extra_time player gets to answer */
+export const EXTRA_TIME_SECONDS = 15;
+
+export interface PowerUp {
+  id: PowerUpId;
+  label: string;
+  description: string;
+  /** Whether it can be spent on a question of this type */
+  appliesTo: (questionType: QuestionType, isWager: boolean) => boolean;
+}
+
+export const POWER_UPS: Record<PowerUpId, PowerUp> = {
+  fifty_fifty: {
+    id: "fifty_fifty",
+    label: "50/50",
+    description: "Removes two wrong choices from your phone. Multiple-choice questions with at least three choices.",
+    appliesTo: (questionType) => questionType === "multiple_choice",
+  },
+  double_points: {
+    id: "double_points",
+    label: "Double Points",
+    description: "Doubles the points your answer earns. A wrong answer costs no more than usual.",
+    appliesTo: (questionType, isWager) =>
+      !isWager && questionType !== "poll" && questionType !== "word_cloud",
+  },
+  extra_time: {
+    id: "extra_time",
+    label: "Extra Time",
+    description: `${EXTRA_TIME_SECONDS} more seconds to answer after the clock runs out.`,
+    appliesTo: () => true,
+  },
+};
+
+export const POWER_UP_IDS = Object.keys(POWER_UPS) as PowerUpId[];
+
+export function isPowerUpId(value: unknown): value is PowerUpId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(POWER_UPS, value);
+}
+
+/** When answers close — ends_at pushed back by any extra time in play */
+export function getAnswerDeadline(endsAt: string | null, extraSeconds: number): string | null {
+  if (!endsAt || !extraSeconds) return endsAt;
+  return new Date(new Date(endsAt).getTime() + extraSeconds * 1000).toISOString();
+}
+
+/** An answer's points once the player's power-ups on that question are applied */
+export function applyPowerUps(points: number, spent: PowerUpId[]): number {
+  return spent.includes("double_points") && points > 0 ? points * 2 : points;
+}
+
+/** Two wrong choices picked at random for a 50/50, or none if there aren't two to take */
+export function pickFiftyFiftyRemovals(choices: { id: string; is_correct: boolean }[]): string[] {
+  const wrong = choices.filter((c) => !c.is_correct).map((c) => c.id);
+  if (wrong.length < 2) return [];
+  const removed: string[] = [];
+  while (removed.length < 2) {
+    removed.push(...wrong.splice(Math.floor(Math.random() * wrong.length), 1));
+  }
+  return removed;
+}
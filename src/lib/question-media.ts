@@ -0,0 +1,85 @@
+/**
+ * Images, audio and video on trivia questions and choices. Files live in the
+ * public question-media bucket under <host id>/<game id>/, and the row keeps
+ * the public URL plus its media_type.
+ */
+import { createClient } from "@/lib/supabase/client";
+import type { MediaType } from "./types";
+
+type SB = ReturnType<typeof createClient>;
+
+export const QUESTION_MEDIA_BUCKET = "question-media";
+
+/** File types the editor's picker offers */
+export const MEDIA_ACCEPT = "image/*,audio/*,video/*";
+
+const MB = 1024 * 1024;
+
+/** Short clips only — every phone and the screen download the whole file */
+export const MAX_MEDIA_BYTES: Record<MediaType, number> = {
+  image: 5 * MB,
+  audio: 10 * MB,
+  video: 25 * MB,
+};
+
+export function getMediaType(mimeType: string): MediaType | null {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("audio/")) return "audio";
+  if (mimeType.startsWith("video/")) return "video";
+  return null;
+}
+
+/**
+ * The storage path of a URL in our bucket, or null for anything else (so
+ * clearing media never tries to delete a file we don't own).
+ */
+export function getQuestionMediaPath(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    const u = new URL(url);
+    const marker = `/storage/v1/object/public/${QUESTION_MEDIA_BUCKET}/`;
+    const idx = u.pathname.indexOf(marker);
+    if (idx < 0) return null;
+    return decodeURIComponent(u.pathname.slice(idx + marker.length));
+  } catch {
+    return null;
+  }
+}
+
+/** Uploads a file for a game. Throws with a message for the host if it's the wrong type or too big. */
+export async function uploadQuestionMedia(
+  supabase: SB,
+  gameId: string,
+  file: File
+): Promise<{ url: string; type: MediaType }> {
+  const type = getMediaType(file.type);
+  if (!type) throw new Error("Please choose an image, audio or video file.");
+  if (file.size > MAX_MEDIA_BYTES[type]) {
+    throw new Error(
+      `That file is ${(file.size / MB).toFixed(1)}MB. Max for ${type} is ${MAX_MEDIA_BYTES[type] / MB}MB.`
+    );
+  }
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not signed in");
+
+  const extension = file.name.includes(".") ? file.name.split(".").pop() : type;
+  const path = `${user.id}/${gameId}/${crypto.randomUUID()}.${extension}`;
+  const { error } = await supabase.storage
+    .from(QUESTION_MEDIA_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+  if (error) throw error;
+
+  const {
+    data: { publicUrl },
+  } = supabase.storage.from(QUESTION_MEDIA_BUCKET).getPublicUrl(path);
+  return { url: publicUrl, type };
+}
+
+/** Deletes a replaced or cleared file if it's in our bucket. Best effort. */
+export function removeQuestionMedia(supabase: SB, url: string | null | undefined) {
+  const path = getQuestionMediaPath(url);
+  if (path) supabase.storage.from(QUESTION_MEDIA_BUCKET).remove([path]).catch(() => {});
+}
@@ -0,0 +1,149 @@
+/**
+ * Straight Off The Dome question formats, shared by the editor, the question
+ * generator and the trivia screens.
+ *
+ * Multiple-choice questions have 2–6 choices with one correct. True/false
+ * questions always have exactly the choices "True" and "False", in that order.
+ * Type-in questions have no choices on the phone — their choices rows are the
+ * accepted answers (all marked correct), graded by lib/answer-matching.
+ * Ordering questions have 3–6 items whose choice_order is the correct
+ * sequence; players get partial credit for each item in the right place.
+ * Multi-select questions have one or more correct choices and are scored by
+ * the question's multi_select_scoring.
+ * Estimate questions have one choice, the true number (above zero), hidden
+ * like type-in answers; guesses earn a share of the points by how close they
+ * are, using the Price Is Right accuracy tiers.
+ *
+ * Pin questions have no choices: players tap the question's image, and score
+ * fully inside the host's target region, tailing off to nothing further out.
+ * Polls and word clouds have no right answer and score nothing: a poll's
+ * choices are its options (none correct; poll_allows_multiple lets players
+ * pick several), and a word cloud has no choices — players type a few words.
+ */
+import { getScoreData, PERFECT_GUESS_SCORE } from "./pir-scoring";
+import type { MultiSelectScoring, QuestionType } from "./types";
+
+export const MIN_CHOICES = 2;
+export const MAX_CHOICES = 6;
+export const DEFAULT_CHOICE_COUNT = 4;
+export const MIN_ORDERING_ITEMS = 3;
+
+export const CHOICE_LETTERS = ["A", "B", "C", "D", "E", "F"];
+
+export const TRUE_FALSE_CHOICES = ["True", "False"];
+
+export const QUESTION_TYPE_OPTIONS: { value: QuestionType; label: string }[] = [
+  { value: "multiple_choice", label: "Multiple choice" },
+  { value: "true_false", label: "True / false" },
+  { value: "type_in", label: "Type-in answer" },
+  { value: "ordering", label: "Put in order" },
+  { value: "multi_select", label: "Select all that apply" },
+  { value: "estimate", label: "Closest number" },
+  { value: "pin", label: "Pin on image" },
+  { value: "poll", label: "Poll (no right answer)" },
+  { value: "word_cloud", label: "Word cloud (no right answer)" },
+];
+
+export const MULTI_SELECT_SCORING_OPTIONS: { value: MultiSelectScoring; label: string }[] = [
+  { value: "all_or_nothing", label: "All or nothing" },
+  { value: "proportional", label: "Partial credit" },
+];
+
+export const CHOICE_COUNT_OPTIONS = Array.from({ length: MAX_CHOICES - MIN_CHOICES + 1 }, (_, i) => ({
+  value: String(MIN_CHOICES + i),
+  label: `${MIN_CHOICES + i} choices`,
+}));
+
+/** Polls and word clouds collect opinions — they add nothing to scores or streaks */
+export function isScoredQuestion(questionType: QuestionType): boolean {
+  return questionType !== "poll" && questionType !== "word_cloud";
+}
+
+/** Fewest choices a question can be left with — a type-in question needs one accepted answer */
+export function getMinChoices(questionType: QuestionType): number {
+  if (questionType === "word_cloud" || questionType === "pin") return 0;
+  if (questionType === "type_in" || questionType === "estimate") return 1;
+  if (questionType === "ordering") return MIN_ORDERING_ITEMS;
+  return MIN_CHOICES;
+}
+
+/** Share of items a player put in their correct place, 0–1 */
+export function getOrderingCredit(submittedIds: string[], correctIds: string[]): number {
+  if (!correctIds.length) return 0;
+  const placed = correctIds.filter((id, i) => submittedIds[i] === id).length;
+  return placed / correctIds.length;
+}
+
+export function clampChoiceCount(count: number): number {
+  return Math.min(MAX_CHOICES, Math.max(MIN_CHOICES, Math.round(count)));
+}
+
+/** Columns for a choice grid — two choices side by side, five or six in two rows */
+export function getChoiceColumns(count: number, maxColumns: 2 | 3): number {
+  if (count <= 2) return 2;
+  if (maxColumns === 2) return count > 4 ? 2 : 1;
+  return count === 4 ? 2 : 3;
+}
+
+/**
+ * Share of a multi-select question a player got, 0–1. Proportional scoring
+ * gives each right pick an equal share and takes one away per wrong pick.
+ */
+export function getMultiSelectCredit(
+  pickedIds: string[],
+  correctIds: string[],
+  scoring: MultiSelectScoring
+): number {
+  if (!correctIds.length) return 0;
+  const right = pickedIds.filter((id) => correctIds.includes(id)).length;
+  const wrong = pickedIds.length - right;
+
+  if (scoring === "all_or_nothing") {
+    return right === correctIds.length && wrong === 0 ? 1 : 0;
+  }
+  return Math.max(0, (right - wrong) / correctIds.length);
+}
+
+/** Tiers close enough to count as correct (for streaks and the phone's verdict) */
+const ESTIMATE_CORRECT_TIERS = ["Perfect Guess!", "within10"];
+
+export interface EstimateGrade {
+  /** Share of the points earned, 0–1 — everyone who guesses gets something */
+  credit: number;
+  isCorrect: boolean;
+  /** A lib/pir-scoring tier — show it with getTierLabel */
+  tier: string;
+}
+
+export function getEstimateGrade(guess: number, answer: number): EstimateGrade {
+  // Percentages mean nothing around zero — only an exact guess counts there
+  if (answer <= 0) {
+    const exact = guess === answer;
+    return { credit: exact ? 1 : 0, isCorrect: exact, tier: exact ? "Perfect Guess!" : "beyond50" };
+  }
+  const { scoreAwarded, tier } = getScoreData(guess, answer);
+  return {
+    credit: scoreAwarded / PERFECT_GUESS_SCORE,
+    isCorrect: ESTIMATE_CORRECT_TIERS.includes(tier),
+    tier,
+  };
+}
+
+/** How far past the target region (as a fraction of the image) a pin still earns something */
+const PIN_FALLOFF = 0.3;
+
+export const DEFAULT_PIN_TARGET = { x: 0.5, y: 0.5, radius: 0.1 };
+export const MIN_PIN_RADIUS = 0.02;
+export const MAX_PIN_RADIUS = 0.3;
+
+export interface PinPoint {
+  x: number;
+  y: number;
+}
+
+/** Full credit inside the target, falling off linearly to 0 at PIN_FALLOFF beyond its edge */
+export function getPinCredit(pin: PinPoint, target: PinPoint & { radius: number }): number {
+  const distance = Math.hypot(pin.x - target.x, pin.y - target.y);
+  if (distance <= target.radius) return 1;
+  return Math.max(0, 1 - (distance - target.radius) / PIN_FALLOFF);
+}
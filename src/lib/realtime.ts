@@ -6,6 +6,12 @@
  * - session_players (joins, kicks, score updates)
  * - session_question_state (timer, pause, lock, results)
  * - session_answers (new answers for result distribution)
+ * - session_power_ups (power-ups as players spend them)
+ * - price_guesses / higher_lower_votes (That Costs How Much and Higher or Lower calls)
+ * - survey_guesses (Survey Says guesses, found answers and strikes)
+ *
+ * Teams (session_teams) and game-night playlists get channels of their own —
+ * see subscribeToTeams and subscribeToPlaylist.
  *
  * This approach was chosen over broadcast because:
  * 1. The DB is the single source of truth — no reconciliation needed
@@ -30,7 +36,10 @@ export function subscribeToSession(
     onPlayerChange?: RealtimeHandler;
     onQuestionStateChange?: RealtimeHandler;
     onAnswerChange?: RealtimeHandler;
+    onPowerUpChange?: RealtimeHandler;
     onPriceGuessChange?: RealtimeHandler;
+    onHoLVoteChange?: RealtimeHandler;
+    onSurveyGuessChange?: RealtimeHandler;
   }
 ): RealtimeChannel {
   const supabase = createClient();
@@ -89,6 +98,19 @@ export function subscribeToSession(
     );
   }
 
+  if (handlers.onPowerUpChange) {
+    channel = channel.on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "session_power_ups",
+        filter: `session_id=eq.${sessionId}`,
+      },
+      handlers.onPowerUpChange
+    );
+  }
+
   if (handlers.onPriceGuessChange) {
     channel = channel.on(
       "postgres_changes",
@@ -102,6 +124,120 @@ export function subscribeToSession(
     );
   }
 
+  if (handlers.onHoLVoteChange) {
+    channel = channel.on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "higher_lower_votes",
+        filter: `session_id=eq.${sessionId}`,
+      },
+      handlers.onHoLVoteChange
+    );
+  }
+
+  if (handlers.onSurveyGuessChange) {
+    channel = channel.on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "survey_guesses",
+        filter: `session_id=eq.${sessionId}`,
+      },
+      handlers.onSurveyGuessChange
+    );
+  }
+
+  channel.subscribe();
+
+  return channel;
+}
+
+/**
+ * Team setup changes, for useSessionTeams. A separate channel, since a page's
+ * subscribeToSession channel is already joined by the time teams load.
+ */
+export function subscribeToTeams(sessionId: string, onTeamChange: RealtimeHandler): RealtimeChannel {
+  const supabase = createClient();
+
+  const channel = supabase
+    .channel(`session-teams:${sessionId}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "session_teams",
+        filter: `session_id=eq.${sessionId}`,
+      },
+      onTeamChange
+    );
+
+  channel.subscribe();
+
+  return channel;
+}
+
+/**
+ * A game-night playlist: the playlist row, its game list, its games' sessions
+ * (so wrappers see each game start and finish) and the current game's players
+ * for the running totals.
+ */
+export function subscribeToPlaylist(
+  playlistId: string,
+  currentSessionId: string | null,
+  onChange: RealtimeHandler
+): RealtimeChannel {
+  const supabase = createClient();
+
+  let channel = supabase
+    .channel(`playlist:${playlistId}:${currentSessionId ?? "none"}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "session_playlists",
+        filter: `id=eq.${playlistId}`,
+      },
+      onChange
+    )
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "playlist_games",
+        filter: `playlist_id=eq.${playlistId}`,
+      },
+      onChange
+    )
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "sessions",
+        filter: `playlist_id=eq.${playlistId}`,
+      },
+      onChange
+    );
+
+  if (currentSessionId) {
+    channel = channel.on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "session_players",
+        filter: `session_id=eq.${currentSessionId}`,
+      },
+      onChange
+    );
+  }
+
   channel.subscribe();
 
   return channel;
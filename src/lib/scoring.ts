@@ -1,21 +1,123 @@
+/**
+ * Trivia scoring rules. A game picks one (games.scoring_rule, copied onto the
+ * session when it starts) and /api/trivia scores every answer with it. Each
+ * rule's points are then scaled by the question's point_weight.
+ *
+ * Ordering and multi-select questions can give partial credit: a partly right
+ * answer earns that share of the correct-answer points, but doesn't count as
+ * correct for streaks.
+ *
+ * Wager questions skip the rule entirely: a correct answer wins the player's
+ * bet and anything else (including no answer) loses it.
+ */
+import type { ScoringRuleId } from "./types";
+
 const BASE_POINTS = 1000;
 const MAX_SPEED_BONUS = 500;
+const STREAK_BONUS = 100;
+const MAX_STREAK_BONUS = 500;
+const WRONG_ANSWER_PENALTY = 250;
 
-export function calculatePoints(
-  isCorrect: boolean,
-  timeMs: number,
-  timerSeconds: number,
-  speedBonusEnabled: boolean
-): number {
-  if (!isCorrect) return 0;
+export interface ScoringContext {
+  isCorrect: boolean;
+  /** Share of the answer that was right, 0–1 — 1 or 0 except on partial-credit questions */
+  credit: number;
+  timeMs: number;
+  timerSeconds: number;
+  speedBonusEnabled: boolean;
+  /** Correct answers in a row just before this one (only counted for rules that use it) */
+  streak: number;
+  isFinalQuestion: boolean;
+}
+
+export interface ScoringRule {
+  id: ScoringRuleId;
+  label: string;
+  description: string;
+  /** False when the rule ignores the game's speed bonus setting */
+  usesSpeedBonus: boolean;
+  usesStreak: boolean;
+  points: (ctx: ScoringContext) => number;
+}
+
+function speedBonus({ timeMs, timerSeconds, speedBonusEnabled }: ScoringContext): number {
+  if (!speedBonusEnabled) return 0;
+  const totalMs = timerSeconds * 1000;
+  const fraction = Math.max(0, 1 - timeMs / totalMs);
+  return Math.round(MAX_SPEED_BONUS * fraction);
+}
+
+function classic(ctx: ScoringContext): number {
+  if (ctx.credit <= 0) return 0;
+  return Math.round((BASE_POINTS + speedBonus(ctx)) * ctx.credit);
+}
 
-  let points = BASE_POINTS;
+export const SCORING_RULES: Record<ScoringRuleId, ScoringRule> = {
+  classic: {
+    id: "classic",
+    label: "Classic",
+    description: "1000 points per correct answer, plus the speed bonus if it's on.",
+    usesSpeedBonus: true,
+    usesStreak: false,
+    points: classic,
+  },
+  streak: {
+    id: "streak",
+    label: "Streaks",
+    description: `Classic, plus ${STREAK_BONUS} for every correct answer in a row before this one (up to ${MAX_STREAK_BONUS}).`,
+    usesSpeedBonus: true,
+    usesStreak: true,
+    points: (ctx) =>
+      ctx.isCorrect ? classic(ctx) + Math.min(ctx.streak * STREAK_BONUS, MAX_STREAK_BONUS) : classic(ctx),
+  },
+  final_double: {
+    id: "final_double",
+    label: "Double-points finale",
+    description: "Classic, but the last question is worth double.",
+    usesSpeedBonus: true,
+    usesStreak: false,
+    points: (ctx) => classic(ctx) * (ctx.isFinalQuestion ? 2 : 1),
+  },
+  accuracy_only: {
+    id: "accuracy_only",
+    label: "Accuracy only",
+    description: "1000 points per correct answer. No speed bonus, so nobody needs to rush.",
+    usesSpeedBonus: false,
+    usesStreak: false,
+    points: (ctx) => Math.round(BASE_POINTS * ctx.credit),
+  },
+  negative: {
+    id: "negative",
+    label: "Wrong answers cost",
+    description: `Classic, but a wrong answer loses ${WRONG_ANSWER_PENALTY} points. Not answering costs nothing.`,
+    usesSpeedBonus: true,
+    usesStreak: false,
+    points: (ctx) => (ctx.credit > 0 ? classic(ctx) : -WRONG_ANSWER_PENALTY),
+  },
+};
 
-  if (speedBonusEnabled) {
-    const totalMs = timerSeconds * 1000;
-    const fraction = Math.max(0, 1 - timeMs / totalMs);
-    points += Math.round(MAX_SPEED_BONUS * fraction);
-  }
+export const DEFAULT_SCORING_RULE: ScoringRuleId = "classic";
 
-  return points;
+export function getScoringRule(id: string | null | undefined): ScoringRule {
+  return SCORING_RULES[id as ScoringRuleId] ?? SCORING_RULES[DEFAULT_SCORING_RULE];
+}
+
+/** Point weights the editor offers per question */
+export const POINT_WEIGHTS = [0.5, 1, 2, 3];
+
+/** Players can bet up to everything they have — nothing once they're at zero or below */
+export function getMaxWager(score: number): number {
+  return Math.max(0, score);
+}
+
+export function getWagerPoints(amount: number, isCorrect: boolean): number {
+  return isCorrect ? amount : -amount;
+}
+
+export function calculatePoints(
+  rule: ScoringRule,
+  ctx: ScoringContext,
+  pointWeight = 1
+): number {
+  return Math.round(rule.points(ctx) * pointWeight);
 }
@@ -0,0 +1,78 @@
+/**
+ * Caller verification for the session API routes (/api/[game], /api/players).
+ *
+ * Those routes write with the service-role client, so they must check who is
+ * calling before acting:
+ * - Host actions require the logged-in owner of the session (auth cookie)
+ * - Player actions require the signed player token issued by /api/players
+ */
+import { NextResponse } from "next/server";
+import { createServerSupabase, createServiceSupabase } from "@/lib/supabase/server";
+import { verifyPlayerToken } from "@/lib/player-token";
+
+type SB = Awaited<ReturnType<typeof createServiceSupabase>>;
+
+/** Returns an error response to send back, or null when the caller is the host */
+export async function authorizeHost(
+  supabase: SB,
+  sessionId: string
+): Promise<NextResponse | null> {
+  const authClient = await createServerSupabase();
+  const {
+    data: { user },
+  } = await authClient.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("host_id")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (!session || session.host_id !== user.id) {
+    return NextResponse.json({ error: "Only the host can do that" }, { status: 403 });
+  }
+
+  return null;
+}
+
+/**
+ * Resolves the calling player from their token. Returns an error response to
+ * send back, or the verified player id.
+ */
+export async function authorizePlayer(
+  supabase: SB,
+  sessionId: string,
+  playerToken: string | undefined
+): Promise<NextResponse | { playerId: string }> {
+  if (!playerToken) {
+    return NextResponse.json({ error: "Player token required" }, { status: 401 });
+  }
+
+  const claims = verifyPlayerToken(playerToken);
+  if (!claims || claims.sid !== sessionId) {
+    return NextResponse.json({ error: "Player token is invalid" }, { status: 403 });
+  }
+
+  const { data: player } = await supabase
+    .from("session_players")
+    .select("id, is_removed, token_version")
+    .eq("id", claims.pid)
+    .eq("session_id", sessionId)
+    .maybeSingle();
+
+  if (!player) {
+    return NextResponse.json({ error: "Player token is invalid" }, { status: 403 });
+  }
+  if (player.token_version !== claims.ver) {
+    return NextResponse.json({ error: "You rejoined on another device" }, { status: 403 });
+  }
+  if (player.is_removed) {
+    return NextResponse.json({ error: "You were removed from this game" }, { status: 403 });
+  }
+
+  return { playerId: player.id };
+}
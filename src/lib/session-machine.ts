@@ -0,0 +1,254 @@
+/**
+ * Session state machine — the one place that says which phase a session is
+ * in and which actions may move it on.
+ *
+ * Shared by the API routes (to refuse out-of-order actions with a 409) and
+ * the host remotes (to decide which buttons to show). The routes and
+ * lib/trivia-flow carry out the side effects of each transition.
+ *
+ * A session's stage combines SessionStatus with the game's own phase:
+ * - Trivia: derived from the current session_question_state flags (a wager
+ *   question waits in "wagering" for bets before it opens)
+ * - Price Is Right: sessions.pir_phase, with guessing split by the pause clock
+ * - Higher or Lower: sessions.hol_phase
+ * - Survey Says: sessions.survey_phase
+ */
+import type { HoLPhase, PIRPhase, Session, SessionQuestionState, SurveyPhase } from "./types";
+
+interface Transition<Stage extends string> {
+  from: readonly Stage[];
+  /** Where the action leads; more than one when it depends on the game (e.g. last question → finished) */
+  to: readonly Stage[];
+}
+
+type TransitionTable<Stage extends string, Action extends string> = Record<
+  Action,
+  Transition<Stage>
+>;
+
+function isAction<Action extends string>(
+  table: TransitionTable<string, Action>,
+  action: string
+): action is Action {
+  return Object.prototype.hasOwnProperty.call(table, action);
+}
+
+function allowedActions<Stage extends string, Action extends string>(
+  table: TransitionTable<Stage, Action>,
+  stage: Stage
+): Action[] {
+  return (Object.keys(table) as Action[]).filter((a) => table[a].from.includes(stage));
+}
+
+function humanize(value: string) {
+  return value.replace(/_/g, " ");
+}
+
+// ============ TRIVIA ============
+
+export type TriviaStage =
+  | "lobby"
+  | "wagering"
+  | "open"
+  | "paused"
+  | "results"
+  | "leaderboard"
+  | "finished";
+
+export type TriviaAction =
+  | "start_game"
+  | "open_question"
+  | "pause"
+  | "resume"
+  | "close_question"
+  | "show_leaderboard"
+  | "next_question"
+  | "end_game";
+
+export const TRIVIA_TRANSITIONS: TransitionTable<TriviaStage, TriviaAction> = {
+  start_game: { from: ["lobby"], to: ["wagering", "open"] },
+  // Stops taking bets on a wager question and starts its timer
+  open_question: { from: ["wagering"], to: ["open"] },
+  pause: { from: ["open"], to: ["paused"] },
+  resume: { from: ["paused"], to: ["open"] },
+  close_question: { from: ["open", "paused"], to: ["results"] },
+  show_leaderboard: { from: ["results"], to: ["leaderboard"] },
+  next_question: { from: ["leaderboard"], to: ["wagering", "open", "finished"] },
+  end_game: {
+    from: ["lobby", "wagering", "open", "paused", "results", "leaderboard"],
+    to: ["finished"],
+  },
+};
+
+export function getTriviaStage(
+  session: Pick<Session, "status">,
+  questionState: Pick<
+    SessionQuestionState,
+    "is_wagering" | "is_paused" | "is_locked" | "show_results" | "show_leaderboard"
+  > | null
+): TriviaStage {
+  if (session.status !== "playing") return session.status;
+  // Playing but the first question state hasn't arrived yet
+  if (!questionState) return "open";
+  if (questionState.show_leaderboard) return "leaderboard";
+  if (questionState.is_locked || questionState.show_results) return "results";
+  if (questionState.is_wagering) return "wagering";
+  if (questionState.is_paused) return "paused";
+  return "open";
+}
+
+export function isTriviaAction(action: string): action is TriviaAction {
+  return isAction(TRIVIA_TRANSITIONS, action);
+}
+
+export function canTrivia(stage: TriviaStage, action: TriviaAction): boolean {
+  return TRIVIA_TRANSITIONS[action].from.includes(stage);
+}
+
+export function getTriviaActions(stage: TriviaStage): TriviaAction[] {
+  return allowedActions(TRIVIA_TRANSITIONS, stage);
+}
+
+// ============ PRICE IS RIGHT ============
+
+export type PIRStage = "lobby" | PIRPhase | "guessing_paused" | "finished";
+
+export type PIRAction =
+  | "start_game"
+  | "pause_guessing"
+  | "resume_guessing"
+  | "extend_guessing"
+  | "close_guessing"
+  | "show_price_result"
+  | "pay_the_price"
+  | "paid_the_price"
+  | "show_leaderboard"
+  | "next_item"
+  | "finish_game";
+
+export const PIR_TRANSITIONS: TransitionTable<PIRStage, PIRAction> = {
+  start_game: { from: ["lobby"], to: ["guessing"] },
+  pause_guessing: { from: ["guessing"], to: ["guessing_paused"] },
+  resume_guessing: { from: ["guessing_paused"], to: ["guessing"] },
+  extend_guessing: { from: ["guessing", "guessing_paused"], to: ["guessing", "guessing_paused"] },
+  // Stops the clock now; the price stays hidden until show_price_result
+  close_guessing: { from: ["guessing", "guessing_paused"], to: ["guessing"] },
+  show_price_result: { from: ["guessing", "guessing_paused"], to: ["price_result"] },
+  pay_the_price: { from: ["price_result"], to: ["pay_the_price"] },
+  // The wheel reports each victim without leaving the phase
+  paid_the_price: { from: ["pay_the_price"], to: ["pay_the_price"] },
+  show_leaderboard: { from: ["price_result", "pay_the_price"], to: ["leaderboard"] },
+  next_item: { from: ["leaderboard"], to: ["guessing", "finished"] },
+  finish_game: {
+    from: ["guessing", "guessing_paused", "price_result", "pay_the_price", "leaderboard"],
+    to: ["finished"],
+  },
+};
+
+export function getPIRStage(
+  session: Pick<Session, "status" | "pir_phase" | "pir_paused_remaining_ms">
+): PIRStage {
+  if (session.status !== "playing") return session.status;
+  if (session.pir_phase === "guessing" && session.pir_paused_remaining_ms !== null) {
+    return "guessing_paused";
+  }
+  return session.pir_phase;
+}
+
+export function isPIRAction(action: string): action is PIRAction {
+  return isAction(PIR_TRANSITIONS, action);
+}
+
+export function canPIR(stage: PIRStage, action: PIRAction): boolean {
+  return PIR_TRANSITIONS[action].from.includes(stage);
+}
+
+export function getPIRActions(stage: PIRStage): PIRAction[] {
+  return allowedActions(PIR_TRANSITIONS, stage);
+}
+
+// ============ HIGHER OR LOWER ============
+
+export type HoLStage = "lobby" | HoLPhase | "finished";
+
+export type HoLAction = "start_game" | "reveal" | "next_round" | "finish_game";
+
+export const HOL_TRANSITIONS: TransitionTable<HoLStage, HoLAction> = {
+  start_game: { from: ["lobby"], to: ["voting"] },
+  reveal: { from: ["voting"], to: ["reveal"] },
+  // Finishes after the last round, or once everyone's been knocked out
+  next_round: { from: ["reveal"], to: ["voting", "finished"] },
+  finish_game: { from: ["voting", "reveal"], to: ["finished"] },
+};
+
+export function getHoLStage(session: Pick<Session, "status" | "hol_phase">): HoLStage {
+  if (session.status !== "playing") return session.status;
+  return session.hol_phase;
+}
+
+export function isHoLAction(action: string): action is HoLAction {
+  return isAction(HOL_TRANSITIONS, action);
+}
+
+export function canHoL(stage: HoLStage, action: HoLAction): boolean {
+  return HOL_TRANSITIONS[action].from.includes(stage);
+}
+
+export function getHoLActions(stage: HoLStage): HoLAction[] {
+  return allowedActions(HOL_TRANSITIONS, stage);
+}
+
+// ============ SURVEY SAYS ============
+
+export type SurveyStage = "lobby" | SurveyPhase | "finished";
+
+export type SurveyAction = "start_game" | "reveal_board" | "next_round" | "finish_game";
+
+export const SURVEY_TRANSITIONS: TransitionTable<SurveyStage, SurveyAction> = {
+  start_game: { from: ["lobby"], to: ["guessing"] },
+  // Flips every answer nobody found
+  reveal_board: { from: ["guessing"], to: ["board"] },
+  next_round: { from: ["board"], to: ["guessing", "finished"] },
+  finish_game: { from: ["guessing", "board"], to: ["finished"] },
+};
+
+export function getSurveyStage(session: Pick<Session, "status" | "survey_phase">): SurveyStage {
+  if (session.status !== "playing") return session.status;
+  return session.survey_phase;
+}
+
+export function isSurveyAction(action: string): action is SurveyAction {
+  return isAction(SURVEY_TRANSITIONS, action);
+}
+
+export function canSurvey(stage: SurveyStage, action: SurveyAction): boolean {
+  return SURVEY_TRANSITIONS[action].from.includes(stage);
+}
+
+export function getSurveyActions(stage: SurveyStage): SurveyAction[] {
+  return allowedActions(SURVEY_TRANSITIONS, stage);
+}
+
+// ============ HISTORY ============
+
+/** Host actions outside the tables — they restore from lib/action-log instead of moving forward */
+export type HistoryAction = "undo" | "rewind";
+
+// ============ MEDIA ============
+
+/**
+ * Trivia clip controls for the current question's audio/video on the screen.
+ * They never change the stage, so they aren't in the table or the action log.
+ */
+export type MediaAction = "play_media" | "pause_media" | "restart_media";
+
+export function isMediaAction(action: string): action is MediaAction {
+  return action === "play_media" || action === "pause_media" || action === "restart_media";
+}
+
+// ============ ERRORS ============
+
+/** Message for a refused transition, e.g. "Can't pay the price during guessing" */
+export function transitionError(stage: string, action: string): string {
+  return `Can't ${humanize(action)} during ${humanize(stage)}`;
+}
@@ -0,0 +1,284 @@
+/**
+ * Survey Says API — handles all game phase transitions
+ * POST /api/survey with { action, sessionId, ... } — registered in lib/game-actions
+ *
+ * Host actions require the logged-in session owner; submit_guess requires the
+ * player's signed { playerToken } (see lib/session-auth). Phase changes are
+ * refused unless lib/session-machine allows them from the current phase.
+ * Matching and strike rules live in lib/survey-says.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceSupabase } from "@/lib/supabase/server";
+import { CHECK_VIOLATION, isPastDeadline, UNIQUE_VIOLATION } from "@/lib/answer-window";
+import { MAX_ANSWER_LENGTH } from "@/lib/answer-matching";
+import { authorizeHost, authorizePlayer } from "@/lib/session-auth";
+import {
+  findSurveyAnswer,
+  getStrikeKey,
+  getSurveyStrikes,
+  isSameGuess,
+  SURVEY_MAX_STRIKES,
+} from "@/lib/survey-says";
+import {
+  canSurvey,
+  getSurveyStage,
+  isSurveyAction,
+  transitionError,
+  type SurveyAction,
+} from "@/lib/session-machine";
+import type { SurveyAnswer, SurveyGuess } from "@/lib/types";
+
+export default async function handleSurveyAction(req: NextRequest) {
+  const supabase = await createServiceSupabase();
+  const body = await req.json();
+  const { action, sessionId } = body;
+
+  if (!sessionId) {
+    return NextResponse.json({ error: "sessionId required" }, { status: 400 });
+  }
+
+  try {
+    // submitGuess resolves (and verifies) the player from the token itself
+    if (action !== "submit_guess") {
+      const denied = await authorizeHost(supabase, sessionId);
+      if (denied) return denied;
+    }
+
+    if (isSurveyAction(action)) {
+      const refused = await validateTransition(supabase, sessionId, action);
+      if (refused) return refused;
+    }
+
+    switch (action) {
+      case "start_game": return await startGame(supabase, sessionId);
+      case "submit_guess": return await submitGuess(supabase, body);
+      case "reveal_board": return await revealBoard(supabase, sessionId);
+      case "next_round": return await nextRound(supabase, sessionId);
+      case "finish_game": return await finishGame(supabase, sessionId);
+      default:
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+type SB = Awaited<ReturnType<typeof createServiceSupabase>>;
+
+async function validateTransition(
+  supabase: SB,
+  sessionId: string,
+  action: SurveyAction
+): Promise<NextResponse | null> {
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("status, survey_phase")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (!session) throw new Error("Session not found");
+
+  const stage = getSurveyStage(session);
+  if (!canSurvey(stage, action)) {
+    return NextResponse.json({ error: transitionError(stage, action) }, { status: 409 });
+  }
+  return null;
+}
+
+async function countRounds(supabase: SB, gameId: string): Promise<number> {
+  const { count } = await supabase
+    .from("survey_questions")
+    .select("id", { count: "exact", head: true })
+    .eq("game_id", gameId);
+  return count ?? 0;
+}
+
+function guessingEndsAt(timerSeconds: number) {
+  return new Date(Date.now() + timerSeconds * 1000).toISOString();
+}
+
+async function startGame(supabase: SB, sessionId: string) {
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("game_id, timer_seconds")
+    .eq("id", sessionId)
+    .single();
+  if (!session) throw new Error("Session not found");
+
+  if ((await countRounds(supabase, session.game_id)) === 0) {
+    return NextResponse.json({ error: "Add a survey question first" }, { status: 400 });
+  }
+
+  // Clear any guesses from an earlier run
+  await supabase.from("survey_guesses").delete().eq("session_id", sessionId);
+
+  await supabase.from("sessions").update({
+    status: "playing",
+    current_question_index: 0,
+    survey_phase: "guessing",
+    survey_ends_at: guessingEndsAt(session.timer_seconds),
+  }).eq("id", sessionId);
+
+  return NextResponse.json({ success: true });
+}
+
+async function submitGuess(
+  supabase: SB,
+  body: { sessionId: string; playerToken: string; round: number; text: unknown }
+) {
+  const { sessionId, playerToken, round } = body;
+
+  const caller = await authorizePlayer(supabase, sessionId, playerToken);
+  if (caller instanceof NextResponse) return caller;
+  const { playerId } = caller;
+
+  const text = typeof body.text === "string" ? body.text.trim() : "";
+  if (!text) {
+    return NextResponse.json({ error: "Type a guess" }, { status: 400 });
+  }
+  if (text.length > MAX_ANSWER_LENGTH) {
+    return NextResponse.json({ error: "Guess is too long" }, { status: 400 });
+  }
+
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("status, survey_phase, survey_ends_at, current_question_index, game_id, team_mode")
+    .eq("id", sessionId)
+    .single();
+
+  if (!session) throw new Error("Session not found");
+  if (
+    getSurveyStage(session) !== "guessing" ||
+    session.current_question_index !== round ||
+    isPastDeadline(session.survey_ends_at)
+  ) {
+    return NextResponse.json({ error: "Time's up — guessing is closed" }, { status: 409 });
+  }
+
+  const { data: question } = await supabase
+    .from("survey_questions")
+    .select("id, survey_answers(*)")
+    .eq("game_id", session.game_id)
+    .order("question_order")
+    .range(round, round)
+    .maybeSingle();
+  if (!question) throw new Error("No survey question for this round");
+
+  const [{ data: player }, { data: earlier }] = await Promise.all([
+    supabase.from("session_players").select("id, team_id").eq("id", playerId).single(),
+    supabase
+      .from("survey_guesses")
+      .select("player_id, team_id, question_id, guess_text, answer_id")
+      .eq("session_id", sessionId)
+      .eq("question_id", question.id),
+  ]);
+  if (!player) throw new Error("Player not found");
+
+  const guesses = (earlier || []) as Pick<
+    SurveyGuess,
+    "player_id" | "team_id" | "question_id" | "guess_text" | "answer_id"
+  >[];
+  const strikeKey = getStrikeKey(player, session.team_mode);
+  const strikes = getSurveyStrikes(guesses, question.id, session.team_mode).get(strikeKey) ?? 0;
+  if (strikes >= SURVEY_MAX_STRIKES) return struckOut();
+
+  const answer = findSurveyAnswer(text, (question.survey_answers || []) as SurveyAnswer[]);
+
+  if (answer) {
+    if (guesses.some((g) => g.answer_id === answer.id)) {
+      return NextResponse.json({ result: "taken", answerId: answer.id });
+    }
+
+    const { error: claimError } = await supabase.from("survey_guesses").insert({
+      session_id: sessionId,
+      player_id: playerId,
+      team_id: player.team_id,
+      question_id: question.id,
+      guess_text: text,
+      answer_id: answer.id,
+      points_awarded: answer.points,
+    });
+    // Someone else claimed it between our read and this insert
+    if (claimError?.code === UNIQUE_VIOLATION) {
+      return NextResponse.json({ result: "taken", answerId: answer.id });
+    }
+    if (claimError) throw new Error(claimError.message);
+
+    return NextResponse.json({ result: "found", answerId: answer.id, points: answer.points });
+  }
+
+  // Saying the same wrong thing twice only costs the one strike
+  const repeated = guesses.some(
+    (g) =>
+      g.answer_id === null &&
+      getStrikeKey({ id: g.player_id, team_id: g.team_id }, session.team_mode) === strikeKey &&
+      isSameGuess(g.guess_text, text)
+  );
+  if (repeated) {
+    return NextResponse.json({ result: "repeat", strikes });
+  }
+
+  const { error: strikeError } = await supabase.from("survey_guesses").insert({
+    session_id: sessionId,
+    player_id: playerId,
+    team_id: player.team_id,
+    question_id: question.id,
+    guess_text: text,
+    answer_id: null,
+  });
+  // Another miss landed first and used up the last strike (see enforce_survey_strikes)
+  if (strikeError?.code === CHECK_VIOLATION) return struckOut();
+  if (strikeError) throw new Error(strikeError.message);
+
+  return NextResponse.json({ result: "strike", strikes: strikes + 1 });
+}
+
+function struckOut() {
+  return NextResponse.json({ error: "Three strikes — you're done this round" }, { status: 409 });
+}
+
+async function revealBoard(supabase: SB, sessionId: string) {
+  await supabase.from("sessions").update({
+    survey_phase: "board",
+  }).eq("id", sessionId);
+
+  return NextResponse.json({ success: true });
+}
+
+async function nextRound(supabase: SB, sessionId: string) {
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("game_id, timer_seconds, current_question_index")
+    .eq("id", sessionId)
+    .single();
+  if (!session) throw new Error("Session not found");
+
+  const nextRoundIndex = session.current_question_index + 1;
+
+  if (nextRoundIndex >= (await countRounds(supabase, session.game_id))) {
+    await supabase.from("sessions").update({
+      status: "finished",
+      ended_at: new Date().toISOString(),
+    }).eq("id", sessionId);
+
+    return NextResponse.json({ success: true, finished: true });
+  }
+
+  await supabase.from("sessions").update({
+    current_question_index: nextRoundIndex,
+    survey_phase: "guessing",
+    survey_ends_at: guessingEndsAt(session.timer_seconds),
+  }).eq("id", sessionId);
+
+  return NextResponse.json({ success: true, finished: false });
+}
+
+async function finishGame(supabase: SB, sessionId: string) {
+  await supabase.from("sessions").update({
+    status: "finished",
+    ended_at: new Date().toISOString(),
+  }).eq("id", sessionId);
+
+  return NextResponse.json({ success: true });
+}
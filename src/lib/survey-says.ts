@@ -0,0 +1,101 @@
+/**
+ * Survey Says — rules shared by /api/survey and the clients.
+ *
+ * Each round is one survey_questions prompt with ranked answers worth the
+ * points the host gave them. Players type guesses on their phones; a guess
+ * that matches an answer (or one of its aliases) the way lib/answer-matching
+ * grades type-in trivia flips it on the board, and the first player to find
+ * it takes its points. A guess that matches nothing is a strike — after
+ * SURVEY_MAX_STRIKES the player is done for the round. In team mode strikes
+ * are shared by the team, and teams still score through lib/teams.
+ */
+import { isAnswerMatch, normalizeAnswer } from "./answer-matching";
+import { TEAM_SCORING_OPTIONS } from "./teams";
+import type { SessionPlayer, SurveyAnswer, SurveyGuess, SurveyQuestion, TeamMode } from "./types";
+
+export const SURVEY_MAX_STRIKES = 3;
+
+export const SURVEY_MIN_ANSWERS = 2;
+export const SURVEY_MAX_ANSWERS = 8;
+
+/** Points new answers start with, by rank — roughly how a real survey tails off */
+export const SURVEY_DEFAULT_POINTS = [40, 25, 15, 10, 5, 3, 1, 1];
+
+export const SURVEY_DEFAULT_TIMER_SECONDS = 60;
+
+/** Each answer is found once, by one player — there's no majority answer to score a team by */
+export const SURVEY_TEAM_SCORING_OPTIONS = TEAM_SCORING_OPTIONS.filter((o) => o.value !== "majority");
+
+export function sortSurveyQuestions<T extends Pick<SurveyQuestion, "question_order">>(questions: T[]): T[] {
+  return [...questions].sort((a, b) => a.question_order - b.question_order);
+}
+
+export function sortSurveyAnswers<T extends Pick<SurveyAnswer, "answer_order">>(answers: T[]): T[] {
+  return [...answers].sort((a, b) => a.answer_order - b.answer_order);
+}
+
+type MatchableAnswer = Pick<SurveyAnswer, "answer_order" | "answer_text" | "aliases">;
+
+/**
+ * The answer a guess finds, if any. An exact match (after normalizing) beats
+ * a typo-tolerant one, so "cats" doesn't land on "cat" when both are on the
+ * board; otherwise the higher-ranked answer wins.
+ */
+export function findSurveyAnswer<T extends MatchableAnswer>(guess: string, answers: T[]): T | null {
+  const typed = normalizeAnswer(guess);
+  if (!typed) return null;
+  const ranked = sortSurveyAnswers(answers);
+  const wordings = (a: T) => [a.answer_text, ...a.aliases];
+  return (
+    ranked.find((a) => wordings(a).some((w) => normalizeAnswer(w) === typed)) ??
+    ranked.find((a) => wordings(a).some((w) => isAnswerMatch(guess, w, null))) ??
+    null
+  );
+}
+
+/** Whether two guesses are the same words — a repeated miss isn't another strike */
+export function isSameGuess(a: string, b: string): boolean {
+  return normalizeAnswer(a) === normalizeAnswer(b);
+}
+
+/** Comma-separated alias input as the editor shows it, to a clean list */
+export function parseAliases(text: string): string[] {
+  return text
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** Who a strike counts against: the team in team mode, otherwise the player */
+export function getStrikeKey(
+  player: Pick<SessionPlayer, "id" | "team_id">,
+  teamMode: TeamMode
+): string {
+  return teamMode !== "off" && player.team_id ? player.team_id : player.id;
+}
+
+/** Strikes per player (or team) in one round */
+export function getSurveyStrikes(
+  guesses: Pick<SurveyGuess, "player_id" | "team_id" | "question_id" | "answer_id">[],
+  questionId: string,
+  teamMode: TeamMode
+): Map<string, number> {
+  const strikes = new Map<string, number>();
+  for (const g of guesses) {
+    if (g.question_id !== questionId || g.answer_id !== null) continue;
+    const key = getStrikeKey({ id: g.player_id, team_id: g.team_id }, teamMode);
+    strikes.set(key, (strikes.get(key) ?? 0) + 1);
+  }
+  return strikes;
+}
+
+/** A guess list with one realtime insert, update or delete applied */
+export function mergeSurveyGuess(
+  guesses: SurveyGuess[],
+  eventType: "INSERT" | "UPDATE" | "DELETE",
+  row: Partial<SurveyGuess>
+): SurveyGuess[] {
+  if (eventType === "DELETE") return guesses.filter((g) => g.id !== row.id);
+  const guess = row as SurveyGuess;
+  return [...guesses.filter((g) => g.id !== guess.id), guess];
+}
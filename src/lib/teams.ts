@@ -0,0 +1,105 @@
+/**
+ * Team mode, shared by trivia, Price Is Right and Survey Says.
+ *
+ * The host sets teams up in the lobby from the remote (sessions.team_mode):
+ * "auto" deals players onto teams and puts each newcomer on the smallest one;
+ * "choose" lets players pick on their phone. Points still land on each
+ * player's session_players.score — a team's score is worked out from its
+ * members' by get_team_scores() in the database, per sessions.team_scoring:
+ * - sum: every member's points added up
+ * - average: the members' mean, so a bigger team has no edge
+ * - majority: each question counts once per team, scored as the answer most
+ *   of the team gave. When nobody on the team agrees (or for a PIR guess,
+ *   always) the team takes its middle member's result. Survey Says answers
+ *   are claimed rather than answered by everyone, so it doesn't offer this.
+ */
+import type { GameType, SessionPlayer, SessionTeam, TeamMode, TeamScoring } from "./types";
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 6;
+
+/** Names and colors new teams start with — the host can rename them */
+export const TEAM_PRESETS = [
+  { name: "Red Team", color: "#EF4444" },
+  { name: "Blue Team", color: "#3B82F6" },
+  { name: "Green Team", color: "#10B981" },
+  { name: "Gold Team", color: "#F59E0B" },
+  { name: "Purple Team", color: "#8B5CF6" },
+  { name: "Pink Team", color: "#EC4899" },
+];
+
+export const TEAM_MODE_OPTIONS: { value: TeamMode; label: string }[] = [
+  { value: "off", label: "No teams" },
+  { value: "auto", label: "Auto-balanced" },
+  { value: "choose", label: "Players pick" },
+];
+
+export const TEAM_SCORING_OPTIONS: { value: TeamScoring; label: string; description: string }[] = [
+  { value: "sum", label: "Total points", description: "Every member's points count." },
+  { value: "average", label: "Average points", description: "The members' average, so team size doesn't matter." },
+  {
+    value: "majority",
+    label: "Majority answer",
+    description: "Each question counts once, scored as the answer most of the team gave.",
+  },
+];
+
+export const MAX_TEAM_NAME_LENGTH = 24;
+
+/** The team score rule a game plays under — Survey Says falls back to total points for majority */
+export function getTeamScoringFor(gameType: GameType, scoring: TeamScoring): TeamScoring {
+  return gameType === "survey_says" && scoring === "majority" ? "sum" : scoring;
+}
+
+/** Where a newcomer goes in auto mode — the team with the fewest players (first in order on a tie) */
+export function getSmallestTeam(
+  teams: SessionTeam[],
+  players: Pick<SessionPlayer, "team_id">[]
+): SessionTeam | null {
+  let smallest: SessionTeam | null = null;
+  let smallestSize = Infinity;
+  for (const team of [...teams].sort((a, b) => a.team_order - b.team_order)) {
+    const size = players.filter((p) => p.team_id === team.id).length;
+    if (size < smallestSize) {
+      smallest = team;
+      smallestSize = size;
+    }
+  }
+  return smallest;
+}
+
+/** Shuffles the players and deals them round the teams, so sizes differ by at most one */
+export function balanceTeams(
+  players: Pick<SessionPlayer, "id">[],
+  teams: SessionTeam[]
+): { playerId: string; teamId: string }[] {
+  if (!teams.length) return [];
+  const ordered = [...teams].sort((a, b) => a.team_order - b.team_order);
+  const shuffled = [...players];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.map((p, i) => ({ playerId: p.id, teamId: ordered[i % ordered.length].id }));
+}
+
+export interface TeamStanding {
+  team: SessionTeam;
+  members: SessionPlayer[];
+  score: number;
+}
+
+/** Teams best first. scores comes from get_team_scores(), by team id. */
+export function getTeamStandings(
+  teams: SessionTeam[],
+  players: SessionPlayer[],
+  scores: Record<string, number>
+): TeamStanding[] {
+  return teams
+    .map((team) => ({
+      team,
+      members: players.filter((p) => p.team_id === team.id),
+      score: scores[team.id] ?? 0,
+    }))
+    .sort((a, b) => b.score - a.score || a.team.team_order - b.team.team_order);
+}
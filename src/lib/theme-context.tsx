@@ -2,9 +2,9 @@
 
 import { createContext, useContext } from "react";
 import type { GameTheme } from "./types";
-import { DEFAULT_THEME } from "./theme-presets";
+import { GAME_TYPES } from "./game-registry";
 
-const ThemeContext = createContext<GameTheme>(DEFAULT_THEME.trivia);
+const ThemeContext = createContext<GameTheme>(GAME_TYPES.trivia.defaultTheme);
 
 export function ThemeProvider({
   theme,
@@ -1,4 +1,4 @@
-import type { GameTheme, GameType, ThemeFont, ThemePattern } from "./types";
+import type { GameTheme, ThemeFont, ThemePattern } from "./types";
 
 /** All available fonts for the theme picker */
 export const THEME_FONTS: { value: ThemeFont; label: string; category: "sans" | "serif" | "display" }[] = [
@@ -208,12 +208,6 @@ export const THEME_PRESETS: GameTheme[] = [
   }),
 ];
 
-/** Default theme per game type */
-export const DEFAULT_THEME: Record<GameType, GameTheme> = {
-  price_is_right: THEME_PRESETS[0], // Snow Indigo — clean default
-  trivia: THEME_PRESETS[3], // Sky Plum — quiz-friendly accent
-};
-
 export function getThemeById(id: string): GameTheme | undefined {
   return THEME_PRESETS.find((t) => t.id === id);
 }
@@ -0,0 +1,725 @@
+/**
+ * Trivia API — answer submission and question flow
+ * POST /api/trivia with { action, sessionId, ... } — registered in lib/game-actions
+ *
+ * Host actions require the logged-in session owner, are validated against
+ * lib/session-machine and recorded in the action log so undo / rewind
+ * ({ index }) can restore them; the media controls change no stage and
+ * aren't logged. Player actions (submit_answer, use_power_up, place_wager)
+ * require the player's signed { playerToken } (see lib/session-auth).
+ * advance needs no caller identity: it only acts on auto-pilot sessions whose
+ * deadlines have passed (see lib/trivia-flow).
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceSupabase } from "@/lib/supabase/server";
+import { calculatePoints, getMaxWager, getScoringRule, getWagerPoints } from "@/lib/scoring";
+import { isPastDeadline, UNIQUE_VIOLATION } from "@/lib/answer-window";
+import { authorizeHost, authorizePlayer } from "@/lib/session-auth";
+import { findMatchingAnswer, MAX_ANSWER_LENGTH } from "@/lib/answer-matching";
+import {
+  getEstimateGrade,
+  getMultiSelectCredit,
+  getOrderingCredit,
+  getPinCredit,
+  isScoredQuestion,
+  type PinPoint,
+} from "@/lib/question-types";
+import {
+  applyPowerUps,
+  EXTRA_TIME_SECONDS,
+  getAnswerDeadline,
+  isPowerUpId,
+  pickFiftyFiftyRemovals,
+  POWER_UPS,
+} from "@/lib/power-ups";
+import { rewindTo, undoLastAction } from "@/lib/action-log";
+import {
+  advanceTrivia,
+  closeQuestion,
+  finishGame,
+  loadTriviaState,
+  logged,
+  openQuestion,
+  pauseQuestion,
+  resumeQuestion,
+  revealLeaderboard,
+  startNextQuestion,
+} from "@/lib/trivia-flow";
+import {
+  canTrivia,
+  getTriviaStage,
+  isMediaAction,
+  isTriviaAction,
+  transitionError,
+  type MediaAction,
+  type TriviaAction,
+} from "@/lib/session-machine";
+import type { GameQuestion, PowerUpId } from "@/lib/types";
+
+export default async function handleTriviaAction(req: NextRequest) {
+  const supabase = await createServiceSupabase();
+  const body = await req.json();
+  const { action, sessionId } = body;
+
+  if (!sessionId) {
+    return NextResponse.json({ error: "sessionId required" }, { status: 400 });
+  }
+
+  const { data: found } = await supabase
+    .from("sessions")
+    .select("id")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (!found) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  try {
+    switch (action) {
+      case "submit_answer": return await submitAnswer(supabase, body);
+      case "place_wager": return await placeWager(supabase, body);
+      case "use_power_up": return await spendPowerUp(supabase, body);
+      case "advance": return NextResponse.json({ step: await advanceTrivia(supabase, sessionId) });
+      case "undo": return await undo(supabase, sessionId);
+      case "rewind": return await rewind(supabase, body);
+      default:
+        if (isTriviaAction(action)) return await hostAction(supabase, sessionId, action);
+        if (isMediaAction(action)) return await mediaAction(supabase, sessionId, action);
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+type SB = Awaited<ReturnType<typeof createServiceSupabase>>;
+
+async function hostAction(supabase: SB, sessionId: string, action: TriviaAction) {
+  const denied = await authorizeHost(supabase, sessionId);
+  if (denied) return denied;
+
+  const { session, questionState } = await loadTriviaState(supabase, sessionId);
+  const stage = getTriviaStage(session, questionState);
+
+  if (!canTrivia(stage, action)) {
+    return NextResponse.json({ error: transitionError(stage, action) }, { status: 409 });
+  }
+
+  switch (action) {
+    case "start_game":
+    case "next_question": {
+      const step = await logged(supabase, sessionId, action, () => startNextQuestion(supabase, session));
+      if (!step) return movedOn();
+      return NextResponse.json({ success: true, finished: step === "finished" });
+    }
+    case "end_game":
+      if (!(await logged(supabase, sessionId, action, () => finishGame(supabase, sessionId)))) {
+        return movedOn();
+      }
+      return NextResponse.json({ success: true });
+  }
+
+  // The remaining actions act on the current question
+  if (!questionState) {
+    return NextResponse.json({ error: "No active question" }, { status: 409 });
+  }
+
+  const taken = await logged(supabase, sessionId, action, async () => {
+    switch (action) {
+      case "open_question": return openQuestion(supabase, session, questionState);
+      case "close_question": return closeQuestion(supabase, questionState, null);
+      case "show_leaderboard": return revealLeaderboard(supabase, questionState, null);
+      case "pause": await pauseQuestion(supabase, questionState); return true;
+      case "resume": await resumeQuestion(supabase, session, questionState); return true;
+    }
+  });
+
+  if (!taken) return movedOn();
+  return NextResponse.json({ success: true });
+}
+
+/** Another caller (auto-pilot, a second remote) took the step first */
+function movedOn() {
+  return NextResponse.json({ error: "The game already moved on" }, { status: 409 });
+}
+
+async function mediaAction(supabase: SB, sessionId: string, action: MediaAction) {
+  const denied = await authorizeHost(supabase, sessionId);
+  if (denied) return denied;
+
+  const { questionState } = await loadTriviaState(supabase, sessionId);
+  if (!questionState) {
+    return NextResponse.json({ error: "No active question" }, { status: 409 });
+  }
+
+  const update =
+    action === "pause_media"
+      ? { media_playing: false }
+      : action === "restart_media"
+        ? { media_playing: true, media_restarted_at: new Date().toISOString() }
+        : { media_playing: true };
+
+  await supabase.from("session_question_state").update(update).eq("id", questionState.id);
+  return NextResponse.json({ success: true });
+}
+
+async function undo(supabase: SB, sessionId: string) {
+  const denied = await authorizeHost(supabase, sessionId);
+  if (denied) return denied;
+
+  const undone = await undoLastAction(supabase, sessionId, "trivia");
+  if (!undone) {
+    return NextResponse.json({ error: "Nothing to undo" }, { status: 409 });
+  }
+
+  return NextResponse.json({ success: true, undone: undone.action });
+}
+
+/** Replays question `index` from the start: restore to just before it, then enter it again */
+async function rewind(supabase: SB, body: { sessionId: string; index: number }) {
+  const { sessionId, index } = body;
+
+  const denied = await authorizeHost(supabase, sessionId);
+  if (denied) return denied;
+
+  const entered = await rewindTo(supabase, sessionId, "trivia", index);
+  if (!entered) {
+    return NextResponse.json({ error: "That question hasn't been played yet" }, { status: 409 });
+  }
+
+  const { session } = await loadTriviaState(supabase, sessionId);
+  const action = entered.action === "start_game" ? "start_game" : "next_question";
+  if (!(await logged(supabase, sessionId, action, () => startNextQuestion(supabase, session)))) {
+    return movedOn();
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+interface WagerBody {
+  sessionId: string;
+  playerToken: string;
+  amount?: number;
+}
+
+/** Bets up to the player's score while a wager question is wagering; betting again replaces the bet */
+async function placeWager(supabase: SB, body: WagerBody) {
+  const { sessionId, playerToken } = body;
+
+  const caller = await authorizePlayer(supabase, sessionId, playerToken);
+  if (caller instanceof NextResponse) return caller;
+  const { playerId } = caller;
+
+  const { session, questionState } = await loadTriviaState(supabase, sessionId);
+  if (!questionState || getTriviaStage(session, questionState) !== "wagering") {
+    return NextResponse.json({ error: "Wagers are closed" }, { status: 409 });
+  }
+
+  const { data: player } = await supabase
+    .from("session_players")
+    .select("score")
+    .eq("id", playerId)
+    .single();
+
+  const maxWager = getMaxWager(player?.score ?? 0);
+  const amount = Number(body.amount);
+  if (typeof body.amount !== "number" || !Number.isInteger(amount) || amount < 0 || amount > maxWager) {
+    return NextResponse.json(
+      { error: `Wager must be a whole number from 0 to ${maxWager}` },
+      { status: 400 }
+    );
+  }
+
+  const { error } = await supabase.from("session_wagers").upsert(
+    {
+      session_id: sessionId,
+      question_state_id: questionState.id,
+      player_id: playerId,
+      amount,
+    },
+    { onConflict: "question_state_id,player_id" }
+  );
+
+  if (error) throw new Error(error.message);
+
+  // On auto-pilot the last bet in opens the question straight away
+  if (session.auto_advance) await advanceTrivia(supabase, sessionId);
+
+  return NextResponse.json({ success: true, amount });
+}
+
+interface PowerUpBody {
+  sessionId: string;
+  playerToken: string;
+  powerUp?: string;
+}
+
+/** Spends one of the game's power-ups on the open question; a 50/50 returns { removedChoiceIds } */
+async function spendPowerUp(supabase: SB, body: PowerUpBody) {
+  const { sessionId, playerToken, powerUp } = body;
+
+  const caller = await authorizePlayer(supabase, sessionId, playerToken);
+  if (caller instanceof NextResponse) return caller;
+  const { playerId } = caller;
+
+  if (!isPowerUpId(powerUp)) {
+    return NextResponse.json({ error: "Unknown power-up" }, { status: 400 });
+  }
+  const { label } = POWER_UPS[powerUp];
+
+  const { session, questionState } = await loadTriviaState(supabase, sessionId);
+  if (!session.power_ups.includes(powerUp)) {
+    return NextResponse.json({ error: `${label} isn't on in this game` }, { status: 409 });
+  }
+  if (
+    !questionState ||
+    getTriviaStage(session, questionState) !== "open" ||
+    isPastDeadline(questionState.ends_at)
+  ) {
+    return NextResponse.json({ error: "Power-ups can only be used while a question is open" }, { status: 409 });
+  }
+
+  const { data: question } = await supabase
+    .from("game_questions")
+    .select("question_type, is_wager")
+    .eq("id", questionState.question_id)
+    .single();
+
+  if (!question || !POWER_UPS[powerUp].appliesTo(question.question_type, question.is_wager)) {
+    return NextResponse.json({ error: `${label} can't be used on this question` }, { status: 409 });
+  }
+
+  const { count: answered } = await supabase
+    .from("session_answers")
+    .select("id", { count: "exact", head: true })
+    .eq("session_id", sessionId)
+    .eq("player_id", playerId)
+    .eq("question_id", questionState.question_id);
+
+  if (answered) {
+    return NextResponse.json({ error: "You already answered this question" }, { status: 409 });
+  }
+
+  let removedChoiceIds: string[] = [];
+  if (powerUp === "fifty_fifty") {
+    const { data: choices } = await supabase
+      .from("game_question_choices")
+      .select("id, is_correct")
+      .eq("question_id", questionState.question_id);
+
+    removedChoiceIds = pickFiftyFiftyRemovals(choices || []);
+    if (!removedChoiceIds.length) {
+      return NextResponse.json({ error: "This question doesn't have enough wrong choices" }, { status: 409 });
+    }
+  }
+
+  const { error: insertError } = await supabase.from("session_power_ups").insert({
+    session_id: sessionId,
+    player_id: playerId,
+    question_state_id: questionState.id,
+    power_up: powerUp,
+  });
+
+  if (insertError?.code === UNIQUE_VIOLATION) {
+    return NextResponse.json({ error: `You already used ${label} this game` }, { status: 409 });
+  }
+  if (insertError) throw new Error(insertError.message);
+
+  // Keeps auto-pilot from closing the question before this player's time is up
+  if (powerUp === "extra_time") {
+    await supabase
+      .from("session_question_state")
+      .update({ extra_seconds: EXTRA_TIME_SECONDS })
+      .eq("id", questionState.id);
+  }
+
+  return NextResponse.json({ success: true, removedChoiceIds });
+}
+
+interface AnswerBody {
+  sessionId: string;
+  playerToken: string;
+  choiceId?: string;
+  text?: string;
+  number?: number;
+  pin?: PinPoint;
+  choiceIds?: string[];
+}
+
+interface GradedAnswer {
+  isCorrect: boolean;
+  credit: number;
+  choiceId: string | null;
+  answerText: string | null;
+  answerNumber: number | null;
+  pin: PinPoint | null;
+  choiceIds: string[] | null;
+}
+
+/**
+ * One answer per player per question: { choiceId }, { text } for type-in and
+ * word-cloud, { number } for estimate, { pin } (fractions of the image) for
+ * pin, or { choiceIds } for ordering, multi-select and multi-pick polls.
+ */
+async function submitAnswer(supabase: SB, body: AnswerBody) {
+  const { sessionId, playerToken } = body;
+
+  const caller = await authorizePlayer(supabase, sessionId, playerToken);
+  if (caller instanceof NextResponse) return caller;
+  const { playerId } = caller;
+
+  // The only question that can be answered is the one currently on screen
+  const { session, questionState } = await loadTriviaState(supabase, sessionId);
+
+  if (session.status !== "playing") {
+    return NextResponse.json({ error: "Game is not in progress" }, { status: 409 });
+  }
+  if (!questionState) {
+    return NextResponse.json({ error: "No active question" }, { status: 409 });
+  }
+
+  const stage = getTriviaStage(session, questionState);
+  if (stage === "wagering") {
+    return NextResponse.json({ error: "The question isn't open yet" }, { status: 409 });
+  }
+  if (stage === "paused") {
+    return NextResponse.json({ error: "The question is paused" }, { status: 409 });
+  }
+  const powerUps = await getPowerUpsSpent(supabase, questionState.id, playerId);
+  const deadline = getAnswerDeadline(
+    questionState.ends_at,
+    powerUps.includes("extra_time") ? EXTRA_TIME_SECONDS : 0
+  );
+  if (stage !== "open" || isPastDeadline(deadline)) {
+    return NextResponse.json({ error: "Time's up — answers are closed" }, { status: 409 });
+  }
+
+  const { data: questions } = await supabase
+    .from("game_questions")
+    .select(
+      "id, question_type, point_weight, answer_tolerance, multi_select_scoring, poll_allows_multiple, pin_target_x, pin_target_y, pin_target_radius, is_wager"
+    )
+    .eq("game_id", session.game_id);
+  const question = questions?.find((q) => q.id === questionState.question_id);
+
+  if (!question) {
+    return NextResponse.json({ error: "No active question" }, { status: 409 });
+  }
+
+  const graded = await gradeAnswer(supabase, question, body);
+  if (graded instanceof NextResponse) return graded;
+
+  const startedAt = questionState.started_at
+    ? new Date(questionState.started_at).getTime()
+    : Date.now();
+  const timeMs = Math.max(0, Date.now() - startedAt);
+  const { isCorrect, credit } = graded;
+
+  const rule = getScoringRule(session.scoring_rule);
+  const basePoints = !isScoredQuestion(question.question_type)
+    ? 0
+    : question.is_wager
+      ? getWagerPoints(await getWager(supabase, questionState.id, playerId), isCorrect)
+      : calculatePoints(
+          rule,
+          {
+            isCorrect,
+            credit,
+            timeMs,
+            timerSeconds: session.timer_seconds,
+            speedBonusEnabled: session.speed_bonus,
+            streak: rule.usesStreak
+              ? await getStreak(supabase, sessionId, playerId, questionState.question_index, questions || [])
+              : 0,
+            isFinalQuestion: questionState.question_index === (questions?.length ?? 0) - 1,
+          },
+          Number(question.point_weight)
+        );
+  const points = applyPowerUps(basePoints, powerUps);
+
+  const { error: insertError } = await supabase.from("session_answers").insert({
+    session_id: sessionId,
+    player_id: playerId,
+    question_id: questionState.question_id,
+    choice_id: graded.choiceId,
+    answer_text: graded.answerText,
+    answer_number: graded.answerNumber,
+    pin_x: graded.pin?.x ?? null,
+    pin_y: graded.pin?.y ?? null,
+    choice_ids: graded.choiceIds,
+    is_correct: isCorrect,
+    time_ms: timeMs,
+    points_awarded: points,
+  });
+
+  if (insertError?.code === UNIQUE_VIOLATION) {
+    return NextResponse.json({ error: "You already answered this question" }, { status: 409 });
+  }
+  if (insertError) throw new Error(insertError.message);
+
+  // On auto-pilot the last answer in closes the question straight away
+  if (session.auto_advance) await advanceTrivia(supabase, sessionId);
+
+  // Correctness is withheld until the reveal; phones read it from session_answers then
+  return NextResponse.json({ success: true });
+}
+
+/** Checks the answer against the current question. Returns what to store, or a 400. */
+async function gradeAnswer(
+  supabase: SB,
+  question: Pick<
+    GameQuestion,
+    | "id"
+    | "question_type"
+    | "answer_tolerance"
+    | "multi_select_scoring"
+    | "poll_allows_multiple"
+    | "pin_target_x"
+    | "pin_target_y"
+    | "pin_target_radius"
+  >,
+  body: AnswerBody
+): Promise<GradedAnswer | NextResponse> {
+  if (question.question_type === "word_cloud") {
+    const text = typeof body.text === "string" ? body.text.trim() : "";
+    if (!text) {
+      return NextResponse.json({ error: "text required" }, { status: 400 });
+    }
+    if (text.length > MAX_ANSWER_LENGTH) {
+      return NextResponse.json({ error: "Answer is too long" }, { status: 400 });
+    }
+    return { isCorrect: false, credit: 0, choiceId: null, answerText: text, answerNumber: null, pin: null, choiceIds: null };
+  }
+
+  if (question.question_type === "poll" && question.poll_allows_multiple) {
+    const { data: options } = await supabase
+      .from("game_question_choices")
+      .select("id")
+      .eq("question_id", question.id);
+
+    const optionIds = (options || []).map((c) => c.id);
+    const picked = Array.isArray(body.choiceIds) ? body.choiceIds : [];
+    const isValid =
+      picked.length > 0 &&
+      new Set(picked).size === picked.length &&
+      picked.every((id) => optionIds.includes(id));
+
+    if (!isValid) {
+      return NextResponse.json({ error: "choiceIds must be options of this poll" }, { status: 400 });
+    }
+    return { isCorrect: false, credit: 0, choiceId: null, answerText: null, answerNumber: null, pin: null, choiceIds: picked };
+  }
+
+  if (question.question_type === "estimate") {
+    const guess = Number(body.number);
+    if (typeof body.number !== "number" || !Number.isFinite(guess)) {
+      return NextResponse.json({ error: "number required" }, { status: 400 });
+    }
+
+    const { data: answer } = await supabase
+      .from("game_question_choices")
+      .select("choice_text")
+      .eq("question_id", question.id)
+      .order("choice_order", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    const trueValue = Number(answer?.choice_text);
+    if (!answer?.choice_text.trim() || !Number.isFinite(trueValue)) {
+      return NextResponse.json({ error: "This question has no answer set" }, { status: 409 });
+    }
+
+    const { credit, isCorrect } = getEstimateGrade(guess, trueValue);
+    return { isCorrect, credit, choiceId: null, answerText: null, answerNumber: guess, pin: null, choiceIds: null };
+  }
+
+  if (question.question_type === "pin") {
+    const x = Number(body.pin?.x);
+    const y = Number(body.pin?.y);
+    const isOnImage = Number.isFinite(x) && Number.isFinite(y) && x >= 0 && x <= 1 && y >= 0 && y <= 1;
+    if (!isOnImage) {
+      return NextResponse.json({ error: "pin must be { x, y } between 0 and 1" }, { status: 400 });
+    }
+    if (question.pin_target_x === null || question.pin_target_y === null || question.pin_target_radius === null) {
+      return NextResponse.json({ error: "This question has no target set" }, { status: 409 });
+    }
+
+    const credit = getPinCredit(
+      { x, y },
+      {
+        x: Number(question.pin_target_x),
+        y: Number(question.pin_target_y),
+        radius: Number(question.pin_target_radius),
+      }
+    );
+    return {
+      isCorrect: credit === 1,
+      credit,
+      choiceId: null,
+      answerText: null,
+      answerNumber: null,
+      pin: { x, y },
+      choiceIds: null,
+    };
+  }
+
+  if (question.question_type === "type_in") {
+    const text = typeof body.text === "string" ? body.text.trim() : "";
+    if (!text) {
+      return NextResponse.json({ error: "text required" }, { status: 400 });
+    }
+    if (text.length > MAX_ANSWER_LENGTH) {
+      return NextResponse.json({ error: "Answer is too long" }, { status: 400 });
+    }
+
+    const { data: accepted } = await supabase
+      .from("game_question_choices")
+      .select("id, choice_text")
+      .eq("question_id", question.id);
+
+    const tolerance = question.answer_tolerance === null ? null : Number(question.answer_tolerance);
+    const match = findMatchingAnswer(text, accepted || [], tolerance);
+    return {
+      isCorrect: !!match,
+      credit: match ? 1 : 0,
+      choiceId: match?.id ?? null,
+      answerText: text,
+      answerNumber: null,
+      pin: null,
+      choiceIds: null,
+    };
+  }
+
+  if (question.question_type === "ordering") {
+    const { data: items } = await supabase
+      .from("game_question_choices")
+      .select("id")
+      .eq("question_id", question.id)
+      .order("choice_order", { ascending: true });
+
+    const correctIds = (items || []).map((c) => c.id);
+    const submitted = Array.isArray(body.choiceIds) ? body.choiceIds : [];
+    const isPermutation =
+      submitted.length === correctIds.length &&
+      new Set(submitted).size === submitted.length &&
+      submitted.every((id) => correctIds.includes(id));
+
+    if (!isPermutation) {
+      return NextResponse.json({ error: "choiceIds must list every item once" }, { status: 400 });
+    }
+
+    const credit = getOrderingCredit(submitted, correctIds);
+    return { isCorrect: credit === 1, credit, choiceId: null, answerText: null, answerNumber: null, pin: null, choiceIds: submitted };
+  }
+
+  if (question.question_type === "multi_select") {
+    const { data: choices } = await supabase
+      .from("game_question_choices")
+      .select("id, is_correct")
+      .eq("question_id", question.id);
+
+    const choiceIds = (choices || []).map((c) => c.id);
+    const picked = Array.isArray(body.choiceIds) ? body.choiceIds : [];
+    const isValid =
+      picked.length > 0 &&
+      new Set(picked).size === picked.length &&
+      picked.every((id) => choiceIds.includes(id));
+
+    if (!isValid) {
+      return NextResponse.json({ error: "choiceIds must be choices of this question" }, { status: 400 });
+    }
+
+    const correctIds = (choices || []).filter((c) => c.is_correct).map((c) => c.id);
+    const credit = getMultiSelectCredit(picked, correctIds, question.multi_select_scoring);
+    return { isCorrect: credit === 1, credit, choiceId: null, answerText: null, answerNumber: null, pin: null, choiceIds: picked };
+  }
+
+  if (!body.choiceId) {
+    return NextResponse.json({ error: "choiceId required" }, { status: 400 });
+  }
+
+  const { data: choice } = await supabase
+    .from("game_question_choices")
+    .select("id, is_correct")
+    .eq("id", body.choiceId)
+    .eq("question_id", question.id)
+    .maybeSingle();
+
+  if (!choice) {
+    return NextResponse.json({ error: "Choice does not belong to this question" }, { status: 400 });
+  }
+
+  return {
+    isCorrect: choice.is_correct,
+    credit: choice.is_correct ? 1 : 0,
+    choiceId: choice.id,
+    answerText: null,
+    answerNumber: null,
+    pin: null,
+    choiceIds: null,
+  };
+}
+
+/** Power-ups the player spent on this question */
+async function getPowerUpsSpent(
+  supabase: SB,
+  questionStateId: string,
+  playerId: string
+): Promise<PowerUpId[]> {
+  const { data: spent } = await supabase
+    .from("session_power_ups")
+    .select("power_up")
+    .eq("question_state_id", questionStateId)
+    .eq("player_id", playerId);
+
+  return (spent || []).map((s) => s.power_up);
+}
+
+/** The player's bet on a wager question — no bet means nothing to win or lose */
+async function getWager(supabase: SB, questionStateId: string, playerId: string): Promise<number> {
+  const { data: wager } = await supabase
+    .from("session_wagers")
+    .select("amount")
+    .eq("question_state_id", questionStateId)
+    .eq("player_id", playerId)
+    .maybeSingle();
+
+  return wager?.amount ?? 0;
+}
+
+/**
+ * Correct answers in a row on the questions before `questionIndex` (a skipped
+ * question breaks it; polls and word clouds are passed over)
+ */
+async function getStreak(
+  supabase: SB,
+  sessionId: string,
+  playerId: string,
+  questionIndex: number,
+  questions: Pick<GameQuestion, "id" | "question_type">[]
+): Promise<number> {
+  const { data: earlier } = await supabase
+    .from("session_question_state")
+    .select("question_id")
+    .eq("session_id", sessionId)
+    .lt("question_index", questionIndex)
+    .order("question_index", { ascending: false });
+
+  const { data: answers } = await supabase
+    .from("session_answers")
+    .select("question_id, is_correct")
+    .eq("session_id", sessionId)
+    .eq("player_id", playerId);
+
+  let streak = 0;
+  for (const { question_id } of earlier || []) {
+    const question = questions.find((q) => q.id === question_id);
+    if (question && !isScoredQuestion(question.question_type)) continue;
+    const answer = answers?.find((a) => a.question_id === question_id);
+    if (!answer?.is_correct) break;
+    streak++;
+  }
+  return streak;
+}
@@ -0,0 +1,314 @@
+/**
+ * Trivia question flow (server-only) — the side effects of the trivia
+ * transitions in lib/session-machine, shared by /api/trivia host actions and
+ * auto-pilot.
+ *
+ * When a session has auto_advance on, the server drives the flow instead of
+ * the host remote: open a wager question once everyone has bet (or after
+ * timer_seconds), lock + show results when the timer runs out or everyone
+ * has answered, show the leaderboard after auto_advance_seconds, then start
+ * the next question (or finish the game).
+ *
+ * There is no background worker — screens and phones call /api/trivia
+ * { action: "advance" } when a deadline passes, and submit_answer and
+ * place_wager call it after every answer and bet. Each call takes at most one step, and every write is
+ * conditional on the state it read, so concurrent callers can't double-step.
+ * Steps are recorded in the action log like host steps, so they can be undone.
+ */
+import { createServiceSupabase } from "@/lib/supabase/server";
+import { isPastDeadline } from "@/lib/answer-window";
+import { canTrivia, getTriviaStage, type TriviaAction } from "@/lib/session-machine";
+import { logStep } from "@/lib/action-log";
+import { isScoredQuestion } from "@/lib/question-types";
+import { getAnswerDeadline } from "@/lib/power-ups";
+import type { Session, SessionQuestionState } from "@/lib/types";
+
+type SB = Awaited<ReturnType<typeof createServiceSupabase>>;
+
+export type AutoAdvanceStep = "results" | "leaderboard" | "question" | "finished";
+
+/** The session and its current question state (null before the first question) */
+export async function loadTriviaState(supabase: SB, sessionId: string) {
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("*")
+    .eq("id", sessionId)
+    .single();
+
+  if (!session) throw new Error("Session not found");
+
+  const { data: questionState } = await supabase
+    .from("session_question_state")
+    .select("*")
+    .eq("session_id", sessionId)
+    .eq("question_index", session.current_question_index)
+    .maybeSingle();
+
+  return {
+    session: session as Session,
+    questionState: (questionState as SessionQuestionState | null) ?? null,
+  };
+}
+
+/** wagering → open: bets are final and the question's timer starts */
+export async function openQuestion(
+  supabase: SB,
+  session: Session,
+  questionState: SessionQuestionState
+): Promise<boolean> {
+  const now = Date.now();
+  const { data: opened } = await supabase
+    .from("session_question_state")
+    .update({
+      is_wagering: false,
+      started_at: new Date(now).toISOString(),
+      ends_at: new Date(now + session.timer_seconds * 1000).toISOString(),
+      advance_at: null,
+    })
+    .eq("id", questionState.id)
+    .eq("is_wagering", true)
+    .select("id");
+
+  return !!opened?.length;
+}
+
+/** open/paused → results. advanceAt is set on auto-pilot, null when the host does it. */
+export async function closeQuestion(
+  supabase: SB,
+  questionState: SessionQuestionState,
+  advanceAt: string | null
+): Promise<boolean> {
+  const { data: locked } = await supabase
+    .from("session_question_state")
+    .update({ is_locked: true, show_results: true, advance_at: advanceAt })
+    .eq("id", questionState.id)
+    .eq("is_locked", false)
+    .select("id");
+
+  if (!locked?.length) return false;
+  await forfeitUnansweredWagers(supabase, questionState);
+  return true;
+}
+
+/** A bet with no answer behind it is lost, the same as a wrong answer */
+async function forfeitUnansweredWagers(supabase: SB, questionState: SessionQuestionState) {
+  const { data: wagers } = await supabase
+    .from("session_wagers")
+    .select("player_id, amount")
+    .eq("question_state_id", questionState.id)
+    .gt("amount", 0);
+
+  if (!wagers?.length) return;
+
+  // Players who answered already won or lost theirs — leave those rows alone
+  const { error } = await supabase.from("session_answers").upsert(
+    wagers.map((w) => ({
+      session_id: questionState.session_id,
+      player_id: w.player_id,
+      question_id: questionState.question_id,
+      is_correct: false,
+      points_awarded: -w.amount,
+    })),
+    { onConflict: "session_id,player_id,question_id", ignoreDuplicates: true }
+  );
+
+  if (error) throw new Error(error.message);
+}
+
+/** results → leaderboard */
+export async function revealLeaderboard(
+  supabase: SB,
+  questionState: SessionQuestionState,
+  advanceAt: string | null
+): Promise<boolean> {
+  const { data: shown } = await supabase
+    .from("session_question_state")
+    .update({ show_results: true, show_leaderboard: true, advance_at: advanceAt })
+    .eq("id", questionState.id)
+    .eq("show_leaderboard", false)
+    .select("id");
+
+  return !!shown?.length;
+}
+
+/** open → paused, keeping the remaining time so resume can restore it */
+export async function pauseQuestion(supabase: SB, questionState: SessionQuestionState) {
+  const remaining = Math.max(
+    0,
+    new Date(questionState.ends_at!).getTime() - Date.now()
+  );
+  await supabase
+    .from("session_question_state")
+    .update({ is_paused: true, paused_remaining_ms: remaining })
+    .eq("id", questionState.id);
+}
+
+/** paused → open */
+export async function resumeQuestion(
+  supabase: SB,
+  session: Session,
+  questionState: SessionQuestionState
+) {
+  const remainingMs = questionState.paused_remaining_ms || 0;
+  const now = Date.now();
+  await supabase
+    .from("session_question_state")
+    .update({
+      is_paused: false,
+      paused_remaining_ms: null,
+      started_at: new Date(now - (session.timer_seconds * 1000 - remainingMs)).toISOString(),
+      ends_at: new Date(now + remainingMs).toISOString(),
+    })
+    .eq("id", questionState.id);
+}
+
+/**
+ * lobby → first question, or leaderboard → next question / finished.
+ * Claims the move by current_question_index so only one caller inserts the
+ * next question state. A wager question starts out wagering, with no timer.
+ */
+export async function startNextQuestion(
+  supabase: SB,
+  session: Session
+): Promise<"question" | "finished" | null> {
+  const { data: questions } = await supabase
+    .from("game_questions")
+    .select("id, question_type, is_wager")
+    .eq("game_id", session.game_id)
+    .order("question_order", { ascending: true });
+
+  const now = Date.now();
+  const nextIndex = session.current_question_index + 1;
+
+  if (!questions || nextIndex >= questions.length) {
+    if (session.status === "lobby") throw new Error("No questions in game");
+    return (await finishGame(supabase, session.id)) ? "finished" : null;
+  }
+
+  const { data: claimed } = await supabase
+    .from("sessions")
+    .update({ status: "playing", current_question_index: nextIndex })
+    .eq("id", session.id)
+    .eq("current_question_index", session.current_question_index)
+    .select("id");
+
+  if (!claimed?.length) return null;
+
+  const next = questions[nextIndex];
+  const isWagering = next.is_wager && isScoredQuestion(next.question_type);
+  const { error: insertError } = await supabase.from("session_question_state").insert({
+    session_id: session.id,
+    question_index: nextIndex,
+    question_id: next.id,
+    is_wagering: isWagering,
+    started_at: isWagering ? null : new Date(now).toISOString(),
+    ends_at: isWagering ? null : new Date(now + session.timer_seconds * 1000).toISOString(),
+    is_paused: false,
+    is_locked: false,
+    show_results: false,
+  });
+
+  if (insertError) throw new Error(insertError.message);
+  return "question";
+}
+
+/** any → finished */
+export async function finishGame(supabase: SB, sessionId: string): Promise<boolean> {
+  const { data: finished } = await supabase
+    .from("sessions")
+    .update({ status: "finished", ended_at: new Date().toISOString() })
+    .eq("id", sessionId)
+    .neq("status", "finished")
+    .select("id");
+
+  return !!finished?.length;
+}
+
+/** Takes the next auto-pilot step if its deadline has passed */
+export async function advanceTrivia(
+  supabase: SB,
+  sessionId: string
+): Promise<AutoAdvanceStep | null> {
+  const { session, questionState } = await loadTriviaState(supabase, sessionId);
+
+  if (!session.auto_advance || !questionState) return null;
+
+  const stage = getTriviaStage(session, questionState);
+  const now = Date.now();
+  const stepEndsAt = new Date(now + session.auto_advance_seconds * 1000).toISOString();
+
+  // Taking bets → open the question once everyone has bet or betting time is up
+  if (stage === "wagering") {
+    const count = await countPlayers(supabase, sessionId);
+    if (!count || questionState.wager_count < count) {
+      if (!questionState.advance_at) {
+        await supabase
+          .from("session_question_state")
+          .update({ advance_at: new Date(now + session.timer_seconds * 1000).toISOString() })
+          .eq("id", questionState.id)
+          .is("advance_at", null);
+        return null;
+      }
+      if (now < new Date(questionState.advance_at).getTime()) return null;
+    }
+
+    return logged(supabase, sessionId, "open_question", async () =>
+      (await openQuestion(supabase, session, questionState)) ? "question" : null
+    );
+  }
+
+  // Question open → lock and reveal (a paused question waits for the host)
+  if (stage === "open") {
+    const deadline = getAnswerDeadline(questionState.ends_at, questionState.extra_seconds);
+    if (!isPastDeadline(deadline, now)) {
+      const count = await countPlayers(supabase, sessionId);
+      if (!count || questionState.answer_count < count) return null;
+    }
+
+    return logged(supabase, sessionId, "close_question", async () =>
+      (await closeQuestion(supabase, questionState, stepEndsAt)) ? "results" : null
+    );
+  }
+
+  if (stage !== "results" && stage !== "leaderboard") return null;
+
+  // The host revealed manually (or just handed over control) — start the countdown now
+  if (!questionState.advance_at) {
+    await supabase
+      .from("session_question_state")
+      .update({ advance_at: stepEndsAt })
+      .eq("id", questionState.id)
+      .is("advance_at", null);
+    return null;
+  }
+
+  if (now < new Date(questionState.advance_at).getTime()) return null;
+
+  if (canTrivia(stage, "show_leaderboard")) {
+    return logged(supabase, sessionId, "show_leaderboard", async () =>
+      (await revealLeaderboard(supabase, questionState, stepEndsAt)) ? "leaderboard" : null
+    );
+  }
+
+  return logged(supabase, sessionId, "next_question", () => startNextQuestion(supabase, session));
+}
+
+async function countPlayers(supabase: SB, sessionId: string): Promise<number> {
+  const { count } = await supabase
+    .from("session_players")
+    .select("id", { count: "exact", head: true })
+    .eq("session_id", sessionId)
+    .eq("is_removed", false);
+
+  return count ?? 0;
+}
+
+/** Records a trivia host or auto-pilot step; the entry is dropped unless the step returns truthy */
+export function logged<T>(
+  supabase: SB,
+  sessionId: string,
+  action: TriviaAction,
+  step: () => Promise<T>
+): Promise<T> {
+  return logStep(supabase, sessionId, "trivia", action, step);
+}
@@ -1,9 +1,32 @@
 export type AgeRange = "teenagers" | "young_adults" | "older_adults" | "mix";
 export type Difficulty = "easy" | "medium" | "hard" | "mix";
 export type SessionStatus = "lobby" | "playing" | "finished";
-export type GameType = "trivia" | "price_is_right";
+export type GameType = "trivia" | "price_is_right" | "higher_or_lower" | "survey_says";
 export type PIRPhase = "guessing" | "price_result" | "pay_the_price" | "leaderboard";
 export type DisplayMode = "tv" | "on_the_go";
+export type HoLPhase = "voting" | "reveal";
+export type HoLVote = "higher" | "lower";
+export type HoLWrongAnswer = "eliminate" | "lose_points";
+export type SurveyPhase = "guessing" | "board";
+export type QuestionType =
+  | "multiple_choice"
+  | "true_false"
+  | "type_in"
+  | "ordering"
+  | "multi_select"
+  | "estimate"
+  | "pin"
+  | "poll"
+  | "word_cloud";
+export type MultiSelectScoring = "all_or_nothing" | "proportional";
+export type MediaType = "image" | "audio" | "video";
+export type ScoringRuleId = "classic" | "streak" | "final_double" | "accuracy_only" | "negative";
+
+export type PowerUpId = "fifty_fifty" | "double_points" | "extra_time";
+
+export type TeamMode = "off" | "auto" | "choose";
+
+export type TeamScoring = "sum" | "average" | "majority";
 
 export interface Profile {
   id: string;
@@ -74,12 +97,17 @@ export interface Game {
   difficulty: Difficulty;
   timer_seconds: number;
   speed_bonus: boolean;
+  scoring_rule: ScoringRuleId;
+  power_ups: PowerUpId[]; // lib/power-ups players may spend, once each per game
   show_percent: boolean;
   round_prices: boolean;
   is_shared: boolean;
   penalty_cheap: string | null;
   penalty_expensive: string | null;
   penalty_margin: number;
+  // Higher or Lower: the That Costs How Much game whose items it plays
+  source_game_id: string | null;
+  hol_wrong_answer: HoLWrongAnswer;
   theme: GameTheme | null;
   created_at: string;
   updated_at: string;
@@ -89,8 +117,22 @@ export interface GameQuestion {
   id: string;
   game_id: string;
   question_order: number;
+  question_type: QuestionType;
   prompt: string;
   explanation: string | null;
+  point_weight: number; // scales whatever the scoring rule awards
+  answer_tolerance: number | null; // type_in only: how far off a numeric answer may be
+  multi_select_scoring: MultiSelectScoring; // multi_select only
+  poll_allows_multiple: boolean; // poll only: pick several options instead of one
+  // pin only: the target region on the question's image, as fractions of its
+  // width and height (null to players until the reveal)
+  pin_target_x: number | null;
+  pin_target_y: number | null;
+  pin_target_radius: number | null;
+  is_wager: boolean; // players bet part of their score before the question opens
+  media_url: string | null;
+  media_type: MediaType | null;
+  media_on_phones: boolean; // otherwise the media only plays on the screen
   created_at: string;
 }
 
@@ -100,6 +142,8 @@ export interface GameQuestionChoice {
   choice_text: string;
   is_correct: boolean;
   choice_order: number;
+  media_url: string | null;
+  media_type: MediaType | null;
 }
 
 export interface Session {
@@ -111,12 +155,27 @@ export interface Session {
   current_question_index: number;
   timer_seconds: number;
   speed_bonus: boolean;
+  scoring_rule: ScoringRuleId;
+  power_ups: PowerUpId[];
+  team_mode: TeamMode; // see lib/teams
+  team_scoring: TeamScoring;
+  auto_advance: boolean;
+  auto_advance_seconds: number;
   // PIR-specific fields
   pir_current_item_id: string | null;
   pir_current_item_order: number;
   pir_item_end_timestamp: string | null;
+  pir_paused_remaining_ms: number | null;
+  pir_closed_at: string | null; // set when the host closes guessing early
   pir_phase: PIRPhase;
   display_mode: DisplayMode;
+  // Higher or Lower: current_question_index is the round
+  hol_phase: HoLPhase;
+  hol_vote_ends_at: string | null;
+  // Survey Says: current_question_index is the round
+  survey_phase: SurveyPhase;
+  survey_ends_at: string | null;
+  playlist_id: string | null; // game-night playlist this game is part of
   created_at: string;
   ended_at: string | null;
 }
@@ -127,10 +186,49 @@ export interface SessionPlayer {
   display_name: string;
   avatar_color: string;
   score: number;
+  team_id: string | null;
+  playlist_player_id: string | null; // see lib/playlists
   is_removed: boolean;
+  token_version: number;
   joined_at: string;
 }
 
+export type PlaylistStatus = "active" | "finished";
+
+export type PlaylistGameStatus = "upcoming" | "playing" | "played" | "skipped";
+
+export interface SessionPlaylist {
+  id: string;
+  host_id: string;
+  name: string;
+  code: string;
+  status: PlaylistStatus;
+  display_mode: DisplayMode;
+  current_session_id: string | null;
+  created_at: string;
+  ended_at: string | null;
+}
+
+export interface PlaylistGame {
+  id: string;
+  playlist_id: string;
+  game_id: string;
+  title: string;
+  game_type: GameType;
+  position: number;
+  status: PlaylistGameStatus;
+  session_id: string | null;
+}
+
+export interface SessionTeam {
+  id: string;
+  session_id: string;
+  name: string;
+  color: string;
+  team_order: number;
+  created_at: string;
+}
+
 export interface SessionQuestionState {
   id: string;
   session_id: string;
@@ -143,6 +241,13 @@ export interface SessionQuestionState {
   is_locked: boolean;
   show_results: boolean;
   show_leaderboard: boolean;
+  answer_count: number;
+  is_wagering: boolean; // wager questions: taking bets, not yet open
+  wager_count: number;
+  extra_seconds: number; // extra time power-ups: answers stay open this long past ends_at
+  advance_at: string | null;
+  media_playing: boolean; // host clip controls — see MediaAction in lib/session-machine
+  media_restarted_at: string | null;
 }
 
 export interface SessionAnswer {
@@ -150,15 +255,39 @@ export interface SessionAnswer {
   session_id: string;
   player_id: string;
   question_id: string;
-  choice_id: string;
+  choice_id: string | null; // for type_in, the accepted answer it matched
+  answer_text: string | null; // type_in and word_cloud only
+  answer_number: number | null; // estimate only
+  pin_x: number | null; // pin only: where the player tapped, as fractions of the image
+  pin_y: number | null;
+  choice_ids: string[] | null; // ordering: the items in the player's order; multi_select and multi-pick polls: the picks
   answered_at: string;
   is_correct: boolean;
   time_ms: number;
   points_awarded: number;
 }
 
+export interface SessionWager {
+  id: string;
+  session_id: string;
+  question_state_id: string;
+  player_id: string;
+  amount: number;
+  created_at: string;
+}
+
+export interface SessionPowerUp {
+  id: string;
+  session_id: string;
+  player_id: string;
+  question_state_id: string; // the question it was spent on
+  power_up: PowerUpId;
+  created_at: string;
+}
+
 // AI generation types
 export interface GeneratedQuestion {
+  questionType?: QuestionType;
   prompt: string;
   choices: { text: string; isCorrect: boolean }[];
   explanation?: string;
@@ -169,6 +298,10 @@ export interface GenerateQuestionsRequest {
   ageRange: AgeRange;
   difficulty: Difficulty;
   count: number;
+  /** How many of `count` should be true/false (default 0) */
+  trueFalseCount?: number;
+  /** Choices per multiple-choice question, 2–6 (default 4) */
+  choiceCount?: number;
 }
 
 export interface GenerateQuestionsResponse {
@@ -183,6 +316,20 @@ export interface GameQuestionWithChoices extends GameQuestion {
   game_question_choices: GameQuestionChoice[];
 }
 
+/**
+ * Question as returned by the get_session_question RPC to phones and screens.
+ * Correctness and explanation are null until the host shows results, and so
+ * is an ordering question's choice_order (its items come shuffled instead).
+ */
+export interface PlayerSafeChoice extends Omit<GameQuestionChoice, "is_correct" | "choice_order"> {
+  is_correct: boolean | null;
+  choice_order: number | null;
+}
+
+export interface PlayerSafeQuestion extends GameQuestion {
+  game_question_choices: PlayerSafeChoice[];
+}
+
 export interface GameWithQuestions extends Game {
   game_questions: GameQuestionWithChoices[];
 }
@@ -200,6 +347,7 @@ export interface PriceIsRightItem {
   price: number; // in cents
   description: string | null;
   difficulty: string;
+  timer_seconds: number | null; // overrides the game timer for this item
   created_at: string;
 }
 
@@ -234,3 +382,86 @@ export interface PIRScoreEntry {
 export interface GameWithItems extends Game {
   price_is_right_items: PriceIsRightItem[];
 }
+
+// ============================================================
+// Higher or Lower Types
+// ============================================================
+
+/** One player's call on one round; written for everyone when the round is revealed */
+export interface HigherLowerVote {
+  id: string;
+  session_id: string;
+  player_id: string;
+  round: number; // compares source item `round` with item `round + 1`
+  vote: HoLVote | null; // null: didn't vote in time
+  is_correct: boolean | null; // null until the reveal
+  streak: number; // correct calls in a row, this one included
+  points_awarded: number;
+  created_at: string;
+}
+
+/** A product as phones and screens see it (get_hol_round) */
+export type HoLRoundItem = Pick<PriceIsRightItem, "id" | "name" | "image" | "price">;
+
+export interface HoLRound {
+  round_count: number;
+  rule: HoLWrongAnswer;
+  show_percent: boolean;
+  /** The product already priced on screen; null outside a round */
+  shown: HoLRoundItem | null;
+  /** The product being called — its id and price stay null until the reveal */
+  next: (Omit<HoLRoundItem, "id" | "price"> & { id: string | null; price: number | null }) | null;
+}
+
+// ============================================================
+// Survey Says Types
+// ============================================================
+
+/** One survey prompt; its ranked answers are survey_answers */
+export interface SurveyQuestion {
+  id: string;
+  game_id: string;
+  question_order: number;
+  prompt: string;
+  created_at: string;
+}
+
+export interface SurveyAnswer {
+  id: string;
+  question_id: string;
+  answer_order: number; // rank on the board, 0 = most popular
+  answer_text: string;
+  aliases: string[]; // other wordings that count as this answer
+  points: number;
+}
+
+/** One typed guess. Matched guesses claim their answer — only the first finder scores it. */
+export interface SurveyGuess {
+  id: string;
+  session_id: string;
+  player_id: string;
+  team_id: string | null; // the player's team when they guessed, for team strikes
+  question_id: string;
+  guess_text: string;
+  answer_id: string | null; // null: a miss, which is a strike
+  points_awarded: number;
+  created_at: string;
+}
+
+/** An answer slot as phones and screens see it (get_survey_board) — text and points stay null until it's found */
+export interface SurveyBoardAnswer {
+  id: string;
+  answer_order: number;
+  answer_text: string | null;
+  points: number | null;
+}
+
+export interface SurveyBoard {
+  round_count: number;
+  /** The current round's prompt and slots; null outside a round */
+  question: {
+    id: string;
+    prompt: string;
+    answers: SurveyBoardAnswer[];
+  } | null;
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClient } from "./supabase/client";
+import { sortHoLItems } from "./higher-lower";
+import type { HoLWrongAnswer, PriceIsRightItem } from "./types";
+
+/**
+ * A Higher or Lower game's rules and the That Costs How Much items it plays,
+ * in play order, priced the way their own game shows them. Host remote only:
+ * it reads the games themselves, so phones and screens use useHoLRound.
+ * Loaded once per game — the items don't change mid-session.
+ */
+export function useHoLGame(gameId: string | null | undefined) {
+  const [items, setItems] = useState<PriceIsRightItem[]>([]);
+  const [rule, setRule] = useState<HoLWrongAnswer>("eliminate");
+  const [showPercent, setShowPercent] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!gameId) return;
+    const supabase = createClient();
+
+    async function load() {
+      const { data: game } = await supabase
+        .from("games")
+        .select("source_game_id, hol_wrong_answer")
+        .eq("id", gameId)
+        .maybeSingle();
+
+      if (game?.hol_wrong_answer) setRule(game.hol_wrong_answer);
+
+      if (game?.source_game_id) {
+        const [{ data: sourceData }, { data: itemsData }] = await Promise.all([
+          supabase.from("games").select("show_percent").eq("id", game.source_game_id).maybeSingle(),
+          supabase.from("price_is_right_items").select("*").eq("game_id", game.source_game_id),
+        ]);
+        setShowPercent(sourceData?.show_percent || false);
+        setItems(sortHoLItems(itemsData || []));
+      }
+
+      setLoaded(true);
+    }
+
+    load();
+  }, [gameId]);
+
+  return { items, rule, showPercent, loaded };
+}
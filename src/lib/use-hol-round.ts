@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClient } from "./supabase/client";
+import type { HoLRound } from "./types";
+
+/**
+ * The current Higher or Lower round as phones and screens may see it, from
+ * get_hol_round(). The called product's id and price come back blank until
+ * the reveal, so the round is refetched whenever `refreshKey` changes — callers
+ * fold in the status, round and phase.
+ */
+export function useHoLRound(sessionId: string | null | undefined, refreshKey: string) {
+  const [round, setRound] = useState<HoLRound | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const supabase = createClient();
+
+    async function load() {
+      const { data } = await supabase.rpc("get_hol_round", { p_session_id: sessionId });
+      if (data) setRound(data as HoLRound);
+    }
+
+    load();
+  }, [sessionId, refreshKey]);
+
+  return round;
+}
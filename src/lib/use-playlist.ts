@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { createClient } from "./supabase/client";
+import { subscribeToPlaylist, unsubscribe } from "./realtime";
+import { getPlaylistStandings, sortPlaylistGames } from "./playlists";
+import type { PlaylistGame, Session, SessionPlayer, SessionPlaylist } from "./types";
+
+/**
+ * A game-night playlist kept live: the playlist, its games in order, each
+ * game's session and the running totals across them. Everything reloads on
+ * any change — a playlist is a handful of rows.
+ */
+export function usePlaylist(playlistId: string | null) {
+  const [playlist, setPlaylist] = useState<SessionPlaylist | null>(null);
+  const [games, setGames] = useState<PlaylistGame[]>([]);
+  const [sessions, setSessions] = useState<Pick<Session, "id" | "status" | "game_id">[]>([]);
+  const [players, setPlayers] = useState<SessionPlayer[]>([]);
+
+  const currentSessionId = playlist?.current_session_id ?? null;
+
+  useEffect(() => {
+    if (!playlistId) return;
+    const supabase = createClient();
+
+    async function load() {
+      const [{ data: playlistData }, { data: gamesData }, { data: sessionsData }] = await Promise.all([
+        supabase.from("session_playlists").select("*").eq("id", playlistId).maybeSingle(),
+        supabase.from("playlist_games").select("*").eq("playlist_id", playlistId),
+        supabase.from("sessions").select("id, status, game_id").eq("playlist_id", playlistId),
+      ]);
+      setPlaylist(playlistData);
+      setGames(gamesData || []);
+      setSessions(sessionsData || []);
+
+      const sessionIds = (sessionsData || []).map((s) => s.id);
+      if (sessionIds.length) {
+        const { data: playersData } = await supabase
+          .from("session_players")
+          .select("*")
+          .in("session_id", sessionIds);
+        setPlayers(playersData || []);
+      }
+    }
+
+    load();
+    const channel = subscribeToPlaylist(playlistId, currentSessionId, () => load());
+    return () => unsubscribe(channel);
+  }, [playlistId, currentSessionId]);
+
+  const orderedGames = useMemo(() => sortPlaylistGames(games), [games]);
+  const standings = useMemo(() => getPlaylistStandings(players), [players]);
+  const currentSession = sessions.find((s) => s.id === currentSessionId) ?? null;
+
+  return { playlist, games: orderedGames, currentSession, standings };
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { createClient } from "./supabase/client";
+import { subscribeToTeams, unsubscribe } from "./realtime";
+import { getTeamStandings } from "./teams";
+import type { Session, SessionPlayer, SessionTeam } from "./types";
+
+/**
+ * A session's teams, kept live, and their standings.
+ *
+ * Team scores come from get_team_scores() so every screen agrees — majority
+ * scoring needs answers players can't read. They're reloaded whenever a
+ * player's score or team changes, or the teams themselves do.
+ */
+export function useSessionTeams(
+  session: Session | null,
+  players: SessionPlayer[],
+  disabled = false
+) {
+  const [teams, setTeams] = useState<SessionTeam[]>([]);
+  const [scores, setScores] = useState<Record<string, number>>({});
+
+  const sessionId = session?.id;
+  const active = !disabled && !!session && session.team_mode !== "off";
+  const scoring = session?.team_scoring;
+
+  useEffect(() => {
+    if (!active || !sessionId) return;
+    const supabase = createClient();
+
+    async function loadTeams() {
+      const { data } = await supabase
+        .from("session_teams")
+        .select("*")
+        .eq("session_id", sessionId)
+        .order("team_order");
+      if (data) setTeams(data as SessionTeam[]);
+    }
+
+    loadTeams();
+    const channel = subscribeToTeams(sessionId, () => loadTeams());
+    return () => unsubscribe(channel);
+  }, [active, sessionId]);
+
+  const scoreKey = players.map((p) => `${p.id}:${p.score}:${p.team_id}`).join(",");
+
+  useEffect(() => {
+    if (!active || !sessionId) return;
+    const supabase = createClient();
+
+    async function loadScores() {
+      const { data } = await supabase.rpc("get_team_scores", { p_session_id: sessionId });
+      const rows = (data || []) as { team_id: string; score: number }[];
+      setScores(Object.fromEntries(rows.map((row) => [row.team_id, row.score])));
+    }
+
+    loadScores();
+  }, [active, sessionId, scoring, teams, scoreKey]);
+
+  const standings = useMemo(
+    () => (active ? getTeamStandings(teams, players, scores) : []),
+    [active, teams, players, scores]
+  );
+
+  // Left as they were when teams are turned off, so hidden instead
+  return { teams: active ? teams : [], standings };
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClient } from "./supabase/client";
+import type { SurveyBoard } from "./types";
+
+/**
+ * The current Survey Says round as phones and screens may see it, from
+ * get_survey_board(). Answers nobody has found come back blank, so the board
+ * is refetched whenever `refreshKey` changes — callers fold in the round,
+ * phase and how many answers have been claimed.
+ */
+export function useSurveyBoard(sessionId: string | null | undefined, refreshKey: string) {
+  const [board, setBoard] = useState<SurveyBoard | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const supabase = createClient();
+
+    async function load() {
+      const { data } = await supabase.rpc("get_survey_board", { p_session_id: sessionId });
+      if (data) setBoard(data as SurveyBoard);
+    }
+
+    load();
+  }, [sessionId, refreshKey]);
+
+  return board;
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect } from "react";
+import { SUBMISSION_GRACE_MS } from "./answer-window";
+import type { Session, SessionQuestionState } from "./types";
+
+/**
+ * Nudges the server when the next auto-pilot deadline passes.
+ *
+ * Every open screen/phone/remote schedules the same call; the server takes
+ * at most one step per deadline, so the extra calls are no-ops. Realtime then
+ * delivers the new state, which schedules the following deadline.
+ */
+export function useTriviaAutoAdvance(
+  session: Session | null,
+  questionState: SessionQuestionState | null,
+  disabled = false
+) {
+  const active =
+    !disabled &&
+    !!session?.auto_advance &&
+    session.status === "playing" &&
+    !!questionState &&
+    !questionState.is_paused;
+
+  // Open questions end at ends_at (+ any extra time and the answer grace);
+  // wagering and each step after the reveal end at advance_at. Without
+  // advance_at, ask the server to set one.
+  const deadline = !active
+    ? null
+    : questionState.is_locked || questionState.is_wagering
+      ? questionState.advance_at
+        ? new Date(questionState.advance_at).getTime()
+        : 0
+      : questionState.ends_at
+        ? new Date(questionState.ends_at).getTime() +
+          questionState.extra_seconds * 1000 +
+          SUBMISSION_GRACE_MS
+        : null;
+
+  const sessionId = session?.id;
+
+  useEffect(() => {
+    if (deadline === null || !sessionId) return;
+
+    const timeout = setTimeout(() => {
+      fetch("/api/trivia", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "advance", sessionId }),
+      }).catch((err) => console.error("Auto-advance failed:", err));
+    }, Math.max(0, deadline - Date.now()) + 250);
+
+    return () => clearTimeout(timeout);
+  }, [deadline, sessionId]);
+}
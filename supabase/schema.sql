@@ -59,6 +59,15 @@ create table if not exists public.games (
   updated_at timestamptz not null default now()
 );
 
+-- One of lib/scoring SCORING_RULES
+alter table public.games add column if not exists
+  scoring_rule text not null default 'classic'
+    check (scoring_rule in ('classic', 'streak', 'final_double', 'accuracy_only', 'negative'));
+-- lib/power-ups players may spend, once each per game
+alter table public.games add column if not exists
+  power_ups text[] not null default '{}'
+    check (power_ups <@ array['fifty_fifty', 'double_points', 'extra_time']);
+
 alter table public.games enable row level security;
 
 create policy "Hosts can read own games"
@@ -89,6 +98,42 @@ create table if not exists public.game_questions (
   created_at timestamptz not null default now()
 );
 
+alter table public.game_questions add column if not exists
+  question_type text not null default 'multiple_choice'
+    check (question_type in ('multiple_choice', 'true_false', 'type_in', 'ordering', 'multi_select', 'estimate', 'pin', 'poll', 'word_cloud'));
+-- Multiplies the points the scoring rule awards for this question
+alter table public.game_questions add column if not exists
+  point_weight numeric not null default 1 check (point_weight > 0);
+-- Type-in only: numeric answers within this distance of an accepted answer count
+alter table public.game_questions add column if not exists
+  answer_tolerance numeric check (answer_tolerance >= 0);
+-- Multi-select only: full marks for exactly the right picks, or a share per
+-- right pick minus wrong ones
+alter table public.game_questions add column if not exists
+  multi_select_scoring text not null default 'all_or_nothing'
+    check (multi_select_scoring in ('all_or_nothing', 'proportional'));
+-- Poll only: players may pick several options
+alter table public.game_questions add column if not exists
+  poll_allows_multiple boolean not null default false;
+-- Pin only: centre and radius of the target region on the question's image,
+-- as fractions of the image's width and height
+alter table public.game_questions add column if not exists
+  pin_target_x numeric check (pin_target_x between 0 and 1);
+alter table public.game_questions add column if not exists
+  pin_target_y numeric check (pin_target_y between 0 and 1);
+alter table public.game_questions add column if not exists
+  pin_target_radius numeric check (pin_target_radius > 0);
+-- Wager round: players bet part of their score before the question opens,
+-- and win or lose exactly that instead of the scoring rule's points
+alter table public.game_questions add column if not exists is_wager boolean not null default false;
+-- Optional image / audio / video (question-media bucket), shown on the screen
+-- and, when media_on_phones, on phones too
+alter table public.game_questions add column if not exists media_url text;
+alter table public.game_questions add column if not exists
+  media_type text check (media_type in ('image', 'audio', 'video'));
+alter table public.game_questions add column if not exists
+  media_on_phones boolean not null default false;
+
 alter table public.game_questions enable row level security;
 
 create policy "Hosts can read own game questions"
@@ -123,7 +168,8 @@ create policy "Hosts can delete own game questions"
     )
   );
 
--- NOTE: "Players can read session questions" policy is created after the sessions table below.
+-- NOTE: players never read this table directly either — its answer columns
+-- (pin targets, explanations) stay hidden behind get_session_question() below.
 
 -- ============================================================
 -- GAME QUESTION CHOICES
@@ -133,9 +179,14 @@ create table if not exists public.game_question_choices (
   question_id uuid not null references public.game_questions(id) on delete cascade,
   choice_text text not null,
   is_correct boolean not null default false,
+  -- On ordering questions this is the correct position
   choice_order int not null default 0
 );
 
+alter table public.game_question_choices add column if not exists media_url text;
+alter table public.game_question_choices add column if not exists
+  media_type text check (media_type in ('image', 'audio', 'video'));
+
 alter table public.game_question_choices enable row level security;
 
 create policy "Hosts can read own choices"
@@ -182,7 +233,8 @@ create policy "Hosts can delete own choices"
     )
   );
 
--- NOTE: "Players can read session choices" policy is created after the sessions table below.
+-- NOTE: players never read this table directly — see get_session_question() below,
+-- which hides is_correct until the question's results are shown.
 
 -- ============================================================
 -- SESSIONS (live run of a game)
@@ -200,6 +252,18 @@ create table if not exists public.sessions (
   ended_at timestamptz
 );
 
+alter table public.sessions add column if not exists scoring_rule text not null default 'classic';
+alter table public.sessions add column if not exists power_ups text[] not null default '{}';
+-- Team mode (lib/teams): how players get onto teams, and how a team's
+-- score is worked out from its members'
+alter table public.sessions add column if not exists
+  team_mode text not null default 'off' check (team_mode in ('off', 'auto', 'choose'));
+alter table public.sessions add column if not exists
+  team_scoring text not null default 'sum' check (team_scoring in ('sum', 'average', 'majority'));
+-- Auto-pilot: the server locks, reveals and advances trivia questions itself
+alter table public.sessions add column if not exists auto_advance boolean not null default false;
+alter table public.sessions add column if not exists auto_advance_seconds int not null default 5;
+
 create unique index if not exists sessions_active_code_idx
   on public.sessions (code) where status != 'finished';
 
@@ -227,26 +291,60 @@ create policy "Anyone can read session by code"
 -- DEFERRED POLICIES (depend on sessions table existing)
 -- ============================================================
 
--- Players can read questions for active sessions they're in
-create policy "Players can read session questions"
-  on public.game_questions for select
+-- Players and screens load questions through get_session_question() instead,
+-- which withholds the answer columns until the reveal
+drop policy if exists "Players can read session questions" on public.game_questions;
+
+-- Choices are NOT directly readable by players: is_correct would leak the answer.
+drop policy if exists "Players can read session choices" on public.game_question_choices;
+
+-- ============================================================
+-- SESSION TEAMS
+-- ============================================================
+-- Set up by the host in the lobby. Team scores aren't stored: they're
+-- worked out from the members' answers by get_team_scores() (see lib/teams).
+create table if not exists public.session_teams (
+  id uuid primary key default uuid_generate_v4(),
+  session_id uuid not null references public.sessions(id) on delete cascade,
+  name text not null,
+  color text not null,
+  team_order int not null default 0,
+  created_at timestamptz not null default now()
+);
+
+alter table public.session_teams enable row level security;
+
+create policy "Anyone can read session teams"
+  on public.session_teams for select
+  using (true);
+
+create policy "Hosts can insert session teams"
+  on public.session_teams for insert
+  with check (
+    exists (
+      select 1 from public.sessions
+      where sessions.id = session_teams.session_id
+        and sessions.host_id = auth.uid()
+    )
+  );
+
+create policy "Hosts can update session teams"
+  on public.session_teams for update
   using (
     exists (
-      select 1 from public.sessions s
-      where s.game_id = game_questions.game_id
-        and s.status in ('lobby', 'playing', 'finished')
+      select 1 from public.sessions
+      where sessions.id = session_teams.session_id
+        and sessions.host_id = auth.uid()
     )
   );
 
--- Players can read choices for active sessions
-create policy "Players can read session choices"
-  on public.game_question_choices for select
+create policy "Hosts can delete session teams"
+  on public.session_teams for delete
   using (
     exists (
-      select 1 from public.game_questions gq
-      join public.sessions s on s.game_id = gq.game_id
-      where gq.id = game_question_choices.question_id
-        and s.status in ('lobby', 'playing', 'finished')
+      select 1 from public.sessions
+      where sessions.id = session_teams.session_id
+        and sessions.host_id = auth.uid()
     )
   );
 
@@ -263,6 +361,12 @@ create table if not exists public.session_players (
   joined_at timestamptz not null default now()
 );
 
+-- Team mode only; players pick through /api/players, hosts assign directly
+alter table public.session_players add column if not exists
+  team_id uuid references public.session_teams(id) on delete set null;
+-- bumped when the host re-issues a player's token, invalidating the old one
+alter table public.session_players add column if not exists token_version int not null default 0;
+
 alter table public.session_players enable row level security;
 
 -- Anyone can read session players
@@ -270,16 +374,13 @@ create policy "Anyone can read session players"
   on public.session_players for select
   using (true);
 
--- Anyone can join (insert) a session
-create policy "Anyone can join session"
-  on public.session_players for insert
-  with check (
-    exists (
-      select 1 from public.sessions
-      where sessions.id = session_players.session_id
-        and sessions.status = 'lobby'
-    )
-  );
+-- Players join through /api/players, which inserts with the service role and
+-- issues the signed player token used for answers and guesses
+drop policy if exists "Anyone can join session" on public.session_players;
+
+-- Superseded by signed player tokens
+drop function if exists public.join_session(uuid, text, text);
+drop table if exists public.session_player_secrets;
 
 -- Hosts can update players (kick)
 create policy "Hosts can update session players"
@@ -310,6 +411,23 @@ create table if not exists public.session_question_state (
   unique(session_id, question_index)
 );
 
+alter table public.session_question_state add column if not exists
+  answer_count int not null default 0;
+-- Wager questions start out taking bets, with no timer, until the host opens them
+alter table public.session_question_state add column if not exists
+  is_wagering boolean not null default false;
+alter table public.session_question_state add column if not exists
+  wager_count int not null default 0;
+-- Extra time power-ups keep answers open this many seconds past ends_at
+alter table public.session_question_state add column if not exists
+  extra_seconds int not null default 0;
+-- Auto-pilot: when the wagering/results/leaderboard step moves on
+alter table public.session_question_state add column if not exists advance_at timestamptz;
+-- The host's clip controls for the question's audio/video on the screen
+alter table public.session_question_state add column if not exists
+  media_playing boolean not null default false;
+alter table public.session_question_state add column if not exists media_restarted_at timestamptz;
+
 alter table public.session_question_state enable row level security;
 
 create policy "Anyone can read question state"
@@ -352,34 +470,531 @@ create table if not exists public.session_answers (
   unique(session_id, player_id, question_id)
 );
 
+-- Type-in answers store the text, and the accepted answer it matched (if any);
+-- word-cloud answers just the text
+alter table public.session_answers alter column choice_id drop not null;
+alter table public.session_answers add column if not exists answer_text text;
+-- Estimate answers store the number guessed
+alter table public.session_answers add column if not exists answer_number numeric;
+-- Pin answers store where the player tapped, as fractions of the image
+alter table public.session_answers add column if not exists pin_x numeric;
+alter table public.session_answers add column if not exists pin_y numeric;
+-- Ordering answers store the items in the order the player put them;
+-- multi-select answers (and multi-pick poll votes) store every choice picked
+alter table public.session_answers add column if not exists choice_ids uuid[];
+
 alter table public.session_answers enable row level security;
 
--- Anyone can read answers (for results display)
-create policy "Anyone can read session answers"
+-- Answers reveal correctness, so they are only readable by the host while a
+-- question is live and by everyone once its results are shown. Poll and
+-- word-cloud answers have no correctness, so screens can chart them live.
+drop policy if exists "Anyone can read session answers" on public.session_answers;
+
+create policy "Hosts can read session answers"
+  on public.session_answers for select
+  using (
+    exists (
+      select 1 from public.sessions
+      where sessions.id = session_answers.session_id
+        and sessions.host_id = auth.uid()
+    )
+  );
+
+create policy "Anyone can read revealed answers"
+  on public.session_answers for select
+  using (
+    exists (
+      select 1 from public.session_question_state qs
+      where qs.session_id = session_answers.session_id
+        and qs.question_id = session_answers.question_id
+        and qs.show_results
+    )
+  );
+
+-- Definer, since players and screens can't read game_questions themselves
+create or replace function public.is_unscored_question(p_question_id uuid)
+returns boolean as $$
+  select exists (
+    select 1 from public.game_questions
+    where id = p_question_id
+      and question_type in ('poll', 'word_cloud')
+  );
+$$ language sql stable security definer;
+
+create policy "Anyone can read poll answers"
   on public.session_answers for select
+  using (public.is_unscored_question(session_answers.question_id));
+
+-- No insert policy: answers are graded and written by /api/trivia with the
+-- service role, so players cannot award themselves points.
+drop policy if exists "Anyone can submit answers" on public.session_answers;
+
+-- ============================================================
+-- SESSION WAGERS
+-- ============================================================
+-- One bet per player on a wager question, placed while it's wagering. Tied to
+-- the question state, so undoing or rewinding past the question clears them.
+create table if not exists public.session_wagers (
+  id uuid primary key default uuid_generate_v4(),
+  session_id uuid not null references public.sessions(id) on delete cascade,
+  question_state_id uuid not null references public.session_question_state(id) on delete cascade,
+  player_id uuid not null references public.session_players(id) on delete cascade,
+  amount int not null check (amount >= 0),
+  created_at timestamptz not null default now(),
+  unique(question_state_id, player_id)
+);
+
+alter table public.session_wagers enable row level security;
+
+create policy "Hosts can read session wagers"
+  on public.session_wagers for select
+  using (
+    exists (
+      select 1 from public.sessions
+      where sessions.id = session_wagers.session_id
+        and sessions.host_id = auth.uid()
+    )
+  );
+
+-- Bets stay secret until the answer is revealed
+create policy "Anyone can read revealed wagers"
+  on public.session_wagers for select
+  using (
+    exists (
+      select 1 from public.session_question_state qs
+      where qs.id = session_wagers.question_state_id
+        and qs.show_results
+    )
+  );
+
+-- No insert policy: /api/trivia checks each bet against the player's score
+-- and writes it with the service role.
+
+-- ============================================================
+-- SESSION POWER-UPS
+-- ============================================================
+-- Each player spends each of the game's power-ups at most once. Uses are
+-- public so the screen can announce them; they hold nothing secret (a 50/50's
+-- removed choices go back to that player's phone only).
+create table if not exists public.session_power_ups (
+  id uuid primary key default uuid_generate_v4(),
+  session_id uuid not null references public.sessions(id) on delete cascade,
+  player_id uuid not null references public.session_players(id) on delete cascade,
+  question_state_id uuid not null references public.session_question_state(id) on delete cascade,
+  power_up text not null check (power_up in ('fifty_fifty', 'double_points', 'extra_time')),
+  created_at timestamptz not null default now(),
+  unique(session_id, player_id, power_up)
+);
+
+alter table public.session_power_ups enable row level security;
+
+create policy "Anyone can read power-up uses"
+  on public.session_power_ups for select
   using (true);
 
--- Players can submit answers
-create policy "Anyone can submit answers"
-  on public.session_answers for insert
-  with check (
+-- No insert policy: /api/trivia checks each use and writes it with the service role.
+
+-- ============================================================
+-- SESSION ACTION LOG (undo / rewind)
+-- ============================================================
+-- One row per host or auto-pilot step, holding a snapshot of the session
+-- from just before it. Written by the API with the service role.
+create table if not exists public.session_action_log (
+  id uuid primary key default uuid_generate_v4(),
+  session_id uuid not null references public.sessions(id) on delete cascade,
+  action text not null,
+  question_index int not null, -- item/question the session was on before the step
+  snapshot jsonb not null,
+  created_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists session_action_log_session_idx
+  on public.session_action_log (session_id, created_at);
+
+alter table public.session_action_log enable row level security;
+
+create policy "Hosts can read own action log"
+  on public.session_action_log for select
+  using (
     exists (
       select 1 from public.sessions
-      where sessions.id = session_answers.session_id
-        and sessions.status = 'playing'
+      where sessions.id = session_action_log.session_id
+        and sessions.host_id = auth.uid()
     )
   );
 
+-- ============================================================
+-- GAME-NIGHT PLAYLISTS
+-- ============================================================
+-- Several games run back-to-back under one join code. Each game is still its
+-- own sessions row (one at a time, so the active-code index holds); the
+-- playlist points at the current one and /api/playlists carries the players
+-- over when the host moves on (see lib/playlists).
+create table if not exists public.session_playlists (
+  id uuid primary key default uuid_generate_v4(),
+  host_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null default 'Game Night',
+  code text not null,
+  status text not null default 'active' check (status in ('active', 'finished')),
+  current_session_id uuid references public.sessions(id) on delete set null,
+  created_at timestamptz not null default now(),
+  ended_at timestamptz
+);
+
+alter table public.session_playlists enable row level security;
+
+-- Phones and screens follow the playlist to each new game
+create policy "Anyone can read playlists"
+  on public.session_playlists for select
+  using (true);
+
+create table if not exists public.playlist_games (
+  id uuid primary key default uuid_generate_v4(),
+  playlist_id uuid not null references public.session_playlists(id) on delete cascade,
+  game_id uuid not null references public.games(id) on delete cascade,
+  -- Copied from the game when the playlist starts: screens and phones can't read games
+  title text not null,
+  game_type text not null,
+  position int not null,
+  status text not null default 'upcoming' check (status in ('upcoming', 'playing', 'played', 'skipped')),
+  session_id uuid references public.sessions(id) on delete set null
+);
+
+alter table public.playlist_games enable row level security;
+
+create policy "Anyone can read playlist games"
+  on public.playlist_games for select
+  using (true);
+
+-- No insert/update policies: /api/playlists writes both tables with the service role.
+
+-- Picked when the night starts; every game's session opens on it
+alter table public.session_playlists add column if not exists
+  display_mode text not null default 'tv' check (display_mode in ('tv', 'on_the_go'));
+
+alter table public.sessions add column if not exists
+  playlist_id uuid references public.session_playlists(id) on delete set null;
+-- A carried-over player's row in the first game they played on the playlist,
+-- so scores add up across games. Null for that first row itself.
+alter table public.session_players add column if not exists playlist_player_id uuid;
+
 -- ============================================================
 -- AUTO-UPDATE PLAYER SCORES (trigger runs as definer, bypasses RLS)
 -- ============================================================
+-- Scores are public and pushed over realtime, so an answer only counts once
+-- its question's results are shown — otherwise a player's score would give
+-- away whether they were right before the reveal.
+create or replace function public.get_revealed_score(p_player_id uuid)
+returns int as $$
+  select coalesce(sum(a.points_awarded), 0)::int
+  from public.session_answers a
+  join public.session_question_state qs
+    on qs.session_id = a.session_id
+   and qs.question_id = a.question_id
+  where a.player_id = p_player_id
+    and qs.show_results;
+$$ language sql stable security definer;
+
 create or replace function public.update_player_score()
 returns trigger as $$
+begin
+  update public.session_players
+  set score = public.get_revealed_score(NEW.player_id)
+  where id = NEW.player_id;
+  return NEW;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_answer_inserted on public.session_answers;
+create trigger on_answer_inserted
+  after insert on public.session_answers
+  for each row execute function public.update_player_score();
+
+-- Showing (or, on undo, hiding) a question's results rescores the session
+create or replace function public.update_session_scores()
+returns trigger as $$
+begin
+  update public.session_players
+  set score = public.get_revealed_score(id)
+  where session_id = NEW.session_id;
+  return NEW;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_results_shown on public.session_question_state;
+create trigger on_results_shown
+  after update of show_results on public.session_question_state
+  for each row
+  when (OLD.show_results is distinct from NEW.show_results)
+  execute function public.update_session_scores();
+
+-- Every team's score by sessions.team_scoring (lib/teams), worked out here so
+-- the screen, remote and phones agree: majority scoring needs every member's
+-- answer, which players can't read. Trivia answers only count once their
+-- question's results are shown, same as player scores.
+create or replace function public.get_team_scores(p_session_id uuid)
+returns table (team_id uuid, score int) as $$
+#variable_conflict use_column
+declare
+  v_scoring text;
+  v_game_type text;
+begin
+  select s.team_scoring, g.game_type into v_scoring, v_game_type
+  from public.sessions s
+  join public.games g on g.id = s.game_id
+  where s.id = p_session_id;
+
+  if v_scoring = 'majority' and v_game_type = 'price_is_right' then
+    -- A price is never a vote between a few options: each item scores the
+    -- team's middle guess (the lower one of an even count)
+    return query
+      with ranked as (
+        select p.team_id, g.score_awarded,
+          row_number() over (partition by p.team_id, g.item_id order by g.guess) as rn,
+          count(*) over (partition by p.team_id, g.item_id) as n
+        from public.price_guesses g
+        join public.session_players p on p.id = g.player_id
+        where g.session_id = p_session_id
+          and p.team_id is not null
+          and not p.is_removed
+      ),
+      totals as (
+        select team_id, sum(score_awarded) as score
+        from ranked
+        where rn = (n + 1) / 2
+        group by team_id
+      )
+      select t.id, coalesce(totals.score, 0)::int
+      from public.session_teams t
+      left join totals on totals.team_id = t.id
+      where t.session_id = p_session_id;
+  elsif v_scoring = 'majority' and v_game_type = 'trivia' then
+    return query
+      with answers as (
+        select p.team_id, a.question_id, a.points_awarded, a.answered_at,
+          -- The same answer: type-in text ignoring case, multi-picks in any order
+          coalesce(
+            (select string_agg(c::text, ',' order by c::text) from unnest(a.choice_ids) c),
+            a.choice_id::text,
+            lower(trim(a.answer_text)),
+            a.answer_number::text,
+            a.pin_x::text || ',' || a.pin_y::text
+          ) as answer_key
+        from public.session_answers a
+        join public.session_players p on p.id = a.player_id
+        join public.session_question_state qs
+          on qs.session_id = a.session_id
+         and qs.question_id = a.question_id
+        where a.session_id = p_session_id
+          and qs.show_results
+          and p.team_id is not null
+          and not p.is_removed
+      ),
+      -- The answer most of the team gave; ties go to the answer given first
+      majorities as (
+        select distinct on (team_id, question_id)
+          team_id, question_id, count(*) as voters, round(avg(points_awarded)) as points
+        from answers
+        group by team_id, question_id, answer_key
+        order by team_id, question_id, count(*) desc, min(answered_at)
+      ),
+      -- When nobody agrees, the team's middle result
+      medians as (
+        select team_id, question_id, points_awarded as points
+        from (
+          select team_id, question_id, points_awarded,
+            row_number() over (partition by team_id, question_id order by points_awarded) as rn,
+            count(*) over (partition by team_id, question_id) as n
+          from answers
+        ) ranked
+        where rn = (n + 1) / 2
+      ),
+      totals as (
+        select m.team_id, sum(case when m.voters > 1 then m.points else md.points end) as score
+        from majorities m
+        join medians md on md.team_id = m.team_id and md.question_id = m.question_id
+        group by m.team_id
+      )
+      select t.id, coalesce(totals.score, 0)::int
+      from public.session_teams t
+      left join totals on totals.team_id = t.id
+      where t.session_id = p_session_id;
+  else
+    return query
+      select t.id, coalesce(
+        case when v_scoring = 'average' then round(avg(p.score)) else sum(p.score) end, 0
+      )::int
+      from public.session_teams t
+      left join public.session_players p on p.team_id = t.id and not p.is_removed
+      where t.session_id = p_session_id
+      group by t.id;
+  end if;
+end;
+$$ language plpgsql stable security definer;
+
+grant execute on function public.get_team_scores(uuid) to anon, authenticated;
+
+-- Live "answers in" counter, since screens can't read answers until the reveal
+create or replace function public.increment_answer_count()
+returns trigger as $$
+begin
+  update public.session_question_state
+  set answer_count = answer_count + 1
+  where session_id = NEW.session_id
+    and question_id = NEW.question_id;
+  return NEW;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_answer_counted on public.session_answers;
+create trigger on_answer_counted
+  after insert on public.session_answers
+  for each row execute function public.increment_answer_count();
+
+-- Live "wagers in" counter; changing a bet updates the row, so it isn't counted twice
+create or replace function public.increment_wager_count()
+returns trigger as $$
+begin
+  update public.session_question_state
+  set wager_count = wager_count + 1
+  where id = NEW.question_state_id;
+  return NEW;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_wager_counted on public.session_wagers;
+create trigger on_wager_counted
+  after insert on public.session_wagers
+  for each row execute function public.increment_wager_count();
+
+-- ============================================================
+-- PLAYER-SAFE QUESTION PROJECTION
+-- ============================================================
+-- Returns a started question with its choices for phones and screens.
+-- is_correct and explanation are null until show_results is true (type-in
+-- and estimate questions return no choices until then, pin questions no target, and ordering questions return their
+-- items shuffled with no choice_order; poll options are never correct), and
+-- questions that haven't been reached in this session are not returned.
+-- While a wager question is taking bets its prompt, media and choices are
+-- withheld too — players bet knowing only that it's the wager round.
+create or replace function public.get_session_question(p_session_id uuid, p_question_id uuid)
+returns json as $$
+  select json_build_object(
+    'id', q.id,
+    'game_id', q.game_id,
+    'question_order', q.question_order,
+    'question_type', q.question_type,
+    'prompt', case when qs.is_wagering then '' else q.prompt end,
+    'point_weight', q.point_weight,
+    'answer_tolerance', q.answer_tolerance,
+    'multi_select_scoring', q.multi_select_scoring,
+    'poll_allows_multiple', q.poll_allows_multiple,
+    'pin_target_x', case when qs.show_results then q.pin_target_x end,
+    'pin_target_y', case when qs.show_results then q.pin_target_y end,
+    'pin_target_radius', case when qs.show_results then q.pin_target_radius end,
+    'is_wager', q.is_wager,
+    'media_url', case when not qs.is_wagering then q.media_url end,
+    'media_type', case when not qs.is_wagering then q.media_type end,
+    'media_on_phones', q.media_on_phones,
+    'explanation', case when qs.show_results then q.explanation end,
+    'created_at', q.created_at,
+    'game_question_choices', coalesce((
+      select json_agg(json_build_object(
+        'id', c.id,
+        'question_id', c.question_id,
+        'choice_text', c.choice_text,
+        'choice_order', case when q.question_type <> 'ordering' or qs.show_results then c.choice_order end,
+        'is_correct', case when qs.show_results then c.is_correct end,
+        'media_url', c.media_url,
+        'media_type', c.media_type
+      ) order by
+        -- Same shuffle for every phone in the session, but not the answer
+        case when q.question_type = 'ordering' and not qs.show_results then md5(c.id::text || qs.id::text) end,
+        c.choice_order)
+      from public.game_question_choices c
+      where c.question_id = q.id
+        -- A type-in question's choices are its accepted answers, and an
+        -- estimate question's one choice is the true number
+        and (q.question_type not in ('type_in', 'estimate') or qs.show_results)
+        and not qs.is_wagering
+    ), '[]'::json)
+  )
+  from public.session_question_state qs
+  join public.game_questions q on q.id = qs.question_id
+  where qs.session_id = p_session_id
+    and qs.question_id = p_question_id;
+$$ language sql stable security definer;
+
+grant execute on function public.get_session_question(uuid, uuid) to anon, authenticated;
+
+-- How many questions a session's game has, for screens' "Question N of M"
+create or replace function public.get_session_question_count(p_session_id uuid)
+returns int as $$
+  select count(*)::int
+  from public.game_questions q
+  join public.sessions s on s.game_id = q.game_id
+  where s.id = p_session_id;
+$$ language sql stable security definer;
+
+grant execute on function public.get_session_question_count(uuid) to anon, authenticated;
+
+-- ============================================================
+-- THAT COSTS HOW MUCH — timer columns added after the PIR tables
+-- ============================================================
+-- Time left on a paused item; null while the clock is running
+alter table public.sessions add column if not exists pir_paused_remaining_ms int;
+-- When the host closed guessing early; guesses after it are refused with no
+-- grace period. Null while the item's own timer governs.
+alter table public.sessions add column if not exists pir_closed_at timestamptz;
+-- Optional per-item timer; null falls back to the game's timer_seconds
+alter table public.price_is_right_items add column if not exists timer_seconds int;
+
+-- ============================================================
+-- HIGHER OR LOWER
+-- ============================================================
+-- Plays the items of an existing That Costs How Much game in order: each
+-- round shows item n with its price, then item n + 1, and players call its
+-- price higher or lower (see lib/higher-lower).
+alter table public.games add column if not exists
+  source_game_id uuid references public.games(id) on delete set null;
+alter table public.games add column if not exists
+  hol_wrong_answer text not null default 'eliminate'
+  check (hol_wrong_answer in ('eliminate', 'lose_points'));
+
+-- The round is sessions.current_question_index
+alter table public.sessions add column if not exists
+  hol_phase text not null default 'voting' check (hol_phase in ('voting', 'reveal'));
+alter table public.sessions add column if not exists hol_vote_ends_at timestamptz;
+
+create table if not exists public.higher_lower_votes (
+  id uuid primary key default uuid_generate_v4(),
+  session_id uuid not null references public.sessions(id) on delete cascade,
+  player_id uuid not null references public.session_players(id) on delete cascade,
+  round int not null,
+  vote text check (vote in ('higher', 'lower')), -- null: didn't vote in time
+  is_correct boolean, -- null until the reveal
+  streak int not null default 0,
+  points_awarded int not null default 0,
+  created_at timestamptz not null default now(),
+  unique(session_id, player_id, round)
+);
+
+alter table public.higher_lower_votes enable row level security;
+
+-- Votes hold nothing secret: the prices are on the screen once revealed
+create policy "Anyone can read higher-or-lower votes"
+  on public.higher_lower_votes for select
+  using (true);
+
+-- No insert/update policies: /api/hol writes votes with the service role.
+
+create or replace function public.update_player_hol_score()
+returns trigger as $$
 begin
   update public.session_players
   set score = (
     select coalesce(sum(points_awarded), 0)
-    from public.session_answers
+    from public.higher_lower_votes
     where player_id = NEW.player_id
       and session_id = NEW.session_id
   )
@@ -388,10 +1003,329 @@ begin
 end;
 $$ language plpgsql security definer;
 
-drop trigger if exists on_answer_inserted on public.session_answers;
-create trigger on_answer_inserted
-  after insert on public.session_answers
-  for each row execute function public.update_player_score();
+-- Votes are scored by updating them at the reveal
+drop trigger if exists on_hol_vote_scored on public.higher_lower_votes;
+create trigger on_hol_vote_scored
+  after insert or update of points_awarded on public.higher_lower_votes
+  for each row execute function public.update_player_hol_score();
+
+-- Returns the current round for phones and screens, which can't read the
+-- games themselves: the item on screen with its price, and the one being
+-- called, whose price stays null until the host reveals it. Item rows can be
+-- read without logging in (a That Costs How Much phone loads its current item
+-- directly), so the called item's id also stays null until the reveal —
+-- otherwise a phone could look its price up. round_count and the game's rules
+-- are always returned, so the lobby can show them.
+create or replace function public.get_hol_round(p_session_id uuid)
+returns json as $$
+  with game as (
+    select s.current_question_index as round, s.status, s.hol_phase,
+      g.source_game_id, g.hol_wrong_answer
+    from public.sessions s
+    join public.games g on g.id = s.game_id
+    where s.id = p_session_id
+  ),
+  items as (
+    select i.id, i.name, i.image, i.price,
+      row_number() over (order by i.item_order, i.id) - 1 as position
+    from public.price_is_right_items i
+    join game on i.game_id = game.source_game_id
+  )
+  select json_build_object(
+    'round_count', greatest((select count(*) from items) - 1, 0),
+    'rule', game.hol_wrong_answer,
+    'show_percent', coalesce((select show_percent from public.games where id = game.source_game_id), false),
+    'shown', (
+      select json_build_object('id', id, 'name', name, 'image', image, 'price', price)
+      from items
+      where position = game.round and game.status = 'playing'
+    ),
+    'next', (
+      select json_build_object(
+        'id', case when game.hol_phase = 'reveal' then id end,
+        'name', name,
+        'image', image,
+        'price', case when game.hol_phase = 'reveal' then price end
+      )
+      from items
+      where position = game.round + 1 and game.status = 'playing'
+    )
+  )
+  from game;
+$$ language sql stable security definer;
+
+grant execute on function public.get_hol_round(uuid) to anon, authenticated;
+
+-- ============================================================
+-- SURVEY SAYS
+-- ============================================================
+-- Each round is a survey prompt with ranked popular answers. Players type
+-- guesses; /api/survey matches them to the board (see lib/survey-says), and
+-- the first player to find an answer claims its points. A miss is a strike —
+-- three and that player (or, in team mode, team) is done for the round.
+create table if not exists public.survey_questions (
+  id uuid primary key default uuid_generate_v4(),
+  game_id uuid not null references public.games(id) on delete cascade,
+  question_order int not null default 0,
+  prompt text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.survey_questions enable row level security;
+
+create policy "Hosts can read own survey questions"
+  on public.survey_questions for select
+  using (
+    exists (
+      select 1 from public.games where games.id = survey_questions.game_id and games.host_id = auth.uid()
+    )
+  );
+
+create policy "Hosts can insert own survey questions"
+  on public.survey_questions for insert
+  with check (
+    exists (
+      select 1 from public.games where games.id = survey_questions.game_id and games.host_id = auth.uid()
+    )
+  );
+
+create policy "Hosts can update own survey questions"
+  on public.survey_questions for update
+  using (
+    exists (
+      select 1 from public.games where games.id = survey_questions.game_id and games.host_id = auth.uid()
+    )
+  );
+
+create policy "Hosts can delete own survey questions"
+  on public.survey_questions for delete
+  using (
+    exists (
+      select 1 from public.games where games.id = survey_questions.game_id and games.host_id = auth.uid()
+    )
+  );
+
+create table if not exists public.survey_answers (
+  id uuid primary key default uuid_generate_v4(),
+  question_id uuid not null references public.survey_questions(id) on delete cascade,
+  -- Rank on the board, 0 = most popular
+  answer_order int not null default 0,
+  answer_text text not null,
+  -- Other wordings that count as this answer
+  aliases text[] not null default '{}',
+  points int not null default 0 check (points >= 0)
+);
+
+alter table public.survey_answers enable row level security;
+
+create policy "Hosts can read own survey answers"
+  on public.survey_answers for select
+  using (
+    exists (
+      select 1 from public.survey_questions sq
+      join public.games g on g.id = sq.game_id
+      where sq.id = survey_answers.question_id
+        and g.host_id = auth.uid()
+    )
+  );
+
+create policy "Hosts can insert own survey answers"
+  on public.survey_answers for insert
+  with check (
+    exists (
+      select 1 from public.survey_questions sq
+      join public.games g on g.id = sq.game_id
+      where sq.id = survey_answers.question_id
+        and g.host_id = auth.uid()
+    )
+  );
+
+create policy "Hosts can update own survey answers"
+  on public.survey_answers for update
+  using (
+    exists (
+      select 1 from public.survey_questions sq
+      join public.games g on g.id = sq.game_id
+      where sq.id = survey_answers.question_id
+        and g.host_id = auth.uid()
+    )
+  );
+
+create policy "Hosts can delete own survey answers"
+  on public.survey_answers for delete
+  using (
+    exists (
+      select 1 from public.survey_questions sq
+      join public.games g on g.id = sq.game_id
+      where sq.id = survey_answers.question_id
+        and g.host_id = auth.uid()
+    )
+  );
+
+-- NOTE: players never read survey_answers directly — see get_survey_board() below.
+
+-- The round is sessions.current_question_index
+alter table public.sessions add column if not exists
+  survey_phase text not null default 'guessing' check (survey_phase in ('guessing', 'board'));
+alter table public.sessions add column if not exists survey_ends_at timestamptz;
+
+create table if not exists public.survey_guesses (
+  id uuid primary key default uuid_generate_v4(),
+  session_id uuid not null references public.sessions(id) on delete cascade,
+  player_id uuid not null references public.session_players(id) on delete cascade,
+  -- The player's team when they guessed; team mode shares strikes
+  team_id uuid references public.session_teams(id) on delete set null,
+  question_id uuid not null references public.survey_questions(id) on delete cascade,
+  guess_text text not null,
+  answer_id uuid references public.survey_answers(id) on delete cascade, -- null: a strike
+  points_awarded int not null default 0,
+  created_at timestamptz not null default now()
+);
+
+-- Only the first player to find an answer claims it, however close the race
+create unique index if not exists survey_guesses_claimed_answer
+  on public.survey_guesses(session_id, answer_id)
+  where answer_id is not null;
+
+-- Three strikes (lib/survey-says SURVEY_MAX_STRIKES) and the player, or team
+-- in team mode, is done for the round, however close their last misses land:
+-- misses for one player or team take turns on a lock, so each counts the ones
+-- before it.
+create or replace function public.enforce_survey_strikes()
+returns trigger as $$
+declare
+  v_by_team boolean;
+  v_strikes int;
+begin
+  if NEW.answer_id is not null then
+    return NEW;
+  end if;
+
+  -- Same key as lib/survey-says getStrikeKey
+  select team_mode <> 'off' and NEW.team_id is not null into v_by_team
+  from public.sessions
+  where id = NEW.session_id;
+
+  perform pg_advisory_xact_lock(hashtext(
+    NEW.question_id::text || ':' ||
+    (case when v_by_team then NEW.team_id else NEW.player_id end)::text
+  ));
+
+  select count(*) into v_strikes
+  from public.survey_guesses
+  where session_id = NEW.session_id
+    and question_id = NEW.question_id
+    and answer_id is null
+    and case when v_by_team then team_id = NEW.team_id else player_id = NEW.player_id end;
+
+  if v_strikes >= 3 then
+    raise exception 'Out of strikes for this round' using errcode = 'check_violation';
+  end if;
+  return NEW;
+end;
+$$ language plpgsql;
+
+drop trigger if exists on_survey_strike on public.survey_guesses;
+create trigger on_survey_strike
+  before insert on public.survey_guesses
+  for each row execute function public.enforce_survey_strikes();
+
+alter table public.survey_guesses enable row level security;
+
+-- Guesses hold nothing secret: a found answer flips on the board as it's claimed
+create policy "Anyone can read survey guesses"
+  on public.survey_guesses for select
+  using (true);
+
+-- No insert/update policies: /api/survey writes guesses with the service role.
+
+create or replace function public.update_player_survey_score()
+returns trigger as $$
+begin
+  update public.session_players
+  set score = (
+    select coalesce(sum(points_awarded), 0)
+    from public.survey_guesses
+    where player_id = NEW.player_id
+      and session_id = NEW.session_id
+  )
+  where id = NEW.player_id;
+  return NEW;
+end;
+$$ language plpgsql security definer;
+
+drop trigger if exists on_survey_guess_scored on public.survey_guesses;
+create trigger on_survey_guess_scored
+  after insert on public.survey_guesses
+  for each row execute function public.update_player_survey_score();
+
+-- Returns the current round's board for phones and screens: every answer slot
+-- in rank order, with answer_text and points null until someone finds it or
+-- the host reveals the board. round_count is always returned, so the lobby
+-- can say how many rounds there are.
+create or replace function public.get_survey_board(p_session_id uuid)
+returns json as $$
+  select json_build_object(
+    'round_count', (select count(*) from public.survey_questions where game_id = s.game_id),
+    'question', (
+      select json_build_object(
+        'id', q.id,
+        'prompt', q.prompt,
+        'answers', coalesce((
+          select json_agg(json_build_object(
+            'id', a.id,
+            'answer_order', a.answer_order,
+            'answer_text', case when shown then a.answer_text end,
+            'points', case when shown then a.points end
+          ) order by a.answer_order)
+          from public.survey_answers a
+          cross join lateral (
+            select s.survey_phase = 'board' or exists (
+              select 1 from public.survey_guesses g
+              where g.session_id = s.id and g.answer_id = a.id
+            ) as shown
+          ) found
+          where a.question_id = q.id
+        ), '[]'::json)
+      )
+      from public.survey_questions q
+      where q.game_id = s.game_id
+        and s.status = 'playing'
+      order by q.question_order
+      offset greatest(s.current_question_index, 0)
+      limit 1
+    )
+  )
+  from public.sessions s
+  where s.id = p_session_id;
+$$ language sql stable security definer;
+
+grant execute on function public.get_survey_board(uuid) to anon, authenticated;
+
+-- ============================================================
+-- QUESTION MEDIA STORAGE
+-- ============================================================
+-- Public bucket for trivia question / choice media. Hosts upload under a
+-- folder named after their user id.
+insert into storage.buckets (id, name, public)
+values ('question-media', 'question-media', true)
+on conflict (id) do nothing;
+
+create policy "Hosts can upload question media"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'question-media'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Hosts can delete own question media"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'question-media'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
 
 -- ============================================================
 -- Enable realtime on key tables
@@ -400,3 +1334,9 @@ alter publication supabase_realtime add table public.sessions;
 alter publication supabase_realtime add table public.session_players;
 alter publication supabase_realtime add table public.session_question_state;
 alter publication supabase_realtime add table public.session_answers;
+alter publication supabase_realtime add table public.session_power_ups;
+alter publication supabase_realtime add table public.session_teams;
+alter publication supabase_realtime add table public.session_playlists;
+alter publication supabase_realtime add table public.playlist_games;
+alter publication supabase_realtime add table public.higher_lower_votes;
+alter publication supabase_realtime add table public.survey_guesses;